@@ -10,6 +10,8 @@ declare_id!("BDghy1111111111111111111111111111111111111");
 pub const MAX_GAME_ID_LEN: usize = 32;
 pub const MAX_PLAYERS: usize = 10;
 pub const MINIMUM_GAME_TIME: i64 = 60; // 1 minute minimum before winner can be declared
+pub const MAX_PAYOUT_RECIPIENTS: usize = MAX_PLAYERS;
+pub const BPS_DENOMINATOR: u64 = 10_000;
 
 // Account size calculation:
 // discriminator: 8
@@ -88,6 +90,12 @@ pub enum BattleDinghyError {
     GameNotPaused,
     #[msg("Game not filled")]
     GameNotFilled,
+    #[msg("Payout shares must be non-zero and sum to 10000 bps, one per recipient")]
+    InvalidPayoutShares,
+    #[msg("Recipient listed more than once")]
+    DuplicateRecipient,
+    #[msg("Recipient accounts do not match the declared recipients")]
+    RecipientAccountMismatch,
 }
 
 // =============================================================================
@@ -278,6 +286,85 @@ pub mod battle_dinghy {
         Ok(())
     }
 
+    /// Declare placed recipients and split the pot by basis-point shares.
+    /// Recipient accounts are passed as remaining accounts, in the same order
+    /// as `recipients`. The first recipient is recorded as the winner and
+    /// receives any rounding dust.
+    pub fn declare_winners<'info>(
+        ctx: Context<'_, '_, '_, 'info, DeclareWinners<'info>>,
+        recipients: Vec<Pubkey>,
+        shares_bps: Vec<u16>,
+        proof_hash: [u8; 32],
+    ) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        let clock = Clock::get()?;
+
+        // Validations
+        require!(escrow.status == GameStatus::Active, BattleDinghyError::GameNotActive);
+        require!(ctx.accounts.operator.key() == escrow.operator, BattleDinghyError::UnauthorizedOperator);
+        require!(
+            !recipients.is_empty()
+                && recipients.len() <= MAX_PAYOUT_RECIPIENTS
+                && recipients.len() == shares_bps.len(),
+            BattleDinghyError::InvalidPayoutShares
+        );
+        require!(
+            shares_bps.iter().all(|bps| *bps > 0)
+                && shares_bps.iter().map(|bps| *bps as u64).sum::<u64>() == BPS_DENOMINATOR,
+            BattleDinghyError::InvalidPayoutShares
+        );
+        for (i, recipient) in recipients.iter().enumerate() {
+            require!(escrow.players.contains(recipient), BattleDinghyError::WinnerNotPlayer);
+            require!(!recipients[..i].contains(recipient), BattleDinghyError::DuplicateRecipient);
+        }
+        require!(
+            ctx.remaining_accounts.len() == recipients.len()
+                && ctx
+                    .remaining_accounts
+                    .iter()
+                    .zip(recipients.iter())
+                    .all(|(account, recipient)| account.key() == *recipient && account.is_writable),
+            BattleDinghyError::RecipientAccountMismatch
+        );
+
+        // Check minimum game time has passed
+        if let Some(started_at) = escrow.started_at {
+            require!(
+                clock.unix_timestamp >= started_at + MINIMUM_GAME_TIME,
+                BattleDinghyError::TooEarlyForWinner
+            );
+        }
+
+        // Update state before moving funds
+        escrow.winner = Some(recipients[0]);
+        escrow.proof_hash = Some(proof_hash);
+        escrow.status = GameStatus::Complete;
+
+        // Split all lamports above rent across recipients
+        let escrow_info = escrow.to_account_info();
+        let rent = Rent::get()?;
+        let rent_exempt = rent.minimum_balance(ESCROW_SIZE);
+        let transfer_amount = escrow_info.lamports().saturating_sub(rent_exempt);
+
+        let amounts: Vec<u64> = shares_bps
+            .iter()
+            .map(|bps| (transfer_amount as u128 * *bps as u128 / BPS_DENOMINATOR as u128) as u64)
+            .collect();
+        let dust = transfer_amount - amounts.iter().sum::<u64>();
+
+        for (i, account) in ctx.remaining_accounts.iter().enumerate() {
+            let amount = if i == 0 { amounts[i] + dust } else { amounts[i] };
+            if amount > 0 {
+                **escrow_info.try_borrow_mut_lamports()? -= amount;
+                **account.try_borrow_mut_lamports()? += amount;
+            }
+            msg!("Placement {}: {} receives {} lamports", i + 1, recipients[i], amount);
+        }
+
+        msg!("Game {} complete! Winner: {}", escrow.game_id, recipients[0]);
+        Ok(())
+    }
+
     /// Cancel a game (only if Open, or Filled+deadline passed, or Paused)
     pub fn cancel_game(ctx: Context<CancelGame>) -> Result<()> {
         let escrow = &mut ctx.accounts.escrow;
@@ -423,6 +510,20 @@ pub struct DeclareWinner<'info> {
     pub winner: AccountInfo<'info>,
 }
 
+#[derive(Accounts)]
+pub struct DeclareWinners<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.game_id.as_bytes()],
+        bump = escrow.bump,
+    )]
+    pub escrow: Account<'info, GameEscrow>,
+
+    #[account(mut)]
+    pub operator: Signer<'info>,
+    // Recipient accounts follow as writable remaining accounts, in order
+}
+
 #[derive(Accounts)]
 pub struct CancelGame<'info> {
     #[account(
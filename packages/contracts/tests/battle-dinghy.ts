@@ -641,6 +641,137 @@ describe("battle-dinghy", () => {
     });
   });
 
+  // =============================================================================
+  // Declare Winners (Tiered Payout) Tests
+  // =============================================================================
+
+  describe("declare_winners", () => {
+    const setupActiveGame = async (playerCount: number) => {
+      const gameId = generateGameId();
+      const [escrowPda] = getEscrowPda(gameId);
+
+      await program.methods
+        .createGame(gameId, new anchor.BN(BUY_IN), playerCount, new anchor.BN(FILL_DEADLINE_HOURS), generateSeed())
+        .accounts({
+          escrow: escrowPda,
+          operator: provider.wallet.publicKey,
+          systemProgram: anchor.web3.SystemProgram.programId,
+        })
+        .rpc();
+
+      const players = await createTestPlayers(playerCount);
+      for (const player of players) {
+        await program.methods
+          .joinGame()
+          .accounts({
+            escrow: escrowPda,
+            player: player.publicKey,
+            systemProgram: anchor.web3.SystemProgram.programId,
+          })
+          .signers([player])
+          .rpc();
+      }
+
+      await program.methods
+        .startGame()
+        .accounts({
+          escrow: escrowPda,
+          operator: provider.wallet.publicKey,
+        })
+        .rpc();
+
+      await sleep(1500);
+      return { escrowPda, players };
+    };
+
+    const recipientAccounts = (recipients: Keypair[]) =>
+      recipients.map((r) => ({ pubkey: r.publicKey, isWritable: true, isSigner: false }));
+
+    it("splits the pot 70/20/10 by placement", async () => {
+      const { escrowPda, players } = await setupActiveGame(3);
+      const proofHash = new Array(32).fill(0);
+      const balancesBefore = await Promise.all(
+        players.map((p) => provider.connection.getBalance(p.publicKey))
+      );
+
+      await program.methods
+        .declareWinners(players.map((p) => p.publicKey), [7000, 2000, 1000], proofHash)
+        .accounts({
+          escrow: escrowPda,
+          operator: provider.wallet.publicKey,
+        })
+        .remainingAccounts(recipientAccounts(players))
+        .rpc();
+
+      const escrow = await program.account.gameEscrow.fetch(escrowPda);
+      expect(escrow.status).to.deep.equal({ complete: {} });
+      expect(escrow.winner?.toString()).to.equal(players[0].publicKey.toString());
+
+      const gains = await Promise.all(
+        players.map(async (p, i) => (await provider.connection.getBalance(p.publicKey)) - balancesBefore[i])
+      );
+      const pot = 3 * BUY_IN;
+      expect(gains[0]).to.be.at.least(Math.floor(pot * 0.7));
+      expect(gains[1]).to.equal(Math.floor(pot * 0.2));
+      expect(gains[2]).to.equal(Math.floor(pot * 0.1));
+    });
+
+    it("rejects shares that do not sum to 10000 bps", async () => {
+      const { escrowPda, players } = await setupActiveGame(2);
+
+      try {
+        await program.methods
+          .declareWinners(players.map((p) => p.publicKey), [7000, 2000], new Array(32).fill(0))
+          .accounts({
+            escrow: escrowPda,
+            operator: provider.wallet.publicKey,
+          })
+          .remainingAccounts(recipientAccounts(players))
+          .rpc();
+        expect.fail("Should have thrown error");
+      } catch (err: any) {
+        expect(err.error.errorCode.code).to.equal("InvalidPayoutShares");
+      }
+    });
+
+    it("rejects duplicate recipients", async () => {
+      const { escrowPda, players } = await setupActiveGame(2);
+      const doubled = [players[0], players[0]];
+
+      try {
+        await program.methods
+          .declareWinners(doubled.map((p) => p.publicKey), [5000, 5000], new Array(32).fill(0))
+          .accounts({
+            escrow: escrowPda,
+            operator: provider.wallet.publicKey,
+          })
+          .remainingAccounts(recipientAccounts(doubled))
+          .rpc();
+        expect.fail("Should have thrown error");
+      } catch (err: any) {
+        expect(err.error.errorCode.code).to.equal("DuplicateRecipient");
+      }
+    });
+
+    it("rejects recipient accounts out of order", async () => {
+      const { escrowPda, players } = await setupActiveGame(2);
+
+      try {
+        await program.methods
+          .declareWinners(players.map((p) => p.publicKey), [7000, 3000], new Array(32).fill(0))
+          .accounts({
+            escrow: escrowPda,
+            operator: provider.wallet.publicKey,
+          })
+          .remainingAccounts(recipientAccounts([...players].reverse()))
+          .rpc();
+        expect.fail("Should have thrown error");
+      } catch (err: any) {
+        expect(err.error.errorCode.code).to.equal("RecipientAccountMismatch");
+      }
+    });
+  });
+
   // =============================================================================
   // Cancel & Refund Tests
   // =============================================================================
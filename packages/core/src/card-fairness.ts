@@ -0,0 +1,414 @@
+// Battle Dinghy - Card Fairness Analyzer
+//
+// The card generator picks each ship uniformly from getAllValidPlacements in
+// fleet order. This module enumerates every fleet layout the generator can
+// produce, works out how long each layout survives under a shot model, and
+// checks that the cards dealt in a game sit within a fairness band.
+//
+// Shot model: every shot lands on cell c independently with probability
+// cellWeights[c] / sum(cellWeights), as the `standard` shot strategy does.
+// With uniform weights every layout is equally survivable by symmetry, so
+// the analysis is only interesting with measured weights (for example the
+// observed frequency of each ORE winning square).
+//
+// Re-rolls are deterministic: an out-of-band card is regenerated from a
+// secondary seed derived from the game seed and the attempt number, so any
+// party can reproduce the dealt cards from (gameSeed, players, analysis).
+
+import { createHash } from 'crypto';
+import {
+  CellIndex,
+  DEFAULT_RULES,
+  DEFAULT_SHOT_SCHEDULE,
+  GameRules,
+  Ship,
+  ShotSchedule,
+  getShotsForRound,
+  getTotalCells,
+  validateRules,
+} from './types.js';
+import {
+  GeneratedCard,
+  generateCard,
+  getAllValidPlacements,
+  getShipCells,
+} from './card-generator.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Shot model used to score layouts
+ */
+export interface ShotModel {
+  /** Relative chance of each cell being shot; uniform when omitted */
+  readonly cellWeights?: readonly number[];
+  readonly schedule?: ShotSchedule;
+}
+
+/**
+ * One fleet layout and how likely the generator is to deal it
+ */
+export interface FleetLayout {
+  /** Ship cells in fleet order, e.g. "0-1-2|10-15|24" */
+  readonly key: string;
+  readonly ships: readonly Ship[];
+  /** Probability the card generator produces this layout */
+  readonly probability: number;
+}
+
+/**
+ * Survival of a set of ship cells under a shot model
+ */
+export interface SurvivalEstimate {
+  /** Expected number of rounds started with the ships still afloat */
+  readonly expectedRounds: number;
+  /** Probability of still being afloat after the last scheduled round */
+  readonly survivalRate: number;
+}
+
+export interface LayoutSurvival extends FleetLayout, SurvivalEstimate {}
+
+/**
+ * Survival of every layout the generator can deal
+ */
+export interface CardFairnessAnalysis {
+  readonly rules: GameRules;
+  readonly schedule: ShotSchedule;
+  /** Normalized per-cell shot probabilities */
+  readonly cellProbabilities: readonly number[];
+  readonly layouts: readonly LayoutSurvival[];
+  /** Expected rounds of a generated card (weighted by layout probability) */
+  readonly meanExpectedRounds: number;
+  readonly minExpectedRounds: number;
+  readonly maxExpectedRounds: number;
+}
+
+/**
+ * Fairness of one dealt card
+ */
+export interface CardFairness {
+  readonly playerId: string;
+  readonly expectedRounds: number;
+  /** expectedRounds / analysis.meanExpectedRounds */
+  readonly relativeSurvival: number;
+  readonly withinBand: boolean;
+  /** Re-rolls used to deal this card (0 = the card from generateCard) */
+  readonly rerolls: number;
+}
+
+/**
+ * Fairness of every card dealt in a game
+ */
+export interface GameCardFairness {
+  /** True if every card is within the band */
+  readonly fair: boolean;
+  readonly tolerance: number;
+  readonly cards: readonly CardFairness[];
+}
+
+/**
+ * Options for dealing cards within a fairness band
+ */
+export interface FairDealOptions {
+  /** Allowed relative deviation from the mean, e.g. 0.05 for +/-5% */
+  readonly tolerance: number;
+  /** Re-roll attempts per card before keeping the closest card (default 8) */
+  readonly maxRerolls?: number;
+}
+
+/** Enumeration stops with an error beyond this many layouts */
+export const MAX_ENUMERATED_LAYOUTS = 250_000;
+
+const DEFAULT_MAX_REROLLS = 8;
+
+// =============================================================================
+// Layout Enumeration
+// =============================================================================
+
+/**
+ * Enumerate every fleet layout the card generator can produce, with the
+ * probability of each. Ships are placed in fleet order exactly as
+ * generateCard does, so the probabilities sum to 1.
+ *
+ * @throws Error if the ruleset is invalid or has too many layouts
+ */
+export function enumerateFleetLayouts(
+  rules: GameRules = DEFAULT_RULES,
+  maxLayouts: number = MAX_ENUMERATED_LAYOUTS
+): FleetLayout[] {
+  validateRules(rules);
+
+  const layouts = new Map<string, { ships: Ship[]; probability: number }>();
+
+  const place = (depth: number, ships: Ship[], occupied: Set<CellIndex>, probability: number) => {
+    if (depth === rules.fleet.length) {
+      const key = layoutKey(ships);
+      const existing = layouts.get(key);
+      if (existing) {
+        // Single-cell ships are listed once per direction
+        existing.probability += probability;
+      } else {
+        if (layouts.size >= maxLayouts) {
+          throw new Error(`Ruleset has more than ${maxLayouts} fleet layouts`);
+        }
+        layouts.set(key, { ships: [...ships], probability });
+      }
+      return;
+    }
+
+    const size = rules.fleet[depth];
+    const placements = getAllValidPlacements(size, occupied, rules);
+    for (const placement of placements) {
+      const cells = getShipCells(placement, rules)!;
+      const next = new Set(occupied);
+      for (const cell of cells) next.add(cell);
+      place(depth + 1, [...ships, { size, cells }], next, probability / placements.length);
+    }
+  };
+
+  place(0, [], new Set(), 1);
+
+  return Array.from(layouts, ([key, { ships, probability }]) => ({ key, ships, probability }));
+}
+
+function layoutKey(ships: readonly Ship[]): string {
+  return ships.map(ship => ship.cells.join('-')).join('|');
+}
+
+// =============================================================================
+// Survival
+// =============================================================================
+
+/**
+ * Normalize shot weights into per-cell probabilities.
+ * @throws Error if the weights do not cover the board or are not positive
+ */
+export function normalizeCellWeights(rules: GameRules, weights?: readonly number[]): number[] {
+  const totalCells = getTotalCells(rules);
+  if (!weights) {
+    return new Array<number>(totalCells).fill(1 / totalCells);
+  }
+
+  if (weights.length !== totalCells) {
+    throw new Error(`Expected ${totalCells} cell weights, got ${weights.length}`);
+  }
+  if (weights.some(w => !Number.isFinite(w) || w < 0)) {
+    throw new Error('Cell weights must be non-negative numbers');
+  }
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) {
+    throw new Error('Cell weights must not all be zero');
+  }
+  return weights.map(w => w / total);
+}
+
+/**
+ * Survival of a set of ship cells that is eliminated once `threshold` of
+ * them have been hit.
+ *
+ * With independent shots, the chance that no cell outside A has been hit
+ * after k shots is (1 - p(L \ A))^k, and inclusion-exclusion over the
+ * subsets A of the ship cells L gives the chance that fewer than `threshold`
+ * distinct cells have been hit.
+ */
+export function estimateSurvival(
+  cells: readonly CellIndex[],
+  threshold: number,
+  cellProbabilities: readonly number[],
+  schedule: ShotSchedule = DEFAULT_SHOT_SCHEDULE
+): SurvivalEstimate {
+  const n = cells.length;
+  const subsets = 1 << n;
+
+  // Probability a shot misses every cell outside each subset, and the
+  // inclusion-exclusion coefficient for the subset's size
+  const missOutside: number[] = [];
+  const coefficient: number[] = [];
+  const coefficientBySize = Array.from({ length: n + 1 }, (_, a) => {
+    let c = 0;
+    for (let h = a; h < threshold; h++) {
+      c += binomial(n - a, h - a) * ((h - a) % 2 === 0 ? 1 : -1);
+    }
+    return c;
+  });
+
+  for (let mask = 0; mask < subsets; mask++) {
+    let outside = 0;
+    let size = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) {
+        size++;
+      } else {
+        outside += cellProbabilities[cells[i]];
+      }
+    }
+    missOutside.push(1 - outside);
+    coefficient.push(coefficientBySize[size]);
+  }
+
+  // Chance of being afloat is sum(coefficient * missOutside^shots); keep the
+  // powers as running products rather than recomputing them each round
+  const powers = new Array<number>(subsets).fill(1);
+  const alive = () => {
+    let p = 0;
+    for (let mask = 0; mask < subsets; mask++) {
+      p += coefficient[mask] * powers[mask];
+    }
+    return Math.min(Math.max(p, 0), 1);
+  };
+
+  const factorsByShots = new Map<number, number[]>();
+  let expectedRounds = 0;
+  for (let round = 1; round <= schedule.maxRounds; round++) {
+    expectedRounds += alive();
+    const shots = getShotsForRound(schedule, round);
+    let factors = factorsByShots.get(shots);
+    if (!factors) {
+      factors = missOutside.map(miss => Math.pow(miss, shots));
+      factorsByShots.set(shots, factors);
+    }
+    for (let mask = 0; mask < subsets; mask++) {
+      powers[mask] *= factors[mask];
+    }
+  }
+
+  return { expectedRounds, survivalRate: alive() };
+}
+
+function binomial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+}
+
+/**
+ * Score every layout the generator can deal under a shot model.
+ * @throws Error if the ruleset or shot weights are invalid
+ */
+export function analyzeCardFairness(
+  rules: GameRules = DEFAULT_RULES,
+  model: ShotModel = {}
+): CardFairnessAnalysis {
+  const schedule = model.schedule ?? DEFAULT_SHOT_SCHEDULE;
+  const cellProbabilities = normalizeCellWeights(rules, model.cellWeights);
+  const survivalCache = new Map<string, SurvivalEstimate>();
+
+  const layouts = enumerateFleetLayouts(rules).map((layout): LayoutSurvival => {
+    // Survival only depends on the shot probabilities of the ship cells
+    const cells = layout.ships.flatMap(ship => ship.cells);
+    const cacheKey = cells.map(cell => cellProbabilities[cell]).sort((a, b) => a - b).join(',');
+    let survival = survivalCache.get(cacheKey);
+    if (!survival) {
+      survival = estimateSurvival(cells, rules.eliminationThreshold, cellProbabilities, schedule);
+      survivalCache.set(cacheKey, survival);
+    }
+    return { ...layout, ...survival };
+  });
+
+  const expected = layouts.map(l => l.expectedRounds);
+
+  return {
+    rules,
+    schedule,
+    cellProbabilities,
+    layouts,
+    meanExpectedRounds: layouts.reduce((sum, l) => sum + l.probability * l.expectedRounds, 0),
+    minExpectedRounds: Math.min(...expected),
+    maxExpectedRounds: Math.max(...expected),
+  };
+}
+
+// =============================================================================
+// Game Checks
+// =============================================================================
+
+function scoreCard(
+  card: GeneratedCard,
+  analysis: CardFairnessAnalysis,
+  tolerance: number,
+  rerolls: number
+): CardFairness {
+  const { expectedRounds } = estimateSurvival(
+    card.allCells,
+    analysis.rules.eliminationThreshold,
+    analysis.cellProbabilities,
+    analysis.schedule
+  );
+  const relativeSurvival = expectedRounds / analysis.meanExpectedRounds;
+
+  return {
+    playerId: card.playerId,
+    expectedRounds,
+    relativeSurvival,
+    withinBand: Math.abs(relativeSurvival - 1) <= tolerance,
+    rerolls,
+  };
+}
+
+/**
+ * Check that every card dealt in a game (e.g. from generateAllCards) is
+ * within `tolerance` of the mean expected survival.
+ */
+export function checkCardFairness(
+  cards: ReadonlyMap<string, GeneratedCard>,
+  analysis: CardFairnessAnalysis,
+  tolerance: number
+): GameCardFairness {
+  const scored = Array.from(cards.values(), card => scoreCard(card, analysis, tolerance, 0));
+  return { fair: scored.every(c => c.withinBand), tolerance, cards: scored };
+}
+
+/**
+ * Derive the secondary seed for a re-roll attempt (attempt >= 1).
+ */
+export function deriveRerollSeed(gameSeed: Uint8Array, attempt: number): Uint8Array {
+  const hash = createHash('sha256');
+  hash.update(gameSeed);
+  hash.update(`card-reroll-${attempt}`);
+  return new Uint8Array(hash.digest());
+}
+
+/**
+ * Deal cards like generateAllCards, re-rolling any card outside the band
+ * from deriveRerollSeed(gameSeed, attempt). If no attempt lands in the band
+ * the closest card is kept and reported as out of band.
+ *
+ * DETERMINISM: the same gameSeed, players, analysis and options always deal
+ * the same cards.
+ */
+export function generateFairCards(
+  gameSeed: Uint8Array,
+  players: readonly string[],
+  analysis: CardFairnessAnalysis,
+  options: FairDealOptions
+): { cards: Map<string, GeneratedCard>; fairness: GameCardFairness } {
+  const maxRerolls = options.maxRerolls ?? DEFAULT_MAX_REROLLS;
+  const cards = new Map<string, GeneratedCard>();
+  const scored: CardFairness[] = [];
+
+  for (let i = 0; i < players.length; i++) {
+    let best = generateCard(gameSeed, players[i], i, analysis.rules);
+    let bestScore = scoreCard(best, analysis, options.tolerance, 0);
+
+    for (let attempt = 1; attempt <= maxRerolls && !bestScore.withinBand; attempt++) {
+      const card = generateCard(deriveRerollSeed(gameSeed, attempt), players[i], i, analysis.rules);
+      const score = scoreCard(card, analysis, options.tolerance, attempt);
+      if (Math.abs(score.relativeSurvival - 1) < Math.abs(bestScore.relativeSurvival - 1)) {
+        best = card;
+        bestScore = score;
+      }
+    }
+
+    cards.set(players[i], best);
+    scored.push(bestScore);
+  }
+
+  return {
+    cards,
+    fairness: { fair: scored.every(c => c.withinBand), tolerance: options.tolerance, cards: scored },
+  };
+}
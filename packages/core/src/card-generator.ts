@@ -11,7 +11,8 @@
 // We achieve determinism by:
 // - Using SHA256 to derive player-specific seeds
 // - Using a seeded PRNG (xorshift128+) for all randomness
-// - Processing ship placements in a fixed order (size 3, 2, 1)
+// - Processing ship placements in the fixed fleet order of the ruleset
+//   (size 3, 2, 1 for the default rules)
 
 import { createHash } from 'crypto';
 import {
@@ -20,12 +21,11 @@ import {
   ShipPlacement,
   ShipSize,
   PlacementDirection,
-  GRID_SIZE,
-  TOTAL_CELLS,
-  SHIP_SIZES,
-  createCellIndex,
-  cellToPosition,
-  positionToCell,
+  GameRules,
+  DEFAULT_RULES,
+  getTotalCells,
+  cellToBoardPosition,
+  boardPositionToCell,
 } from './types.js';
 
 // =============================================================================
@@ -155,10 +155,14 @@ export function derivePlayerSeed(
  * Gets all cells occupied by a ship given its placement.
  *
  * @param placement - The ship placement specification
+ * @param rules - Board geometry (defaults to the 5x5 ruleset)
  * @returns Array of cell indices the ship occupies, or null if invalid
  */
-export function getShipCells(placement: ShipPlacement): CellIndex[] | null {
-  const startPos = cellToPosition(placement.startCell);
+export function getShipCells(
+  placement: ShipPlacement,
+  rules: GameRules = DEFAULT_RULES
+): CellIndex[] | null {
+  const startPos = cellToBoardPosition(placement.startCell, rules);
   const cells: CellIndex[] = [];
 
   for (let i = 0; i < placement.size; i++) {
@@ -172,11 +176,11 @@ export function getShipCells(placement: ShipPlacement): CellIndex[] | null {
     }
 
     // Check bounds
-    if (row < 0 || row >= GRID_SIZE || col < 0 || col >= GRID_SIZE) {
+    if (row < 0 || row >= rules.gridHeight || col < 0 || col >= rules.gridWidth) {
       return null;
     }
 
-    cells.push(positionToCell({ row, col }));
+    cells.push(boardPositionToCell({ row, col }, rules));
   }
 
   return cells;
@@ -187,21 +191,24 @@ export function getShipCells(placement: ShipPlacement): CellIndex[] | null {
  *
  * @param size - Size of ship to place
  * @param occupiedCells - Set of cells already occupied by other ships
+ * @param rules - Board geometry (defaults to the 5x5 ruleset)
  * @returns Array of all valid placements
  */
 export function getAllValidPlacements(
   size: ShipSize,
-  occupiedCells: Set<CellIndex>
+  occupiedCells: Set<CellIndex>,
+  rules: GameRules = DEFAULT_RULES
 ): ShipPlacement[] {
   const placements: ShipPlacement[] = [];
   const directions: PlacementDirection[] = ['horizontal', 'vertical'];
+  const totalCells = getTotalCells(rules);
 
-  for (let cellNum = 0; cellNum < TOTAL_CELLS; cellNum++) {
-    const startCell = createCellIndex(cellNum);
+  for (let cellNum = 0; cellNum < totalCells; cellNum++) {
+    const startCell = cellNum as CellIndex;
 
     for (const direction of directions) {
       const placement: ShipPlacement = { startCell, direction, size };
-      const cells = getShipCells(placement);
+      const cells = getShipCells(placement, rules);
 
       if (cells === null) {
         continue; // Ship doesn't fit on grid
@@ -220,17 +227,18 @@ export function getAllValidPlacements(
 
 /**
  * Places all ships on the grid using deterministic random selection.
- * Ships are placed in order: size 3, then 2, then 1.
+ * Ships are placed in fleet order (size 3, then 2, then 1 by default).
  *
  * @param prngState - The PRNG state for random selection
+ * @param rules - Board geometry and fleet composition
  * @returns Array of placed ships
  */
-function placeShips(prngState: XorShiftState): Ship[] {
+function placeShips(prngState: XorShiftState, rules: GameRules): Ship[] {
   const ships: Ship[] = [];
   const occupiedCells = new Set<CellIndex>();
 
-  for (const size of SHIP_SIZES) {
-    const validPlacements = getAllValidPlacements(size, occupiedCells);
+  for (const size of rules.fleet) {
+    const validPlacements = getAllValidPlacements(size, occupiedCells, rules);
 
     if (validPlacements.length === 0) {
       throw new Error(`No valid placements for ship of size ${size}`);
@@ -239,7 +247,7 @@ function placeShips(prngState: XorShiftState): Ship[] {
     // Deterministically select a placement
     const placementIndex = randomInt(prngState, validPlacements.length);
     const selectedPlacement = validPlacements[placementIndex];
-    const cells = getShipCells(selectedPlacement)!;
+    const cells = getShipCells(selectedPlacement, rules)!;
 
     ships.push({
       size,
@@ -269,12 +277,14 @@ function placeShips(prngState: XorShiftState): Ship[] {
  * @param gameSeed - 32-byte game seed
  * @param playerWallet - Player's wallet address
  * @param playerIndex - Player's index in the game (0-9)
+ * @param rules - Board geometry and fleet (defaults to the 5x5 ruleset)
  * @returns Generated card with ships
  */
 export function generateCard(
   gameSeed: Uint8Array,
   playerWallet: string,
-  playerIndex: number
+  playerIndex: number,
+  rules: GameRules = DEFAULT_RULES
 ): GeneratedCard {
   // Derive player-specific seed
   const playerSeed = derivePlayerSeed(gameSeed, playerWallet, playerIndex);
@@ -283,7 +293,7 @@ export function generateCard(
   const prngState = createPrngState(playerSeed);
 
   // Place ships deterministically
-  const ships = placeShips(prngState);
+  const ships = placeShips(prngState, rules);
 
   // Collect all cells
   const allCells: CellIndex[] = [];
@@ -303,17 +313,19 @@ export function generateCard(
  *
  * @param gameSeed - 32-byte game seed
  * @param players - Array of player wallet addresses
+ * @param rules - Board geometry and fleet (defaults to the 5x5 ruleset)
  * @returns Map of player wallet to generated card
  */
 export function generateAllCards(
   gameSeed: Uint8Array,
-  players: readonly string[]
+  players: readonly string[],
+  rules: GameRules = DEFAULT_RULES
 ): Map<string, GeneratedCard> {
   const cards = new Map<string, GeneratedCard>();
 
   for (let i = 0; i < players.length; i++) {
     const wallet = players[i];
-    const card = generateCard(gameSeed, wallet, i);
+    const card = generateCard(gameSeed, wallet, i, rules);
     cards.set(wallet, card);
   }
 
@@ -330,15 +342,17 @@ export function generateAllCards(
  * @param playerWallet - Player's wallet address
  * @param playerIndex - Player's index in the game
  * @param claimedCard - The card being verified
+ * @param rules - Ruleset the card was generated under (defaults to the 5x5 ruleset)
  * @returns true if card matches expected generation
  */
 export function verifyCard(
   gameSeed: Uint8Array,
   playerWallet: string,
   playerIndex: number,
-  claimedCard: GeneratedCard
+  claimedCard: GeneratedCard,
+  rules: GameRules = DEFAULT_RULES
 ): boolean {
-  const expectedCard = generateCard(gameSeed, playerWallet, playerIndex);
+  const expectedCard = generateCard(gameSeed, playerWallet, playerIndex, rules);
 
   // Compare player ID
   if (expectedCard.playerId !== claimedCard.playerId) {
@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+// Battle Dinghy - Command Line Interface
+//
+// Usage:
+//   battle-dinghy verify <bundle.json | transcript.json --operator <pubkey>> [--json]
+//   battle-dinghy simulate [--games N] [--players N] [--seed <hex>] [--strategy <name>]
+//                          [--grid WxH] [--fleet 3,2,1] [--json]
+//
+// Exit codes: 0 = verified, 1 = verification failed, 2 = usage or input error.
+
+import { readFileSync, realpathSync } from 'fs';
+import { fileURLToPath } from 'url';
+import {
+  VerificationReport,
+  parseGameBundle,
+  verifyGameBundle,
+  formatVerificationReport,
+} from './verifier.js';
+import {
+  decodeTranscript,
+  isSignedTranscript,
+  verifyTranscript,
+} from './transcript.js';
+import { formatSimulationReport, runSimulation } from './simulator.js';
+import { SHOT_STRATEGY_NAMES, ShotStrategyName } from './shot-strategy.js';
+import { seedFromHex } from './card-generator.js';
+import { GameRules, ShipSize } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Output sinks, injectable for testing
+ */
+export interface CliIO {
+  out: (line: string) => void;
+  err: (line: string) => void;
+}
+
+const DEFAULT_SIMULATION_GAMES = 1000;
+
+const USAGE = `Usage:
+  battle-dinghy verify <bundle.json | transcript.json --operator <pubkey>> [--json]
+  battle-dinghy simulate [--games N] [--players N] [--seed <hex>] [--strategy <name>]
+                         [--grid WxH] [--fleet 3,2,1] [--json]
+
+Commands:
+  verify    Replay an exported game bundle or signed transcript and check
+            every round, card and the winner
+  simulate  Run seeded games under a ruleset and report game length,
+            sudden-death and tiebreak rates, and ship placement win rates
+
+Options:
+  --json                Print the report as JSON
+  --operator <pubkey>   Operator's hex ed25519 key; transcripts must be signed by it
+  --games N             Games to simulate (default ${DEFAULT_SIMULATION_GAMES})
+  --players N           Players per game (default 10)
+  --seed <hex>          32-byte master seed (default all zeros)
+  --strategy <name>     Shot strategy: ${SHOT_STRATEGY_NAMES.join(', ')}
+  --grid WxH            Board size (default 5x5)
+  --fleet 3,2,1         Ship sizes; elimination needs every ship cell hit`;
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+function runVerify(args: string[], io: CliIO): number {
+  let asJson = false;
+  let operator: string | undefined;
+  const files: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--json') {
+      asJson = true;
+    } else if (args[i] === '--operator') {
+      operator = args[++i];
+    } else {
+      files.push(args[i]);
+    }
+  }
+
+  if (files.length !== 1 || (args.includes('--operator') && !operator)) {
+    io.err(USAGE);
+    return 2;
+  }
+
+  let json: string;
+  try {
+    json = readFileSync(files[0], 'utf8');
+  } catch (error) {
+    io.err(`Cannot read ${files[0]}: ${error instanceof Error ? error.message : error}`);
+    return 2;
+  }
+
+  const isTranscript = isTranscriptJson(json);
+  if (isTranscript && !operator) {
+    // The transcript's own key proves nothing about who the operator is
+    io.err('Verifying a transcript needs the operator key: --operator <pubkey>');
+    return 2;
+  }
+
+  let report: VerificationReport;
+  try {
+    report = isTranscript
+      ? verifyTranscript(decodeTranscript(json), operator!)
+      : verifyGameBundle(parseGameBundle(json));
+  } catch (error) {
+    io.err(`Invalid input: ${error instanceof Error ? error.message : error}`);
+    return 2;
+  }
+
+  io.out(asJson ? JSON.stringify(report, null, 2) : formatVerificationReport(report));
+
+  return report.passed ? 0 : 1;
+}
+
+function runSimulate(args: string[], io: CliIO): number {
+  const values: Record<string, string> = {};
+  let asJson = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--json') {
+      asJson = true;
+    } else if (args[i].startsWith('--') && i + 1 < args.length) {
+      values[args[i].slice(2)] = args[++i];
+    } else {
+      io.err(USAGE);
+      return 2;
+    }
+  }
+
+  try {
+    const [width, height] = (values.grid ?? '5x5').split('x').map(Number);
+    const fleet = (values.fleet ?? '3,2,1').split(',').map(Number) as ShipSize[];
+    const rules: GameRules = {
+      gridWidth: width,
+      gridHeight: height,
+      fleet,
+      eliminationThreshold: fleet.reduce((sum, size) => sum + size, 0),
+    };
+
+    const report = runSimulation({
+      games: Number(values.games ?? DEFAULT_SIMULATION_GAMES),
+      players: Number(values.players ?? 10),
+      seed: seedFromHex(values.seed ?? '0'.repeat(64)),
+      rules,
+      shotStrategy: values.strategy as ShotStrategyName | undefined,
+    });
+
+    io.out(asJson ? JSON.stringify(report, null, 2) : formatSimulationReport(report));
+    return 0;
+  } catch (error) {
+    io.err(`Invalid input: ${error instanceof Error ? error.message : error}`);
+    return 2;
+  }
+}
+
+function isTranscriptJson(json: string): boolean {
+  try {
+    return isSignedTranscript(JSON.parse(json));
+  } catch {
+    return false;
+  }
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+/**
+ * Run the CLI with the given arguments (excluding node and script path).
+ * @returns Process exit code
+ */
+export function runCli(
+  argv: string[],
+  io: CliIO = { out: console.log, err: console.error }
+): number {
+  const [command, ...args] = argv;
+
+  switch (command) {
+    case 'verify':
+      return runVerify(args, io);
+    case 'simulate':
+      return runSimulate(args, io);
+    case 'help':
+    case '--help':
+    case '-h':
+      io.out(USAGE);
+      return 0;
+    default:
+      io.err(command ? `Unknown command: ${command}\n\n${USAGE}` : USAGE);
+      return 2;
+  }
+}
+
+// Run only when executed directly (bin links resolve to this file)
+if (process.argv[1] && fileURLToPath(import.meta.url) === realpathSync(process.argv[1])) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
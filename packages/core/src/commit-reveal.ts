@@ -10,6 +10,7 @@
 // This ensures no single party (including operator) can predict or control the seed.
 
 import { createHash, randomBytes } from 'crypto';
+import { CommitRevealStore, WriteThroughQueue } from './commitment-storage.js';
 
 // =============================================================================
 // Types
@@ -43,6 +44,8 @@ export interface CommitRevealState {
   oreBlockHash?: string;
   /** Final computed seed (set after finalize) */
   finalSeed?: string;
+  /** What the missing-reveal policy decided (set after finalize) */
+  missingRevealOutcome?: MissingRevealOutcome;
   /** When the state was created */
   createdAt: number;
 }
@@ -51,6 +54,7 @@ export type CommitRevealPhase =
   | 'committing'   // Players can submit commitments
   | 'revealing'    // Players can reveal secrets
   | 'finalized'    // Seed has been computed
+  | 'aborted'      // Missing reveals aborted the game
   | 'expired';     // Deadlines passed without completion
 
 export interface CommitRevealConfig {
@@ -60,6 +64,8 @@ export interface CommitRevealConfig {
   revealPhaseDurationSec: number;
   /** Minimum players required to finalize */
   minPlayers: number;
+  /** What happens to players who commit but never reveal */
+  missingRevealPolicy: MissingRevealPolicyName;
 }
 
 export interface CommitResult {
@@ -80,6 +86,50 @@ export interface FinalizeResult {
   seed?: Uint8Array;
   seedHex?: string;
   participantCount?: number;
+  /** Players whose entropy is in the seed and who take part in the game */
+  participants?: string[];
+  /** Missing reveals and how the policy handled them */
+  missingReveals?: MissingRevealOutcome;
+}
+
+/**
+ * Built-in policies for players who commit but never reveal.
+ * - `use_commitment`: keep them in; their commitment hash stands in for the
+ *   secret so the operator cannot change the seed by dropping players
+ * - `forfeit`: exclude them from the seed and the game; their buy-in stays
+ *   in the prize pool
+ * - `refund`: exclude them from the seed and the game and refund them
+ * - `abort`: abort the game and refund everyone
+ */
+export type MissingRevealPolicyName = 'use_commitment' | 'forfeit' | 'refund' | 'abort';
+
+/**
+ * What a policy decided, recorded in FinalizeResult and the manager state
+ */
+export interface MissingRevealOutcome {
+  readonly policy: MissingRevealPolicyName;
+  /** Players who committed but did not reveal */
+  readonly missing: readonly string[];
+  /** True if no seed was produced and the game must not start */
+  readonly aborted: boolean;
+  /** Players left out of the seed and the game */
+  readonly excluded: readonly string[];
+  /** Players whose buy-in stays in the prize pool */
+  readonly forfeited: readonly string[];
+  /** Players owed their buy-in back */
+  readonly refunded: readonly string[];
+}
+
+/**
+ * Missing-reveal policy
+ */
+export interface MissingRevealPolicy {
+  readonly name: MissingRevealPolicyName;
+  /**
+   * Decide what happens to `missing`, given every committed player.
+   * Only called when at least one player is missing.
+   */
+  decide(missing: readonly string[], committed: readonly string[]): Omit<MissingRevealOutcome, 'policy' | 'missing'>;
 }
 
 // =============================================================================
@@ -90,6 +140,7 @@ export const DEFAULT_CONFIG: CommitRevealConfig = {
   commitPhaseDurationSec: 300,   // 5 minutes to commit
   revealPhaseDurationSec: 120,   // 2 minutes to reveal
   minPlayers: 2,
+  missingRevealPolicy: 'use_commitment',
 };
 
 const SECRET_LENGTH = 32; // 256 bits of entropy
@@ -160,6 +211,76 @@ export function computeFinalSeed(
   return new Uint8Array(hash.digest());
 }
 
+// =============================================================================
+// Missing-Reveal Policies
+// =============================================================================
+
+const MISSING_REVEAL_POLICIES: Record<MissingRevealPolicyName, MissingRevealPolicy> = {
+  use_commitment: {
+    name: 'use_commitment',
+    decide: () => ({ aborted: false, excluded: [], forfeited: [], refunded: [] }),
+  },
+  forfeit: {
+    name: 'forfeit',
+    decide: missing => ({ aborted: false, excluded: [...missing], forfeited: [...missing], refunded: [] }),
+  },
+  refund: {
+    name: 'refund',
+    decide: missing => ({ aborted: false, excluded: [...missing], forfeited: [], refunded: [...missing] }),
+  },
+  abort: {
+    name: 'abort',
+    decide: (_, committed) => ({ aborted: true, excluded: [], forfeited: [], refunded: [...committed] }),
+  },
+};
+
+/** Names of all built-in missing-reveal policies */
+export const MISSING_REVEAL_POLICY_NAMES = Object.keys(MISSING_REVEAL_POLICIES) as MissingRevealPolicyName[];
+
+/**
+ * Look up a built-in missing-reveal policy by name.
+ * @throws Error if the name is unknown
+ */
+export function getMissingRevealPolicy(name: MissingRevealPolicyName): MissingRevealPolicy {
+  const policy = Object.prototype.hasOwnProperty.call(MISSING_REVEAL_POLICIES, name)
+    ? MISSING_REVEAL_POLICIES[name]
+    : undefined;
+  if (!policy) {
+    throw new Error(`Unknown missing-reveal policy: ${name}`);
+  }
+  return policy;
+}
+
+/**
+ * Apply a policy to the players who did not reveal. If excluding them leaves
+ * fewer than `minPlayers`, the game is aborted instead and everyone who did
+ * not forfeit is refunded.
+ */
+export function applyMissingRevealPolicy(
+  policy: MissingRevealPolicy,
+  missing: readonly string[],
+  committed: readonly string[],
+  minPlayers: number
+): MissingRevealOutcome {
+  const none = { aborted: false, excluded: [], forfeited: [], refunded: [] };
+  const decision = missing.length > 0 ? policy.decide(missing, committed) : none;
+
+  const remaining = committed.length - decision.excluded.length;
+  if (!decision.aborted && remaining < minPlayers) {
+    const forfeited = new Set(decision.forfeited);
+    return {
+      policy: policy.name,
+      missing: [...missing],
+      aborted: true,
+      excluded: [],
+      forfeited: [...forfeited],
+      refunded: committed.filter(wallet => !forfeited.has(wallet)),
+    };
+  }
+
+  return { policy: policy.name, missing: [...missing], ...decision };
+}
+
 // =============================================================================
 // CommitRevealManager Class
 // =============================================================================
@@ -167,9 +288,18 @@ export function computeFinalSeed(
 export class CommitRevealManager {
   private state: CommitRevealState;
   private config: CommitRevealConfig;
+  private missingRevealPolicy: MissingRevealPolicy;
+  private storage?: CommitRevealStore;
+  private readonly writes = new WriteThroughQueue();
 
-  constructor(gameId: string, config?: Partial<CommitRevealConfig>) {
+  /**
+   * @param config.missingRevealPolicy - A built-in policy name, or pass a
+   *   custom policy with setMissingRevealPolicy()
+   * @param storage - Optional store to write every change through to
+   */
+  constructor(gameId: string, config?: Partial<CommitRevealConfig>, storage?: CommitRevealStore) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.missingRevealPolicy = getMissingRevealPolicy(this.config.missingRevealPolicy);
 
     const now = Date.now();
     this.state = {
@@ -180,6 +310,32 @@ export class CommitRevealManager {
       revealDeadline: now + (this.config.commitPhaseDurationSec + this.config.revealPhaseDurationSec) * 1000,
       createdAt: now,
     };
+
+    this.storage = storage;
+    this.persistSession();
+  }
+
+  /**
+   * Restore a manager from storage. Later changes are written back to it.
+   * Returns null if nothing is stored for the game.
+   */
+  static async load(
+    gameId: string,
+    storage: CommitRevealStore,
+    config?: Partial<CommitRevealConfig>
+  ): Promise<CommitRevealManager | null> {
+    const stored = await storage.loadCommitReveal(gameId);
+    if (!stored) {
+      return null;
+    }
+
+    const manager = new CommitRevealManager(gameId, config);
+    manager.state = {
+      ...stored.session,
+      commitments: new Map(stored.commitments.map(c => [c.wallet, c])),
+    };
+    manager.storage = storage;
+    return manager;
   }
 
   // ===========================================================================
@@ -192,8 +348,8 @@ export class CommitRevealManager {
   getPhase(): CommitRevealPhase {
     const now = Date.now();
 
-    if (this.state.phase === 'finalized') {
-      return 'finalized';
+    if (this.state.phase === 'finalized' || this.state.phase === 'aborted') {
+      return this.state.phase;
     }
 
     if (now > this.state.revealDeadline) {
@@ -203,6 +359,7 @@ export class CommitRevealManager {
     if (now > this.state.commitDeadline && this.state.phase === 'committing') {
       // Auto-transition to revealing phase
       this.state.phase = 'revealing';
+      this.persistSession();
     }
 
     return this.state.phase;
@@ -221,6 +378,7 @@ export class CommitRevealManager {
     }
 
     this.state.phase = 'revealing';
+    this.persistSession();
     return true;
   }
 
@@ -256,11 +414,13 @@ export class CommitRevealManager {
       };
     }
 
-    this.state.commitments.set(wallet, {
+    const commitment: PlayerCommitment = {
       wallet,
       commitmentHash,
       committedAt: Date.now(),
-    });
+    };
+    this.state.commitments.set(wallet, commitment);
+    this.persistCommitment(commitment);
 
     return {
       success: true,
@@ -326,6 +486,7 @@ export class CommitRevealManager {
 
     commitment.revealedSecret = secret;
     commitment.revealedAt = Date.now();
+    this.persistCommitment(commitment);
 
     return {
       success: true,
@@ -364,20 +525,16 @@ export class CommitRevealManager {
   // ===========================================================================
 
   /**
-   * Finalize the commit-reveal process and compute the final seed.
+   * Finalize the commit-reveal process and compute the final seed. Before
+   * the reveal deadline this succeeds only once every player has revealed.
    *
    * @param oreBlockHash - Hash from ORE mining to add additional entropy
    */
   finalize(oreBlockHash: string): FinalizeResult {
     const phase = this.getPhase();
 
-    if (phase === 'finalized') {
-      return {
-        success: true,
-        seed: new Uint8Array(Buffer.from(this.state.finalSeed!, 'hex')),
-        seedHex: this.state.finalSeed!,
-        participantCount: this.state.commitments.size,
-      };
+    if (phase === 'finalized' || phase === 'aborted') {
+      return this.finalizedResult();
     }
 
     if (phase === 'committing') {
@@ -402,22 +559,79 @@ export class CommitRevealManager {
       };
     }
 
-    // Compute final seed
-    const commitments = Array.from(this.state.commitments.values());
+    // Players may reveal until the deadline, so the policy only judges
+    // missing reveals once it has passed
+    const missing = this.getMissingReveals();
+    if (phase === 'revealing' && missing.length > 0) {
+      return {
+        success: false,
+        error: `Waiting for ${missing.length} reveal(s) until the reveal deadline`,
+      };
+    }
+
+    const outcome = applyMissingRevealPolicy(
+      this.missingRevealPolicy,
+      missing,
+      this.getCommittedPlayers(),
+      this.config.minPlayers
+    );
+    this.state.missingRevealOutcome = outcome;
+
+    if (outcome.aborted) {
+      this.state.phase = 'aborted';
+      this.persistSession();
+      return this.finalizedResult();
+    }
+
+    // Compute final seed from everyone the policy kept in
+    const excluded = new Set(outcome.excluded);
+    const commitments = Array.from(this.state.commitments.values()).filter(c => !excluded.has(c.wallet));
     const seed = computeFinalSeed(commitments, oreBlockHash);
 
     this.state.oreBlockHash = oreBlockHash;
     this.state.finalSeed = Buffer.from(seed).toString('hex');
     this.state.phase = 'finalized';
+    this.persistSession();
+
+    return this.finalizedResult();
+  }
+
+  /**
+   * Result of a completed finalize(), rebuilt from state so repeated calls
+   * return the same answer.
+   */
+  private finalizedResult(): FinalizeResult {
+    const outcome = this.state.missingRevealOutcome;
+    const excluded = new Set(outcome?.excluded ?? []);
+    const participants = this.getCommittedPlayers().filter(wallet => !excluded.has(wallet));
+
+    if (this.state.phase === 'aborted') {
+      return {
+        success: false,
+        error: `Game aborted: ${outcome!.missing.length} player(s) did not reveal`,
+        participantCount: 0,
+        participants: [],
+        missingReveals: outcome,
+      };
+    }
 
     return {
       success: true,
-      seed,
-      seedHex: this.state.finalSeed,
-      participantCount: commitments.length,
+      seed: new Uint8Array(Buffer.from(this.state.finalSeed!, 'hex')),
+      seedHex: this.state.finalSeed!,
+      participantCount: participants.length,
+      participants,
+      missingReveals: outcome,
     };
   }
 
+  /**
+   * Use a custom missing-reveal policy (before finalize).
+   */
+  setMissingRevealPolicy(policy: MissingRevealPolicy): void {
+    this.missingRevealPolicy = policy;
+  }
+
   // ===========================================================================
   // State Access
   // ===========================================================================
@@ -476,6 +690,35 @@ export class CommitRevealManager {
     };
   }
 
+  // ===========================================================================
+  // Storage
+  // ===========================================================================
+
+  /**
+   * Wait until every change so far has been written to storage.
+   * @throws the first storage error since the last flush
+   */
+  flush(): Promise<void> {
+    return this.writes.flush();
+  }
+
+  private persistSession(): void {
+    const storage = this.storage;
+    if (!storage) return;
+
+    const { commitments: _, ...session } = this.state;
+    const snapshot = structuredClone(session);
+    this.writes.write(() => storage.saveSession(snapshot));
+  }
+
+  private persistCommitment(commitment: PlayerCommitment): void {
+    const storage = this.storage;
+    if (!storage) return;
+
+    const snapshot = { ...commitment };
+    this.writes.write(() => storage.savePlayerCommitment(this.state.gameId, snapshot));
+  }
+
   // ===========================================================================
   // Serialization
   // ===========================================================================
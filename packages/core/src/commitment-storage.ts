@@ -0,0 +1,270 @@
+// Battle Dinghy - Commitment Storage
+//
+// Persistence for CommitRevealManager and OreBlockCommitmentManager, so a
+// server restart mid-reveal does not lose commitments.
+//
+// Managers given a store write through to it on every change. Writes are
+// queued in order behind the synchronous manager API; call flush() on the
+// manager to wait for them and surface any storage error.
+//
+// Implementations:
+// - MemoryCommitmentStorage: in-process, for tests and single-run tools
+// - FileCommitmentStorage: one JSON file per game under a directory
+// - Postgres (drizzle): DbCommitmentStorage in the server, tables in shared/schema.ts
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { CommitRevealState, PlayerCommitment } from './commit-reveal.js';
+import type { OreBlockCommitment, OreBlockVerification } from './ore-block-commitment.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * CommitRevealManager state without the per-player commitments
+ */
+export type CommitRevealSession = Omit<CommitRevealState, 'commitments'>;
+
+export interface StoredCommitReveal {
+  session: CommitRevealSession;
+  commitments: PlayerCommitment[];
+}
+
+export interface StoredOreCommitments {
+  commitments: OreBlockCommitment[];
+  verifications: OreBlockVerification[];
+}
+
+/**
+ * Storage used by CommitRevealManager. Saves are upserts.
+ */
+export interface CommitRevealStore {
+  saveSession(session: CommitRevealSession): Promise<void>;
+  savePlayerCommitment(gameId: string, commitment: PlayerCommitment): Promise<void>;
+  loadCommitReveal(gameId: string): Promise<StoredCommitReveal | null>;
+}
+
+/**
+ * Storage used by OreBlockCommitmentManager. Saves are upserts.
+ */
+export interface OreCommitmentStore {
+  saveOreCommitment(commitment: OreBlockCommitment): Promise<void>;
+  saveOreVerification(verification: OreBlockVerification): Promise<void>;
+  /** Remove a game's commitment and verification */
+  deleteOreCommitment(gameId: string): Promise<void>;
+  loadOreCommitments(): Promise<StoredOreCommitments>;
+}
+
+export interface CommitmentStorage extends CommitRevealStore, OreCommitmentStore {}
+
+// =============================================================================
+// Write-Through Queue
+// =============================================================================
+
+/**
+ * Runs storage writes one after another in the order they were issued.
+ * A failed write does not stop later ones; the first failure is rethrown
+ * by the next flush().
+ */
+export class WriteThroughQueue {
+  private pending: Promise<void> = Promise.resolve();
+  private failed = false;
+  private failure: unknown;
+
+  /**
+   * Queue a write. Snapshot any mutable state before calling.
+   */
+  write(operation: () => Promise<void>): void {
+    this.pending = this.pending.then(operation).catch(error => {
+      if (!this.failed) {
+        this.failed = true;
+        this.failure = error;
+      }
+    });
+  }
+
+  /**
+   * Wait for queued writes.
+   * @throws the first write error since the last flush
+   */
+  async flush(): Promise<void> {
+    await this.pending;
+    if (this.failed) {
+      const error = this.failure;
+      this.failed = false;
+      this.failure = undefined;
+      throw error;
+    }
+  }
+}
+
+// =============================================================================
+// In-Memory Storage
+// =============================================================================
+
+/**
+ * Storage kept in process memory. Values are copied in and out, so stored
+ * state never aliases a manager's.
+ */
+export class MemoryCommitmentStorage implements CommitmentStorage {
+  private sessions = new Map<string, CommitRevealSession>();
+  private playerCommitments = new Map<string, Map<string, PlayerCommitment>>();
+  private oreCommitments = new Map<string, OreBlockCommitment>();
+  private oreVerifications = new Map<string, OreBlockVerification>();
+
+  async saveSession(session: CommitRevealSession): Promise<void> {
+    this.sessions.set(session.gameId, structuredClone(session));
+  }
+
+  async savePlayerCommitment(gameId: string, commitment: PlayerCommitment): Promise<void> {
+    let game = this.playerCommitments.get(gameId);
+    if (!game) {
+      game = new Map();
+      this.playerCommitments.set(gameId, game);
+    }
+    game.set(commitment.wallet, { ...commitment });
+  }
+
+  async loadCommitReveal(gameId: string): Promise<StoredCommitReveal | null> {
+    const session = this.sessions.get(gameId);
+    if (!session) {
+      return null;
+    }
+    const commitments = Array.from(this.playerCommitments.get(gameId)?.values() ?? []);
+    return {
+      session: structuredClone(session),
+      commitments: commitments.map(c => ({ ...c })),
+    };
+  }
+
+  async saveOreCommitment(commitment: OreBlockCommitment): Promise<void> {
+    this.oreCommitments.set(commitment.gameId, { ...commitment });
+  }
+
+  async saveOreVerification(verification: OreBlockVerification): Promise<void> {
+    this.oreVerifications.set(verification.commitment.gameId, structuredClone(verification));
+  }
+
+  async deleteOreCommitment(gameId: string): Promise<void> {
+    this.oreCommitments.delete(gameId);
+    this.oreVerifications.delete(gameId);
+  }
+
+  async loadOreCommitments(): Promise<StoredOreCommitments> {
+    return {
+      commitments: Array.from(this.oreCommitments.values(), c => ({ ...c })),
+      verifications: Array.from(this.oreVerifications.values(), v => structuredClone(v)),
+    };
+  }
+}
+
+// =============================================================================
+// File Storage
+// =============================================================================
+
+interface OreCommitmentFile {
+  commitment: OreBlockCommitment;
+  verification?: OreBlockVerification;
+}
+
+/**
+ * Storage as JSON files under a directory:
+ *   <dir>/commit-reveal/<gameId>.json    session and player commitments
+ *   <dir>/ore-commitments/<gameId>.json  ORE block commitment and verification
+ *
+ * Files are replaced atomically (write then rename). Each game's file is
+ * only written by that game's manager, whose writes are already ordered.
+ */
+export class FileCommitmentStorage implements CommitmentStorage {
+  constructor(private readonly dir: string) {}
+
+  async saveSession(session: CommitRevealSession): Promise<void> {
+    const stored = await this.loadCommitReveal(session.gameId);
+    await this.writeJson(this.commitRevealPath(session.gameId), {
+      session,
+      commitments: stored?.commitments ?? [],
+    });
+  }
+
+  async savePlayerCommitment(gameId: string, commitment: PlayerCommitment): Promise<void> {
+    const stored = await this.loadCommitReveal(gameId);
+    if (!stored) {
+      throw new Error(`No commit-reveal session stored for game ${gameId}`);
+    }
+    // Keep commit order; a reveal updates the player's existing entry
+    const commitments = stored.commitments.filter(c => c.wallet !== commitment.wallet);
+    const index = stored.commitments.findIndex(c => c.wallet === commitment.wallet);
+    commitments.splice(index === -1 ? commitments.length : index, 0, commitment);
+    await this.writeJson(this.commitRevealPath(gameId), { session: stored.session, commitments });
+  }
+
+  async loadCommitReveal(gameId: string): Promise<StoredCommitReveal | null> {
+    return this.readJson<StoredCommitReveal>(this.commitRevealPath(gameId));
+  }
+
+  async saveOreCommitment(commitment: OreBlockCommitment): Promise<void> {
+    const file: OreCommitmentFile = { commitment };
+    await this.writeJson(this.oreCommitmentPath(commitment.gameId), file);
+  }
+
+  async saveOreVerification(verification: OreBlockVerification): Promise<void> {
+    const file: OreCommitmentFile = { commitment: verification.commitment, verification };
+    await this.writeJson(this.oreCommitmentPath(verification.commitment.gameId), file);
+  }
+
+  async deleteOreCommitment(gameId: string): Promise<void> {
+    await rm(this.oreCommitmentPath(gameId), { force: true });
+  }
+
+  async loadOreCommitments(): Promise<StoredOreCommitments> {
+    const dir = join(this.dir, 'ore-commitments');
+    const result: StoredOreCommitments = { commitments: [], verifications: [] };
+
+    let names: string[];
+    try {
+      names = await readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return result;
+      }
+      throw error;
+    }
+
+    for (const name of names.filter(n => n.endsWith('.json')).sort()) {
+      const file = await this.readJson<OreCommitmentFile>(join(dir, name));
+      if (!file) continue;
+      result.commitments.push(file.commitment);
+      if (file.verification) {
+        result.verifications.push(file.verification);
+      }
+    }
+    return result;
+  }
+
+  private commitRevealPath(gameId: string): string {
+    return join(this.dir, 'commit-reveal', `${encodeURIComponent(gameId)}.json`);
+  }
+
+  private oreCommitmentPath(gameId: string): string {
+    return join(this.dir, 'ore-commitments', `${encodeURIComponent(gameId)}.json`);
+  }
+
+  private async readJson<T>(path: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async writeJson(path: string, value: unknown): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    const temp = `${path}.tmp`;
+    await writeFile(temp, JSON.stringify(value, null, 2));
+    await rename(temp, path);
+  }
+}
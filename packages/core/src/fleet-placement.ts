@@ -0,0 +1,246 @@
+// Battle Dinghy - Player-Chosen Fleet Placement
+//
+// An optional mode where players place their own ships instead of receiving
+// a card generated from the seed.
+//
+// Protocol:
+// 1. JOIN: each player commits H(secret || wallet), where the secret encodes
+//    a random salt and their ShipPlacement[] (createCommitment)
+// 2. PLAY: rounds are fired blind; nobody, including the operator, knows
+//    which shots hit
+// 3. REVEAL: after the final ORE round players reveal their secrets. Reveals
+//    are checked against the commitment (verifyReveal) and the placement
+//    rules; players with a missing or invalid reveal are eliminated, and the
+//    recorded shots are replayed against the revealed fleets.
+
+import {
+  CellIndex,
+  DEFAULT_RULES,
+  GameRules,
+  PlacementDirection,
+  Ship,
+  ShipPlacement,
+  ShipSize,
+} from './types.js';
+import { GeneratedCard, getShipCells } from './card-generator.js';
+import { createCommitment, generateSecret, verifyReveal } from './commit-reveal.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Fleet commitments for a game, keyed by participant (team id in team mode).
+ * Reveals are added once the final round has been played; a config that
+ * carries them replays the game with the revealed fleets.
+ */
+export interface FleetCommitments {
+  readonly commitments: Readonly<Record<string, string>>;
+  readonly reveals?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Why a participant's fleet was rejected at reveal
+ * - `missing`: no reveal was submitted
+ * - `commitment_mismatch`: the reveal does not hash to the commitment
+ * - `malformed`: the revealed secret could not be decoded
+ * - `invalid_placement`: the fleet breaks the placement rules
+ */
+export type FleetRejectionReason =
+  | 'missing'
+  | 'commitment_mismatch'
+  | 'malformed'
+  | 'invalid_placement';
+
+export interface FleetRejection {
+  readonly playerId: string;
+  readonly reason: FleetRejectionReason;
+  readonly detail?: string;
+}
+
+export interface FleetValidationResult {
+  valid: boolean;
+  error?: string;
+  ships?: Ship[];
+}
+
+/**
+ * Outcome of resolving one participant's reveal
+ */
+export type ResolvedFleet =
+  | { readonly accepted: true; readonly card: GeneratedCard }
+  | { readonly accepted: false; readonly rejection: FleetRejection };
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+const DIRECTION_CODES: Record<PlacementDirection, string> = {
+  horizontal: 'h',
+  vertical: 'v',
+};
+
+/**
+ * Encode a salt and fleet as the secret behind a fleet commitment.
+ * Format: "<salt>:<size><h|v><startCell>,..." e.g. "ab12...:3h0,2v10,1h24"
+ */
+export function encodeFleetSecret(placements: readonly ShipPlacement[], salt: string): string {
+  if (!/^[a-f0-9]+$/i.test(salt)) {
+    throw new Error('Fleet salt must be hex');
+  }
+  const fleet = placements.map(p => `${p.size}${DIRECTION_CODES[p.direction]}${p.startCell}`);
+  return `${salt}:${fleet.join(',')}`;
+}
+
+/**
+ * Decode a fleet secret, or null if it is malformed.
+ */
+export function decodeFleetSecret(secret: string): ShipPlacement[] | null {
+  const match = /^[a-f0-9]+:(.*)$/i.exec(secret);
+  if (!match) {
+    return null;
+  }
+
+  const placements: ShipPlacement[] = [];
+  for (const entry of match[1].split(',')) {
+    // Sizes are checked against the ruleset by validateFleetPlacement
+    const ship = /^([1-9]\d*)([hv])(\d+)$/.exec(entry);
+    if (!ship) {
+      return null;
+    }
+    placements.push({
+      size: Number(ship[1]) as ShipSize,
+      direction: ship[2] === 'h' ? 'horizontal' : 'vertical',
+      startCell: Number(ship[3]) as CellIndex,
+    });
+  }
+  return placements;
+}
+
+/**
+ * Commitment hash for a fleet: createCommitment(encodeFleetSecret(...), wallet)
+ */
+export function createFleetCommitment(
+  placements: readonly ShipPlacement[],
+  salt: string,
+  wallet: string
+): string {
+  return createCommitment(encodeFleetSecret(placements, salt), wallet);
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Check a fleet against the ruleset: one ship per fleet entry, in fleet
+ * order, on the board and not overlapping.
+ */
+export function validateFleetPlacement(
+  placements: readonly ShipPlacement[],
+  rules: GameRules = DEFAULT_RULES
+): FleetValidationResult {
+  if (placements.length !== rules.fleet.length) {
+    return { valid: false, error: `Expected ${rules.fleet.length} ships, got ${placements.length}` };
+  }
+
+  const ships: Ship[] = [];
+  const occupied = new Set<CellIndex>();
+
+  for (let i = 0; i < placements.length; i++) {
+    const placement = placements[i];
+    if (placement.size !== rules.fleet[i]) {
+      return { valid: false, error: `Ship ${i + 1} must be size ${rules.fleet[i]}` };
+    }
+
+    const cells = Number.isInteger(placement.startCell) ? getShipCells(placement, rules) : null;
+    if (!cells) {
+      return { valid: false, error: `Ship ${i + 1} does not fit on the board` };
+    }
+    if (cells.some(cell => occupied.has(cell))) {
+      return { valid: false, error: `Ship ${i + 1} overlaps another ship` };
+    }
+
+    for (const cell of cells) occupied.add(cell);
+    ships.push({ size: placement.size, cells });
+  }
+
+  return { valid: true, ships };
+}
+
+/**
+ * Resolve a participant's reveal into a card, or the reason it was rejected.
+ */
+export function resolveRevealedFleet(
+  playerId: string,
+  commitmentHash: string,
+  secret: string | undefined,
+  rules: GameRules = DEFAULT_RULES
+): ResolvedFleet {
+  const reject = (reason: FleetRejectionReason, detail?: string): ResolvedFleet => ({
+    accepted: false,
+    rejection: { playerId, reason, ...(detail ? { detail } : {}) },
+  });
+
+  if (secret === undefined) {
+    return reject('missing');
+  }
+  if (!verifyReveal(commitmentHash, secret, playerId)) {
+    return reject('commitment_mismatch');
+  }
+
+  const placements = decodeFleetSecret(secret);
+  if (!placements) {
+    return reject('malformed');
+  }
+
+  const validation = validateFleetPlacement(placements, rules);
+  if (!validation.valid) {
+    return reject('invalid_placement', validation.error);
+  }
+
+  const ships = validation.ships!;
+  return {
+    accepted: true,
+    card: { playerId, ships, allCells: ships.flatMap(ship => ship.cells) },
+  };
+}
+
+// =============================================================================
+// Client-Side Helper
+// =============================================================================
+
+/**
+ * Helper for players to commit to and later reveal their fleet.
+ */
+export class FleetCommitmentHelper {
+  private readonly secret: string;
+  private readonly commitmentHash: string;
+
+  /**
+   * @throws Error if the fleet breaks the placement rules
+   */
+  constructor(wallet: string, placements: readonly ShipPlacement[], rules: GameRules = DEFAULT_RULES) {
+    const validation = validateFleetPlacement(placements, rules);
+    if (!validation.valid) {
+      throw new Error(`Invalid fleet: ${validation.error}`);
+    }
+
+    this.secret = encodeFleetSecret(placements, generateSecret());
+    this.commitmentHash = createCommitment(this.secret, wallet);
+  }
+
+  /**
+   * Get the commitment hash to submit at join time.
+   */
+  getCommitmentHash(): string {
+    return this.commitmentHash;
+  }
+
+  /**
+   * Get the secret to reveal after the final round.
+   */
+  getSecret(): string {
+    return this.secret;
+  }
+}
@@ -14,14 +14,25 @@ import {
   GameStatus,
   RoundResult,
   GameState,
-  TOTAL_SHIP_CELLS,
-  SUDDEN_DEATH_ROUND_1,
-  SUDDEN_DEATH_ROUND_2,
-  MAX_ROUNDS,
+  GameRules,
+  ShipSize,
+  ShipDamage,
+  ShotSchedule,
+  TeamConfig,
+  DEFAULT_RULES,
+  DEFAULT_SHOT_SCHEDULE,
   TOTAL_CELLS,
-  createCellIndex,
+  getTotalCells,
+  getTotalShipCells,
+  validateRules,
+  validateShotSchedule,
+  validateTeams,
+  getEscalationLevel,
+  getShotsForRound,
 } from './types.js';
 import { generateAllCards, GeneratedCard } from './card-generator.js';
+import { ShotStrategy, ShotStrategyName, getShotStrategy } from './shot-strategy.js';
+import { FleetCommitments, FleetRejection, resolveRevealedFleet } from './fleet-placement.js';
 
 // =============================================================================
 // Types
@@ -34,6 +45,23 @@ export interface GameConfig {
   readonly gameId: string;
   readonly seed: Uint8Array;
   readonly players: readonly string[];
+  /** Board geometry and fleet (defaults to DEFAULT_RULES) */
+  readonly rules?: GameRules;
+  /** Shot escalation schedule (defaults to DEFAULT_SHOT_SCHEDULE) */
+  readonly schedule?: ShotSchedule;
+  /** Shot derivation strategy (defaults to DEFAULT_SHOT_STRATEGY) */
+  readonly shotStrategy?: ShotStrategyName;
+  /**
+   * Squads for team mode. Each team gets one card, generated as if the team
+   * were a player at its index in this list, and is eliminated as a unit.
+   */
+  readonly teams?: readonly TeamConfig[];
+  /**
+   * Player-chosen fleets. Cards come from the committed placements instead of
+   * the seed; until reveals are attached, rounds are fired blind and the game
+   * waits for revealPlacements() after the final round.
+   */
+  readonly fleetCommitments?: FleetCommitments;
 }
 
 // Re-export OreRoundResult from ore-monitor for convenience
@@ -48,6 +76,20 @@ export interface OreRoundResult {
   readonly proof: string;
 }
 
+/**
+ * Fresh damage dealt to one ship by one shot
+ */
+export interface ShipHit {
+  /** Player wallet, or team id in team mode */
+  readonly playerId: string;
+  readonly cell: CellIndex;
+  /** Index into the card's ships (placement order) */
+  readonly shipIndex: number;
+  readonly shipSize: ShipSize;
+  /** True if this hit sank the ship */
+  readonly sunk: boolean;
+}
+
 /**
  * Summary of a processed round
  */
@@ -55,10 +97,46 @@ export interface RoundSummary {
   readonly roundNumber: number;
   readonly shots: readonly CellIndex[];
   readonly hits: ReadonlyMap<string, readonly CellIndex[]>;
+  /** Ship damage dealt this round, excluding repeat hits on damaged cells */
+  readonly shipHits: readonly ShipHit[];
   readonly eliminations: readonly string[];
   readonly remainingPlayers: readonly string[];
   readonly isGameComplete: boolean;
   readonly winner: string | null;
+  /** Index of the active escalation step (0 = no sudden death) */
+  readonly escalationLevel: number;
+  /** Shots the schedule allows in the next round (0 once the game is over) */
+  readonly nextRoundShots: number;
+  /** Rounds left before the schedule's final round */
+  readonly roundsRemaining: number;
+}
+
+/**
+ * What decided a participant's placement in the standings
+ * - `last_survivor`: the only participant left standing
+ * - `cells_remaining`: ranked among survivors by unhit ship cells
+ * - `elimination_round`: ranked by how late the participant was eliminated
+ * - `tiebreak`: tied on the above and ordered by the deterministic hash
+ */
+export type StandingReason =
+  | 'last_survivor'
+  | 'cells_remaining'
+  | 'elimination_round'
+  | 'tiebreak';
+
+/**
+ * One row of the standings table
+ */
+export interface Standing {
+  /** 1-based final position */
+  readonly placement: number;
+  /** Player wallet, or team id in team mode */
+  readonly playerId: string;
+  /** Team members, in team mode */
+  readonly members?: readonly string[];
+  readonly eliminatedAtRound: number | null;
+  readonly cellsRemaining: number;
+  readonly decidedBy: StandingReason;
 }
 
 /**
@@ -67,6 +145,8 @@ export interface RoundSummary {
 export interface ShotResult {
   readonly cell: CellIndex;
   readonly hits: ReadonlyMap<string, boolean>;
+  /** Fresh ship damage dealt by this shot */
+  readonly shipHits: readonly ShipHit[];
   readonly eliminations: readonly string[];
 }
 
@@ -89,6 +169,11 @@ export interface SerializedGameState {
     gameId: string;
     seed: string; // hex encoded
     players: string[];
+    rules?: GameRules;
+    schedule?: ShotSchedule;
+    shotStrategy?: ShotStrategyName;
+    teams?: TeamConfig[];
+    fleetCommitments?: FleetCommitments;
   };
   currentRound: number;
   rounds: RoundResult[];
@@ -100,6 +185,8 @@ export interface SerializedGameState {
   }[];
   isComplete: boolean;
   winner: string | null;
+  /** Set while the game is paused */
+  pausedReason?: string | null;
 }
 
 // =============================================================================
@@ -107,35 +194,107 @@ export interface SerializedGameState {
 // =============================================================================
 
 export class GameEngine extends EventEmitter {
-  private readonly config: GameConfig;
+  private config: GameConfig;
+  private readonly rules: GameRules;
+  private readonly schedule: ShotSchedule;
+  private readonly shotStrategy: ShotStrategy;
+  private readonly teamByMember: Map<string, TeamConfig>;
   private readonly cards: Map<string, MutablePlayerCard>;
   private readonly generatedCards: Map<string, GeneratedCard>;
   private currentRound: number;
   private readonly rounds: RoundResult[];
   private _isComplete: boolean;
   private _winner: string | null;
+  private pausedReason: string | null = null;
+  private fleetRejections: FleetRejection[] = [];
+  /** Set while revealPlacements() replays blind rounds */
+  private replaying = false;
 
   constructor(config: GameConfig) {
     super();
+    this.rules = config.rules ?? DEFAULT_RULES;
+    validateRules(this.rules);
+    this.schedule = config.schedule ?? DEFAULT_SHOT_SCHEDULE;
+    validateShotSchedule(this.schedule);
+    this.shotStrategy = getShotStrategy(config.shotStrategy);
+    if (config.teams) {
+      validateTeams(config.teams, config.players);
+    }
+    this.teamByMember = new Map(
+      (config.teams ?? []).flatMap(team => team.members.map(m => [m, team] as const))
+    );
+
     this.config = config;
     this.currentRound = 0;
     this.rounds = [];
     this._isComplete = false;
     this._winner = null;
 
-    // Generate all player cards deterministically
-    this.generatedCards = generateAllCards(config.seed, config.players);
+    if (config.fleetCommitments) {
+      for (const playerId of this.getParticipants()) {
+        if (!config.fleetCommitments.commitments[playerId]) {
+          throw new Error(`Missing fleet commitment for ${playerId}`);
+        }
+      }
+      // Blind rounds cannot depend on where the ships are
+      if (this.shotStrategy.name === 'weighted-unhit') {
+        throw new Error('Shot strategy weighted-unhit cannot be used with committed fleets');
+      }
+    }
 
-    // Initialize mutable card state
+    this.generatedCards = new Map();
     this.cards = new Map();
-    for (const [playerId, generated] of this.generatedCards) {
-      this.cards.set(playerId, {
-        playerId,
-        generatedCard: generated,
+    this.dealCards();
+  }
+
+  /**
+   * Build every participant's card: generated from the seed, or from the
+   * revealed fleet when fleets are committed. Blind participants get an
+   * empty card that no shot can hit; rejected fleets start eliminated.
+   */
+  private dealCards(): void {
+    const fleets = this.config.fleetCommitments;
+    this.generatedCards.clear();
+    this.cards.clear();
+    this.fleetRejections = [];
+
+    const deal = (card: GeneratedCard, eliminated = false) => {
+      this.generatedCards.set(card.playerId, card);
+      this.cards.set(card.playerId, {
+        playerId: card.playerId,
+        generatedCard: card,
         hitCells: new Set(),
-        isEliminated: false,
-        eliminatedAtRound: null,
+        isEliminated: eliminated,
+        eliminatedAtRound: eliminated ? 0 : null,
       });
+    };
+
+    if (!fleets) {
+      // Generate all player (or team) cards deterministically
+      for (const card of generateAllCards(this.config.seed, this.getParticipants(), this.rules).values()) {
+        deal(card);
+      }
+      return;
+    }
+
+    for (const playerId of this.getParticipants()) {
+      if (!fleets.reveals) {
+        deal({ playerId, ships: [], allCells: [] });
+        continue;
+      }
+
+      const fleet = resolveRevealedFleet(
+        playerId,
+        fleets.commitments[playerId],
+        fleets.reveals[playerId],
+        this.rules
+      );
+      if (fleet.accepted) {
+        deal(fleet.card);
+      } else {
+        deal({ playerId, ships: [], allCells: [] }, true);
+        this.fleetRejections.push(fleet.rejection);
+      }
     }
   }
 
@@ -152,19 +311,32 @@ export class GameEngine extends EventEmitter {
       throw new Error('Game is already complete');
     }
 
+    if (this.pausedReason !== null) {
+      throw new Error(`Game is paused: ${this.pausedReason}`);
+    }
+
+    if (this.isAwaitingFleetReveal()) {
+      throw new Error('All rounds played; waiting for fleet reveals');
+    }
+
     if (oreResult.roundNumber !== this.currentRound + 1) {
       throw new Error(
         `Expected round ${this.currentRound + 1}, got ${oreResult.roundNumber}`
       );
     }
 
-    this.currentRound = oreResult.roundNumber;
+    return this.resolveRound(oreResult.roundNumber, this.calculateShots(oreResult), oreResult.proof);
+  }
 
-    // Calculate shots for this round
-    const shots = this.calculateShots(oreResult);
+  /**
+   * Apply a round's shots and settle eliminations and the winner.
+   */
+  private resolveRound(roundNumber: number, shots: CellIndex[], oreProof: string): RoundSummary {
+    this.currentRound = roundNumber;
 
     // Track hits and eliminations for this round
     const roundHits = new Map<string, CellIndex[]>();
+    const roundShipHits: ShipHit[] = [];
     const roundEliminations: string[] = [];
 
     // Apply each shot
@@ -181,6 +353,8 @@ export class GameEngine extends EventEmitter {
         }
       }
 
+      roundShipHits.push(...result.shipHits);
+
       // Collect eliminations
       roundEliminations.push(...result.eliminations);
     }
@@ -191,31 +365,55 @@ export class GameEngine extends EventEmitter {
       primaryShot: shots[0],
       derivedShots: shots.slice(1),
       eliminations: roundEliminations,
-      oreProof: oreResult.proof,
+      oreProof,
     };
     this.rounds.push(roundResult);
 
+    // Emit sunk ship events
+    for (const hit of roundShipHits) {
+      if (hit.sunk) {
+        const members = this.getTeamMembers(hit.playerId);
+        this.emit('ship_sunk', {
+          player: hit.playerId,
+          round: this.currentRound,
+          shipIndex: hit.shipIndex,
+          shipSize: hit.shipSize,
+          ...(members ? { members } : {}),
+        });
+      }
+    }
+
     // Emit elimination events
     for (const eliminated of roundEliminations) {
-      this.emit('player_eliminated', { player: eliminated, round: this.currentRound });
+      const members = this.getTeamMembers(eliminated);
+      this.emit('player_eliminated', {
+        player: eliminated,
+        round: this.currentRound,
+        ...(members ? { members } : {}),
+      });
     }
 
     // Check for game completion
     const remaining = this.getRemainingPlayers();
     let winner: string | null = null;
 
-    if (remaining.length === 1) {
+    if (this.hasHiddenFleets()) {
+      // Hits are unknown until fleets are revealed
+    } else if (remaining.length === 1) {
       // Single survivor wins
       winner = remaining[0];
       this._winner = winner;
       this._isComplete = true;
     } else if (remaining.length === 0) {
-      // All eliminated in same round - use tiebreaker
-      winner = this.resolveTiebreaker(roundEliminations);
+      // All eliminated in same round - use tiebreaker. If every fleet was
+      // rejected at reveal, nobody sailed and all participants are tied.
+      winner = roundEliminations.length > 0
+        ? this.resolveTiebreaker(roundEliminations)
+        : this.orderByTiebreak(this.getParticipants(), 0)[0];
       this._winner = winner;
       this._isComplete = true;
-    } else if (this.currentRound >= MAX_ROUNDS) {
-      // Round 50 reached with multiple survivors
+    } else if (this.currentRound >= this.schedule.maxRounds) {
+      // Final round reached with multiple survivors
       winner = this.resolveMaxRoundWinner(remaining);
       this._winner = winner;
       this._isComplete = true;
@@ -226,14 +424,26 @@ export class GameEngine extends EventEmitter {
       roundNumber: this.currentRound,
       shots,
       hits: roundHits,
+      shipHits: roundShipHits,
       eliminations: roundEliminations,
       remainingPlayers: remaining,
       isGameComplete: this._isComplete,
       winner,
+      escalationLevel: getEscalationLevel(this.schedule, this.currentRound),
+      nextRoundShots: this._isComplete || this.currentRound >= this.schedule.maxRounds
+        ? 0
+        : getShotsForRound(this.schedule, this.currentRound + 1),
+      roundsRemaining: Math.max(0, this.schedule.maxRounds - this.currentRound),
     };
 
-    // Emit events
-    this.emit('round_complete', summary);
+    // Emit events; replayed blind rounds were already announced
+    if (!this.replaying) {
+      this.emit('round_complete', summary);
+    }
+
+    if (this.isAwaitingFleetReveal()) {
+      this.emit('awaiting_fleet_reveal', { totalRounds: this.currentRound });
+    }
 
     if (this._isComplete) {
       this.emit('game_complete', {
@@ -246,57 +456,37 @@ export class GameEngine extends EventEmitter {
   }
 
   /**
-   * Calculate shots for a round based on sudden death rules.
+   * Calculate shots for a round using the game's shot strategy.
+   * The shot count follows the sudden death schedule; with the default schedule:
    * - Rounds 1-30: 1 shot
    * - Rounds 31-40: 2 shots
    * - Rounds 41-50: 3 shots
    */
   calculateShots(oreResult: OreRoundResult): CellIndex[] {
-    const shots: CellIndex[] = [];
-
-    // Primary shot from ORE winning block
-    const primaryShot = createCellIndex(oreResult.winningBlock % TOTAL_CELLS);
-    shots.push(primaryShot);
-
-    // Calculate number of additional shots based on round
-    let additionalShots = 0;
-    if (oreResult.roundNumber >= SUDDEN_DEATH_ROUND_2) {
-      additionalShots = 2; // 3 total shots
-    } else if (oreResult.roundNumber >= SUDDEN_DEATH_ROUND_1) {
-      additionalShots = 1; // 2 total shots
-    }
-
-    // Generate derived shots
-    for (let i = 1; i <= additionalShots; i++) {
-      const derivedShot = this.deriveShotFromProof(
-        oreResult.proof,
-        oreResult.roundNumber,
-        i
-      );
-      shots.push(derivedShot);
-    }
+    const totalCells = getTotalCells(this.rules);
 
-    return shots;
-  }
+    // Surviving players' unhit ship cells, for strategies that weight by them
+    const unhitCellCounts = new Array<number>(totalCells).fill(0);
+    for (const card of this.cards.values()) {
+      if (card.isEliminated) {
+        continue;
+      }
+      for (const cell of card.generatedCard.allCells) {
+        if (!card.hitCells.has(cell)) {
+          unhitCellCounts[cell]++;
+        }
+      }
+    }
 
-  /**
-   * Derive a shot from proof using hash.
-   * derivedShot = hash(proof + roundNumber + shotIndex) mod 25
-   */
-  private deriveShotFromProof(
-    proof: string,
-    roundNumber: number,
-    shotIndex: number
-  ): CellIndex {
-    const hash = createHash('sha256');
-    hash.update(proof);
-    hash.update(Buffer.from([roundNumber]));
-    hash.update(Buffer.from([shotIndex]));
-    const digest = hash.digest();
-
-    // Use first 4 bytes as uint32, mod 25
-    const value = digest.readUInt32BE(0);
-    return createCellIndex(value % TOTAL_CELLS);
+    return this.shotStrategy.selectShots({
+      rules: this.rules,
+      ore: oreResult,
+      shotCount: getShotsForRound(this.schedule, oreResult.roundNumber),
+      previousShots: this.rounds
+        .filter(r => r.roundNumber < oreResult.roundNumber)
+        .flatMap(r => [r.primaryShot, ...r.derivedShots]),
+      unhitCellCounts,
+    });
   }
 
   /**
@@ -304,6 +494,7 @@ export class GameEngine extends EventEmitter {
    */
   applyShot(cell: CellIndex): ShotResult {
     const hits = new Map<string, boolean>();
+    const shipHits: ShipHit[] = [];
     const eliminations: string[] = [];
 
     for (const [playerId, card] of this.cards) {
@@ -318,8 +509,19 @@ export class GameEngine extends EventEmitter {
       if (isHit && !card.hitCells.has(cell)) {
         card.hitCells.add(cell);
 
-        // Check for elimination (all 6 cells hit)
-        if (card.hitCells.size >= TOTAL_SHIP_CELLS) {
+        const ships = card.generatedCard.ships;
+        const shipIndex = ships.findIndex(s => s.cells.includes(cell));
+        const ship = ships[shipIndex];
+        shipHits.push({
+          playerId,
+          cell,
+          shipIndex,
+          shipSize: ship.size,
+          sunk: ship.cells.every(c => card.hitCells.has(c)),
+        });
+
+        // Check for elimination (all 6 cells hit under the default rules)
+        if (card.hitCells.size >= this.rules.eliminationThreshold) {
           card.isEliminated = true;
           card.eliminatedAtRound = this.currentRound;
           eliminations.push(playerId);
@@ -327,7 +529,111 @@ export class GameEngine extends EventEmitter {
       }
     }
 
-    return { cell, hits, eliminations };
+    return { cell, hits, shipHits, eliminations };
+  }
+
+  // ===========================================================================
+  // Committed Fleets
+  // ===========================================================================
+
+  /**
+   * Reveal committed fleets once the final round has been played. Reveals
+   * are keyed by participant (team id in team mode). Missing or invalid
+   * reveals eliminate the participant, then the recorded shots are replayed
+   * against the revealed fleets to settle the game.
+   *
+   * @returns The participants whose fleets were rejected
+   * @throws Error if there are no blind fleets or rounds are still to play
+   */
+  revealPlacements(reveals: Readonly<Record<string, string>>): FleetRejection[] {
+    const fleets = this.config.fleetCommitments;
+    if (!fleets || fleets.reveals) {
+      throw new Error('Game has no fleets awaiting reveal');
+    }
+    if (!this.isAwaitingFleetReveal()) {
+      throw new Error('Fleets can only be revealed after the final round');
+    }
+
+    const blindRounds = [...this.rounds];
+    this.config = { ...this.config, fleetCommitments: { ...fleets, reveals: { ...reveals } } };
+    this.dealCards();
+    this.currentRound = 0;
+    this.rounds.length = 0;
+
+    this.emit('fleets_revealed', { rejected: this.getFleetRejections() });
+
+    this.replaying = true;
+    try {
+      for (const round of blindRounds) {
+        if (this._isComplete) {
+          break;
+        }
+        this.resolveRound(round.roundNumber, [round.primaryShot, ...round.derivedShots], round.oreProof);
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    return this.getFleetRejections();
+  }
+
+  /**
+   * True once every round has been fired blind and the game is waiting for
+   * revealPlacements().
+   */
+  isAwaitingFleetReveal(): boolean {
+    return this.hasHiddenFleets() && this.currentRound >= this.schedule.maxRounds;
+  }
+
+  /**
+   * Participants whose fleet was rejected at reveal.
+   */
+  getFleetRejections(): FleetRejection[] {
+    return [...this.fleetRejections];
+  }
+
+  private hasHiddenFleets(): boolean {
+    return this.config.fleetCommitments !== undefined && this.config.fleetCommitments.reveals === undefined;
+  }
+
+  // ===========================================================================
+  // Pausing
+  // ===========================================================================
+
+  /**
+   * Stop accepting rounds, e.g. while the ORE block the game depends on is
+   * in dispute. Rounds are rejected until resume().
+   */
+  pause(reason: string): void {
+    if (this._isComplete) {
+      throw new Error('Game is already complete');
+    }
+    if (this.pausedReason !== null) {
+      return;
+    }
+
+    this.pausedReason = reason;
+    this.emit('game_paused', { reason, round: this.currentRound });
+  }
+
+  /**
+   * Accept rounds again after pause().
+   */
+  resume(): void {
+    if (this.pausedReason === null) {
+      return;
+    }
+
+    this.pausedReason = null;
+    this.emit('game_resumed', { round: this.currentRound });
+  }
+
+  isPaused(): boolean {
+    return this.pausedReason !== null;
+  }
+
+  getPausedReason(): string | null {
+    return this.pausedReason;
   }
 
   // ===========================================================================
@@ -342,28 +648,38 @@ export class GameEngine extends EventEmitter {
     if (eliminatedPlayers.length === 0) {
       throw new Error('No players to tiebreak');
     }
-    if (eliminatedPlayers.length === 1) {
-      return eliminatedPlayers[0];
-    }
+    return this.orderByTiebreak(eliminatedPlayers, this.currentRound)[0];
+  }
 
+  /**
+   * Fully order tied players by repeatedly applying the tiebreaker hash:
+   * the first pick is the tiebreak winner, the next is picked from the rest.
+   */
+  private orderByTiebreak(players: readonly string[], roundNumber: number): string[] {
     // Sort wallets for deterministic ordering
-    const sorted = [...eliminatedPlayers].sort();
+    let pool = [...players].sort();
+    const ordered: string[] = [];
+
+    while (pool.length > 1) {
+      // Hash round + sorted wallets
+      const hash = createHash('sha256');
+      hash.update(Buffer.from([roundNumber]));
+      for (const wallet of pool) {
+        hash.update(wallet);
+      }
+      const digest = hash.digest();
 
-    // Hash round + sorted wallets
-    const hash = createHash('sha256');
-    hash.update(Buffer.from([this.currentRound]));
-    for (const wallet of sorted) {
-      hash.update(wallet);
+      // Use hash to select winner index
+      const winnerIndex = digest.readUInt32BE(0) % pool.length;
+      ordered.push(pool[winnerIndex]);
+      pool = pool.filter((_, i) => i !== winnerIndex);
     }
-    const digest = hash.digest();
 
-    // Use hash to select winner index
-    const winnerIndex = digest.readUInt32BE(0) % sorted.length;
-    return sorted[winnerIndex];
+    return [...ordered, ...pool];
   }
 
   /**
-   * Resolve winner at round 50 with multiple survivors.
+   * Resolve winner at the final round with multiple survivors.
    * Winner = most remaining cells, then tiebreaker.
    */
   private resolveMaxRoundWinner(remaining: string[]): string {
@@ -376,9 +692,10 @@ export class GameEngine extends EventEmitter {
 
     // Calculate remaining cells for each player
     const cellCounts: { playerId: string; remaining: number }[] = [];
+    const totalShipCells = getTotalShipCells(this.rules);
     for (const playerId of remaining) {
       const card = this.cards.get(playerId)!;
-      const remaining = TOTAL_SHIP_CELLS - card.hitCells.size;
+      const remaining = totalShipCells - card.hitCells.size;
       cellCounts.push({ playerId, remaining });
     }
 
@@ -403,35 +720,41 @@ export class GameEngine extends EventEmitter {
   // State Access Methods
   // ===========================================================================
 
+  /**
+   * Card for a participant. In team mode a member wallet resolves to its
+   * team's shared card.
+   */
   getPlayerCard(wallet: string): PlayerCard | null {
-    const card = this.cards.get(wallet);
+    const card = this.cards.get(this.resolveParticipant(wallet));
     if (!card) return null;
 
-    return {
-      playerId: card.playerId,
-      ships: card.generatedCard.ships,
-      hitCells: new Set(card.hitCells),
-      isEliminated: card.isEliminated,
-      eliminatedAtRound: card.eliminatedAtRound,
-    };
+    return this.toPlayerCard(card);
   }
 
   getAllCards(): Map<string, PlayerCard> {
     const result = new Map<string, PlayerCard>();
     for (const [wallet, card] of this.cards) {
-      result.set(wallet, {
-        playerId: card.playerId,
-        ships: card.generatedCard.ships,
-        hitCells: new Set(card.hitCells),
-        isEliminated: card.isEliminated,
-        eliminatedAtRound: card.eliminatedAtRound,
-      });
+      result.set(wallet, this.toPlayerCard(card));
     }
     return result;
   }
 
+  private toPlayerCard(card: MutablePlayerCard): PlayerCard {
+    return {
+      playerId: card.playerId,
+      ships: card.generatedCard.ships,
+      shipDamage: card.generatedCard.ships.map((ship, shipIndex): ShipDamage => {
+        const hits = ship.cells.filter(c => card.hitCells.has(c)).length;
+        return { shipIndex, size: ship.size, hits, isSunk: hits === ship.cells.length };
+      }),
+      hitCells: new Set(card.hitCells),
+      isEliminated: card.isEliminated,
+      eliminatedAtRound: card.eliminatedAtRound,
+    };
+  }
+
   getGeneratedCard(wallet: string): GeneratedCard | undefined {
-    return this.generatedCards.get(wallet);
+    return this.generatedCards.get(this.resolveParticipant(wallet));
   }
 
   getRoundHistory(): readonly RoundResult[] {
@@ -460,10 +783,118 @@ export class GameEngine extends EventEmitter {
     return this._winner;
   }
 
+  /**
+   * Wallets sharing the win: the winning team's members in team mode,
+   * otherwise just the winner.
+   */
+  getWinningMembers(): string[] {
+    if (this._winner === null) {
+      return [];
+    }
+    return this.getTeamMembers(this._winner) ?? [this._winner];
+  }
+
+  /**
+   * Standings table, best first. Survivors rank above eliminated players,
+   * ordered by cells remaining; eliminated players rank by elimination round,
+   * latest first. Ties fall back to the same hash tiebreaker used to pick
+   * the winner, so placement 1 is always getWinner() once the game is over.
+   */
+  getStandings(): Standing[] {
+    const totalShipCells = getTotalShipCells(this.rules);
+    const rows: Omit<Standing, 'placement'>[] = [];
+
+    const cellsRemaining = (card: MutablePlayerCard) => totalShipCells - card.hitCells.size;
+    const withMembers = (playerId: string) => {
+      const members = this.getTeamMembers(playerId);
+      return members ? { members } : {};
+    };
+
+    // Survivors, grouped by cells remaining
+    const survivors = Array.from(this.cards.values()).filter(c => !c.isEliminated);
+    const survivorGroups = groupBy(survivors, cellsRemaining, (a, b) => b - a);
+    for (const [cells, group] of survivorGroups) {
+      const decidedBy: StandingReason =
+        survivors.length === 1 && this._isComplete
+          ? 'last_survivor'
+          : group.length > 1
+            ? 'tiebreak'
+            : 'cells_remaining';
+
+      for (const playerId of this.orderByTiebreak(group.map(c => c.playerId), this.currentRound)) {
+        rows.push({ playerId, ...withMembers(playerId), eliminatedAtRound: null, cellsRemaining: cells, decidedBy });
+      }
+    }
+
+    // Eliminated players, grouped by elimination round
+    const eliminated = Array.from(this.cards.values()).filter(c => c.isEliminated);
+    const eliminatedGroups = groupBy(eliminated, c => c.eliminatedAtRound ?? 0, (a, b) => b - a);
+    for (const [round, group] of eliminatedGroups) {
+      const decidedBy: StandingReason = group.length > 1 ? 'tiebreak' : 'elimination_round';
+
+      for (const playerId of this.orderByTiebreak(group.map(c => c.playerId), round)) {
+        rows.push({
+          playerId,
+          ...withMembers(playerId),
+          eliminatedAtRound: round,
+          cellsRemaining: cellsRemaining(this.cards.get(playerId)!),
+          decidedBy,
+        });
+      }
+    }
+
+    return rows.map((row, i) => ({ placement: i + 1, ...row }));
+  }
+
+  // ===========================================================================
+  // Teams
+  // ===========================================================================
+
+  isTeamMode(): boolean {
+    return this.config.teams !== undefined;
+  }
+
+  /**
+   * Ids that hold cards, in card generation order: team ids in team mode,
+   * otherwise player wallets.
+   */
+  getParticipants(): string[] {
+    return this.config.teams
+      ? this.config.teams.map(t => t.teamId)
+      : [...this.config.players];
+  }
+
+  getTeams(): readonly TeamConfig[] {
+    return this.config.teams ?? [];
+  }
+
+  /**
+   * Team id for a member wallet, or null outside team mode.
+   */
+  getTeamForPlayer(wallet: string): string | null {
+    return this.teamByMember.get(wallet)?.teamId ?? null;
+  }
+
+  /**
+   * Member wallets of a team, or null if the id is not a team.
+   */
+  getTeamMembers(teamId: string): string[] | null {
+    const team = this.config.teams?.find(t => t.teamId === teamId);
+    return team ? [...team.members] : null;
+  }
+
+  private resolveParticipant(id: string): string {
+    return this.teamByMember.get(id)?.teamId ?? id;
+  }
+
   getGameState(): GameState {
     return {
       gameId: this.config.gameId,
-      status: this._isComplete ? GameStatus.COMPLETE : GameStatus.ACTIVE,
+      status: this._isComplete
+        ? GameStatus.COMPLETE
+        : this.pausedReason !== null
+          ? GameStatus.PAUSED
+          : GameStatus.ACTIVE,
       players: this.getAllCards(),
       currentRound: this.currentRound,
       rounds: this.rounds,
@@ -475,6 +906,18 @@ export class GameEngine extends EventEmitter {
     return this.config;
   }
 
+  getRules(): GameRules {
+    return this.rules;
+  }
+
+  getSchedule(): ShotSchedule {
+    return this.schedule;
+  }
+
+  getShotStrategy(): ShotStrategyName {
+    return this.shotStrategy.name;
+  }
+
   // ===========================================================================
   // Serialization
   // ===========================================================================
@@ -488,6 +931,11 @@ export class GameEngine extends EventEmitter {
         gameId: this.config.gameId,
         seed: Buffer.from(this.config.seed).toString('hex'),
         players: [...this.config.players],
+        rules: this.config.rules,
+        schedule: this.config.schedule,
+        shotStrategy: this.config.shotStrategy,
+        teams: this.config.teams?.map(t => ({ teamId: t.teamId, members: [...t.members] })),
+        fleetCommitments: this.config.fleetCommitments,
       },
       currentRound: this.currentRound,
       rounds: this.rounds.map(r => ({
@@ -505,6 +953,7 @@ export class GameEngine extends EventEmitter {
       })),
       isComplete: this._isComplete,
       winner: this._winner,
+      pausedReason: this.pausedReason,
     };
 
     return JSON.stringify(state);
@@ -526,6 +975,11 @@ export class GameEngine extends EventEmitter {
       gameId: state.config.gameId,
       seed,
       players: state.config.players,
+      rules: state.config.rules,
+      schedule: state.config.schedule,
+      shotStrategy: state.config.shotStrategy,
+      teams: state.config.teams,
+      fleetCommitments: state.config.fleetCommitments,
     };
 
     // Create engine (this regenerates cards)
@@ -535,6 +989,7 @@ export class GameEngine extends EventEmitter {
     engine.currentRound = state.currentRound;
     engine._isComplete = state.isComplete;
     engine._winner = state.winner;
+    engine.pausedReason = state.pausedReason ?? null;
 
     // Restore rounds
     engine.rounds.length = 0;
@@ -570,7 +1025,7 @@ export class GameEngine extends EventEmitter {
 
     // Replay all rounds
     for (const oreResult of oreHistory) {
-      if (engine.isGameComplete()) {
+      if (engine.isGameComplete() || engine.isAwaitingFleetReveal()) {
         break;
       }
       engine.processRound(oreResult);
@@ -584,6 +1039,25 @@ export class GameEngine extends EventEmitter {
 // Utility Functions
 // =============================================================================
 
+/**
+ * Group items by a numeric key, returning groups in key order.
+ */
+function groupBy<T>(
+  items: readonly T[],
+  key: (item: T) => number,
+  compare: (a: number, b: number) => number
+): [number, T[]][] {
+  const groups = new Map<number, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!groups.has(k)) {
+      groups.set(k, []);
+    }
+    groups.get(k)!.push(item);
+  }
+  return Array.from(groups).sort((a, b) => compare(a[0], b[0]));
+}
+
 /**
  * Generate mock ORE results for testing.
  */
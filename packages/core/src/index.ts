@@ -10,17 +10,41 @@ export * from './card-generator.js';
 export type {
   GameConfig,
   RoundSummary,
+  ShipHit,
   ShotResult,
   SerializedGameState,
+  Standing,
+  StandingReason,
 } from './game-engine.js';
 
 export { GameEngine, generateMockOreResults } from './game-engine.js';
 
+// Shot derivation strategies
+export * from './shot-strategy.js';
+
 // ORE monitor (OreRoundResult is canonical here)
 export * from './ore-monitor.js';
 
 // Commit-reveal scheme (Security mitigation C1)
 export * from './commit-reveal.js';
 
+// Player-chosen fleets committed at join time
+export * from './fleet-placement.js';
+
 // ORE block commitment (Security mitigation C2)
 export * from './ore-block-commitment.js';
+
+// Write-through storage for commitments (memory, file; Postgres in the server)
+export * from './commitment-storage.js';
+
+// Game replay verification
+export * from './verifier.js';
+
+// Signed game transcripts
+export * from './transcript.js';
+
+// Monte Carlo balance simulation
+export * from './simulator.js';
+
+// Card fairness analysis
+export * from './card-fairness.js';
@@ -9,8 +9,16 @@
 // 4. The committed block's hash is used in the final seed computation
 //
 // This ensures operator cannot mine multiple blocks and choose the most favorable one.
+//
+// Forks: a block only counts once `confirmationDepth` blocks are built on top
+// of it, and its hash is fetched again by reverifyCommitment() right before
+// the seed is finalized. Every hash seen for the target block is recorded per
+// source; if two observations differ (a reorg, or two sources disagreeing)
+// the verification fails with VERIFICATION_CONFLICT and the outcome is
+// 'verification_conflict', on which the game is paused rather than settled.
 
 import { createHash } from 'crypto';
+import { OreCommitmentStore, WriteThroughQueue } from './commitment-storage.js';
 
 // =============================================================================
 // Types
@@ -40,6 +48,8 @@ export interface OreBlockVerification {
   verified: boolean;
   /** Verification failure reason if any */
   failureReason?: OreVerificationFailure;
+  /** Every hash observed for the block, set on VERIFICATION_CONFLICT */
+  observations?: OreBlockObservation[];
 }
 
 export type OreVerificationFailure =
@@ -47,7 +57,25 @@ export type OreVerificationFailure =
   | 'BLOCK_HEIGHT_MISMATCH'  // Block height doesn't match commitment
   | 'INVALID_COMMITMENT_HASH' // Commitment hash verification failed
   | 'BLOCK_NOT_FOUND'        // Block at committed height doesn't exist yet
-  | 'COMMITMENT_EXPIRED';    // Too much time passed since commitment
+  | 'COMMITMENT_EXPIRED'     // Too much time passed since commitment
+  | 'VERIFICATION_CONFLICT'; // Different hashes were observed for the block
+
+/**
+ * Result of a verification attempt:
+ * - verified: the block hash can be used
+ * - pending: the block is not mined or not yet deep enough
+ * - failed: the commitment is invalid
+ * - verification_conflict: different hashes were observed; pause the game
+ */
+export type OreVerificationOutcome = 'verified' | 'pending' | 'failed' | 'verification_conflict';
+
+/** A block hash reported by one source for a game's target block */
+export interface OreBlockObservation {
+  /** Where the hash came from, e.g. 'rpc' for the getBlockHash callback */
+  source: string;
+  blockHash: string;
+  observedAt: number;
+}
 
 export interface OreBlockCommitmentConfig {
   /** Minimum blocks in the future for commitment (prevents last-second commits) */
@@ -56,6 +84,8 @@ export interface OreBlockCommitmentConfig {
   maxWaitTimeMs: number;
   /** Buffer time before block mining to require commitment (ms) */
   commitmentBufferMs: number;
+  /** Blocks that must follow the target block before it is used */
+  confirmationDepth: number;
 }
 
 export interface CreateCommitmentResult {
@@ -66,6 +96,7 @@ export interface CreateCommitmentResult {
 
 export interface VerifyCommitmentResult {
   success: boolean;
+  outcome: OreVerificationOutcome;
   verification?: OreBlockVerification;
   error?: string;
 }
@@ -78,8 +109,12 @@ export const DEFAULT_ORE_COMMITMENT_CONFIG: OreBlockCommitmentConfig = {
   minBlocksAhead: 3,           // Must commit at least 3 blocks ahead
   maxWaitTimeMs: 600_000,      // 10 minutes max wait for block
   commitmentBufferMs: 30_000,  // Commitment must be 30s before block mining
+  confirmationDepth: 2,        // Target block must have 2 blocks on top
 };
 
+// Source name for hashes fetched through the getBlockHash callback
+export const RPC_OBSERVATION_SOURCE = 'rpc';
+
 // Average ORE block time (approximate, used for estimations)
 const ESTIMATED_ORE_BLOCK_TIME_MS = 60_000; // ~1 minute per block
 
@@ -118,6 +153,16 @@ export function verifyCommitmentHash(commitment: OreBlockCommitment): boolean {
   return computed === commitment.commitmentHash;
 }
 
+/**
+ * Outcome of a recorded verification.
+ */
+export function verificationOutcome(verification: OreBlockVerification): OreVerificationOutcome {
+  if (verification.verified) {
+    return 'verified';
+  }
+  return verification.failureReason === 'VERIFICATION_CONFLICT' ? 'verification_conflict' : 'failed';
+}
+
 /**
  * Estimate when a future block will be mined.
  */
@@ -141,6 +186,7 @@ export class OreBlockCommitmentManager {
   private config: OreBlockCommitmentConfig;
   private commitments: Map<string, OreBlockCommitment> = new Map();
   private verifications: Map<string, OreBlockVerification> = new Map();
+  private observations: Map<string, OreBlockObservation[]> = new Map();
 
   // Callback to get current ORE block height (injected dependency)
   private getCurrentBlockHeight: () => Promise<number>;
@@ -149,18 +195,24 @@ export class OreBlockCommitmentManager {
   // Callback to get block mining timestamp (injected dependency)
   private getBlockTimestamp: (height: number) => Promise<number | null>;
 
+  // Optional store every change is written through to
+  private storage?: OreCommitmentStore;
+  private readonly writes = new WriteThroughQueue();
+
   constructor(
     config: Partial<OreBlockCommitmentConfig> = {},
     callbacks: {
       getCurrentBlockHeight: () => Promise<number>;
       getBlockHash: (height: number) => Promise<string | null>;
       getBlockTimestamp?: (height: number) => Promise<number | null>;
-    }
+    },
+    storage?: OreCommitmentStore
   ) {
     this.config = { ...DEFAULT_ORE_COMMITMENT_CONFIG, ...config };
     this.getCurrentBlockHeight = callbacks.getCurrentBlockHeight;
     this.getBlockHash = callbacks.getBlockHash;
     this.getBlockTimestamp = callbacks.getBlockTimestamp ?? (async () => Date.now());
+    this.storage = storage;
   }
 
   // ===========================================================================
@@ -209,6 +261,7 @@ export class OreBlockCommitmentManager {
     };
 
     this.commitments.set(gameId, commitment);
+    this.persist(storage => storage.saveOreCommitment({ ...commitment }));
 
     return {
       success: true,
@@ -242,6 +295,7 @@ export class OreBlockCommitmentManager {
 
   /**
    * Verify a commitment against the actual mined block.
+   * The block is only used once `confirmationDepth` blocks follow it.
    */
   async verifyCommitment(gameId: string): Promise<VerifyCommitmentResult> {
     const commitment = this.commitments.get(gameId);
@@ -249,6 +303,7 @@ export class OreBlockCommitmentManager {
     if (!commitment) {
       return {
         success: false,
+        outcome: 'failed',
         error: 'No commitment found for this game',
       };
     }
@@ -258,6 +313,7 @@ export class OreBlockCommitmentManager {
     if (existing) {
       return {
         success: existing.verified,
+        outcome: verificationOutcome(existing),
         verification: existing,
       };
     }
@@ -271,30 +327,48 @@ export class OreBlockCommitmentManager {
         verified: false,
         failureReason: 'INVALID_COMMITMENT_HASH',
       };
-      this.verifications.set(gameId, verification);
-      return { success: false, verification };
+      this.recordVerification(verification);
+      return { success: false, outcome: 'failed', verification };
     }
 
     // Get the block at committed height
+    const currentHeight = await this.getCurrentBlockHeight();
     const blockHash = await this.getBlockHash(commitment.targetBlockHeight);
 
     if (!blockHash) {
       return {
         success: false,
+        outcome: 'pending',
         error: 'Block not yet mined at committed height',
       };
     }
 
+    // Wait until the block is deep enough not to be orphaned
+    const confirmations = currentHeight - commitment.targetBlockHeight;
+    if (confirmations < this.config.confirmationDepth) {
+      return {
+        success: false,
+        outcome: 'pending',
+        error: `Waiting for confirmations (${Math.max(0, confirmations)}/${this.config.confirmationDepth})`,
+      };
+    }
+
     // Get block mining timestamp
     const blockMinedAt = await this.getBlockTimestamp(commitment.targetBlockHeight);
 
     if (!blockMinedAt) {
       return {
         success: false,
+        outcome: 'pending',
         error: 'Could not retrieve block timestamp',
       };
     }
 
+    // Compare with hashes other sources reported for the block
+    if (this.addObservation(gameId, RPC_OBSERVATION_SOURCE, blockHash)) {
+      return this.recordConflict(commitment, blockMinedAt);
+    }
+
     // Verify commitment was made before block was mined (with buffer)
     const commitmentDeadline = blockMinedAt - this.config.commitmentBufferMs;
 
@@ -306,8 +380,8 @@ export class OreBlockCommitmentManager {
         verified: false,
         failureReason: 'COMMITMENT_AFTER_BLOCK',
       };
-      this.verifications.set(gameId, verification);
-      return { success: false, verification };
+      this.recordVerification(verification);
+      return { success: false, outcome: 'failed', verification };
     }
 
     // Check commitment hasn't expired
@@ -320,8 +394,8 @@ export class OreBlockCommitmentManager {
         verified: false,
         failureReason: 'COMMITMENT_EXPIRED',
       };
-      this.verifications.set(gameId, verification);
-      return { success: false, verification };
+      this.recordVerification(verification);
+      return { success: false, outcome: 'failed', verification };
     }
 
     // All checks passed
@@ -331,14 +405,111 @@ export class OreBlockCommitmentManager {
       blockMinedAt,
       verified: true,
     };
-    this.verifications.set(gameId, verification);
+    this.recordVerification(verification);
 
     return {
       success: true,
+      outcome: 'verified',
       verification,
     };
   }
 
+  /**
+   * Fetch the target block's hash again and check it still matches the
+   * verified one. Call right before finalizing the seed: a changed or
+   * missing hash means the block was orphaned and gives a conflict.
+   */
+  async reverifyCommitment(gameId: string): Promise<VerifyCommitmentResult> {
+    const existing = this.verifications.get(gameId);
+    if (!existing?.verified) {
+      return this.verifyCommitment(gameId);
+    }
+
+    const blockHash = await this.getBlockHash(existing.commitment.targetBlockHeight);
+    if (this.addObservation(gameId, RPC_OBSERVATION_SOURCE, blockHash ?? '')) {
+      return this.recordConflict(existing.commitment, existing.blockMinedAt);
+    }
+
+    return { success: true, outcome: 'verified', verification: existing };
+  }
+
+  /**
+   * Record a hash another source (e.g. a webhook or a second RPC) reported
+   * for a game's target block. Only report hashes of confirmed blocks.
+   * @returns 'verification_conflict' if it differs from any hash seen so
+   *   far, otherwise the current verification outcome
+   */
+  observeBlockHash(gameId: string, source: string, blockHash: string): OreVerificationOutcome {
+    const commitment = this.commitments.get(gameId);
+    if (!commitment) {
+      return 'failed';
+    }
+
+    const existing = this.verifications.get(gameId);
+    if (existing && !existing.verified) {
+      return verificationOutcome(existing);
+    }
+
+    if (this.addObservation(gameId, source, blockHash)) {
+      return this.recordConflict(commitment, existing?.blockMinedAt ?? 0).outcome;
+    }
+    return existing ? 'verified' : 'pending';
+  }
+
+  /**
+   * Get every hash observed for a game's target block.
+   */
+  getObservations(gameId: string): OreBlockObservation[] {
+    return [...(this.observations.get(gameId) ?? [])];
+  }
+
+  /**
+   * Add an observation unless the source already reported the same hash.
+   * @returns True if the hash differs from an earlier observation or the
+   *   verified hash
+   */
+  private addObservation(gameId: string, source: string, blockHash: string): boolean {
+    const observations = this.observations.get(gameId) ?? [];
+    if (!observations.some(o => o.source === source && o.blockHash === blockHash)) {
+      observations.push({ source, blockHash, observedAt: Date.now() });
+      this.observations.set(gameId, observations);
+    }
+
+    const verified = this.verifications.get(gameId);
+    const known = new Set(observations.map(o => o.blockHash));
+    if (verified?.verified) {
+      known.add(verified.actualBlockHash);
+    }
+    return known.size > 1;
+  }
+
+  private recordConflict(commitment: OreBlockCommitment, blockMinedAt: number): VerifyCommitmentResult {
+    const observations = this.getObservations(commitment.gameId);
+    const previous = this.verifications.get(commitment.gameId);
+
+    const verification: OreBlockVerification = {
+      commitment,
+      actualBlockHash: previous?.actualBlockHash ?? observations[0].blockHash,
+      blockMinedAt,
+      verified: false,
+      failureReason: 'VERIFICATION_CONFLICT',
+      observations,
+    };
+    this.recordVerification(verification);
+
+    return {
+      success: false,
+      outcome: 'verification_conflict',
+      verification,
+      error: `Conflicting hashes observed for block ${commitment.targetBlockHeight}`,
+    };
+  }
+
+  private recordVerification(verification: OreBlockVerification): void {
+    this.verifications.set(verification.commitment.gameId, verification);
+    this.persist(storage => storage.saveOreVerification(structuredClone(verification)));
+  }
+
   /**
    * Get the verified block hash for a game (only after successful verification).
    */
@@ -426,6 +597,8 @@ export class OreBlockCommitmentManager {
   clearGame(gameId: string): void {
     this.commitments.delete(gameId);
     this.verifications.delete(gameId);
+    this.observations.delete(gameId);
+    this.persist(storage => storage.deleteOreCommitment(gameId));
   }
 
   /**
@@ -437,6 +610,41 @@ export class OreBlockCommitmentManager {
     );
   }
 
+  // ===========================================================================
+  // Storage
+  // ===========================================================================
+
+  /**
+   * Replace in-memory state with everything in storage (e.g. after a restart).
+   * @throws Error if no storage was configured
+   */
+  async loadFromStorage(): Promise<void> {
+    if (!this.storage) {
+      throw new Error('No storage configured');
+    }
+    const stored = await this.storage.loadOreCommitments();
+    this.commitments = new Map(stored.commitments.map(c => [c.gameId, c]));
+    this.verifications = new Map(stored.verifications.map(v => [v.commitment.gameId, v]));
+    this.observations = new Map(
+      stored.verifications.filter(v => v.observations).map(v => [v.commitment.gameId, v.observations!])
+    );
+  }
+
+  /**
+   * Wait until every change so far has been written to storage.
+   * @throws the first storage error since the last flush
+   */
+  flush(): Promise<void> {
+    return this.writes.flush();
+  }
+
+  private persist(write: (storage: OreCommitmentStore) => Promise<void>): void {
+    const storage = this.storage;
+    if (storage) {
+      this.writes.write(() => write(storage));
+    }
+  }
+
   // ===========================================================================
   // Serialization
   // ===========================================================================
@@ -448,6 +656,7 @@ export class OreBlockCommitmentManager {
     return JSON.stringify({
       commitments: Array.from(this.commitments.entries()),
       verifications: Array.from(this.verifications.entries()),
+      observations: Array.from(this.observations.entries()),
     });
   }
 
@@ -458,6 +667,7 @@ export class OreBlockCommitmentManager {
     const data = JSON.parse(json);
     this.commitments = new Map(data.commitments);
     this.verifications = new Map(data.verifications);
+    this.observations = new Map(data.observations ?? []);
   }
 }
 
@@ -469,7 +679,8 @@ export class OreBlockCommitmentManager {
  * Create an OreBlockCommitmentManager with mock callbacks for testing.
  */
 export function createMockOreBlockCommitmentManager(
-  config?: Partial<OreBlockCommitmentConfig>
+  config?: Partial<OreBlockCommitmentConfig>,
+  storage?: OreCommitmentStore
 ): {
   manager: OreBlockCommitmentManager;
   setBlockHeight: (height: number) => void;
@@ -482,7 +693,7 @@ export function createMockOreBlockCommitmentManager(
     getCurrentBlockHeight: async () => currentBlockHeight,
     getBlockHash: async (height) => blocks.get(height)?.hash ?? null,
     getBlockTimestamp: async (height) => blocks.get(height)?.timestamp ?? null,
-  });
+  }, storage);
 
   return {
     manager,
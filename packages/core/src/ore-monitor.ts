@@ -1,10 +1,12 @@
 // Battle Dinghy - ORE Monitor
 //
 // This module provides an interface for monitoring ORE mining rounds.
-// The OreMonitorMock implementation allows testing without real ORE.
+// The OreMonitorMock implementation allows testing without real ORE;
+// OreMonitorReplay plays back a recorded round sequence.
 
 import { EventEmitter } from 'events';
 import { createHash } from 'crypto';
+import { appendFileSync, readFileSync } from 'fs';
 import { TOTAL_CELLS } from './types.js';
 
 // =============================================================================
@@ -266,6 +268,234 @@ export class OreMonitorMock extends OreMonitor {
   }
 }
 
+// =============================================================================
+// OreMonitorReplay
+// =============================================================================
+
+export interface OreReplayOptions {
+  /**
+   * Playback speed relative to the recorded timestamps (default 1; 10 plays
+   * ten times faster). 0 disables automatic playback; use step().
+   */
+  speed?: number;
+}
+
+/**
+ * Plays back a recorded sequence of ORE rounds, e.g. captured from a live
+ * monitor with captureOreRounds(), so a production game can be reproduced.
+ *
+ * The first round is emitted as soon as the monitor starts; each later round
+ * follows after the recorded gap divided by `speed`. Emits 'end' once every
+ * round has been played.
+ */
+export class OreMonitorReplay extends OreMonitor {
+  private readonly rounds: readonly OreRoundResult[];
+  private readonly speed: number;
+  private position = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(rounds: readonly OreRoundResult[], options: OreReplayOptions = {}) {
+    super();
+    const speed = options.speed ?? 1;
+    if (!(speed >= 0) || !Number.isFinite(speed)) {
+      throw new Error(`Invalid replay speed: ${options.speed}`);
+    }
+    this.rounds = [...rounds];
+    this.speed = speed;
+  }
+
+  /**
+   * Create a replay from a JSONL recording (one OreRoundResult per line).
+   */
+  static fromFile(path: string, options?: OreReplayOptions): OreMonitorReplay {
+    return new OreMonitorReplay(parseOreRoundsJsonl(readFileSync(path, 'utf8')), options);
+  }
+
+  async start(): Promise<void> {
+    if (this._isRunning) {
+      return;
+    }
+    this._isRunning = true;
+    this.scheduleNext(0);
+  }
+
+  stop(): void {
+    this._isRunning = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.emit('stopped');
+  }
+
+  async getCurrentRound(): Promise<number> {
+    return this._currentRound;
+  }
+
+  waitForRound(target: number, timeoutMs?: number): Promise<OreRoundResult> {
+    const played = this.rounds.slice(0, this.position);
+    const existing = played.find(r => r.roundNumber === target);
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+    if (!this.rounds.some(r => r.roundNumber === target)) {
+      return Promise.reject(new Error(`Round ${target} is not in the recording`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        this.off('round', onRound);
+        this.off('stopped', onStopped);
+        if (timeout) clearTimeout(timeout);
+      };
+      const onRound = (result: OreRoundResult) => {
+        if (result.roundNumber === target) {
+          cleanup();
+          resolve(result);
+        }
+      };
+      const onStopped = () => {
+        cleanup();
+        reject(new Error('Monitor stopped'));
+      };
+      const timeout =
+        timeoutMs !== undefined && timeoutMs > 0
+          ? setTimeout(() => {
+              cleanup();
+              reject(new Error(`Timeout waiting for round ${target}`));
+            }, timeoutMs)
+          : null;
+
+      this.on('round', onRound);
+      this.on('stopped', onStopped);
+    });
+  }
+
+  /**
+   * Emit the next recorded round now.
+   * @returns The emitted round, or null if the recording is finished
+   */
+  step(): OreRoundResult | null {
+    if (this.position >= this.rounds.length) {
+      return null;
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const result = this.rounds[this.position++];
+    this._currentRound = result.roundNumber;
+    this.emit('round', result);
+
+    if (this.position >= this.rounds.length) {
+      this.emit('end');
+    } else if (this._isRunning) {
+      const next = this.rounds[this.position];
+      this.scheduleNext(Math.max(0, next.timestamp - result.timestamp));
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the rounds played so far.
+   */
+  getHistory(): readonly OreRoundResult[] {
+    return this.rounds.slice(0, this.position);
+  }
+
+  /**
+   * Check if every recorded round has been played.
+   */
+  isFinished(): boolean {
+    return this.position >= this.rounds.length;
+  }
+
+  private scheduleNext(recordedGapMs: number): void {
+    if (this.speed === 0 || this.position >= this.rounds.length) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.step();
+    }, recordedGapMs / this.speed);
+  }
+}
+
+// =============================================================================
+// Recording Format
+// =============================================================================
+
+/**
+ * Parse a JSONL recording of ORE rounds. Blank lines are ignored.
+ *
+ * Rounds recorded without a round number (0, as from parseOreWebhook) are
+ * numbered after the previous round. Otherwise round numbers must increase.
+ *
+ * @throws Error naming the first bad line
+ */
+export function parseOreRoundsJsonl(text: string): OreRoundResult[] {
+  const rounds: OreRoundResult[] = [];
+
+  text.split('\n').forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+
+    const fail = (reason: string): never => {
+      throw new Error(`Line ${index + 1}: ${reason}`);
+    };
+
+    let value: Partial<OreRoundResult>;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      return fail('invalid JSON');
+    }
+
+    const { roundNumber, winningBlock, timestamp, proof } = value;
+    if (!Number.isInteger(roundNumber) || roundNumber! < 0) fail('roundNumber must be a non-negative integer');
+    if (!Number.isInteger(winningBlock) || winningBlock! < 0 || winningBlock! >= TOTAL_CELLS) {
+      fail(`winningBlock must be 0-${TOTAL_CELLS - 1}`);
+    }
+    if (typeof timestamp !== 'number') fail('timestamp must be a number');
+    if (typeof proof !== 'string') fail('proof must be a string');
+
+    const previous = rounds[rounds.length - 1]?.roundNumber ?? 0;
+    const number = roundNumber === 0 ? previous + 1 : roundNumber!;
+    if (number <= previous) {
+      fail(`round ${number} does not follow round ${previous}`);
+    }
+
+    rounds.push({ roundNumber: number, winningBlock: winningBlock!, timestamp: timestamp!, proof: proof! });
+  });
+
+  return rounds;
+}
+
+/**
+ * Format rounds as JSONL, one OreRoundResult per line.
+ */
+export function formatOreRoundsJsonl(rounds: readonly OreRoundResult[]): string {
+  return rounds.map(r => JSON.stringify(r) + '\n').join('');
+}
+
+/**
+ * Append every round a monitor emits to a JSONL file, for later replay.
+ * @returns A function that stops capturing
+ */
+export function captureOreRounds(monitor: OreMonitor, path: string): () => void {
+  const onRound = (result: OreRoundResult) => {
+    appendFileSync(path, formatOreRoundsJsonl([result]));
+  };
+  monitor.on('round', onRound);
+  return () => {
+    monitor.off('round', onRound);
+  };
+}
+
 // =============================================================================
 // Utility Functions
 // =============================================================================
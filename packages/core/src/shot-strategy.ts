@@ -0,0 +1,234 @@
+// Battle Dinghy - Shot Derivation Strategies
+//
+// A shot strategy turns one ORE round result into the cells fired that round.
+// Every strategy is a pure function of the ORE result and the game state the
+// engine already derives from ORE history, so replays always reproduce the
+// same shots.
+
+import { createHash } from 'crypto';
+import {
+  CellIndex,
+  GameRules,
+  TOTAL_CELLS,
+  createCellIndex,
+  getTotalCells,
+} from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Built-in shot strategies, selectable per game via GameConfig.shotStrategy.
+ * - `standard`: primary shot from the ORE winning block, extra shots hashed
+ *   from the proof (duplicates within a round are possible)
+ * - `unique-per-round`: like standard, but no cell is fired twice in a round
+ * - `bag`: no cell is fired twice in a game until every cell has been fired,
+ *   after which the bag refills
+ * - `weighted-unhit`: cells are drawn with weight 1 + the number of surviving
+ *   players with an unhit ship cell there
+ */
+export type ShotStrategyName = 'standard' | 'unique-per-round' | 'bag' | 'weighted-unhit';
+
+/** Strategy used when GameConfig.shotStrategy is not set */
+export const DEFAULT_SHOT_STRATEGY: ShotStrategyName = 'standard';
+
+/**
+ * ORE input for one round
+ */
+export interface ShotOreInput {
+  readonly roundNumber: number;
+  readonly winningBlock: number;
+  readonly proof: string;
+}
+
+/**
+ * Everything a strategy may use to pick a round's shots
+ */
+export interface ShotContext {
+  readonly rules: GameRules;
+  readonly ore: ShotOreInput;
+  /** Number of shots the schedule allows this round */
+  readonly shotCount: number;
+  /** Every shot fired in earlier rounds, in order */
+  readonly previousShots: readonly CellIndex[];
+  /** Per cell, how many surviving players have an unhit ship cell there */
+  readonly unhitCellCounts: readonly number[];
+}
+
+/**
+ * Shot derivation strategy
+ */
+export interface ShotStrategy {
+  readonly name: ShotStrategyName;
+  /** Return exactly `context.shotCount` cells; the first is the primary shot */
+  selectShots(context: ShotContext): CellIndex[];
+}
+
+// =============================================================================
+// Derivation Helpers
+// =============================================================================
+
+/**
+ * Hash the ORE proof for one shot slot.
+ * value = uint32(sha256(proof + roundNumber + shotIndex))
+ */
+export function hashShotValue(proof: string, roundNumber: number, shotIndex: number): number {
+  const hash = createHash('sha256');
+  hash.update(proof);
+  hash.update(Buffer.from([roundNumber]));
+  hash.update(Buffer.from([shotIndex]));
+  return hash.digest().readUInt32BE(0);
+}
+
+/**
+ * Derive a shot from proof using hash.
+ * derivedShot = hash(proof + roundNumber + shotIndex) mod totalCells
+ */
+export function deriveShotFromProof(
+  proof: string,
+  roundNumber: number,
+  shotIndex: number,
+  rules?: GameRules
+): CellIndex {
+  const totalCells = rules ? getTotalCells(rules) : TOTAL_CELLS;
+  return (hashShotValue(proof, roundNumber, shotIndex) % totalCells) as CellIndex;
+}
+
+/**
+ * Primary shot for a round. ORE always picks one of 25 squares, so boards of
+ * any other size derive the primary shot from the proof instead to keep every
+ * cell reachable without modulo bias.
+ */
+export function derivePrimaryShot(ore: ShotOreInput, rules: GameRules): CellIndex {
+  return getTotalCells(rules) === TOTAL_CELLS
+    ? createCellIndex(ore.winningBlock % TOTAL_CELLS)
+    : deriveShotFromProof(ore.proof, ore.roundNumber, 0, rules);
+}
+
+/**
+ * Pick the cell for one shot slot from a pool of candidates, in pool order.
+ */
+function pickFromPool(pool: readonly CellIndex[], ore: ShotOreInput, shotIndex: number): CellIndex {
+  return pool[hashShotValue(ore.proof, ore.roundNumber, shotIndex) % pool.length];
+}
+
+function allCells(rules: GameRules): CellIndex[] {
+  return Array.from({ length: getTotalCells(rules) }, (_, i) => i as CellIndex);
+}
+
+/**
+ * Draw shots without replacement from a pool, refilling it from `refill`
+ * whenever it runs dry. The primary shot is the ORE cell when it is still in
+ * the pool.
+ */
+function drawWithoutReplacement(
+  context: ShotContext,
+  pool: CellIndex[],
+  refill: () => CellIndex[]
+): CellIndex[] {
+  const { ore, rules, shotCount } = context;
+  const shots: CellIndex[] = [];
+
+  for (let i = 0; i < shotCount; i++) {
+    if (pool.length === 0) {
+      pool = refill();
+    }
+
+    let shot: CellIndex;
+    const primary = i === 0 ? derivePrimaryShot(ore, rules) : null;
+    if (primary !== null && pool.includes(primary)) {
+      shot = primary;
+    } else {
+      shot = pickFromPool(pool, ore, i);
+    }
+
+    shots.push(shot);
+    pool = pool.filter(cell => cell !== shot);
+  }
+
+  return shots;
+}
+
+// =============================================================================
+// Built-in Strategies
+// =============================================================================
+
+const standardStrategy: ShotStrategy = {
+  name: 'standard',
+  selectShots({ ore, rules, shotCount }) {
+    const shots = [derivePrimaryShot(ore, rules)];
+    for (let i = 1; i < shotCount; i++) {
+      shots.push(deriveShotFromProof(ore.proof, ore.roundNumber, i, rules));
+    }
+    return shots;
+  },
+};
+
+const uniquePerRoundStrategy: ShotStrategy = {
+  name: 'unique-per-round',
+  selectShots(context) {
+    return drawWithoutReplacement(context, allCells(context.rules), () => allCells(context.rules));
+  },
+};
+
+const bagStrategy: ShotStrategy = {
+  name: 'bag',
+  selectShots(context) {
+    const cells = allCells(context.rules);
+
+    // Replay earlier draws to find what is left in the bag
+    let bag = cells;
+    for (const shot of context.previousShots) {
+      bag = bag.filter(cell => cell !== shot);
+      if (bag.length === 0) {
+        bag = cells;
+      }
+    }
+
+    return drawWithoutReplacement(context, bag, () => cells);
+  },
+};
+
+const weightedUnhitStrategy: ShotStrategy = {
+  name: 'weighted-unhit',
+  selectShots({ ore, rules, shotCount, unhitCellCounts }) {
+    const weights = allCells(rules).map(cell => 1 + (unhitCellCounts[cell] ?? 0));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const shots: CellIndex[] = [];
+
+    for (let i = 0; i < shotCount; i++) {
+      let target = hashShotValue(ore.proof, ore.roundNumber, i) % totalWeight;
+      let cell = 0;
+      while (target >= weights[cell]) {
+        target -= weights[cell];
+        cell++;
+      }
+      shots.push(cell as CellIndex);
+    }
+
+    return shots;
+  },
+};
+
+const STRATEGIES: Record<ShotStrategyName, ShotStrategy> = {
+  standard: standardStrategy,
+  'unique-per-round': uniquePerRoundStrategy,
+  bag: bagStrategy,
+  'weighted-unhit': weightedUnhitStrategy,
+};
+
+/** Names of all built-in strategies */
+export const SHOT_STRATEGY_NAMES = Object.keys(STRATEGIES) as ShotStrategyName[];
+
+/**
+ * Look up a built-in strategy by name.
+ * @throws Error if the name is unknown
+ */
+export function getShotStrategy(name: ShotStrategyName = DEFAULT_SHOT_STRATEGY): ShotStrategy {
+  const strategy = Object.prototype.hasOwnProperty.call(STRATEGIES, name) ? STRATEGIES[name] : undefined;
+  if (!strategy) {
+    throw new Error(`Unknown shot strategy: ${name}`);
+  }
+  return strategy;
+}
@@ -0,0 +1,319 @@
+// Battle Dinghy - Monte Carlo Balance Simulator
+//
+// Runs many seeded games under one ruleset and aggregates the outcomes:
+// - How long games last, and how often they reach sudden death
+// - How often the winner is decided by the tiebreaker
+// - Win rates for every ship placement, with a chi-square test per ship size
+//
+// Each game's seed is derived from a master seed and the game number, so a
+// run is reproducible from (masterSeed, games, players, ruleset).
+
+import { createHash } from 'crypto';
+import {
+  DEFAULT_RULES,
+  DEFAULT_SHOT_SCHEDULE,
+  GameRules,
+  ShipSize,
+  ShotSchedule,
+  getEscalationLevel,
+} from './types.js';
+import { GameEngine, generateMockOreResults } from './game-engine.js';
+import { getAllValidPlacements, getShipCells } from './card-generator.js';
+import { ShotStrategyName } from './shot-strategy.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Simulation parameters
+ */
+export interface SimulationOptions {
+  /** Number of games to simulate */
+  readonly games: number;
+  /** Players per game */
+  readonly players: number;
+  /** 32-byte master seed every game seed is derived from */
+  readonly seed: Uint8Array;
+  readonly rules?: GameRules;
+  readonly schedule?: ShotSchedule;
+  readonly shotStrategy?: ShotStrategyName;
+}
+
+/**
+ * Win statistics for one ship placement
+ */
+export interface PlacementStats {
+  /** `${size}:${cells}` e.g. "3:0-1-2" */
+  readonly key: string;
+  readonly size: ShipSize;
+  readonly cells: readonly number[];
+  /** Cards that carried a ship in this placement */
+  readonly appearances: number;
+  /** Of those cards, how many won */
+  readonly wins: number;
+  readonly winRate: number;
+}
+
+/**
+ * Chi-square goodness-of-fit of wins across placements of one ship size,
+ * against the null hypothesis that every placement wins 1/players of the
+ * time.
+ */
+export interface PlacementFairness {
+  readonly size: ShipSize;
+  readonly chiSquare: number;
+  readonly degreesOfFreedom: number;
+  /** Approximate p-value (Wilson-Hilferty); small values suggest bias */
+  readonly pValue: number;
+}
+
+/**
+ * Aggregated simulation results
+ */
+export interface SimulationReport {
+  readonly games: number;
+  readonly players: number;
+  readonly rules: GameRules;
+  readonly shotStrategy: ShotStrategyName;
+  /** Game length in rounds -> number of games */
+  readonly lengthDistribution: Readonly<Record<number, number>>;
+  readonly meanLength: number;
+  readonly minLength: number;
+  readonly maxLength: number;
+  /** Fraction of games that reached an escalation step beyond the first */
+  readonly suddenDeathRate: number;
+  /** Fraction of games that went the full schedule with survivors left */
+  readonly maxRoundsRate: number;
+  /** Fraction of games whose winner was decided by the tiebreaker */
+  readonly tiebreakRate: number;
+  /** Wins per join position; should be flat */
+  readonly winsBySeat: readonly number[];
+  /** Every placement the card generator can produce, in ship-size order */
+  readonly placements: readonly PlacementStats[];
+  readonly fairness: readonly PlacementFairness[];
+}
+
+// =============================================================================
+// Simulation
+// =============================================================================
+
+/**
+ * Derive the seed for one simulated game.
+ */
+export function deriveSimulationSeed(masterSeed: Uint8Array, gameIndex: number): Uint8Array {
+  const hash = createHash('sha256');
+  hash.update(masterSeed);
+  hash.update(`simulation-game-${gameIndex}`);
+  return new Uint8Array(hash.digest());
+}
+
+/**
+ * Run a Monte Carlo simulation.
+ * @throws Error if the options are out of range or the ruleset is invalid
+ */
+export function runSimulation(options: SimulationOptions): SimulationReport {
+  const rules = options.rules ?? DEFAULT_RULES;
+  const schedule = options.schedule ?? DEFAULT_SHOT_SCHEDULE;
+  const shotStrategy = options.shotStrategy ?? 'standard';
+
+  if (!Number.isInteger(options.games) || options.games < 1) {
+    throw new Error('Simulation needs at least one game');
+  }
+  if (!Number.isInteger(options.players) || options.players < 2) {
+    throw new Error('Simulation needs at least two players');
+  }
+
+  const players = Array.from({ length: options.players }, (_, i) => `sim-player-${i + 1}`);
+  const placements = createPlacementTable(rules);
+  const lengths: number[] = [];
+  const winsBySeat = new Array<number>(players.length).fill(0);
+  let suddenDeathGames = 0;
+  let maxRoundsGames = 0;
+  let tiebreakGames = 0;
+
+  for (let i = 0; i < options.games; i++) {
+    const seed = deriveSimulationSeed(options.seed, i);
+    const engine = GameEngine.recover(
+      { gameId: `simulation-${i}`, seed, players, rules, schedule, shotStrategy },
+      generateMockOreResults(schedule.maxRounds, seed)
+    );
+
+    const rounds = engine.getCurrentRound();
+    const winner = engine.getWinner();
+    const [first] = engine.getStandings();
+
+    lengths.push(rounds);
+    if (getEscalationLevel(schedule, rounds) > 0) suddenDeathGames++;
+    if (rounds >= schedule.maxRounds && first.decidedBy !== 'last_survivor') maxRoundsGames++;
+    if (first.decidedBy === 'tiebreak') tiebreakGames++;
+    if (winner) winsBySeat[players.indexOf(winner)]++;
+
+    for (const player of players) {
+      const won = player === winner;
+      for (const ship of engine.getGeneratedCard(player)!.ships) {
+        const stats = placements.get(placementKey(ship.size, ship.cells))!;
+        stats.appearances++;
+        if (won) stats.wins++;
+      }
+    }
+  }
+
+  const placementStats = Array.from(placements.values()).map(
+    (p): PlacementStats => ({ ...p, winRate: p.appearances > 0 ? p.wins / p.appearances : 0 })
+  );
+
+  const lengthDistribution: Record<number, number> = {};
+  for (const length of lengths) {
+    lengthDistribution[length] = (lengthDistribution[length] ?? 0) + 1;
+  }
+
+  return {
+    games: options.games,
+    players: options.players,
+    rules,
+    shotStrategy,
+    lengthDistribution,
+    meanLength: lengths.reduce((sum, l) => sum + l, 0) / lengths.length,
+    minLength: Math.min(...lengths),
+    maxLength: Math.max(...lengths),
+    suddenDeathRate: suddenDeathGames / options.games,
+    maxRoundsRate: maxRoundsGames / options.games,
+    tiebreakRate: tiebreakGames / options.games,
+    winsBySeat,
+    placements: placementStats,
+    fairness: uniqueSizes(rules).map(size =>
+      testPlacementFairness(size, placementStats.filter(p => p.size === size), options.players)
+    ),
+  };
+}
+
+// =============================================================================
+// Placements
+// =============================================================================
+
+interface MutablePlacementStats {
+  key: string;
+  size: ShipSize;
+  cells: number[];
+  appearances: number;
+  wins: number;
+}
+
+function placementKey(size: ShipSize, cells: readonly number[]): string {
+  return `${size}:${[...cells].sort((a, b) => a - b).join('-')}`;
+}
+
+function uniqueSizes(rules: GameRules): ShipSize[] {
+  return Array.from(new Set(rules.fleet));
+}
+
+/**
+ * Every distinct placement from getAllValidPlacements on an empty board.
+ * Single-cell ships appear under both directions there, so placements are
+ * keyed by the cells they cover.
+ */
+function createPlacementTable(rules: GameRules): Map<string, MutablePlacementStats> {
+  const table = new Map<string, MutablePlacementStats>();
+  for (const size of uniqueSizes(rules)) {
+    for (const placement of getAllValidPlacements(size, new Set(), rules)) {
+      const cells = getShipCells(placement, rules)!;
+      const key = placementKey(size, cells);
+      if (!table.has(key)) {
+        table.set(key, { key, size, cells: [...cells], appearances: 0, wins: 0 });
+      }
+    }
+  }
+  return table;
+}
+
+/**
+ * Chi-square test of observed wins against appearances / players.
+ * Placements that never appeared carry no information and are skipped.
+ */
+export function testPlacementFairness(
+  size: ShipSize,
+  placements: readonly PlacementStats[],
+  players: number
+): PlacementFairness {
+  const observed = placements.filter(p => p.appearances > 0);
+  let chiSquare = 0;
+
+  for (const p of observed) {
+    const expected = p.appearances / players;
+    chiSquare += (p.wins - expected) ** 2 / expected;
+  }
+
+  const degreesOfFreedom = Math.max(observed.length - 1, 0);
+  return {
+    size,
+    chiSquare,
+    degreesOfFreedom,
+    pValue: chiSquareUpperTail(chiSquare, degreesOfFreedom),
+  };
+}
+
+/**
+ * Upper-tail probability of the chi-square distribution using the
+ * Wilson-Hilferty normal approximation.
+ */
+function chiSquareUpperTail(x: number, k: number): number {
+  if (k <= 0) return 1;
+  const z = (Math.cbrt(x / k) - (1 - 2 / (9 * k))) / Math.sqrt(2 / (9 * k));
+  return 1 - normalCdf(z);
+}
+
+function normalCdf(z: number): number {
+  // Abramowitz & Stegun 7.1.26
+  const t = 1 / (1 + 0.3275911 * (Math.abs(z) / Math.SQRT2));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Render a report as plain text.
+ */
+export function formatSimulationReport(report: SimulationReport): string {
+  const lines: string[] = [];
+
+  lines.push(
+    `Battle Dinghy simulation - ${report.games} games, ${report.players} players, ` +
+      `${report.rules.gridWidth}x${report.rules.gridHeight} board, fleet ${report.rules.fleet.join('/')}, ` +
+      `${report.shotStrategy} shots`
+  );
+
+  lines.push('', 'Game length');
+  lines.push(`  mean ${report.meanLength.toFixed(1)} rounds, min ${report.minLength}, max ${report.maxLength}`);
+  for (const [length, count] of Object.entries(report.lengthDistribution)) {
+    lines.push(`  ${length.padStart(3)} rounds  ${String(count).padStart(6)}  ${percent(count / report.games)}`);
+  }
+
+  lines.push('', 'Outcomes');
+  lines.push(`  sudden death reached   ${percent(report.suddenDeathRate)}`);
+  lines.push(`  went the full schedule ${percent(report.maxRoundsRate)}`);
+  lines.push(`  decided by tiebreak    ${percent(report.tiebreakRate)}`);
+
+  lines.push('', 'Wins by seat');
+  report.winsBySeat.forEach((wins, i) => {
+    lines.push(`  seat ${String(i + 1).padStart(2)}  ${percent(wins / report.games)}`);
+  });
+
+  lines.push('', `Placement fairness (expected win rate ${percent(1 / report.players)})`);
+  for (const test of report.fairness) {
+    const sized = report.placements.filter(p => p.size === test.size && p.appearances > 0);
+    const rates = sized.map(p => p.winRate);
+    lines.push(
+      `  size ${test.size}: ${sized.length} placements, win rate ${percent(Math.min(...rates))}-${percent(Math.max(...rates))}, ` +
+        `chi2 ${test.chiSquare.toFixed(2)} (df ${test.degreesOfFreedom}), p ${test.pValue.toFixed(3)}`
+    );
+  }
+
+  return lines.join('\n');
+}
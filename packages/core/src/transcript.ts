@@ -0,0 +1,425 @@
+// Battle Dinghy - Signed Game Transcripts
+//
+// A transcript is the single portable record of a finished game. It bundles:
+// - GameEngine state (config, cards, round history)
+// - CommitRevealManager state (commitments, reveals, final seed)
+// - The game's ORE block commitment and its verification
+// - The ORE round results the engine consumed
+//
+// The transcript is serialized canonically (sorted keys, no whitespace) and
+// signed with the operator's ed25519 key, the same key type as a Solana
+// wallet. Anyone holding the published transcript can check the signature and
+// replay the game offline without trusting the operator's server.
+
+import {
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+  KeyObject,
+} from 'crypto';
+import type { RoundResult } from './types.js';
+import {
+  GameEngine,
+  OreRoundResult,
+  SerializedGameState,
+} from './game-engine.js';
+import type {
+  CommitRevealManager,
+  CommitRevealPhase,
+  PlayerCommitment,
+} from './commit-reveal.js';
+import type {
+  OreBlockCommitment,
+  OreBlockCommitmentManager,
+  OreBlockVerification,
+} from './ore-block-commitment.js';
+import type { GameBundle, VerificationReport } from './verifier.js';
+import { GAME_BUNDLE_VERSION, verifyGameBundle } from './verifier.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Current transcript format version
+ */
+export const TRANSCRIPT_VERSION = 1;
+
+/**
+ * Domain separator prepended to the canonical transcript before signing,
+ * so a transcript signature can never be replayed as another message.
+ */
+const SIGNING_DOMAIN = `battle-dinghy-transcript-v${TRANSCRIPT_VERSION}\n`;
+
+/**
+ * Commit-reveal state as stored in a transcript
+ */
+export interface TranscriptCommitReveal {
+  gameId: string;
+  phase: CommitRevealPhase;
+  commitments: PlayerCommitment[];
+  commitDeadline: number;
+  revealDeadline: number;
+  oreBlockHash: string | null;
+  finalSeed: string | null;
+  createdAt: number;
+  /** Players the missing-reveal policy left out of the seed */
+  excluded?: string[];
+}
+
+/**
+ * ORE block commitment state as stored in a transcript
+ */
+export interface TranscriptOreBlockCommitment {
+  commitment: OreBlockCommitment;
+  verification: OreBlockVerification | null;
+}
+
+/**
+ * Unsigned transcript body
+ */
+export interface GameTranscript {
+  version: number;
+  gameId: string;
+  /** When the transcript was produced (Unix timestamp ms) */
+  createdAt: number;
+  game: SerializedGameState;
+  commitReveal: TranscriptCommitReveal | null;
+  oreBlockCommitment: TranscriptOreBlockCommitment | null;
+  oreRounds: OreRoundResult[];
+  rounds: RoundResult[];
+}
+
+/**
+ * Operator signature over a transcript
+ */
+export interface TranscriptSignature {
+  algorithm: 'ed25519';
+  /** Raw 32-byte ed25519 public key, hex encoded */
+  publicKey: string;
+  /** 64-byte signature, hex encoded */
+  signature: string;
+}
+
+/**
+ * A transcript together with the operator's signature
+ */
+export interface SignedGameTranscript {
+  transcript: GameTranscript;
+  signature: TranscriptSignature;
+}
+
+// =============================================================================
+// Operator Keys
+// =============================================================================
+
+// DER prefixes for wrapping raw ed25519 keys (RFC 8410)
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Create an operator signing key from raw secret key bytes.
+ * Accepts a 32-byte ed25519 seed or a 64-byte Solana secret key
+ * (seed followed by public key).
+ */
+export function operatorKeyFromSecret(secretKey: Uint8Array): KeyObject {
+  if (secretKey.length !== 32 && secretKey.length !== 64) {
+    throw new Error('Operator secret key must be 32 or 64 bytes');
+  }
+
+  const seed = Buffer.from(secretKey.subarray(0, 32));
+  return createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+}
+
+/**
+ * Get the raw hex-encoded public key for an operator key.
+ */
+export function getOperatorPublicKey(key: KeyObject): string {
+  const spki = createPublicKey(key).export({ format: 'der', type: 'spki' });
+  return Buffer.from(spki.subarray(ED25519_SPKI_PREFIX.length)).toString('hex');
+}
+
+// =============================================================================
+// Canonical Encoding
+// =============================================================================
+
+/**
+ * Serialize a value as JSON with object keys sorted at every level.
+ * Undefined object properties are omitted, matching JSON.stringify.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(v => (v === undefined ? 'null' : canonicalJson(v))).join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter(k => (value as Record<string, unknown>)[k] !== undefined)
+    .sort()
+    .map(k => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+  return `{${entries.join(',')}}`;
+}
+
+function signingPayload(transcript: GameTranscript): Buffer {
+  return Buffer.from(SIGNING_DOMAIN + canonicalJson(transcript), 'utf8');
+}
+
+// =============================================================================
+// Transcript Creation and Signing
+// =============================================================================
+
+/**
+ * Build an unsigned transcript from the game's components.
+ */
+export function createTranscript(input: {
+  engine: GameEngine;
+  oreRounds: readonly OreRoundResult[];
+  commitReveal?: CommitRevealManager;
+  oreBlockCommitment?: OreBlockCommitmentManager;
+  createdAt?: number;
+}): GameTranscript {
+  const game: SerializedGameState = JSON.parse(input.engine.serialize());
+  const gameId = game.config.gameId;
+
+  let commitReveal: TranscriptCommitReveal | null = null;
+  if (input.commitReveal) {
+    const state = JSON.parse(input.commitReveal.serialize());
+    commitReveal = {
+      gameId: state.gameId,
+      phase: state.phase,
+      commitments: (state.commitments as [string, PlayerCommitment][]).map(([, c]) => c),
+      commitDeadline: state.commitDeadline,
+      revealDeadline: state.revealDeadline,
+      oreBlockHash: state.oreBlockHash ?? null,
+      finalSeed: state.finalSeed ?? null,
+      createdAt: state.createdAt,
+      excluded: state.missingRevealOutcome?.excluded.length
+        ? [...state.missingRevealOutcome.excluded]
+        : undefined,
+    };
+  }
+
+  let oreBlockCommitment: TranscriptOreBlockCommitment | null = null;
+  const commitment = input.oreBlockCommitment?.getCommitment(gameId);
+  if (commitment) {
+    oreBlockCommitment = {
+      commitment,
+      verification: input.oreBlockCommitment!.getVerification(gameId),
+    };
+  }
+
+  return {
+    version: TRANSCRIPT_VERSION,
+    gameId,
+    createdAt: input.createdAt ?? Date.now(),
+    game,
+    commitReveal,
+    oreBlockCommitment,
+    oreRounds: input.oreRounds.map(r => ({ ...r })),
+    rounds: game.rounds,
+  };
+}
+
+/**
+ * Sign a transcript with the operator key.
+ */
+export function signTranscript(
+  transcript: GameTranscript,
+  operatorKey: KeyObject
+): SignedGameTranscript {
+  const signature = sign(null, signingPayload(transcript), operatorKey);
+
+  return {
+    transcript,
+    signature: {
+      algorithm: 'ed25519',
+      publicKey: getOperatorPublicKey(operatorKey),
+      signature: signature.toString('hex'),
+    },
+  };
+}
+
+/**
+ * Check a transcript's signature. The key embedded in the transcript only
+ * says who claims to have signed it, so the signer must match the operator's
+ * published key; otherwise anyone could sign a forgery with their own key.
+ *
+ * @param signed - The signed transcript
+ * @param expectedPublicKey - Hex public key the signer must match
+ *                            (the operator's published key)
+ */
+export function verifyTranscriptSignature(
+  signed: SignedGameTranscript,
+  expectedPublicKey: string
+): boolean {
+  const { publicKey, signature, algorithm } = signed.signature;
+
+  if (algorithm !== 'ed25519' || !/^[a-f0-9]{64}$/i.test(publicKey)) {
+    return false;
+  }
+
+  if (expectedPublicKey.toLowerCase() !== publicKey.toLowerCase()) {
+    return false;
+  }
+
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey, 'hex')]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(null, signingPayload(signed.transcript), key, Buffer.from(signature, 'hex'));
+  } catch {
+    return false;
+  }
+}
+
+// =============================================================================
+// Encoding / Decoding
+// =============================================================================
+
+/**
+ * Encode a signed transcript for publication.
+ */
+export function encodeTranscript(signed: SignedGameTranscript): string {
+  return canonicalJson(signed);
+}
+
+/**
+ * Decode and structurally validate a signed transcript.
+ * Does not check the signature; use verifyTranscriptSignature for that.
+ * @throws Error if the JSON does not match the transcript schema
+ */
+export function decodeTranscript(json: string): SignedGameTranscript {
+  let data: Partial<SignedGameTranscript>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Transcript is not valid JSON');
+  }
+
+  const { transcript, signature } = data;
+  if (!transcript || typeof transcript !== 'object') {
+    throw new Error('Transcript body is missing');
+  }
+  if (transcript.version !== TRANSCRIPT_VERSION) {
+    throw new Error(`Unsupported transcript version: ${transcript.version}`);
+  }
+  if (typeof transcript.gameId !== 'string' || typeof transcript.createdAt !== 'number') {
+    throw new Error('Transcript is missing gameId or createdAt');
+  }
+  if (!transcript.game || transcript.game.config?.gameId !== transcript.gameId) {
+    throw new Error('Transcript game state does not match gameId');
+  }
+  if (!Array.isArray(transcript.oreRounds) || !Array.isArray(transcript.rounds)) {
+    throw new Error('Transcript is missing round history');
+  }
+  if (transcript.commitReveal !== null && typeof transcript.commitReveal !== 'object') {
+    throw new Error('Transcript commitReveal must be an object or null');
+  }
+  if (transcript.oreBlockCommitment !== null && typeof transcript.oreBlockCommitment !== 'object') {
+    throw new Error('Transcript oreBlockCommitment must be an object or null');
+  }
+  if (
+    !signature ||
+    typeof signature.publicKey !== 'string' ||
+    typeof signature.signature !== 'string'
+  ) {
+    throw new Error('Transcript signature is missing');
+  }
+
+  return { transcript, signature };
+}
+
+/**
+ * Check whether parsed JSON looks like a signed transcript.
+ */
+export function isSignedTranscript(data: unknown): data is SignedGameTranscript {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'transcript' in data &&
+    'signature' in data
+  );
+}
+
+// =============================================================================
+// Verification Bridge
+// =============================================================================
+
+/**
+ * Convert a transcript into a game bundle for replay verification.
+ */
+export function transcriptToBundle(transcript: GameTranscript): GameBundle {
+  const { game, commitReveal, oreBlockCommitment } = transcript;
+
+  return {
+    version: GAME_BUNDLE_VERSION,
+    gameId: transcript.gameId,
+    seed: game.config.seed,
+    players: game.config.players,
+    rules: game.config.rules,
+    schedule: game.config.schedule,
+    shotStrategy: game.config.shotStrategy,
+    teams: game.config.teams,
+    fleetCommitments: game.config.fleetCommitments,
+    commitReveal: commitReveal?.oreBlockHash
+      ? {
+          commitments: commitReveal.commitments,
+          oreBlockHash: commitReveal.oreBlockHash,
+          excluded: commitReveal.excluded,
+        }
+      : undefined,
+    oreBlockCommitment: oreBlockCommitment
+      ? {
+          commitment: oreBlockCommitment.commitment,
+          verification: oreBlockCommitment.verification ?? undefined,
+        }
+      : undefined,
+    oreRounds: transcript.oreRounds,
+    rounds: transcript.rounds,
+    cards: game.cards.map(c => ({
+      playerId: c.playerId,
+      // Layouts are regenerated from the seed; only damage is declared
+      hitCells: c.hitCells,
+      eliminatedAtRound: c.eliminatedAtRound,
+    })),
+    winner: game.winner,
+  };
+}
+
+/**
+ * Verify a signed transcript: check the operator signature, then replay the
+ * game. The signature check is reported alongside the seed checks.
+ *
+ * @param signed - The signed transcript
+ * @param expectedPublicKey - Hex public key the signer must match
+ */
+export function verifyTranscript(
+  signed: SignedGameTranscript,
+  expectedPublicKey: string
+): VerificationReport {
+  const signatureValid = verifyTranscriptSignature(signed, expectedPublicKey);
+  const report = verifyGameBundle(transcriptToBundle(signed.transcript));
+
+  return {
+    ...report,
+    passed: report.passed && signatureValid,
+    seed: [
+      {
+        label: 'Operator signature is valid',
+        passed: signatureValid,
+        detail: signatureValid ? undefined : `Signer ${signed.signature.publicKey}`,
+      },
+      ...report.seed,
+    ],
+  };
+}
@@ -8,26 +8,64 @@ export const GRID_SIZE = 5;
 export const TOTAL_CELLS = 25;
 export const MAX_PLAYERS = 10;
 export const SHIP_SIZES: readonly ShipSize[] = [3, 2, 1] as const;
+/** Display names of the default fleet, used when narrating hits and sinkings */
+export const SHIP_NAMES: Readonly<Record<ShipSize, string>> = {
+  3: 'Giant Dinghy',
+  2: 'Mid Dinghy',
+  1: 'Tiny Dinghy',
+};
 export const TOTAL_SHIP_CELLS = 6;
 export const SUDDEN_DEATH_ROUND_1 = 31;
 export const SUDDEN_DEATH_ROUND_2 = 41;
 export const MAX_ROUNDS = 50;
 
+/**
+ * Default ruleset: 5x5 grid, one each of the 3/2/1 dinghies,
+ * eliminated once every ship cell has been hit.
+ */
+export const DEFAULT_RULES: GameRules = {
+  gridWidth: GRID_SIZE,
+  gridHeight: GRID_SIZE,
+  fleet: SHIP_SIZES,
+  eliminationThreshold: TOTAL_SHIP_CELLS,
+};
+
+/**
+ * Default shot escalation: 1 shot for rounds 1-30, 2 for 31-40, 3 for 41-50.
+ */
+export const DEFAULT_SHOT_SCHEDULE: ShotSchedule = {
+  steps: [
+    { fromRound: 1, shots: 1 },
+    { fromRound: SUDDEN_DEATH_ROUND_1, shots: 2 },
+    { fromRound: SUDDEN_DEATH_ROUND_2, shots: 3 },
+  ],
+  maxRounds: MAX_ROUNDS,
+};
+
+/**
+ * Upper bound for round numbers and shots per round. Derived shots hash the
+ * round and shot index as single bytes, so both must fit in a byte.
+ */
+export const MAX_SCHEDULE_VALUE = 255;
+
 // =============================================================================
 // Core Types
 // =============================================================================
 
-/** Cell index from 0-24 representing a position on the 5x5 grid */
+/** Cell index representing a position on the grid (0-24 on the default 5x5 grid) */
 export type CellIndex = number & { readonly __brand: unique symbol };
 
-/** Grid position with row and column (0-4 each) */
+/** Grid position with row and column (0-4 each on the default grid) */
 export interface GridPosition {
   readonly row: number;
   readonly col: number;
 }
 
-/** Ship sizes: 3 = Giant Dinghy, 2 = Mid Dinghy, 1 = Tiny Dinghy */
-export type ShipSize = 1 | 2 | 3;
+/**
+ * Ship length in cells. Any positive integer that fits the board; the
+ * default fleet uses 3 = Giant Dinghy, 2 = Mid Dinghy, 1 = Tiny Dinghy.
+ */
+export type ShipSize = number;
 
 /** A ship with its size and occupied cells */
 export interface Ship {
@@ -45,15 +83,77 @@ export interface ShipPlacement {
   readonly size: ShipSize;
 }
 
+/** Damage taken by one ship on a card */
+export interface ShipDamage {
+  /** Index into the card's ships (placement order) */
+  readonly shipIndex: number;
+  readonly size: ShipSize;
+  /** Number of the ship's cells that have been hit */
+  readonly hits: number;
+  readonly isSunk: boolean;
+}
+
 /** A player's card containing their ship configuration and game state */
 export interface PlayerCard {
   readonly playerId: string;
   readonly ships: readonly Ship[];
+  /** Per-ship damage, in the same order as ships */
+  readonly shipDamage: readonly ShipDamage[];
   readonly hitCells: Set<CellIndex>;
   readonly isEliminated: boolean;
   readonly eliminatedAtRound: number | null;
 }
 
+/**
+ * Board geometry and fleet composition for a game.
+ * Cells are indexed row-major: cell = row * gridWidth + col.
+ */
+export interface GameRules {
+  /** Number of columns on the board */
+  readonly gridWidth: number;
+  /** Number of rows on the board */
+  readonly gridHeight: number;
+  /** Ships placed on every card, in placement order */
+  readonly fleet: readonly ShipSize[];
+  /** Number of hit ship cells that eliminates a player */
+  readonly eliminationThreshold: number;
+}
+
+/** One step of the shot escalation schedule */
+export interface EscalationStep {
+  /** First round (inclusive) this step applies to */
+  readonly fromRound: number;
+  /** Shots fired each round until the next step begins */
+  readonly shots: number;
+}
+
+/** Caps the number of shots fired in a single round */
+export interface RoundShotCap {
+  readonly round: number;
+  readonly maxShots: number;
+}
+
+/**
+ * Declarative sudden-death schedule for a game.
+ * Steps are ordered by fromRound and the first step must start at round 1.
+ */
+export interface ShotSchedule {
+  readonly steps: readonly EscalationStep[];
+  /** Final round; survivors are ranked by remaining cells after it */
+  readonly maxRounds: number;
+  /** Optional per-round caps applied after the escalation step */
+  readonly roundCaps?: readonly RoundShotCap[];
+}
+
+/**
+ * A squad in team mode. Members share one card and are eliminated together.
+ */
+export interface TeamConfig {
+  readonly teamId: string;
+  /** Member wallets; every game player belongs to exactly one team */
+  readonly members: readonly string[];
+}
+
 /** Game status enum */
 export enum GameStatus {
   OPEN = 'OPEN',
@@ -139,3 +239,233 @@ export function isValidPosition(pos: GridPosition): boolean {
     pos.col < GRID_SIZE
   );
 }
+
+// =============================================================================
+// Ruleset Geometry
+// =============================================================================
+
+/**
+ * Total number of cells on the board for a ruleset
+ */
+export function getTotalCells(rules: GameRules = DEFAULT_RULES): number {
+  return rules.gridWidth * rules.gridHeight;
+}
+
+/**
+ * Total number of ship cells on a card for a ruleset
+ */
+export function getTotalShipCells(rules: GameRules = DEFAULT_RULES): number {
+  return rules.fleet.reduce((sum, size) => sum + size, 0);
+}
+
+/**
+ * Display name for a ship size; sizes outside the default fleet get a generic name
+ */
+export function getShipName(size: ShipSize): string {
+  return SHIP_NAMES[size] ?? `${size}-cell Dinghy`;
+}
+
+/**
+ * Validates a ruleset.
+ * @throws Error if the geometry or fleet cannot produce a playable game
+ */
+export function validateRules(rules: GameRules): void {
+  const { gridWidth, gridHeight, fleet, eliminationThreshold } = rules;
+
+  if (!Number.isInteger(gridWidth) || gridWidth < 1 || !Number.isInteger(gridHeight) || gridHeight < 1) {
+    throw new Error(`Invalid grid size: ${gridWidth}x${gridHeight}. Dimensions must be positive integers`);
+  }
+
+  if (fleet.length === 0) {
+    throw new Error('Fleet must contain at least one ship');
+  }
+
+  for (const size of fleet) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Invalid ship size: ${size}. Sizes must be positive integers`);
+    }
+    if (size > gridWidth && size > gridHeight) {
+      throw new Error(`Ship of size ${size} does not fit on a ${gridWidth}x${gridHeight} grid`);
+    }
+  }
+
+  const totalShipCells = getTotalShipCells(rules);
+  if (totalShipCells > gridWidth * gridHeight) {
+    throw new Error(`Fleet needs ${totalShipCells} cells but the grid only has ${gridWidth * gridHeight}`);
+  }
+
+  if (
+    !Number.isInteger(eliminationThreshold) ||
+    eliminationThreshold < 1 ||
+    eliminationThreshold > totalShipCells
+  ) {
+    throw new Error(
+      `Invalid elimination threshold: ${eliminationThreshold}. Must be between 1 and ${totalShipCells}`
+    );
+  }
+}
+
+/**
+ * Checks if a cell index is on the board for a ruleset
+ */
+export function isCellOnBoard(cell: number, rules: GameRules): cell is CellIndex {
+  return Number.isInteger(cell) && cell >= 0 && cell < getTotalCells(rules);
+}
+
+/**
+ * Converts a cell index to a grid position for a ruleset
+ */
+export function cellToBoardPosition(cell: CellIndex, rules: GameRules): GridPosition {
+  return {
+    row: Math.floor(cell / rules.gridWidth),
+    col: cell % rules.gridWidth,
+  };
+}
+
+/**
+ * Converts a grid position to a cell index for a ruleset
+ * @throws Error if position is out of bounds
+ */
+export function boardPositionToCell(pos: GridPosition, rules: GameRules): CellIndex {
+  if (
+    !Number.isInteger(pos.row) ||
+    !Number.isInteger(pos.col) ||
+    pos.row < 0 ||
+    pos.row >= rules.gridHeight ||
+    pos.col < 0 ||
+    pos.col >= rules.gridWidth
+  ) {
+    throw new Error(
+      `Invalid position: row=${pos.row}, col=${pos.col}. Board is ${rules.gridWidth}x${rules.gridHeight}`
+    );
+  }
+  return (pos.row * rules.gridWidth + pos.col) as CellIndex;
+}
+
+// =============================================================================
+// Shot Schedule
+// =============================================================================
+
+/**
+ * Validates a shot schedule.
+ * @throws Error if the schedule is empty, unordered or out of range
+ */
+export function validateShotSchedule(schedule: ShotSchedule): void {
+  const { steps, maxRounds, roundCaps = [] } = schedule;
+
+  if (!Number.isInteger(maxRounds) || maxRounds < 1 || maxRounds > MAX_SCHEDULE_VALUE) {
+    throw new Error(`Invalid maxRounds: ${maxRounds}. Must be between 1 and ${MAX_SCHEDULE_VALUE}`);
+  }
+
+  if (steps.length === 0) {
+    throw new Error('Shot schedule must contain at least one step');
+  }
+
+  if (steps[0].fromRound !== 1) {
+    throw new Error(`First escalation step must start at round 1, got ${steps[0].fromRound}`);
+  }
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+
+    if (!Number.isInteger(step.fromRound) || step.fromRound > maxRounds) {
+      throw new Error(`Invalid escalation step round: ${step.fromRound}. Must be between 1 and ${maxRounds}`);
+    }
+
+    if (i > 0 && step.fromRound <= steps[i - 1].fromRound) {
+      throw new Error(`Escalation steps must be in increasing round order (${steps[i - 1].fromRound} then ${step.fromRound})`);
+    }
+
+    if (!Number.isInteger(step.shots) || step.shots < 1 || step.shots > MAX_SCHEDULE_VALUE) {
+      throw new Error(`Invalid shot count: ${step.shots}. Must be between 1 and ${MAX_SCHEDULE_VALUE}`);
+    }
+  }
+
+  const cappedRounds = new Set<number>();
+  for (const cap of roundCaps) {
+    if (!Number.isInteger(cap.round) || cap.round < 1 || cap.round > maxRounds) {
+      throw new Error(`Invalid shot cap round: ${cap.round}. Must be between 1 and ${maxRounds}`);
+    }
+
+    if (cappedRounds.has(cap.round)) {
+      throw new Error(`Duplicate shot cap for round ${cap.round}`);
+    }
+    cappedRounds.add(cap.round);
+
+    if (!Number.isInteger(cap.maxShots) || cap.maxShots < 1) {
+      throw new Error(`Invalid shot cap for round ${cap.round}: ${cap.maxShots}. Must be at least 1`);
+    }
+  }
+}
+
+/**
+ * Index of the escalation step active in a round (0 = the first step)
+ */
+export function getEscalationLevel(schedule: ShotSchedule, roundNumber: number): number {
+  let level = 0;
+  for (let i = 0; i < schedule.steps.length; i++) {
+    if (roundNumber >= schedule.steps[i].fromRound) {
+      level = i;
+    }
+  }
+  return level;
+}
+
+/**
+ * Number of shots fired in a round, after applying any per-round cap
+ */
+export function getShotsForRound(schedule: ShotSchedule, roundNumber: number): number {
+  const shots = schedule.steps[getEscalationLevel(schedule, roundNumber)].shots;
+  const cap = schedule.roundCaps?.find(c => c.round === roundNumber);
+  return cap ? Math.min(shots, cap.maxShots) : shots;
+}
+
+// =============================================================================
+// Teams
+// =============================================================================
+
+/**
+ * Validates squads against the game's player list.
+ * @throws Error if a team is empty, duplicated, or players are missing or shared
+ */
+export function validateTeams(teams: readonly TeamConfig[], players: readonly string[]): void {
+  if (teams.length === 0) {
+    throw new Error('Team mode requires at least one team');
+  }
+
+  const teamIds = new Set<string>();
+  const assigned = new Set<string>();
+  const known = new Set(players);
+
+  for (const team of teams) {
+    if (!team.teamId) {
+      throw new Error('Team id must not be empty');
+    }
+    if (known.has(team.teamId)) {
+      throw new Error(`Team id ${team.teamId} must not match a player wallet`);
+    }
+    if (teamIds.has(team.teamId)) {
+      throw new Error(`Duplicate team id: ${team.teamId}`);
+    }
+    teamIds.add(team.teamId);
+
+    if (team.members.length === 0) {
+      throw new Error(`Team ${team.teamId} has no members`);
+    }
+
+    for (const member of team.members) {
+      if (!known.has(member)) {
+        throw new Error(`Team ${team.teamId} member ${member} is not a player in this game`);
+      }
+      if (assigned.has(member)) {
+        throw new Error(`Player ${member} is on more than one team`);
+      }
+      assigned.add(member);
+    }
+  }
+
+  const unassigned = players.filter(p => !assigned.has(p));
+  if (unassigned.length > 0) {
+    throw new Error(`Players without a team: ${unassigned.join(', ')}`);
+  }
+}
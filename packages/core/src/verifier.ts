@@ -0,0 +1,663 @@
+// Battle Dinghy - Game Replay Verifier
+//
+// Lets anyone check a finished game from an exported bundle.
+//
+// A bundle contains everything needed to recompute the game:
+// - The seed and, optionally, the commit-reveal state that produced it
+// - The ORE block commitment the seed was anchored to
+// - The player list (in join order) and ruleset
+// - The ORE round results and the round history the operator declared
+//
+// Verification replays the ORE rounds through a fresh GameEngine and compares
+// the result with what was declared, round by round, card by card, and for
+// the winner. Nothing in the bundle is trusted without being recomputed.
+
+import {
+  CellIndex,
+  GameRules,
+  RoundResult,
+  ShipSize,
+  ShotSchedule,
+  TeamConfig,
+} from './types.js';
+import { GameEngine, GameConfig, OreRoundResult } from './game-engine.js';
+import { GeneratedCard, verifyCard } from './card-generator.js';
+import { ShotStrategyName } from './shot-strategy.js';
+import { FleetCommitments } from './fleet-placement.js';
+import {
+  CommitRevealManager,
+  PlayerCommitment,
+  computeFinalSeed,
+  verifyReveal,
+} from './commit-reveal.js';
+import {
+  OreBlockCommitment,
+  OreBlockVerification,
+  verifyCommitmentHash,
+} from './ore-block-commitment.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Current bundle format version
+ */
+export const GAME_BUNDLE_VERSION = 1;
+
+/**
+ * A card as declared by the operator
+ */
+export interface BundleCard {
+  /** Player wallet, or team id in team mode */
+  playerId: string;
+  /** Declared layout; omitted when only damage is declared */
+  ships?: { size: ShipSize; cells: number[] }[];
+  hitCells?: number[];
+  eliminatedAtRound?: number | null;
+}
+
+/**
+ * Exported game bundle (JSON-friendly)
+ */
+export interface GameBundle {
+  version: number;
+  gameId: string;
+  /** Hex-encoded 32-byte game seed */
+  seed: string;
+  /** Player wallets in join order (determines card generation index) */
+  players: string[];
+  rules?: GameRules;
+  schedule?: ShotSchedule;
+  shotStrategy?: ShotStrategyName;
+  /** Squads in team mode; cards are then keyed by team id */
+  teams?: TeamConfig[];
+  /** Player-chosen fleets; cards are then rebuilt from the reveals */
+  fleetCommitments?: FleetCommitments;
+  /** Commit-reveal state that produced the seed */
+  commitReveal?: {
+    commitments: PlayerCommitment[];
+    oreBlockHash: string;
+    /** Players the missing-reveal policy left out of the seed */
+    excluded?: string[];
+  };
+  /** ORE block commitment the seed was anchored to */
+  oreBlockCommitment?: {
+    commitment: OreBlockCommitment;
+    verification?: OreBlockVerification;
+  };
+  /** ORE round results fed to the engine */
+  oreRounds: OreRoundResult[];
+  /** Round history declared by the operator */
+  rounds: RoundResult[];
+  /** Cards declared by the operator (optional) */
+  cards?: BundleCard[];
+  /** Declared winner */
+  winner: string | null;
+}
+
+/**
+ * A single pass/fail check
+ */
+export interface VerificationCheck {
+  label: string;
+  passed: boolean;
+  detail?: string;
+}
+
+/**
+ * Verification result for a single round
+ */
+export interface RoundVerification {
+  roundNumber: number;
+  passed: boolean;
+  shots: number[];
+  eliminations: string[];
+  detail?: string;
+}
+
+/**
+ * Verification result for a single card
+ */
+export interface CardVerification {
+  playerId: string;
+  playerIndex: number;
+  passed: boolean;
+  detail?: string;
+}
+
+/**
+ * Verification result for the declared winner
+ */
+export interface WinnerVerification {
+  declared: string | null;
+  computed: string | null;
+  passed: boolean;
+}
+
+/**
+ * Full verification report for a bundle
+ */
+export interface VerificationReport {
+  gameId: string;
+  passed: boolean;
+  seed: VerificationCheck[];
+  rounds: RoundVerification[];
+  cards: CardVerification[];
+  winner: WinnerVerification;
+}
+
+// =============================================================================
+// Bundle Export / Import
+// =============================================================================
+
+/**
+ * Export a game as a verifiable bundle.
+ *
+ * @param engine - Engine that played the game
+ * @param oreRounds - ORE round results fed to the engine, in order
+ * @param sources - Optional commit-reveal and ORE block commitment state
+ */
+export function createGameBundle(
+  engine: GameEngine,
+  oreRounds: readonly OreRoundResult[],
+  sources: {
+    commitReveal?: CommitRevealManager;
+    oreBlockCommitment?: OreBlockCommitment;
+    oreBlockVerification?: OreBlockVerification;
+  } = {}
+): GameBundle {
+  const config = engine.getConfig();
+
+  const bundle: GameBundle = {
+    version: GAME_BUNDLE_VERSION,
+    gameId: config.gameId,
+    seed: Buffer.from(config.seed).toString('hex'),
+    players: [...config.players],
+    rules: config.rules,
+    schedule: config.schedule,
+    shotStrategy: config.shotStrategy,
+    teams: config.teams?.map(t => ({ teamId: t.teamId, members: [...t.members] })),
+    fleetCommitments: config.fleetCommitments,
+    oreRounds: oreRounds.map(r => ({ ...r })),
+    rounds: engine.getRoundHistory().map(r => ({
+      roundNumber: r.roundNumber,
+      primaryShot: r.primaryShot,
+      derivedShots: [...r.derivedShots],
+      eliminations: [...r.eliminations],
+      oreProof: r.oreProof,
+    })),
+    cards: engine.getParticipants().map(playerId => {
+      const generated = engine.getGeneratedCard(playerId)!;
+      const card = engine.getPlayerCard(playerId)!;
+      return {
+        playerId,
+        ships: generated.ships.map(s => ({ size: s.size, cells: [...s.cells] })),
+        hitCells: Array.from(card.hitCells),
+        eliminatedAtRound: card.eliminatedAtRound,
+      };
+    }),
+    winner: engine.getWinner(),
+  };
+
+  if (sources.commitReveal) {
+    const state = sources.commitReveal.getState();
+    if (state.oreBlockHash) {
+      bundle.commitReveal = {
+        commitments: Array.from(state.commitments.values()).map(c => ({ ...c })),
+        oreBlockHash: state.oreBlockHash,
+        excluded: state.missingRevealOutcome?.excluded.length
+          ? [...state.missingRevealOutcome.excluded]
+          : undefined,
+      };
+    }
+  }
+
+  if (sources.oreBlockCommitment) {
+    bundle.oreBlockCommitment = {
+      commitment: sources.oreBlockCommitment,
+      verification: sources.oreBlockVerification,
+    };
+  }
+
+  return bundle;
+}
+
+/**
+ * Parse and structurally validate a bundle from JSON.
+ * @throws Error if required fields are missing or malformed
+ */
+export function parseGameBundle(json: string): GameBundle {
+  let data: Partial<GameBundle>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Bundle is not valid JSON');
+  }
+
+  if (data.version !== GAME_BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version: ${data.version}`);
+  }
+  if (typeof data.gameId !== 'string') {
+    throw new Error('Bundle is missing gameId');
+  }
+  if (typeof data.seed !== 'string' || !/^[a-f0-9]{64}$/i.test(data.seed)) {
+    throw new Error('Bundle seed must be 64 hex characters');
+  }
+  if (!Array.isArray(data.players) || data.players.some(p => typeof p !== 'string')) {
+    throw new Error('Bundle players must be an array of wallet addresses');
+  }
+  if (!Array.isArray(data.oreRounds)) {
+    throw new Error('Bundle is missing oreRounds');
+  }
+  if (!Array.isArray(data.rounds)) {
+    throw new Error('Bundle is missing declared rounds');
+  }
+  if (data.winner !== null && typeof data.winner !== 'string') {
+    throw new Error('Bundle winner must be a wallet address or null');
+  }
+
+  return data as GameBundle;
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Verify a game bundle by replaying it with GameEngine.
+ */
+export function verifyGameBundle(bundle: GameBundle): VerificationReport {
+  const seed = new Uint8Array(Buffer.from(bundle.seed, 'hex'));
+
+  const seedChecks = verifySeedProvenance(bundle);
+
+  const config: GameConfig = {
+    gameId: bundle.gameId,
+    seed,
+    players: bundle.players,
+    rules: bundle.rules,
+    schedule: bundle.schedule,
+    shotStrategy: bundle.shotStrategy,
+    teams: bundle.teams,
+    fleetCommitments: bundle.fleetCommitments,
+  };
+
+  let engine: GameEngine;
+  try {
+    engine = new GameEngine(config);
+  } catch (error) {
+    seedChecks.push({
+      label: 'Game configuration is valid',
+      passed: false,
+      detail: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      gameId: bundle.gameId,
+      passed: false,
+      seed: seedChecks,
+      rounds: [],
+      cards: [],
+      winner: { declared: bundle.winner, computed: null, passed: false },
+    };
+  }
+
+  const rounds = replayRounds(engine, bundle);
+  const cards = verifyCards(engine, bundle);
+
+  const computedWinner = engine.getWinner();
+  const winner: WinnerVerification = {
+    declared: bundle.winner,
+    computed: computedWinner,
+    passed: engine.isGameComplete() && computedWinner === bundle.winner,
+  };
+
+  const passed =
+    seedChecks.every(c => c.passed) &&
+    rounds.every(r => r.passed) &&
+    cards.every(c => c.passed) &&
+    winner.passed;
+
+  return {
+    gameId: bundle.gameId,
+    passed,
+    seed: seedChecks,
+    rounds,
+    cards,
+    winner,
+  };
+}
+
+/**
+ * Check that the seed came from the players' commit-reveal and that the
+ * ORE block it was mixed with was committed to in advance. A bundle without
+ * commit-reveal state fails: its seed cannot be checked.
+ */
+function verifySeedProvenance(bundle: GameBundle): VerificationCheck[] {
+  const checks: VerificationCheck[] = [];
+  const { commitReveal, oreBlockCommitment } = bundle;
+
+  if (commitReveal) {
+    const badReveals = commitReveal.commitments.filter(
+      c =>
+        c.revealedSecret !== undefined &&
+        !verifyReveal(c.commitmentHash, c.revealedSecret, c.wallet)
+    );
+    checks.push({
+      label: 'Revealed secrets match commitments',
+      passed: badReveals.length === 0,
+      detail: badReveals.length > 0
+        ? `Mismatched reveals: ${badReveals.map(c => c.wallet).join(', ')}`
+        : undefined,
+    });
+
+    // Every player committed once; players the policy excluded left the game
+    const excluded = new Set(commitReveal.excluded ?? []);
+    const committed = commitReveal.commitments.map(c => c.wallet);
+    const players = new Set(bundle.players);
+    const problems = [
+      ...bundle.players.filter(p => !committed.includes(p)).map(p => `no commitment from ${p}`),
+      ...bundle.players.filter(p => excluded.has(p)).map(p => `excluded ${p} still plays`),
+      ...committed.filter(w => !players.has(w) && !excluded.has(w)).map(w => `commitment from non-player ${w}`),
+      ...committed.filter((w, i) => committed.indexOf(w) !== i).map(w => `duplicate commitment from ${w}`),
+    ];
+    checks.push({
+      label: 'Commitments match the players',
+      passed: problems.length === 0,
+      detail: problems.length > 0 ? problems.join('; ') : undefined,
+    });
+
+    // Only players who never revealed may be left out of the seed
+    if (excluded.size > 0) {
+      const revealedButExcluded = commitReveal.commitments.filter(
+        c => excluded.has(c.wallet) && c.revealedSecret !== undefined
+      );
+      checks.push({
+        label: 'Only missing reveals were excluded from the seed',
+        passed: revealedButExcluded.length === 0,
+        detail: revealedButExcluded.length > 0
+          ? `Excluded after revealing: ${revealedButExcluded.map(c => c.wallet).join(', ')}`
+          : undefined,
+      });
+    }
+
+    const computedSeed = Buffer.from(
+      computeFinalSeed(
+        commitReveal.commitments.filter(c => !excluded.has(c.wallet)),
+        commitReveal.oreBlockHash
+      )
+    ).toString('hex');
+    checks.push({
+      label: 'Seed matches commit-reveal output',
+      passed: computedSeed === bundle.seed.toLowerCase(),
+      detail: computedSeed === bundle.seed.toLowerCase() ? undefined : `Expected ${computedSeed}`,
+    });
+  } else {
+    // Nothing ties the seed to the players or ORE, so the operator may have
+    // picked it
+    checks.push({
+      label: 'Seed provenance is verified',
+      passed: false,
+      detail: 'Unverified: the bundle has no commit-reveal record',
+    });
+  }
+
+  if (oreBlockCommitment) {
+    const { commitment, verification } = oreBlockCommitment;
+
+    checks.push({
+      label: 'ORE block commitment hash is intact',
+      passed: verifyCommitmentHash(commitment) && commitment.gameId === bundle.gameId,
+    });
+
+    if (verification) {
+      // Recomputed from the block hash and commitment; the bundle's own
+      // verified flag is not trusted
+      const blockProblem = checkCommittedBlock(commitment, verification);
+      checks.push({
+        label: 'ORE block was committed before it was mined',
+        passed: blockProblem === undefined,
+        detail: blockProblem,
+      });
+
+      if (commitReveal) {
+        const matches = verification.actualBlockHash === commitReveal.oreBlockHash;
+        checks.push({
+          label: 'Seed uses the committed ORE block hash',
+          passed: matches,
+          detail: matches ? undefined : `Seed used ${commitReveal.oreBlockHash}`,
+        });
+      }
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Check a declared block verification against the commitment it claims to
+ * verify. Returns why the block cannot be used, or undefined if it can.
+ */
+function checkCommittedBlock(
+  commitment: OreBlockCommitment,
+  verification: OreBlockVerification
+): string | undefined {
+  const verified = verification.commitment;
+  if (
+    verified.commitmentHash !== commitment.commitmentHash ||
+    verified.targetBlockHeight !== commitment.targetBlockHeight ||
+    verified.committedAt !== commitment.committedAt ||
+    !verifyCommitmentHash(verified)
+  ) {
+    return 'Verification is for a different commitment';
+  }
+
+  if (!verification.actualBlockHash) {
+    return 'No block hash recorded for the committed height';
+  }
+
+  const conflicting = (verification.observations ?? []).filter(
+    o => o.blockHash !== verification.actualBlockHash
+  );
+  if (conflicting.length > 0) {
+    return `Conflicting block hashes observed: ${conflicting.map(o => `${o.source}=${o.blockHash}`).join(', ')}`;
+  }
+
+  if (commitment.committedAt >= verification.blockMinedAt) {
+    return `Committed at ${commitment.committedAt}, block mined at ${verification.blockMinedAt}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Replay ORE rounds and compare each with the declared round history.
+ */
+function replayRounds(engine: GameEngine, bundle: GameBundle): RoundVerification[] {
+  const results: RoundVerification[] = [];
+  const declaredByRound = new Map(bundle.rounds.map(r => [r.roundNumber, r]));
+
+  for (const ore of bundle.oreRounds) {
+    if (engine.isGameComplete()) {
+      break;
+    }
+
+    try {
+      const summary = engine.processRound(ore);
+      const shots = summary.shots.map(Number);
+      const eliminations = [...summary.eliminations];
+      const declared = declaredByRound.get(ore.roundNumber);
+
+      let detail: string | undefined;
+      if (!declared) {
+        detail = 'Round missing from declared history';
+      } else if (!sameCells(shots, [declared.primaryShot, ...declared.derivedShots])) {
+        detail = `Declared shots ${formatCells([declared.primaryShot, ...declared.derivedShots])}`;
+      } else if (!sameMembers(eliminations, declared.eliminations)) {
+        detail = `Declared eliminations ${declared.eliminations.join(', ') || 'none'}`;
+      } else if (declared.oreProof !== ore.proof) {
+        detail = 'Declared ORE proof differs from round result';
+      }
+
+      results.push({
+        roundNumber: ore.roundNumber,
+        passed: detail === undefined,
+        shots,
+        eliminations,
+        detail,
+      });
+    } catch (error) {
+      results.push({
+        roundNumber: ore.roundNumber,
+        passed: false,
+        shots: [],
+        eliminations: [],
+        detail: error instanceof Error ? error.message : String(error),
+      });
+      break;
+    }
+  }
+
+  // Declared rounds that the replay never reached are unverifiable
+  const replayed = new Set(results.map(r => r.roundNumber));
+  for (const declared of bundle.rounds) {
+    if (!replayed.has(declared.roundNumber)) {
+      results.push({
+        roundNumber: declared.roundNumber,
+        passed: false,
+        shots: [declared.primaryShot, ...declared.derivedShots],
+        eliminations: [...declared.eliminations],
+        detail: 'Declared round was not produced by the replay',
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Regenerate every card and compare with the declared layout and final damage.
+ */
+function verifyCards(engine: GameEngine, bundle: GameBundle): CardVerification[] {
+  const config = engine.getConfig();
+  const declaredCards = new Map((bundle.cards ?? []).map(c => [c.playerId, c]));
+
+  return engine.getParticipants().map((playerId, playerIndex) => {
+    const declared = declaredCards.get(playerId);
+    if (!declared) {
+      return {
+        playerId,
+        playerIndex,
+        passed: bundle.cards === undefined,
+        detail: bundle.cards === undefined ? undefined : 'Card missing from bundle',
+      };
+    }
+
+    if (declared.ships) {
+      const claimed: GeneratedCard = {
+        playerId,
+        ships: declared.ships.map(s => ({ size: s.size, cells: s.cells as CellIndex[] })),
+        allCells: declared.ships.flatMap(s => s.cells) as CellIndex[],
+      };
+
+      if (config.fleetCommitments) {
+        // Player-chosen fleets come from the reveals, not the seed
+        const revealed = engine.getGeneratedCard(playerId)!;
+        if (!sameLayout(revealed, claimed)) {
+          return { playerId, playerIndex, passed: false, detail: 'Ship layout does not match revealed fleet' };
+        }
+      } else if (!verifyCard(config.seed, playerId, playerIndex, claimed, engine.getRules())) {
+        return { playerId, playerIndex, passed: false, detail: 'Ship layout does not match seed' };
+      }
+    }
+
+    const card = engine.getPlayerCard(playerId)!;
+
+    if (declared.hitCells && !sameMembers(declared.hitCells, Array.from(card.hitCells))) {
+      return { playerId, playerIndex, passed: false, detail: 'Declared hits differ from replay' };
+    }
+
+    if (
+      declared.eliminatedAtRound !== undefined &&
+      declared.eliminatedAtRound !== card.eliminatedAtRound
+    ) {
+      return {
+        playerId,
+        playerIndex,
+        passed: false,
+        detail: `Declared elimination round ${declared.eliminatedAtRound}, replay ${card.eliminatedAtRound}`,
+      };
+    }
+
+    return { playerId, playerIndex, passed: true };
+  });
+}
+
+function sameCells(a: readonly number[], b: readonly number[]): boolean {
+  return a.length === b.length && a.every((cell, i) => cell === b[i]);
+}
+
+function sameMembers<T>(a: readonly T[], b: readonly T[]): boolean {
+  if (a.length !== b.length) return false;
+  const set = new Set(b);
+  return a.every(item => set.has(item));
+}
+
+function sameLayout(a: GeneratedCard, b: GeneratedCard): boolean {
+  return (
+    a.ships.length === b.ships.length &&
+    a.ships.every((ship, i) => ship.size === b.ships[i].size && ship.cells.join() === b.ships[i].cells.join())
+  );
+}
+
+function formatCells(cells: readonly number[]): string {
+  return cells.join(', ');
+}
+
+// =============================================================================
+// Report Formatting
+// =============================================================================
+
+/**
+ * Format a verification report as human-readable text.
+ */
+export function formatVerificationReport(report: VerificationReport): string {
+  const mark = (passed: boolean) => (passed ? '[PASS]' : '[FAIL]');
+  const lines: string[] = [];
+
+  lines.push(`Battle Dinghy verification - game ${report.gameId}`);
+
+  if (report.seed.length > 0) {
+    lines.push('', 'Seed');
+    for (const check of report.seed) {
+      lines.push(`  ${mark(check.passed)} ${check.label}${check.detail ? ` (${check.detail})` : ''}`);
+    }
+  }
+
+  lines.push('', 'Rounds');
+  for (const round of report.rounds) {
+    const shots = round.shots.length > 0 ? formatCells(round.shots) : '-';
+    const eliminations = round.eliminations.length > 0 ? round.eliminations.join(', ') : 'none';
+    lines.push(
+      `  ${mark(round.passed)} Round ${round.roundNumber}: shots ${shots} | eliminated ${eliminations}` +
+        (round.detail ? ` (${round.detail})` : '')
+    );
+  }
+
+  lines.push('', 'Cards');
+  for (const card of report.cards) {
+    lines.push(
+      `  ${mark(card.passed)} Player ${card.playerIndex + 1} ${card.playerId}` +
+        (card.detail ? ` (${card.detail})` : '')
+    );
+  }
+
+  lines.push('', 'Winner');
+  lines.push(
+    `  ${mark(report.winner.passed)} Declared ${report.winner.declared ?? 'none'}, replay ${report.winner.computed ?? 'none'}`
+  );
+
+  lines.push('', `Result: ${report.passed ? 'PASS' : 'FAIL'}`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,165 @@
+// Card Fairness Analyzer Tests
+//
+// Tests layout enumeration against the card generator, the survival maths
+// against closed forms, and deterministic fair dealing.
+
+import { describe, it, expect } from 'vitest';
+import {
+  CardFairnessAnalysis,
+  analyzeCardFairness,
+  checkCardFairness,
+  deriveRerollSeed,
+  enumerateFleetLayouts,
+  estimateSurvival,
+  generateFairCards,
+  normalizeCellWeights,
+} from '../src/card-fairness.js';
+import { generateAllCards, generateCard, seedFromHex } from '../src/card-generator.js';
+import { CellIndex, DEFAULT_RULES, GameRules, ShotSchedule } from '../src/types.js';
+
+const SEED = seedFromHex('ab'.repeat(32));
+const PLAYERS = Array.from({ length: 10 }, (_, i) => `player-${i}`);
+
+/** Shots land on the left column three times as often as elsewhere */
+const SKEWED_WEIGHTS = Array.from({ length: 25 }, (_, cell) => (cell % 5 === 0 ? 3 : 1));
+
+const ONE_SHOT_SCHEDULE: ShotSchedule = { steps: [{ fromRound: 1, shots: 1 }], maxRounds: 10 };
+
+describe('enumerateFleetLayouts', () => {
+  const layouts = enumerateFleetLayouts();
+
+  it('assigns probabilities that sum to 1', () => {
+    const total = layouts.reduce((sum, l) => sum + l.probability, 0);
+    expect(total).toBeCloseTo(1, 9);
+  });
+
+  it('lists each layout once', () => {
+    expect(new Set(layouts.map(l => l.key)).size).toBe(layouts.length);
+  });
+
+  it('contains every card the generator deals', () => {
+    const keys = new Set(layouts.map(l => l.key));
+    for (const card of generateAllCards(SEED, PLAYERS).values()) {
+      expect(keys.has(card.ships.map(s => s.cells.join('-')).join('|'))).toBe(true);
+    }
+  });
+
+  it('enumerates small rulesets exhaustively', () => {
+    const rules: GameRules = { gridWidth: 2, gridHeight: 2, fleet: [2, 1], eliminationThreshold: 3 };
+    // 4 two-cell placements, each leaving 2 cells for the single
+    expect(enumerateFleetLayouts(rules)).toHaveLength(8);
+  });
+
+  it('refuses rulesets with too many layouts', () => {
+    expect(() => enumerateFleetLayouts(DEFAULT_RULES, 100)).toThrow('more than 100 fleet layouts');
+  });
+});
+
+describe('estimateSurvival', () => {
+  it('matches the closed form for a single cell', () => {
+    const p = 0.2;
+    const probabilities = [p, 1 - p];
+    const result = estimateSurvival([0 as CellIndex], 1, probabilities, ONE_SHOT_SCHEDULE);
+
+    let expected = 0;
+    for (let r = 0; r < 10; r++) expected += (1 - p) ** r;
+    expect(result.expectedRounds).toBeCloseTo(expected, 9);
+    expect(result.survivalRate).toBeCloseTo((1 - p) ** 10, 9);
+  });
+
+  it('matches the closed form for two cells that must both be hit', () => {
+    const p = 0.25;
+    const probabilities = [p, p, 1 - 2 * p];
+    const result = estimateSurvival([0, 1] as CellIndex[], 2, probabilities, ONE_SHOT_SCHEDULE);
+
+    // P(both hit after k shots) = 1 - 2(1-p)^k + (1-2p)^k
+    const bothHit = (k: number) => 1 - 2 * (1 - p) ** k + (1 - 2 * p) ** k;
+    expect(result.survivalRate).toBeCloseTo(1 - bothHit(10), 9);
+  });
+
+  it('survives longer when fewer hits are needed to stay afloat', () => {
+    const probabilities = normalizeCellWeights(DEFAULT_RULES);
+    const cells = [0, 1, 2, 10, 11, 24] as CellIndex[];
+    const all = estimateSurvival(cells, 6, probabilities);
+    const half = estimateSurvival(cells, 3, probabilities);
+    expect(all.expectedRounds).toBeGreaterThan(half.expectedRounds);
+  });
+});
+
+describe('analyzeCardFairness', () => {
+  it('scores every layout the same under uniform shots', () => {
+    const analysis = analyzeCardFairness();
+    expect(analysis.maxExpectedRounds - analysis.minExpectedRounds).toBeLessThan(1e-9);
+  });
+
+  it('penalizes layouts on frequently shot cells', () => {
+    const analysis = analyzeCardFairness(DEFAULT_RULES, { cellWeights: SKEWED_WEIGHTS });
+    const hot = analysis.layouts.find(l => l.key === '0-5-10|15-20|1')!;
+    const cold = analysis.layouts.find(l => l.key === '2-3-4|7-8|24')!;
+    expect(hot.expectedRounds).toBeLessThan(cold.expectedRounds);
+    expect(analysis.minExpectedRounds).toBeLessThan(analysis.meanExpectedRounds);
+    expect(analysis.maxExpectedRounds).toBeGreaterThan(analysis.meanExpectedRounds);
+  });
+
+  it('rejects weights that do not cover the board', () => {
+    expect(() => analyzeCardFairness(DEFAULT_RULES, { cellWeights: [1, 2, 3] })).toThrow(
+      'Expected 25 cell weights'
+    );
+    expect(() => analyzeCardFairness(DEFAULT_RULES, { cellWeights: new Array(25).fill(0) })).toThrow(
+      'must not all be zero'
+    );
+  });
+});
+
+describe('checkCardFairness / generateFairCards', () => {
+  const analysis: CardFairnessAnalysis = analyzeCardFairness(DEFAULT_RULES, { cellWeights: SKEWED_WEIGHTS });
+
+  it('passes every card under uniform shots', () => {
+    const check = checkCardFairness(generateAllCards(SEED, PLAYERS), analyzeCardFairness(), 0.001);
+    expect(check.fair).toBe(true);
+    expect(check.cards).toHaveLength(PLAYERS.length);
+  });
+
+  it('flags cards outside a tight band', () => {
+    const check = checkCardFairness(generateAllCards(SEED, PLAYERS), analysis, 0.001);
+    expect(check.fair).toBe(false);
+    expect(check.cards.every(c => c.rerolls === 0)).toBe(true);
+  });
+
+  it('keeps in-band cards and re-rolls the rest', () => {
+    const tolerance = 0.03;
+    const original = checkCardFairness(generateAllCards(SEED, PLAYERS), analysis, tolerance);
+    const { cards, fairness } = generateFairCards(SEED, PLAYERS, analysis, { tolerance });
+
+    PLAYERS.forEach((player, i) => {
+      const before = original.cards[i];
+      const after = fairness.cards[i];
+      if (before.withinBand) {
+        expect(after.rerolls).toBe(0);
+        expect(cards.get(player)).toEqual(generateCard(SEED, player, i));
+      } else {
+        expect(after.rerolls).toBeGreaterThan(0);
+        expect(Math.abs(after.relativeSurvival - 1)).toBeLessThan(Math.abs(before.relativeSurvival - 1));
+      }
+    });
+  });
+
+  it('re-rolls from a deterministic secondary seed', () => {
+    const options = { tolerance: 0.03 };
+    const first = generateFairCards(SEED, PLAYERS, analysis, options);
+    const second = generateFairCards(SEED, PLAYERS, analysis, options);
+    expect(second.cards).toEqual(first.cards);
+
+    const rerolled = first.fairness.cards.find(c => c.rerolls > 0)!;
+    const index = PLAYERS.indexOf(rerolled.playerId);
+    expect(first.cards.get(rerolled.playerId)).toEqual(
+      generateCard(deriveRerollSeed(SEED, rerolled.rerolls), rerolled.playerId, index)
+    );
+  });
+
+  it('keeps the closest card when re-rolls run out', () => {
+    const { fairness } = generateFairCards(SEED, PLAYERS, analysis, { tolerance: 0, maxRerolls: 2 });
+    expect(fairness.fair).toBe(false);
+    expect(fairness.cards.every(c => c.rerolls <= 2)).toBe(true);
+  });
+});
@@ -15,8 +15,10 @@ import {
   SHIP_SIZES,
   TOTAL_SHIP_CELLS,
   CellIndex,
+  GameRules,
   createCellIndex,
   cellToPosition,
+  cellToBoardPosition,
 } from '../src/types.js';
 
 // =============================================================================
@@ -589,3 +591,89 @@ describe('Stress Tests', () => {
     }
   });
 });
+
+// =============================================================================
+// 8. Custom Rules Tests
+// =============================================================================
+
+describe('Custom Rules', () => {
+  const BIG_WATER: GameRules = {
+    gridWidth: 7,
+    gridHeight: 7,
+    fleet: [3, 3, 2, 2, 1],
+    eliminationThreshold: 11,
+  };
+
+  const WIDE_BOARD: GameRules = {
+    gridWidth: 6,
+    gridHeight: 3,
+    fleet: [3, 1],
+    eliminationThreshold: 4,
+  };
+
+  it('places the full fleet on a 7x7 board', () => {
+    const card = generateCard(TEST_SEED, TEST_WALLETS[0], 0, BIG_WATER);
+
+    expect(card.ships.map(s => s.size)).toEqual([3, 3, 2, 2, 1]);
+    expect(card.allCells.length).toBe(11);
+    expect(hasOverlap(card.ships)).toBe(false);
+
+    for (const cell of card.allCells) {
+      expect(cell).toBeGreaterThanOrEqual(0);
+      expect(cell).toBeLessThan(49);
+    }
+  });
+
+  it('keeps ships contiguous on non-square boards', () => {
+    for (let i = 0; i < TEST_WALLETS.length; i++) {
+      const card = generateCard(TEST_SEED, TEST_WALLETS[i], i, WIDE_BOARD);
+
+      for (const ship of card.ships) {
+        const positions = ship.cells.map(c => cellToBoardPosition(c, WIDE_BOARD));
+        const sameRow = positions.every(p => p.row === positions[0].row);
+        const sameCol = positions.every(p => p.col === positions[0].col);
+        expect(sameRow || sameCol).toBe(true);
+
+        for (const pos of positions) {
+          expect(pos.row).toBeLessThan(3);
+          expect(pos.col).toBeLessThan(6);
+        }
+      }
+    }
+  });
+
+  it('enumerates placements for the configured geometry', () => {
+    // Size 3 on a 6x3 board: 4 horizontal per row * 3 rows + 6 vertical columns
+    const placements = getAllValidPlacements(3, new Set(), WIDE_BOARD);
+    expect(placements.length).toBe(12 + 6);
+  });
+
+  it('rejects placements that run off a non-square board', () => {
+    const cells = getShipCells(
+      { startCell: 15 as CellIndex, direction: 'vertical', size: 2 },
+      WIDE_BOARD
+    );
+    expect(cells).toBeNull();
+  });
+
+  it('verifies cards against the ruleset they were generated with', () => {
+    const card = generateCard(TEST_SEED, TEST_WALLETS[0], 0, BIG_WATER);
+
+    expect(verifyCard(TEST_SEED, TEST_WALLETS[0], 0, card, BIG_WATER)).toBe(true);
+    expect(verifyCard(TEST_SEED, TEST_WALLETS[0], 0, card)).toBe(false);
+  });
+
+  it('default rules produce the same cards as before', () => {
+    const withDefaults = generateAllCards(TEST_SEED, TEST_WALLETS);
+    const explicit = generateAllCards(TEST_SEED, TEST_WALLETS, {
+      gridWidth: GRID_SIZE,
+      gridHeight: GRID_SIZE,
+      fleet: SHIP_SIZES,
+      eliminationThreshold: TOTAL_SHIP_CELLS,
+    });
+
+    for (const wallet of TEST_WALLETS) {
+      expect(explicit.get(wallet)!.allCells).toEqual(withDefaults.get(wallet)!.allCells);
+    }
+  });
+});
@@ -2,7 +2,7 @@
 //
 // Tests that the commit-reveal scheme correctly prevents seed manipulation.
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   CommitRevealManager,
   PlayerCommitmentHelper,
@@ -10,8 +10,22 @@ import {
   createCommitment,
   verifyReveal,
   computeFinalSeed,
+  getMissingRevealPolicy,
+  MissingRevealPolicyName,
   DEFAULT_CONFIG,
 } from '../src/commit-reveal.js';
+import { createGameBundle, verifyGameBundle } from '../src/verifier.js';
+import { GameEngine, generateMockOreResults } from '../src/game-engine.js';
+
+/** Move the clock past a manager's reveal deadline */
+function passRevealDeadline(manager: CommitRevealManager): void {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(manager.getState().revealDeadline + 1);
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
 
 describe('Commit-Reveal Utilities', () => {
   describe('generateSecret', () => {
@@ -351,6 +365,7 @@ describe('CommitRevealManager', () => {
       mgr.startRevealPhase();
       mgr.revealSecret('wallet1', secret1);
       // wallet2 doesn't reveal
+      passRevealDeadline(mgr);
 
       const result = mgr.finalize(validOreHash);
 
@@ -409,6 +424,153 @@ describe('CommitRevealManager', () => {
   });
 });
 
+describe('Missing-reveal policies', () => {
+  const oreHash = 'd'.repeat(64);
+  const secrets: Record<string, string> = {
+    wallet1: 'secret-1',
+    wallet2: 'secret-2',
+    wallet3: 'secret-3',
+  };
+
+  /** Three players commit; wallet3 never reveals */
+  function finalizeWith(policy: MissingRevealPolicyName, minPlayers = 2) {
+    const mgr = new CommitRevealManager('game', { minPlayers, missingRevealPolicy: policy });
+    for (const [wallet, secret] of Object.entries(secrets)) {
+      mgr.submitCommitment(wallet, createCommitment(secret, wallet));
+    }
+    mgr.startRevealPhase();
+    mgr.revealSecret('wallet1', secrets.wallet1);
+    mgr.revealSecret('wallet2', secrets.wallet2);
+    passRevealDeadline(mgr);
+    return { mgr, result: mgr.finalize(oreHash) };
+  }
+
+  it('defaults to standing in the commitment hash', () => {
+    expect(DEFAULT_CONFIG.missingRevealPolicy).toBe('use_commitment');
+
+    const { result } = finalizeWith('use_commitment');
+    expect(result.success).toBe(true);
+    expect(result.participants).toEqual(['wallet1', 'wallet2', 'wallet3']);
+    expect(result.missingReveals).toMatchObject({ missing: ['wallet3'], excluded: [], refunded: [] });
+  });
+
+  it('forfeit excludes the player from the seed and keeps their buy-in', () => {
+    const { result } = finalizeWith('forfeit');
+    expect(result.success).toBe(true);
+    expect(result.participants).toEqual(['wallet1', 'wallet2']);
+    expect(result.missingReveals).toMatchObject({ excluded: ['wallet3'], forfeited: ['wallet3'], refunded: [] });
+  });
+
+  it('refund excludes the player and refunds them', () => {
+    const { result } = finalizeWith('refund');
+    expect(result.participantCount).toBe(2);
+    expect(result.missingReveals).toMatchObject({ excluded: ['wallet3'], forfeited: [], refunded: ['wallet3'] });
+  });
+
+  it('excluded players do not contribute to the seed', () => {
+    const forfeit = finalizeWith('forfeit').result;
+    const refund = finalizeWith('refund').result;
+    const kept = finalizeWith('use_commitment').result;
+    expect(forfeit.seedHex).toBe(refund.seedHex);
+    expect(forfeit.seedHex).not.toBe(kept.seedHex);
+  });
+
+  it('abort produces no seed and refunds everyone', () => {
+    const { mgr, result } = finalizeWith('abort');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('aborted');
+    expect(result.seed).toBeUndefined();
+    expect(result.missingReveals).toMatchObject({
+      aborted: true,
+      refunded: ['wallet1', 'wallet2', 'wallet3'],
+    });
+    expect(mgr.getPhase()).toBe('aborted');
+    expect(mgr.getFinalSeed()).toBeNull();
+    expect(mgr.finalize(oreHash)).toEqual(result);
+  });
+
+  it('aborts when exclusions leave too few players', () => {
+    const { result } = finalizeWith('forfeit', 3);
+    expect(result.success).toBe(false);
+    expect(result.missingReveals).toMatchObject({
+      aborted: true,
+      forfeited: ['wallet3'],
+      refunded: ['wallet1', 'wallet2'],
+    });
+  });
+
+  it('waits for the reveal deadline before applying the policy', () => {
+    const mgr = new CommitRevealManager('game', { minPlayers: 2, missingRevealPolicy: 'forfeit' });
+    for (const [wallet, secret] of Object.entries(secrets)) {
+      mgr.submitCommitment(wallet, createCommitment(secret, wallet));
+    }
+    mgr.startRevealPhase();
+    mgr.revealSecret('wallet1', secrets.wallet1);
+
+    expect(mgr.finalize(oreHash)).toEqual({
+      success: false,
+      error: 'Waiting for 2 reveal(s) until the reveal deadline',
+    });
+    expect(mgr.getPhase()).toBe('revealing');
+    expect(mgr.getState().missingRevealOutcome).toBeUndefined();
+
+    // Still allowed to reveal, so not forfeited
+    expect(mgr.revealSecret('wallet2', secrets.wallet2).success).toBe(true);
+    passRevealDeadline(mgr);
+    expect(mgr.finalize(oreHash).missingReveals).toMatchObject({ forfeited: ['wallet3'] });
+  });
+
+  it('does nothing when everyone reveals', () => {
+    const mgr = new CommitRevealManager('game', { minPlayers: 2, missingRevealPolicy: 'abort' });
+    mgr.submitCommitment('wallet1', createCommitment('s1', 'wallet1'));
+    mgr.submitCommitment('wallet2', createCommitment('s2', 'wallet2'));
+    mgr.startRevealPhase();
+    mgr.revealSecret('wallet1', 's1');
+    mgr.revealSecret('wallet2', 's2');
+    expect(mgr.finalize(oreHash).success).toBe(true);
+  });
+
+  it('accepts a custom policy', () => {
+    const mgr = new CommitRevealManager('game', { minPlayers: 2 });
+    mgr.setMissingRevealPolicy({
+      name: 'refund',
+      decide: missing => ({ aborted: false, excluded: [...missing], forfeited: [], refunded: [] }),
+    });
+    mgr.submitCommitment('wallet1', createCommitment('s1', 'wallet1'));
+    mgr.submitCommitment('wallet2', createCommitment('s2', 'wallet2'));
+    mgr.submitCommitment('wallet3', createCommitment('s3', 'wallet3'));
+    mgr.startRevealPhase();
+    mgr.revealSecret('wallet1', 's1');
+    mgr.revealSecret('wallet2', 's2');
+    passRevealDeadline(mgr);
+    expect(mgr.finalize(oreHash).participants).toEqual(['wallet1', 'wallet2']);
+  });
+
+  it('rejects unknown policies', () => {
+    expect(() => getMissingRevealPolicy('nope' as MissingRevealPolicyName)).toThrow('Unknown missing-reveal policy');
+    expect(() => new CommitRevealManager('game', { missingRevealPolicy: 'nope' as MissingRevealPolicyName })).toThrow();
+  });
+
+  it('exports bundles that verify with excluded players', () => {
+    const { mgr, result } = finalizeWith('forfeit');
+    const engine = new GameEngine({ gameId: 'game', seed: result.seed!, players: result.participants! });
+    const ore = generateMockOreResults(50, result.seed!);
+    for (const round of ore) {
+      if (engine.isGameComplete()) break;
+      engine.processRound(round);
+    }
+
+    const bundle = createGameBundle(engine, ore.slice(0, engine.getCurrentRound()), { commitReveal: mgr });
+    expect(bundle.commitReveal!.excluded).toEqual(['wallet3']);
+    expect(verifyGameBundle(bundle).passed).toBe(true);
+
+    // Excluding a player who did reveal is caught
+    const tampered = structuredClone(bundle);
+    tampered.commitReveal!.excluded = ['wallet2'];
+    expect(verifyGameBundle(tampered).passed).toBe(false);
+  });
+});
+
 describe('PlayerCommitmentHelper', () => {
   it('should generate valid commitment', () => {
     const helper = new PlayerCommitmentHelper('test-wallet');
@@ -502,6 +664,7 @@ describe('Security Properties', () => {
     manager.startRevealPhase();
     manager.revealSecret('wallet1', secret1);
     // wallet2 doesn't reveal
+    passRevealDeadline(manager);
 
     const oreHash = 'c'.repeat(64);
     const result = manager.finalize(oreHash);
@@ -0,0 +1,170 @@
+// Commitment Storage Tests
+//
+// Tests that both commitment managers write through to storage and can be
+// restored from it after a restart, for the in-memory and file stores.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CommitmentStorage,
+  FileCommitmentStorage,
+  MemoryCommitmentStorage,
+  WriteThroughQueue,
+} from '../src/commitment-storage.js';
+import { CommitRevealManager, PlayerCommitmentHelper } from '../src/commit-reveal.js';
+import { createMockOreBlockCommitmentManager } from '../src/ore-block-commitment.js';
+
+const ORE_HASH = 'ab'.repeat(32);
+
+const STORES: Array<[string, () => { storage: CommitmentStorage; cleanup: () => void }]> = [
+  ['MemoryCommitmentStorage', () => ({ storage: new MemoryCommitmentStorage(), cleanup: () => {} })],
+  [
+    'FileCommitmentStorage',
+    () => {
+      const dir = mkdtempSync(join(tmpdir(), 'battle-dinghy-'));
+      return { storage: new FileCommitmentStorage(dir), cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+    },
+  ],
+];
+
+describe.each(STORES)('%s', (_, createStore) => {
+  let storage: CommitmentStorage;
+  let cleanup: () => void;
+
+  beforeEach(() => {
+    ({ storage, cleanup } = createStore());
+  });
+
+  afterEach(() => cleanup());
+
+  describe('CommitRevealManager write-through', () => {
+    const alice = new PlayerCommitmentHelper('alice');
+    const bob = new PlayerCommitmentHelper('bob');
+
+    it('restores commitments made before a restart', async () => {
+      const manager = new CommitRevealManager('game-1', {}, storage);
+      manager.submitCommitment('alice', alice.getCommitmentHash());
+      manager.submitCommitment('bob', bob.getCommitmentHash());
+      manager.startRevealPhase();
+      manager.revealSecret('alice', alice.getSecret());
+      await manager.flush();
+
+      const restored = (await CommitRevealManager.load('game-1', storage))!;
+      expect(restored.getPhase()).toBe('revealing');
+      expect(restored.getCommittedPlayers()).toEqual(['alice', 'bob']);
+      expect(restored.getRevealedPlayers()).toEqual(['alice']);
+
+      // The restored manager keeps writing through
+      restored.revealSecret('bob', bob.getSecret());
+      const result = restored.finalize(ORE_HASH);
+      await restored.flush();
+
+      const again = (await CommitRevealManager.load('game-1', storage))!;
+      expect(again.getStats().isFinalized).toBe(true);
+      expect(again.getFinalSeedHex()).toBe(result.seedHex);
+      expect(again.finalize(ORE_HASH)).toEqual(result);
+    });
+
+    it('records the missing-reveal outcome', async () => {
+      const manager = new CommitRevealManager('game-1', { missingRevealPolicy: 'abort' }, storage);
+      manager.submitCommitment('alice', alice.getCommitmentHash());
+      manager.submitCommitment('bob', bob.getCommitmentHash());
+      manager.startRevealPhase();
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(manager.getState().revealDeadline + 1);
+      manager.finalize(ORE_HASH);
+      vi.useRealTimers();
+      await manager.flush();
+
+      const stored = await storage.loadCommitReveal('game-1');
+      expect(stored!.session.phase).toBe('aborted');
+      expect(stored!.session.missingRevealOutcome!.refunded).toEqual(['alice', 'bob']);
+    });
+
+    it('returns null for games it has never seen', async () => {
+      expect(await CommitRevealManager.load('unknown', storage)).toBeNull();
+    });
+  });
+
+  describe('OreBlockCommitmentManager write-through', () => {
+    it('restores commitments and verifications after a restart', async () => {
+      const { manager, setBlockHeight, addBlock } = createMockOreBlockCommitmentManager({}, storage);
+      await manager.createCommitment('game-1', 'operator', 110);
+      await manager.createCommitment('game-2', 'operator', 120);
+      setBlockHeight(112);
+      addBlock(110, ORE_HASH, Date.now() + 60_000);
+      await manager.verifyCommitment('game-1');
+      await manager.flush();
+
+      const { manager: restored } = createMockOreBlockCommitmentManager({}, storage);
+      await restored.loadFromStorage();
+      expect(restored.getVerifiedBlockHash('game-1')).toBe(ORE_HASH);
+      expect(restored.getPendingCommitments().map(c => c.gameId)).toEqual(['game-2']);
+      expect(restored.getCommitment('game-2')).toEqual(manager.getCommitment('game-2'));
+    });
+
+    it('keeps the observations behind a verification conflict', async () => {
+      const { manager, setBlockHeight, addBlock } = createMockOreBlockCommitmentManager({}, storage);
+      await manager.createCommitment('game-1', 'operator', 110);
+      manager.observeBlockHash('game-1', 'webhook', 'cd'.repeat(32));
+      setBlockHeight(112);
+      addBlock(110, ORE_HASH, Date.now() + 60_000);
+      await manager.verifyCommitment('game-1');
+      await manager.flush();
+
+      const { manager: restored } = createMockOreBlockCommitmentManager({}, storage);
+      await restored.loadFromStorage();
+      expect((await restored.verifyCommitment('game-1')).outcome).toBe('verification_conflict');
+      expect(restored.getObservations('game-1')).toEqual(manager.getObservations('game-1'));
+    });
+
+    it('deletes cleared games', async () => {
+      const { manager } = createMockOreBlockCommitmentManager({}, storage);
+      await manager.createCommitment('game-1', 'operator');
+      manager.clearGame('game-1');
+      await manager.flush();
+
+      expect((await storage.loadOreCommitments()).commitments).toEqual([]);
+    });
+  });
+});
+
+describe('WriteThroughQueue', () => {
+  it('runs writes in order and reports the first failure on flush', async () => {
+    const queue = new WriteThroughQueue();
+    const order: number[] = [];
+
+    queue.write(async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      order.push(1);
+    });
+    queue.write(async () => {
+      throw new Error('disk full');
+    });
+    queue.write(async () => {
+      order.push(3);
+    });
+
+    await expect(queue.flush()).rejects.toThrow('disk full');
+    expect(order).toEqual([1, 3]);
+    await expect(queue.flush()).resolves.toBeUndefined();
+  });
+
+  it('surfaces storage errors through the manager', async () => {
+    const storage = new MemoryCommitmentStorage();
+    storage.savePlayerCommitment = async () => {
+      throw new Error('connection lost');
+    };
+
+    const manager = new CommitRevealManager('game-1', {}, storage);
+    manager.submitCommitment('alice', new PlayerCommitmentHelper('alice').getCommitmentHash());
+    await expect(manager.flush()).rejects.toThrow('connection lost');
+  });
+
+  it('refuses to load without storage', async () => {
+    const { manager } = createMockOreBlockCommitmentManager();
+    await expect(manager.loadFromStorage()).rejects.toThrow('No storage configured');
+  });
+});
@@ -0,0 +1,269 @@
+// Player-Chosen Fleet Placement Tests
+//
+// Tests fleet commitments, placement validation, and blind play followed by
+// reveal and replay in the GameEngine.
+
+import { describe, it, expect } from 'vitest';
+import {
+  FleetCommitmentHelper,
+  FleetCommitments,
+  createFleetCommitment,
+  decodeFleetSecret,
+  encodeFleetSecret,
+  resolveRevealedFleet,
+  validateFleetPlacement,
+} from '../src/fleet-placement.js';
+import { GameEngine, GameConfig, generateMockOreResults } from '../src/game-engine.js';
+import { createGameBundle, verifyGameBundle } from '../src/verifier.js';
+import { createCommitment } from '../src/commit-reveal.js';
+import { seedFromHex } from '../src/card-generator.js';
+import { CellIndex, DEFAULT_RULES, GameRules, ShipPlacement, ShotSchedule } from '../src/types.js';
+
+const SEED = seedFromHex('cd'.repeat(32));
+const SALT = 'a1b2c3d4';
+
+const FLEET_A: ShipPlacement[] = [
+  { size: 3, startCell: 0 as CellIndex, direction: 'horizontal' },
+  { size: 2, startCell: 10 as CellIndex, direction: 'vertical' },
+  { size: 1, startCell: 24 as CellIndex, direction: 'horizontal' },
+];
+
+const FLEET_B: ShipPlacement[] = [
+  { size: 3, startCell: 4 as CellIndex, direction: 'vertical' },
+  { size: 2, startCell: 22 as CellIndex, direction: 'horizontal' },
+  { size: 1, startCell: 12 as CellIndex, direction: 'vertical' },
+];
+
+/** Short, fast schedule so blind games finish quickly */
+const SCHEDULE: ShotSchedule = { steps: [{ fromRound: 1, shots: 3 }], maxRounds: 12 };
+
+const PLAYERS = ['alice', 'bob', 'carol'];
+const FLEETS: Record<string, ShipPlacement[]> = { alice: FLEET_A, bob: FLEET_B, carol: FLEET_A };
+
+function secrets(): Record<string, string> {
+  return Object.fromEntries(PLAYERS.map(p => [p, encodeFleetSecret(FLEETS[p], SALT)]));
+}
+
+function commitments(): Record<string, string> {
+  return Object.fromEntries(PLAYERS.map(p => [p, createFleetCommitment(FLEETS[p], SALT, p)]));
+}
+
+function blindConfig(): GameConfig {
+  return {
+    gameId: 'fleet-game',
+    seed: SEED,
+    players: PLAYERS,
+    schedule: SCHEDULE,
+    fleetCommitments: { commitments: commitments() },
+  };
+}
+
+function playBlind(config: GameConfig = blindConfig()) {
+  const engine = new GameEngine(config);
+  const ore = generateMockOreResults(SCHEDULE.maxRounds, SEED);
+  for (const round of ore) {
+    engine.processRound(round);
+  }
+  return { engine, ore };
+}
+
+describe('fleet secrets', () => {
+  it('round-trips placements', () => {
+    const secret = encodeFleetSecret(FLEET_A, SALT);
+    expect(secret).toBe(`${SALT}:3h0,2v10,1h24`);
+    expect(decodeFleetSecret(secret)).toEqual(FLEET_A);
+  });
+
+  it('rejects malformed secrets', () => {
+    expect(decodeFleetSecret('no-salt')).toBeNull();
+    expect(decodeFleetSecret(`${SALT}:0h0`)).toBeNull();
+    expect(decodeFleetSecret(`${SALT}:3x0`)).toBeNull();
+    expect(() => encodeFleetSecret(FLEET_A, 'not hex')).toThrow('Fleet salt must be hex');
+  });
+});
+
+describe('validateFleetPlacement', () => {
+  it('accepts a legal fleet', () => {
+    const result = validateFleetPlacement(FLEET_A);
+    expect(result.valid).toBe(true);
+    expect(result.ships!.map(s => s.cells)).toEqual([[0, 1, 2], [10, 15], [24]]);
+  });
+
+  it('rejects the wrong number or order of ships', () => {
+    expect(validateFleetPlacement(FLEET_A.slice(0, 2)).error).toBe('Expected 3 ships, got 2');
+    expect(validateFleetPlacement([FLEET_A[1], FLEET_A[0], FLEET_A[2]]).error).toBe('Ship 1 must be size 3');
+  });
+
+  it('rejects ships off the board or overlapping', () => {
+    const offBoard = [{ ...FLEET_A[0], startCell: 3 as CellIndex }, FLEET_A[1], FLEET_A[2]];
+    expect(validateFleetPlacement(offBoard).error).toBe('Ship 1 does not fit on the board');
+
+    const overlapping = [FLEET_A[0], { ...FLEET_A[1], startCell: 1 as CellIndex }, FLEET_A[2]];
+    expect(validateFleetPlacement(overlapping).error).toBe('Ship 2 overlaps another ship');
+  });
+});
+
+describe('resolveRevealedFleet', () => {
+  const commitment = createFleetCommitment(FLEET_A, SALT, 'alice');
+
+  it('builds a card from a matching reveal', () => {
+    const fleet = resolveRevealedFleet('alice', commitment, encodeFleetSecret(FLEET_A, SALT));
+    expect(fleet.accepted).toBe(true);
+    if (fleet.accepted) {
+      expect(fleet.card.allCells).toEqual([0, 1, 2, 10, 15, 24]);
+    }
+  });
+
+  it('rejects missing, mismatched and invalid reveals', () => {
+    const reason = (secret: string | undefined, hash = commitment) => {
+      const fleet = resolveRevealedFleet('alice', hash, secret);
+      return fleet.accepted ? null : fleet.rejection.reason;
+    };
+
+    expect(reason(undefined)).toBe('missing');
+    expect(reason(encodeFleetSecret(FLEET_B, SALT))).toBe('commitment_mismatch');
+
+    const garbage = `${SALT}:garbage`;
+    expect(reason(garbage, createCommitment(garbage, 'alice'))).toBe('malformed');
+
+    const overlapping = [FLEET_A[0], { ...FLEET_A[1], startCell: 1 as CellIndex }, FLEET_A[2]];
+    const secret = encodeFleetSecret(overlapping, SALT);
+    expect(reason(secret, createFleetCommitment(overlapping, SALT, 'alice'))).toBe('invalid_placement');
+  });
+});
+
+describe('FleetCommitmentHelper', () => {
+  it('commits to a fleet that resolves on reveal', () => {
+    const helper = new FleetCommitmentHelper('alice', FLEET_A);
+    const fleet = resolveRevealedFleet('alice', helper.getCommitmentHash(), helper.getSecret());
+    expect(fleet.accepted).toBe(true);
+  });
+
+  it('commits to and reveals a fleet of a custom ruleset', () => {
+    const rules: GameRules = { ...DEFAULT_RULES, gridWidth: 7, gridHeight: 7, fleet: [4, 3, 2], eliminationThreshold: 9 };
+    const fleet: ShipPlacement[] = [
+      { size: 4, startCell: 0 as CellIndex, direction: 'horizontal' },
+      { size: 3, startCell: 14 as CellIndex, direction: 'vertical' },
+      { size: 2, startCell: 47 as CellIndex, direction: 'horizontal' },
+    ];
+    const helper = new FleetCommitmentHelper('alice', fleet, rules);
+    expect(decodeFleetSecret(helper.getSecret())).toEqual(fleet);
+
+    const resolved = resolveRevealedFleet('alice', helper.getCommitmentHash(), helper.getSecret(), rules);
+    expect(resolved.accepted).toBe(true);
+    if (resolved.accepted) {
+      expect(resolved.card.allCells).toEqual([0, 1, 2, 3, 14, 21, 28, 47, 48]);
+    }
+  });
+
+  it('refuses an illegal fleet up front', () => {
+    expect(() => new FleetCommitmentHelper('alice', FLEET_A.slice(1))).toThrow('Invalid fleet');
+  });
+});
+
+describe('GameEngine with committed fleets', () => {
+  it('requires a commitment from every participant', () => {
+    const config = blindConfig();
+    const partial: FleetCommitments = { commitments: { alice: config.fleetCommitments!.commitments.alice } };
+    expect(() => new GameEngine({ ...config, fleetCommitments: partial })).toThrow(
+      'Missing fleet commitment for bob'
+    );
+  });
+
+  it('rejects shot strategies that depend on ship positions', () => {
+    expect(() => new GameEngine({ ...blindConfig(), shotStrategy: 'weighted-unhit' })).toThrow(
+      'cannot be used with committed fleets'
+    );
+  });
+
+  it('fires every round blind and then waits for reveals', () => {
+    const { engine } = playBlind();
+    const rounds = engine.getRoundHistory();
+
+    expect(rounds).toHaveLength(SCHEDULE.maxRounds);
+    expect(rounds.every(r => r.eliminations.length === 0)).toBe(true);
+    expect(engine.isGameComplete()).toBe(false);
+    expect(engine.isAwaitingFleetReveal()).toBe(true);
+    expect(engine.getPlayerCard('alice')!.hitCells.size).toBe(0);
+
+    expect(() =>
+      engine.processRound({ roundNumber: SCHEDULE.maxRounds + 1, winningBlock: 0, proof: 'x' })
+    ).toThrow('waiting for fleet reveals');
+  });
+
+  it('refuses reveals before the final round', () => {
+    const engine = new GameEngine(blindConfig());
+    engine.processRound(generateMockOreResults(1, SEED)[0]);
+    expect(() => engine.revealPlacements(secrets())).toThrow('after the final round');
+  });
+
+  it('settles the game exactly as a replay with the reveals', () => {
+    const { engine, ore } = playBlind();
+    const events: string[] = [];
+    engine.on('round_complete', () => events.push('round_complete'));
+    engine.on('fleets_revealed', () => events.push('fleets_revealed'));
+    engine.on('game_complete', () => events.push('game_complete'));
+
+    expect(engine.revealPlacements(secrets())).toEqual([]);
+    expect(engine.isGameComplete()).toBe(true);
+    expect(events[0]).toBe('fleets_revealed');
+    expect(events).not.toContain('round_complete');
+    expect(events).toContain('game_complete');
+
+    const replayed = GameEngine.recover(engine.getConfig(), ore);
+    expect(replayed.getWinner()).toBe(engine.getWinner());
+    expect(replayed.getRoundHistory()).toEqual(engine.getRoundHistory());
+    expect(replayed.getStandings()).toEqual(engine.getStandings());
+    expect(engine.getGeneratedCard('bob')!.allCells).toEqual([4, 9, 14, 22, 23, 12]);
+  });
+
+  it('eliminates participants with a missing or invalid reveal', () => {
+    const { engine } = playBlind();
+    const reveals = secrets();
+    delete reveals.bob;
+    reveals.carol = encodeFleetSecret(FLEET_B, SALT);
+
+    const rejected = engine.revealPlacements(reveals);
+    expect(rejected.map(r => [r.playerId, r.reason])).toEqual([
+      ['bob', 'missing'],
+      ['carol', 'commitment_mismatch'],
+    ]);
+    expect(engine.getPlayerCard('bob')!.eliminatedAtRound).toBe(0);
+    expect(engine.getWinner()).toBe('alice');
+    expect(engine.getStandings()[0].playerId).toBe('alice');
+  });
+
+  it('picks a winner by tiebreak when nobody reveals', () => {
+    const { engine } = playBlind();
+    engine.revealPlacements({});
+    expect(engine.getFleetRejections()).toHaveLength(3);
+    expect(engine.isGameComplete()).toBe(true);
+    expect(engine.getStandings()[0].playerId).toBe(engine.getWinner());
+  });
+
+  it('survives serialization while blind and after reveal', () => {
+    const { engine } = playBlind();
+    const blind = GameEngine.deserialize(engine.serialize());
+    expect(blind.isAwaitingFleetReveal()).toBe(true);
+
+    blind.revealPlacements(secrets());
+    const revealed = GameEngine.deserialize(blind.serialize());
+    expect(revealed.getWinner()).toBe(blind.getWinner());
+    expect(revealed.getGeneratedCard('alice')!.allCells).toEqual([0, 1, 2, 10, 15, 24]);
+  });
+
+  it('exports a bundle that verifies against the revealed fleets', () => {
+    const { engine, ore } = playBlind();
+    engine.revealPlacements(secrets());
+
+    const bundle = createGameBundle(engine, ore);
+    // Seeded without commit-reveal, so only the replay can pass
+    const report = verifyGameBundle(bundle);
+    expect(report.seed.map(c => c.label)).toEqual(['Seed provenance is verified']);
+    expect([...report.rounds, ...report.cards, report.winner].every(c => c.passed)).toBe(true);
+
+    const tampered = structuredClone(bundle);
+    tampered.cards![0].ships![2].cells = [20];
+    expect(verifyGameBundle(tampered).passed).toBe(false);
+  });
+});
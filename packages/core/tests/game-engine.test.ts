@@ -7,6 +7,7 @@ import {
   generateMockOreResults,
 } from '../src/game-engine.js';
 import { seedFromHex } from '../src/card-generator.js';
+import { createGameBundle, verifyGameBundle } from '../src/verifier.js';
 import {
   TOTAL_CELLS,
   TOTAL_SHIP_CELLS,
@@ -14,7 +15,13 @@ import {
   SUDDEN_DEATH_ROUND_2,
   MAX_ROUNDS,
   CellIndex,
+  GameRules,
+  ShotSchedule,
+  DEFAULT_SHOT_SCHEDULE,
+  SHIP_NAMES,
   createCellIndex,
+  getShipName,
+  GameStatus,
 } from '../src/types.js';
 
 // =============================================================================
@@ -770,3 +777,520 @@ describe('generateMockOreResults', () => {
     }
   });
 });
+
+// =============================================================================
+// 9. Custom Rules Tests
+// =============================================================================
+
+describe('Custom Rules', () => {
+  const SPEED_RULES: GameRules = {
+    gridWidth: 4,
+    gridHeight: 4,
+    fleet: [2, 1],
+    eliminationThreshold: 3,
+  };
+
+  const BIG_WATER: GameRules = {
+    gridWidth: 7,
+    gridHeight: 7,
+    fleet: [3, 3, 2, 2, 1],
+    eliminationThreshold: 6,
+  };
+
+  it('rejects invalid rulesets at construction', () => {
+    expect(() => new GameEngine({
+      ...createTestConfig(),
+      rules: { ...SPEED_RULES, eliminationThreshold: 4 },
+    })).toThrow('Invalid elimination threshold');
+
+    expect(() => new GameEngine({
+      ...createTestConfig(),
+      rules: { ...SPEED_RULES, fleet: [3, 3, 3, 3, 3, 3] },
+    })).toThrow('Fleet needs 18 cells');
+
+    expect(() => new GameEngine({
+      ...createTestConfig(),
+      rules: { ...SPEED_RULES, gridWidth: 0 },
+    })).toThrow('Invalid grid size');
+
+    expect(() => new GameEngine({
+      ...createTestConfig(),
+      rules: { ...SPEED_RULES, fleet: [2, 0] },
+    })).toThrow('Invalid ship size: 0');
+
+    expect(() => new GameEngine({
+      ...createTestConfig(),
+      rules: { ...SPEED_RULES, fleet: [1.5, 1] },
+    })).toThrow('Invalid ship size: 1.5');
+  });
+
+  it('keeps shots on the configured board', () => {
+    const engine = new GameEngine({ ...createTestConfig(), rules: BIG_WATER });
+    const seen = new Set<number>();
+
+    for (const ore of generateMockOreResults(MAX_ROUNDS, TEST_SEED)) {
+      for (const shot of engine.calculateShots(ore)) {
+        expect(shot).toBeGreaterThanOrEqual(0);
+        expect(shot).toBeLessThan(49);
+        seen.add(shot);
+      }
+    }
+
+    // Cells beyond ORE's 25 squares must be reachable on a larger board
+    expect([...seen].some(cell => cell >= TOTAL_CELLS)).toBe(true);
+  });
+
+  it('eliminates at the configured threshold', () => {
+    const engine = new GameEngine({
+      ...createTestConfig(TEST_PLAYERS.slice(0, 2)),
+      rules: BIG_WATER,
+    });
+    const player = TEST_PLAYERS[0];
+    const card = engine.getGeneratedCard(player)!;
+    expect(card.allCells.length).toBe(11);
+
+    for (const cell of card.allCells.slice(0, BIG_WATER.eliminationThreshold)) {
+      engine.applyShot(cell);
+    }
+
+    expect(engine.getPlayerCard(player)!.isEliminated).toBe(true);
+  });
+
+  it('generates cards from the ruleset', () => {
+    const engine = new GameEngine({ ...createTestConfig(), rules: SPEED_RULES });
+
+    for (const player of TEST_PLAYERS) {
+      const card = engine.getGeneratedCard(player)!;
+      expect(card.ships.map(s => s.size)).toEqual([2, 1]);
+      for (const cell of card.allCells) {
+        expect(cell).toBeLessThan(16);
+      }
+    }
+  });
+
+  it('survives serialization and recovery', () => {
+    const config = { ...createTestConfig(), rules: SPEED_RULES };
+    const ore = generateMockOreResults(10, TEST_SEED);
+    const engine = GameEngine.recover(config, ore);
+
+    const restored = GameEngine.deserialize(engine.serialize());
+    expect(restored.getRules()).toEqual(SPEED_RULES);
+
+    for (const player of TEST_PLAYERS) {
+      expect(restored.getGeneratedCard(player)!.allCells)
+        .toEqual(engine.getGeneratedCard(player)!.allCells);
+      expect(restored.getPlayerCard(player)!.hitCells)
+        .toEqual(engine.getPlayerCard(player)!.hitCells);
+    }
+  });
+});
+
+// =============================================================================
+// 10. Shot Schedule Tests
+// =============================================================================
+
+describe('Shot Schedule', () => {
+  const BLITZ: ShotSchedule = {
+    steps: [
+      { fromRound: 1, shots: 1 },
+      { fromRound: 6, shots: 3 },
+      { fromRound: 9, shots: 5 },
+    ],
+    maxRounds: 10,
+    roundCaps: [{ round: 10, maxShots: 2 }],
+  };
+
+  function createScheduledConfig(schedule: ShotSchedule, players = TEST_PLAYERS): GameConfig {
+    return { ...createTestConfig(players), schedule };
+  }
+
+  it('default schedule matches the sudden death constants', () => {
+    const engine = new GameEngine(createTestConfig());
+
+    expect(engine.getSchedule()).toEqual(DEFAULT_SHOT_SCHEDULE);
+    expect(engine.calculateShots(createOreResult(SUDDEN_DEATH_ROUND_1 - 1, 0)).length).toBe(1);
+    expect(engine.calculateShots(createOreResult(SUDDEN_DEATH_ROUND_1, 0)).length).toBe(2);
+    expect(engine.calculateShots(createOreResult(SUDDEN_DEATH_ROUND_2, 0)).length).toBe(3);
+  });
+
+  it('follows custom escalation steps and caps', () => {
+    const engine = new GameEngine(createScheduledConfig(BLITZ));
+
+    expect(engine.calculateShots(createOreResult(5, 0)).length).toBe(1);
+    expect(engine.calculateShots(createOreResult(6, 0)).length).toBe(3);
+    expect(engine.calculateShots(createOreResult(9, 0)).length).toBe(5);
+    expect(engine.calculateShots(createOreResult(10, 0)).length).toBe(2);
+  });
+
+  it('derived shots match the default schedule for the same shot index', () => {
+    const defaults = new GameEngine(createTestConfig());
+    const blitz = new GameEngine(createScheduledConfig(BLITZ));
+    const ore = createOreResult(6, 7);
+
+    // Only the number of shots changes; each derived shot is still hash(proof, round, index)
+    const defaultShots = defaults.calculateShots(ore);
+    const blitzShots = blitz.calculateShots(ore);
+    expect(blitzShots.slice(0, defaultShots.length)).toEqual(defaultShots);
+  });
+
+  it('ends the game at the schedule\'s final round', () => {
+    const engine = new GameEngine(createScheduledConfig(BLITZ, TEST_PLAYERS.slice(0, 2)));
+
+    for (let round = 1; round <= BLITZ.maxRounds && !engine.isGameComplete(); round++) {
+      engine.processRound(createOreResult(round, 24));
+    }
+
+    expect(engine.isGameComplete()).toBe(true);
+    expect(engine.getCurrentRound()).toBeLessThanOrEqual(BLITZ.maxRounds);
+  });
+
+  it('reports escalation in round summaries', () => {
+    const engine = new GameEngine(createScheduledConfig(BLITZ));
+    const summaries: RoundSummary[] = [];
+
+    for (let round = 1; round <= 6 && !engine.isGameComplete(); round++) {
+      summaries.push(engine.processRound(createOreResult(round, 24)));
+    }
+
+    expect(summaries.length).toBe(6);
+    expect(summaries[0].escalationLevel).toBe(0);
+    expect(summaries[4].nextRoundShots).toBe(3);
+    expect(summaries[5].escalationLevel).toBe(1);
+    expect(summaries[5].roundsRemaining).toBe(4);
+  });
+
+  it('rejects invalid schedules at construction', () => {
+    const invalid: [ShotSchedule, string][] = [
+      [{ steps: [], maxRounds: 10 }, 'at least one step'],
+      [{ steps: [{ fromRound: 2, shots: 1 }], maxRounds: 10 }, 'start at round 1'],
+      [{ steps: [{ fromRound: 1, shots: 1 }, { fromRound: 1, shots: 2 }], maxRounds: 10 }, 'increasing round order'],
+      [{ steps: [{ fromRound: 1, shots: 0 }], maxRounds: 10 }, 'Invalid shot count'],
+      [{ steps: [{ fromRound: 1, shots: 1 }, { fromRound: 20, shots: 2 }], maxRounds: 10 }, 'Invalid escalation step round'],
+      [{ steps: [{ fromRound: 1, shots: 1 }], maxRounds: 300 }, 'Invalid maxRounds'],
+      [{ steps: [{ fromRound: 1, shots: 1 }], maxRounds: 10, roundCaps: [{ round: 11, maxShots: 1 }] }, 'Invalid shot cap round'],
+      [{ steps: [{ fromRound: 1, shots: 1 }], maxRounds: 10, roundCaps: [{ round: 5, maxShots: 0 }] }, 'Invalid shot cap'],
+    ];
+
+    for (const [schedule, message] of invalid) {
+      expect(() => new GameEngine(createScheduledConfig(schedule))).toThrow(message);
+    }
+  });
+
+  it('survives serialization and recovery', () => {
+    const config = createScheduledConfig(BLITZ);
+    const ore = generateMockOreResults(BLITZ.maxRounds, TEST_SEED);
+    const engine = GameEngine.recover(config, ore);
+    const restored = GameEngine.deserialize(engine.serialize());
+
+    expect(restored.getSchedule()).toEqual(BLITZ);
+    expect(GameEngine.recover(config, ore).getWinner()).toBe(engine.getWinner());
+  });
+});
+
+// =============================================================================
+// 11. Team Mode Tests
+// =============================================================================
+
+describe('Team Mode', () => {
+  const TEAMS = [
+    { teamId: 'red', members: TEST_PLAYERS.slice(0, 3) },
+    { teamId: 'blue', members: TEST_PLAYERS.slice(3, 6) },
+    { teamId: 'green', members: TEST_PLAYERS.slice(6) },
+  ];
+
+  function createTeamConfig(teams = TEAMS): GameConfig {
+    return { ...createTestConfig(), teams };
+  }
+
+  it('generates one card per team', () => {
+    const engine = new GameEngine(createTeamConfig());
+
+    expect(engine.isTeamMode()).toBe(true);
+    expect(engine.getParticipants()).toEqual(['red', 'blue', 'green']);
+    expect(engine.getAllCards().size).toBe(3);
+  });
+
+  it('resolves member wallets to the shared team card', () => {
+    const engine = new GameEngine(createTeamConfig());
+    const [first, second] = TEAMS[0].members;
+
+    expect(engine.getTeamForPlayer(first)).toBe('red');
+    expect(engine.getPlayerCard(first)!.playerId).toBe('red');
+    expect(engine.getGeneratedCard(second)).toBe(engine.getGeneratedCard('red'));
+  });
+
+  it('eliminates teams as a unit and names the members', () => {
+    const engine = new GameEngine(createTeamConfig());
+    const handler = vi.fn();
+    engine.on('player_eliminated', handler);
+
+    const redCells = engine.getGeneratedCard('red')!.allCells;
+    redCells.slice(0, -1).forEach(cell => engine.applyShot(cell));
+
+    const summary = engine.processRound(createOreResult(1, redCells[redCells.length - 1]));
+    expect(summary.remainingPlayers).not.toContain('red');
+    for (const member of TEAMS[0].members) {
+      expect(engine.getPlayerCard(member)!.isEliminated).toBe(true);
+    }
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+      player: 'red',
+      members: TEAMS[0].members,
+    }));
+  });
+
+  it('reports the winning squad members', () => {
+    const engine = GameEngine.recover(createTeamConfig(), generateMockOreResults(MAX_ROUNDS, TEST_SEED));
+    const winner = engine.getWinner()!;
+
+    expect(['red', 'blue', 'green']).toContain(winner);
+    expect(engine.getWinningMembers()).toEqual(engine.getTeamMembers(winner));
+  });
+
+  it('keeps solo games unchanged', () => {
+    const engine = GameEngine.recover(createTestConfig(), generateMockOreResults(MAX_ROUNDS, TEST_SEED));
+
+    expect(engine.isTeamMode()).toBe(false);
+    expect(engine.getParticipants()).toEqual(TEST_PLAYERS);
+    expect(engine.getWinningMembers()).toEqual([engine.getWinner()]);
+  });
+
+  it('rejects invalid squads', () => {
+    const invalid: [GameConfig['teams'], string][] = [
+      [[], 'at least one team'],
+      [[{ teamId: 'red', members: TEST_PLAYERS }, { teamId: 'red', members: [] }], 'Duplicate team id'],
+      [[{ teamId: 'red', members: [] }, ...TEAMS.slice(1)], 'has no members'],
+      [[{ teamId: 'red', members: ['stranger'] }], 'is not a player'],
+      [[...TEAMS, { teamId: 'extra', members: [TEST_PLAYERS[0]] }], 'more than one team'],
+      [TEAMS.slice(1), 'Players without a team'],
+      [[{ teamId: TEST_PLAYERS[0], members: TEST_PLAYERS }], 'must not match a player wallet'],
+    ];
+
+    for (const [teams, message] of invalid) {
+      expect(() => new GameEngine(createTeamConfig(teams))).toThrow(message);
+    }
+  });
+
+  it('survives serialization and verifies from a bundle', () => {
+    const ore = generateMockOreResults(MAX_ROUNDS, TEST_SEED);
+    const engine = GameEngine.recover(createTeamConfig(), ore);
+    const restored = GameEngine.deserialize(engine.serialize());
+
+    expect(restored.getTeams()).toEqual(TEAMS);
+    expect(restored.getWinningMembers()).toEqual(engine.getWinningMembers());
+
+    const bundle = createGameBundle(engine, ore.slice(0, engine.getCurrentRound()));
+    // Seeded without commit-reveal, so only the replay can pass
+    const report = verifyGameBundle(bundle);
+    expect(report.seed.map(c => c.label)).toEqual(['Seed provenance is verified']);
+    expect([...report.rounds, ...report.cards, report.winner].every(c => c.passed)).toBe(true);
+    expect(report.cards.map(c => c.playerId)).toEqual(['red', 'blue', 'green']);
+  });
+});
+
+// =============================================================================
+// 12. Standings Tests
+// =============================================================================
+
+describe('Standings', () => {
+  it('ranks every player with the winner first', () => {
+    for (let i = 0; i < 10; i++) {
+      const seed = new Uint8Array(32).fill(i + 1);
+      const engine = GameEngine.recover(
+        { ...createTestConfig(), seed },
+        generateMockOreResults(MAX_ROUNDS, seed)
+      );
+
+      const standings = engine.getStandings();
+
+      expect(standings).toHaveLength(TEST_PLAYERS.length);
+      expect(standings.map(s => s.placement)).toEqual(TEST_PLAYERS.map((_, j) => j + 1));
+      expect(standings[0].playerId).toBe(engine.getWinner());
+      expect(new Set(standings.map(s => s.playerId)).size).toBe(TEST_PLAYERS.length);
+    }
+  });
+
+  it('orders eliminated players by elimination round, latest first', () => {
+    const engine = GameEngine.recover(createTestConfig(), generateMockOreResults(MAX_ROUNDS, TEST_SEED));
+    const eliminated = engine.getStandings().filter(s => s.eliminatedAtRound !== null);
+
+    for (let i = 1; i < eliminated.length; i++) {
+      expect(eliminated[i - 1].eliminatedAtRound!).toBeGreaterThanOrEqual(eliminated[i].eliminatedAtRound!);
+    }
+  });
+
+  it('marks the sole survivor and same-round eliminations', () => {
+    const [p1, p2, p3] = TEST_PLAYERS;
+
+    // Find a seed where p2 and p3 share a cell that p1 does not occupy
+    let engine!: GameEngine;
+    let shared: CellIndex | undefined;
+    for (let i = 1; shared === undefined; i++) {
+      engine = new GameEngine({ ...createTestConfig([p1, p2, p3]), seed: new Uint8Array(32).fill(i) });
+      const cells1 = engine.getGeneratedCard(p1)!.allCells;
+      const cells3 = engine.getGeneratedCard(p3)!.allCells;
+      shared = engine.getGeneratedCard(p2)!.allCells.find(c => cells3.includes(c) && !cells1.includes(c));
+    }
+
+    // Leave only the shared cell unhit, then fire it in round 1
+    const cells = [...engine.getGeneratedCard(p2)!.allCells, ...engine.getGeneratedCard(p3)!.allCells];
+    cells.filter(c => c !== shared).forEach(c => engine.applyShot(c));
+    engine.processRound(createOreResult(1, shared));
+
+    const standings = engine.getStandings();
+    expect(standings[0]).toMatchObject({ playerId: p1, decidedBy: 'last_survivor', eliminatedAtRound: null });
+    expect(standings.slice(1).every(s => s.decidedBy === 'tiebreak' && s.eliminatedAtRound === 1)).toBe(true);
+  });
+
+  it('ranks final-round survivors by cells remaining', () => {
+    const schedule: ShotSchedule = { steps: [{ fromRound: 1, shots: 1 }], maxRounds: 3 };
+    const engine = GameEngine.recover(
+      { ...createTestConfig(), schedule },
+      generateMockOreResults(3, TEST_SEED)
+    );
+
+    const standings = engine.getStandings();
+    const survivors = standings.filter(s => s.eliminatedAtRound === null);
+
+    expect(engine.isGameComplete()).toBe(true);
+    expect(standings[0].playerId).toBe(engine.getWinner());
+    for (let i = 1; i < survivors.length; i++) {
+      expect(survivors[i - 1].cellsRemaining).toBeGreaterThanOrEqual(survivors[i].cellsRemaining);
+    }
+    expect(survivors.some(s => s.decidedBy === 'tiebreak')).toBe(true);
+  });
+
+  it('lists team members in team mode', () => {
+    const teams = [
+      { teamId: 'red', members: TEST_PLAYERS.slice(0, 5) },
+      { teamId: 'blue', members: TEST_PLAYERS.slice(5) },
+    ];
+    const engine = GameEngine.recover({ ...createTestConfig(), teams }, generateMockOreResults(MAX_ROUNDS, TEST_SEED));
+
+    const standings = engine.getStandings();
+
+    expect(standings.map(s => s.playerId).sort()).toEqual(['blue', 'red']);
+    expect(standings[0].members).toEqual(engine.getWinningMembers());
+  });
+});
+
+// =============================================================================
+// 13. Ship Damage Tests
+// =============================================================================
+
+describe('Ship Damage', () => {
+  const PLAYER = TEST_PLAYERS[0];
+
+  function bigDinghyCells(engine: GameEngine): readonly CellIndex[] {
+    return engine.getGeneratedCard(PLAYER)!.ships.find(s => s.size === 3)!.cells;
+  }
+
+  it('starts every ship undamaged', () => {
+    const engine = new GameEngine(createTestConfig());
+    const card = engine.getPlayerCard(PLAYER)!;
+
+    expect(card.shipDamage.map(d => d.size)).toEqual(card.ships.map(s => s.size));
+    expect(card.shipDamage.every(d => d.hits === 0 && !d.isSunk)).toBe(true);
+  });
+
+  it('tracks partial damage per ship', () => {
+    const engine = new GameEngine(createTestConfig());
+    const [first] = bigDinghyCells(engine);
+
+    const result = engine.applyShot(first);
+    const damage = engine.getPlayerCard(PLAYER)!.shipDamage.find(d => d.size === 3)!;
+
+    expect(damage).toMatchObject({ hits: 1, isSunk: false });
+    expect(result.shipHits).toContainEqual(
+      expect.objectContaining({ playerId: PLAYER, cell: first, shipSize: 3, sunk: false })
+    );
+  });
+
+  it('reports the hit that sinks a ship', () => {
+    const engine = new GameEngine(createTestConfig());
+    const cells = bigDinghyCells(engine);
+    cells.slice(0, -1).forEach(cell => engine.applyShot(cell));
+
+    const result = engine.applyShot(cells[cells.length - 1]);
+    const damage = engine.getPlayerCard(PLAYER)!.shipDamage.find(d => d.size === 3)!;
+
+    expect(damage).toMatchObject({ hits: 3, isSunk: true });
+    expect(result.shipHits.find(h => h.playerId === PLAYER)!.sunk).toBe(true);
+  });
+
+  it('ignores repeat hits on damaged cells', () => {
+    const engine = new GameEngine(createTestConfig());
+    const [first] = bigDinghyCells(engine);
+    engine.applyShot(first);
+
+    const repeat = engine.applyShot(first);
+
+    expect(repeat.shipHits.some(h => h.playerId === PLAYER)).toBe(false);
+  });
+
+  it('emits ship_sunk before player_eliminated', () => {
+    const engine = new GameEngine(createTestConfig());
+    const events: string[] = [];
+    engine.on('ship_sunk', e => events.push(`sunk:${e.player}:${e.shipSize}`));
+    engine.on('player_eliminated', e => events.push(`eliminated:${e.player}`));
+
+    const allCells = engine.getGeneratedCard(PLAYER)!.allCells;
+    const last = allCells[allCells.length - 1];
+    allCells.filter(c => c !== last).forEach(cell => engine.applyShot(cell));
+
+    const summary = engine.processRound(createOreResult(1, last));
+    const lastShip = engine.getGeneratedCard(PLAYER)!.ships.find(s => s.cells.includes(last))!;
+    const sunkIndex = events.indexOf(`sunk:${PLAYER}:${lastShip.size}`);
+
+    expect(sunkIndex).toBeGreaterThanOrEqual(0);
+    expect(sunkIndex).toBeLessThan(events.indexOf(`eliminated:${PLAYER}`));
+    expect(summary.shipHits).toContainEqual(
+      expect.objectContaining({ playerId: PLAYER, shipSize: lastShip.size, sunk: true })
+    );
+  });
+
+  it('names ship sizes for narration', () => {
+    expect(SHIP_NAMES[3]).toBe('Giant Dinghy');
+    expect(SHIP_NAMES[1]).toBe('Tiny Dinghy');
+    expect(getShipName(2)).toBe(SHIP_NAMES[2]);
+    expect(getShipName(4)).toBe('4-cell Dinghy');
+  });
+});
+
+// =============================================================================
+// 14. Pausing Tests
+// =============================================================================
+
+describe('Pausing', () => {
+  it('rejects rounds while paused and reports PAUSED', () => {
+    const engine = new GameEngine(createTestConfig());
+    const events: unknown[] = [];
+    engine.on('game_paused', e => events.push(e));
+    engine.on('game_resumed', e => events.push(e));
+
+    engine.processRound(createOreResult(1, 5));
+    engine.pause('ORE block verification conflict');
+
+    expect(engine.isPaused()).toBe(true);
+    expect(engine.getGameState().status).toBe(GameStatus.PAUSED);
+    expect(() => engine.processRound(createOreResult(2, 10))).toThrow(
+      'Game is paused: ORE block verification conflict'
+    );
+
+    engine.resume();
+    expect(engine.getGameState().status).toBe(GameStatus.ACTIVE);
+    engine.processRound(createOreResult(2, 10));
+    expect(engine.getCurrentRound()).toBe(2);
+    expect(events).toEqual([
+      { reason: 'ORE block verification conflict', round: 1 },
+      { round: 1 },
+    ]);
+  });
+
+  it('keeps the pause across serialization', () => {
+    const engine = new GameEngine(createTestConfig());
+    engine.pause('investigating');
+
+    const restored = GameEngine.deserialize(engine.serialize());
+    expect(restored.getPausedReason()).toBe('investigating');
+  });
+});
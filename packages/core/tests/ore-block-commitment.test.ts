@@ -169,7 +169,7 @@ describe('OreBlockCommitmentManager', () => {
       // Simulate block being mined in the future
       const futureTime = Date.now() + 60000; // 1 minute later
       mockSetup.addBlock(103, 'block-hash-103', futureTime);
-      mockSetup.setBlockHeight(103);
+      mockSetup.setBlockHeight(105);
 
       const result = await manager.verifyCommitment('game-1');
 
@@ -187,7 +187,7 @@ describe('OreBlockCommitmentManager', () => {
       // Then create commitment (this simulates cheating)
       await manager.createCommitment('game-1', 'operator-wallet');
 
-      mockSetup.setBlockHeight(103);
+      mockSetup.setBlockHeight(105);
 
       const result = await manager.verifyCommitment('game-1');
 
@@ -210,7 +210,7 @@ describe('OreBlockCommitmentManager', () => {
 
       const futureTime = Date.now() + 60000;
       mockSetup.addBlock(103, 'block-hash-103', futureTime);
-      mockSetup.setBlockHeight(103);
+      mockSetup.setBlockHeight(105);
 
       const result1 = await manager.verifyCommitment('game-1');
       const result2 = await manager.verifyCommitment('game-1');
@@ -232,7 +232,7 @@ describe('OreBlockCommitmentManager', () => {
 
       const futureTime = Date.now() + 60000;
       mockSetup.addBlock(103, 'verified-hash', futureTime);
-      mockSetup.setBlockHeight(103);
+      mockSetup.setBlockHeight(105);
 
       await manager.verifyCommitment('game-1');
 
@@ -252,7 +252,7 @@ describe('OreBlockCommitmentManager', () => {
       mockSetup.addBlock(103, 'block-hash', pastTime);
 
       await manager.createCommitment('game-1', 'operator-wallet');
-      mockSetup.setBlockHeight(103);
+      mockSetup.setBlockHeight(105);
 
       await manager.verifyCommitment('game-1');
 
@@ -273,7 +273,7 @@ describe('OreBlockCommitmentManager', () => {
 
       const futureTime = Date.now() + 60000;
       mockSetup.addBlock(103, 'block-hash', futureTime);
-      mockSetup.setBlockHeight(103);
+      mockSetup.setBlockHeight(105);
 
       await manager.verifyCommitment('game-1');
 
@@ -317,7 +317,7 @@ describe('OreBlockCommitmentManager', () => {
 
       const futureTime = Date.now() + 60000;
       mockSetup.addBlock(103, 'block-hash', futureTime);
-      mockSetup.setBlockHeight(103);
+      mockSetup.setBlockHeight(105);
 
       await manager.verifyCommitment('game-1');
 
@@ -336,7 +336,7 @@ describe('OreBlockCommitmentManager', () => {
       // Verify one
       const futureTime = Date.now() + 60000;
       mockSetup.addBlock(103, 'block-hash', futureTime);
-      mockSetup.setBlockHeight(103);
+      mockSetup.setBlockHeight(105);
       await manager.verifyCommitment('game-1');
 
       const pending = manager.getPendingCommitments();
@@ -381,7 +381,7 @@ describe('Security Properties', () => {
     // Operator cannot change their commitment
     const futureTime = Date.now() + 60000;
     mockSetup.addBlock(103, 'random-unpredictable-hash', futureTime);
-    mockSetup.setBlockHeight(103);
+    mockSetup.setBlockHeight(105);
 
     const result = await manager.verifyCommitment('game-1');
 
@@ -404,7 +404,7 @@ describe('Security Properties', () => {
     // Operator tries to commit after seeing the favorable hash
     await manager.createCommitment('game-1', 'operator');
 
-    mockSetup.setBlockHeight(101);
+    mockSetup.setBlockHeight(103);
 
     const result = await manager.verifyCommitment('game-1');
 
@@ -457,7 +457,7 @@ describe('Integration with Commit-Reveal', () => {
     // 3. After reveals, wait for committed block
     const futureTime = Date.now() + 60000;
     mockSetup.addBlock(103, 'ore-block-hash-for-seed', futureTime);
-    mockSetup.setBlockHeight(103);
+    mockSetup.setBlockHeight(105);
 
     await manager.verifyCommitment('game-1');
 
@@ -468,3 +468,94 @@ describe('Integration with Commit-Reveal', () => {
     // This hash would be passed to computeFinalSeed() from C1
   });
 });
+
+describe('Confirmations and Conflicts', () => {
+  let mockSetup: ReturnType<typeof createMockOreBlockCommitmentManager>;
+  let manager: OreBlockCommitmentManager;
+  const minedAt = () => Date.now() + 60000;
+
+  beforeEach(async () => {
+    mockSetup = createMockOreBlockCommitmentManager({ confirmationDepth: 2 });
+    manager = mockSetup.manager;
+    await manager.createCommitment('game-1', 'operator'); // Targets block 103
+  });
+
+  it('should wait for the confirmation depth before verifying', async () => {
+    mockSetup.addBlock(103, 'hash-a', minedAt());
+    mockSetup.setBlockHeight(104);
+
+    const pending = await manager.verifyCommitment('game-1');
+    expect(pending).toMatchObject({ success: false, outcome: 'pending', error: 'Waiting for confirmations (1/2)' });
+    expect(manager.isWaitingForBlock('game-1')).toBe(true);
+
+    mockSetup.setBlockHeight(105);
+    const verified = await manager.verifyCommitment('game-1');
+    expect(verified).toMatchObject({ success: true, outcome: 'verified' });
+    expect(manager.getObservations('game-1')).toEqual([
+      expect.objectContaining({ source: 'rpc', blockHash: 'hash-a' }),
+    ]);
+  });
+
+  it('should detect a reorg when re-verifying before finalization', async () => {
+    mockSetup.addBlock(103, 'hash-a', minedAt());
+    mockSetup.setBlockHeight(105);
+    await manager.verifyCommitment('game-1');
+
+    expect((await manager.reverifyCommitment('game-1')).outcome).toBe('verified');
+
+    // The block is replaced on a fork
+    mockSetup.addBlock(103, 'hash-b', minedAt());
+    const result = await manager.reverifyCommitment('game-1');
+
+    expect(result).toMatchObject({ success: false, outcome: 'verification_conflict' });
+    expect(result.verification!.failureReason).toBe('VERIFICATION_CONFLICT');
+    expect(result.verification!.observations!.map(o => o.blockHash)).toEqual(['hash-a', 'hash-b']);
+    expect(manager.getVerifiedBlockHash('game-1')).toBeNull();
+    expect((await manager.verifyCommitment('game-1')).outcome).toBe('verification_conflict');
+  });
+
+  it('should treat a verified block that disappeared as a conflict', async () => {
+    mockSetup.addBlock(103, 'hash-a', minedAt());
+    mockSetup.setBlockHeight(105);
+    await manager.verifyCommitment('game-1');
+
+    const { manager: forked } = createMockOreBlockCommitmentManager();
+    forked.restore(manager.serialize());
+
+    expect((await forked.reverifyCommitment('game-1')).outcome).toBe('verification_conflict');
+  });
+
+  it('should record conflicting hashes from other sources', async () => {
+    expect(manager.observeBlockHash('game-1', 'webhook', 'hash-b')).toBe('pending');
+
+    mockSetup.addBlock(103, 'hash-a', minedAt());
+    mockSetup.setBlockHeight(105);
+    const result = await manager.verifyCommitment('game-1');
+
+    expect(result.outcome).toBe('verification_conflict');
+    expect(manager.getObservations('game-1').map(o => [o.source, o.blockHash])).toEqual([
+      ['webhook', 'hash-b'],
+      ['rpc', 'hash-a'],
+    ]);
+  });
+
+  it('should accept agreeing observations', async () => {
+    mockSetup.addBlock(103, 'hash-a', minedAt());
+    mockSetup.setBlockHeight(105);
+    await manager.verifyCommitment('game-1');
+
+    expect(manager.observeBlockHash('game-1', 'webhook', 'hash-a')).toBe('verified');
+    expect(manager.observeBlockHash('game-1', 'second-rpc', 'hash-c')).toBe('verification_conflict');
+    expect(manager.observeBlockHash('unknown', 'webhook', 'hash-a')).toBe('failed');
+  });
+
+  it('should fail waitForBlock on a conflict', async () => {
+    manager.observeBlockHash('game-1', 'webhook', 'hash-b');
+    mockSetup.addBlock(103, 'hash-a', minedAt());
+    mockSetup.setBlockHeight(105);
+
+    await expect(manager.waitForBlock('game-1', 1)).rejects.toThrow(
+      'Block verification failed: VERIFICATION_CONFLICT'
+    );
+  });
+});
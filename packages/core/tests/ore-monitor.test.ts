@@ -1,5 +1,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { OreMonitorMock, OreRoundResult } from '../src/ore-monitor.js';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  OreMonitorMock,
+  OreMonitorReplay,
+  OreRoundResult,
+  captureOreRounds,
+  formatOreRoundsJsonl,
+  parseOreRoundsJsonl,
+} from '../src/ore-monitor.js';
 import { TOTAL_CELLS } from '../src/types.js';
 
 // =============================================================================
@@ -397,3 +407,132 @@ describe('OreMonitorMock - Real Timers', () => {
     expect(rounds.length).toBeGreaterThanOrEqual(2);
   });
 });
+
+// =============================================================================
+// OreMonitorReplay
+// =============================================================================
+
+/** Rounds recorded a minute apart with real ORE round ids */
+const RECORDED: OreRoundResult[] = [
+  { roundNumber: 1000, winningBlock: 14, timestamp: 1_700_000_000_000, proof: 'a'.repeat(64) },
+  { roundNumber: 1001, winningBlock: 23, timestamp: 1_700_000_060_000, proof: 'b'.repeat(64) },
+  { roundNumber: 1002, winningBlock: 8, timestamp: 1_700_000_120_000, proof: 'c'.repeat(64) },
+];
+
+describe('OreMonitorReplay', () => {
+  let monitor: OreMonitorReplay;
+  let emitted: OreRoundResult[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    monitor = new OreMonitorReplay([]);
+    emitted = [];
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    vi.useRealTimers();
+  });
+
+  function replay(speed?: number): OreMonitorReplay {
+    monitor = new OreMonitorReplay(RECORDED, { speed });
+    monitor.on('round', (result: OreRoundResult) => emitted.push(result));
+    return monitor;
+  }
+
+  it('plays rounds back at the recorded pace', async () => {
+    await replay().start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(emitted).toEqual([RECORDED[0]]);
+
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(emitted).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(emitted).toEqual(RECORDED.slice(0, 2));
+  });
+
+  it('scales the pace with speed', async () => {
+    const end = vi.fn();
+    replay(60).on('end', end);
+    await monitor.start();
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(emitted).toEqual(RECORDED);
+    expect(end).toHaveBeenCalledTimes(1);
+    expect(monitor.isFinished()).toBe(true);
+    expect(await monitor.getCurrentRound()).toBe(1002);
+  });
+
+  it('only steps manually at speed 0', async () => {
+    await replay(0).start();
+    await vi.advanceTimersByTimeAsync(600_000);
+    expect(emitted).toEqual([]);
+
+    expect(monitor.step()).toEqual(RECORDED[0]);
+    expect(monitor.step()).toEqual(RECORDED[1]);
+    expect(monitor.step()).toEqual(RECORDED[2]);
+    expect(monitor.step()).toBeNull();
+    expect(monitor.getHistory()).toEqual(RECORDED);
+  });
+
+  it('resolves waiters for recorded rounds', async () => {
+    await replay(0).start();
+    const waiting = monitor.waitForRound(1001);
+
+    monitor.step();
+    monitor.step();
+    await expect(waiting).resolves.toEqual(RECORDED[1]);
+    await expect(monitor.waitForRound(1000)).resolves.toEqual(RECORDED[0]);
+    await expect(monitor.waitForRound(2000)).rejects.toThrow('not in the recording');
+  });
+
+  it('rejects waiters when stopped', async () => {
+    await replay(0).start();
+    const waiting = monitor.waitForRound(1002);
+    monitor.stop();
+    await expect(waiting).rejects.toThrow('Monitor stopped');
+  });
+
+  it('rejects an invalid speed', () => {
+    expect(() => new OreMonitorReplay(RECORDED, { speed: -1 })).toThrow('Invalid replay speed');
+  });
+});
+
+describe('ORE round recordings', () => {
+  it('round-trips through JSONL', () => {
+    expect(parseOreRoundsJsonl(formatOreRoundsJsonl(RECORDED))).toEqual(RECORDED);
+  });
+
+  it('numbers rounds recorded without a round number', () => {
+    const text = formatOreRoundsJsonl(RECORDED.map(r => ({ ...r, roundNumber: 0 }))) + '\n';
+    expect(parseOreRoundsJsonl(text).map(r => r.roundNumber)).toEqual([1, 2, 3]);
+  });
+
+  it('names the first bad line', () => {
+    const lines = formatOreRoundsJsonl(RECORDED).split('\n');
+    expect(() => parseOreRoundsJsonl([lines[0], 'not json'].join('\n'))).toThrow('Line 2: invalid JSON');
+    expect(() => parseOreRoundsJsonl([lines[1], lines[0]].join('\n'))).toThrow(
+      'Line 2: round 1000 does not follow round 1001'
+    );
+    expect(() => parseOreRoundsJsonl(JSON.stringify({ ...RECORDED[0], winningBlock: 25 }))).toThrow(
+      'Line 1: winningBlock must be 0-24'
+    );
+  });
+
+  it('captures a monitor to a file that replays identically', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'battle-dinghy-'));
+    try {
+      const path = join(dir, 'rounds.jsonl');
+      const live = new OreMonitorMock(0);
+      const stopCapture = captureOreRounds(live, path);
+      const played = [live.triggerRound(3), live.triggerRound(7)];
+      stopCapture();
+      live.triggerRound(9);
+
+      const replay = OreMonitorReplay.fromFile(path, { speed: 0 });
+      expect([replay.step(), replay.step(), replay.step()]).toEqual([...played, null]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,192 @@
+// Shot Strategy Tests
+//
+// Tests that every strategy is deterministic from the ORE proof, honours its
+// uniqueness guarantees, and replays through GameEngine and the verifier.
+
+import { describe, it, expect } from 'vitest';
+import {
+  SHOT_STRATEGY_NAMES,
+  ShotContext,
+  ShotStrategyName,
+  deriveShotFromProof,
+  getShotStrategy,
+} from '../src/shot-strategy.js';
+import { GameEngine, generateMockOreResults } from '../src/game-engine.js';
+import { seedFromHex } from '../src/card-generator.js';
+import { createGameBundle, verifyGameBundle } from '../src/verifier.js';
+import { CellIndex, DEFAULT_RULES, GameRules, MAX_ROUNDS } from '../src/types.js';
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const TEST_SEED = seedFromHex(
+  'a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4a5b6c7d8e9f0a1b2'
+);
+
+const PLAYERS = [
+  'Player1111111111111111111111111111111111111',
+  'Player2222222222222222222222222222222222222',
+  'Player3333333333333333333333333333333333333',
+  'Player4444444444444444444444444444444444444',
+];
+
+function createContext(overrides: Partial<ShotContext> = {}): ShotContext {
+  return {
+    rules: DEFAULT_RULES,
+    ore: { roundNumber: 1, winningBlock: 7, proof: 'proof-1' },
+    shotCount: 1,
+    previousShots: [],
+    unhitCellCounts: new Array(25).fill(0),
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Strategies
+// =============================================================================
+
+describe('getShotStrategy', () => {
+  it('defaults to the standard strategy', () => {
+    expect(getShotStrategy().name).toBe('standard');
+  });
+
+  it('rejects unknown names', () => {
+    expect(() => getShotStrategy('random' as ShotStrategyName)).toThrow('Unknown shot strategy');
+    expect(() => getShotStrategy('toString' as ShotStrategyName)).toThrow('Unknown shot strategy');
+  });
+
+  it.each(SHOT_STRATEGY_NAMES)('%s returns shotCount deterministic cells', (name) => {
+    const strategy = getShotStrategy(name);
+    const context = createContext({ shotCount: 5 });
+
+    const shots = strategy.selectShots(context);
+
+    expect(shots).toHaveLength(5);
+    expect(shots.every(c => c >= 0 && c < 25)).toBe(true);
+    expect(strategy.selectShots(context)).toEqual(shots);
+    expect(strategy.selectShots(createContext({ shotCount: 5, ore: { ...context.ore, proof: 'other' } })))
+      .not.toEqual(shots);
+  });
+});
+
+describe('standard', () => {
+  it('matches the original derivation', () => {
+    const shots = getShotStrategy('standard').selectShots(createContext({ shotCount: 3 }));
+
+    expect(shots[0]).toBe(7);
+    expect(shots[1]).toBe(deriveShotFromProof('proof-1', 1, 1));
+    expect(shots[2]).toBe(deriveShotFromProof('proof-1', 1, 2));
+  });
+});
+
+describe('unique-per-round', () => {
+  it('never repeats a cell within a round', () => {
+    for (let round = 1; round <= 50; round++) {
+      const shots = getShotStrategy('unique-per-round').selectShots(
+        createContext({ shotCount: 10, ore: { roundNumber: round, winningBlock: round % 25, proof: `p${round}` } })
+      );
+      expect(new Set(shots).size).toBe(10);
+      expect(shots[0]).toBe(round % 25);
+    }
+  });
+
+  it('refills when a round fires more shots than there are cells', () => {
+    const rules: GameRules = { ...DEFAULT_RULES, gridWidth: 3, gridHeight: 3, fleet: [2], eliminationThreshold: 2 };
+    const shots = getShotStrategy('unique-per-round').selectShots(
+      createContext({ rules, shotCount: 12, unhitCellCounts: new Array(9).fill(0) })
+    );
+
+    expect(new Set(shots.slice(0, 9)).size).toBe(9);
+    expect(shots).toHaveLength(12);
+  });
+});
+
+describe('bag', () => {
+  it('fires every cell once before repeating', () => {
+    const strategy = getShotStrategy('bag');
+    const fired: CellIndex[] = [];
+
+    for (let round = 1; round <= 25; round++) {
+      fired.push(...strategy.selectShots(createContext({
+        ore: { roundNumber: round, winningBlock: 0, proof: `p${round}` },
+        previousShots: [...fired],
+      })));
+    }
+
+    expect(new Set(fired).size).toBe(25);
+  });
+
+  it('keeps the ORE cell as primary while it is still in the bag', () => {
+    const shots = getShotStrategy('bag').selectShots(createContext({ previousShots: [1, 2, 3] as CellIndex[] }));
+    expect(shots[0]).toBe(7);
+
+    const redrawn = getShotStrategy('bag').selectShots(createContext({ previousShots: [7] as CellIndex[] }));
+    expect(redrawn[0]).not.toBe(7);
+  });
+});
+
+describe('weighted-unhit', () => {
+  it('favours cells with unhit ships', () => {
+    const unhitCellCounts = new Array(25).fill(0);
+    unhitCellCounts[12] = 1000;
+    let onTarget = 0;
+
+    for (let round = 1; round <= 50; round++) {
+      const [shot] = getShotStrategy('weighted-unhit').selectShots(createContext({
+        ore: { roundNumber: round, winningBlock: 0, proof: `p${round}` },
+        unhitCellCounts,
+      }));
+      if (shot === 12) onTarget++;
+    }
+
+    expect(onTarget).toBeGreaterThan(40);
+  });
+});
+
+// =============================================================================
+// Engine Integration
+// =============================================================================
+
+describe('GameEngine shot strategies', () => {
+  it.each(SHOT_STRATEGY_NAMES)('%s games replay and verify', (shotStrategy) => {
+    const oreRounds = generateMockOreResults(MAX_ROUNDS, TEST_SEED);
+    const config = { gameId: `strategy-${shotStrategy}`, seed: TEST_SEED, players: PLAYERS, shotStrategy };
+
+    const engine = GameEngine.recover(config, oreRounds);
+    const replayed = GameEngine.recover(config, oreRounds);
+    const restored = GameEngine.deserialize(engine.serialize());
+
+    expect(engine.getShotStrategy()).toBe(shotStrategy);
+    expect(replayed.getRoundHistory()).toEqual(engine.getRoundHistory());
+    expect(restored.getShotStrategy()).toBe(shotStrategy);
+
+    const bundle = createGameBundle(engine, oreRounds.slice(0, engine.getCurrentRound()));
+    expect(bundle.shotStrategy).toBe(shotStrategy);
+    // Seeded without commit-reveal, so only the replay can pass
+    const report = verifyGameBundle(bundle);
+    expect(report.seed.map(c => c.label)).toEqual(['Seed provenance is verified']);
+    expect([...report.rounds, ...report.cards, report.winner].every(c => c.passed)).toBe(true);
+  });
+
+  it('detects a bundle replayed under a different strategy', () => {
+    const oreRounds = generateMockOreResults(MAX_ROUNDS, TEST_SEED);
+    const engine = GameEngine.recover(
+      { gameId: 'strategy-swap', seed: TEST_SEED, players: PLAYERS, shotStrategy: 'weighted-unhit' },
+      oreRounds
+    );
+    const bundle = createGameBundle(engine, oreRounds.slice(0, engine.getCurrentRound()));
+    bundle.shotStrategy = 'standard';
+
+    expect(verifyGameBundle(bundle).passed).toBe(false);
+  });
+
+  it('rejects unknown strategies in config', () => {
+    expect(() => new GameEngine({
+      gameId: 'bad',
+      seed: TEST_SEED,
+      players: PLAYERS,
+      shotStrategy: 'nope' as ShotStrategyName,
+    })).toThrow('Unknown shot strategy');
+  });
+});
@@ -0,0 +1,149 @@
+// Monte Carlo Simulator Tests
+//
+// Tests that simulations are reproducible from the master seed and that the
+// aggregated counts are internally consistent.
+
+import { describe, it, expect } from 'vitest';
+import {
+  PlacementStats,
+  deriveSimulationSeed,
+  formatSimulationReport,
+  runSimulation,
+  testPlacementFairness,
+} from '../src/simulator.js';
+import { getAllValidPlacements } from '../src/card-generator.js';
+import { runCli } from '../src/cli.js';
+import { DEFAULT_RULES } from '../src/types.js';
+
+const MASTER_SEED = new Uint8Array(32).fill(7);
+
+describe('runSimulation', () => {
+  const report = runSimulation({ games: 40, players: 4, seed: MASTER_SEED });
+
+  it('is reproducible from the master seed', () => {
+    const again = runSimulation({ games: 40, players: 4, seed: MASTER_SEED });
+    expect(again).toEqual(report);
+  });
+
+  it('changes with the master seed', () => {
+    const other = runSimulation({ games: 40, players: 4, seed: new Uint8Array(32).fill(8) });
+    expect(other.placements).not.toEqual(report.placements);
+  });
+
+  it('counts every game once', () => {
+    const lengths = Object.values(report.lengthDistribution);
+    expect(lengths.reduce((sum, n) => sum + n, 0)).toBe(40);
+    expect(report.winsBySeat.reduce((sum, n) => sum + n, 0)).toBe(40);
+    expect(report.minLength).toBeLessThanOrEqual(report.meanLength);
+    expect(report.maxLength).toBeGreaterThanOrEqual(report.meanLength);
+  });
+
+  it('reports rates between 0 and 1', () => {
+    for (const rate of [report.suddenDeathRate, report.maxRoundsRate, report.tiebreakRate]) {
+      expect(rate).toBeGreaterThanOrEqual(0);
+      expect(rate).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('lists every distinct placement and counts each ship of each card', () => {
+    const horizontalThree = getAllValidPlacements(3, new Set(), DEFAULT_RULES)
+      .filter(p => p.direction === 'horizontal');
+    expect(report.placements.filter(p => p.size === 3).length).toBe(horizontalThree.length * 2);
+    // Single-cell ships cover one distinct placement per cell
+    expect(report.placements.filter(p => p.size === 1).length).toBe(25);
+
+    for (const size of DEFAULT_RULES.fleet) {
+      const appearances = report.placements
+        .filter(p => p.size === size)
+        .reduce((sum, p) => sum + p.appearances, 0);
+      expect(appearances).toBe(40 * 4);
+    }
+  });
+
+  it('runs a chi-square test per ship size', () => {
+    expect(report.fairness.map(f => f.size)).toEqual([3, 2, 1]);
+    for (const test of report.fairness) {
+      expect(test.pValue).toBeGreaterThanOrEqual(0);
+      expect(test.pValue).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('rejects too few games or players', () => {
+    expect(() => runSimulation({ games: 0, players: 4, seed: MASTER_SEED })).toThrow('at least one game');
+    expect(() => runSimulation({ games: 1, players: 1, seed: MASTER_SEED })).toThrow('at least two players');
+  });
+
+  it('formats a plain text report', () => {
+    const text = formatSimulationReport(report);
+    expect(text).toContain('40 games, 4 players');
+    expect(text).toContain('decided by tiebreak');
+    expect(text).toContain('size 3:');
+  });
+});
+
+describe('deriveSimulationSeed', () => {
+  it('gives each game its own seed', () => {
+    const a = deriveSimulationSeed(MASTER_SEED, 0);
+    expect(a).toEqual(deriveSimulationSeed(MASTER_SEED, 0));
+    expect(a).not.toEqual(deriveSimulationSeed(MASTER_SEED, 1));
+  });
+});
+
+describe('testPlacementFairness', () => {
+  const placement = (key: string, appearances: number, wins: number): PlacementStats => ({
+    key,
+    size: 1,
+    cells: [],
+    appearances,
+    wins,
+    winRate: wins / appearances,
+  });
+
+  it('finds no bias when wins match expectation', () => {
+    const result = testPlacementFairness(1, [placement('a', 100, 25), placement('b', 100, 25)], 4);
+    expect(result.chiSquare).toBe(0);
+    expect(result.degreesOfFreedom).toBe(1);
+    expect(result.pValue).toBeGreaterThan(0.5);
+  });
+
+  it('flags a placement that wins far too often', () => {
+    const result = testPlacementFairness(1, [placement('a', 100, 90), placement('b', 100, 10)], 4);
+    expect(result.pValue).toBeLessThan(0.001);
+  });
+
+  it('skips placements that never appeared', () => {
+    const result = testPlacementFairness(1, [placement('a', 100, 25), placement('b', 0, 0)], 4);
+    expect(result.degreesOfFreedom).toBe(0);
+    expect(result.pValue).toBe(1);
+  });
+});
+
+describe('battle-dinghy simulate', () => {
+  const run = (args: string[]) => {
+    const out: string[] = [];
+    const err: string[] = [];
+    const code = runCli(['simulate', ...args], {
+      out: line => out.push(line),
+      err: line => err.push(line),
+    });
+    return { code, out: out.join('\n'), err: err.join('\n') };
+  };
+
+  it('prints a text report', () => {
+    const { code, out } = run(['--games', '5', '--players', '3']);
+    expect(code).toBe(0);
+    expect(out).toContain('5 games, 3 players');
+  });
+
+  it('accepts a custom ruleset and prints JSON', () => {
+    const { code, out } = run(['--games', '5', '--players', '3', '--grid', '6x6', '--fleet', '2,1', '--json']);
+    expect(code).toBe(0);
+    const report = JSON.parse(out);
+    expect(report.rules).toEqual({ gridWidth: 6, gridHeight: 6, fleet: [2, 1], eliminationThreshold: 3 });
+  });
+
+  it('exits 2 on bad input', () => {
+    expect(run(['--players', '1']).code).toBe(2);
+    expect(run(['--games']).code).toBe(2);
+  });
+});
@@ -0,0 +1,227 @@
+// Signed Game Transcript Tests
+//
+// Tests that transcripts round-trip, that signatures bind every field, and
+// that a published transcript can be verified offline.
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GameEngine, generateMockOreResults } from '../src/game-engine.js';
+import { seedFromHex } from '../src/card-generator.js';
+import { CommitRevealManager, PlayerCommitmentHelper } from '../src/commit-reveal.js';
+import { createMockOreBlockCommitmentManager } from '../src/ore-block-commitment.js';
+import {
+  TRANSCRIPT_VERSION,
+  canonicalJson,
+  createTranscript,
+  decodeTranscript,
+  encodeTranscript,
+  getOperatorPublicKey,
+  operatorKeyFromSecret,
+  signTranscript,
+  transcriptToBundle,
+  verifyTranscript,
+  verifyTranscriptSignature,
+} from '../src/transcript.js';
+import { verifyGameBundle } from '../src/verifier.js';
+import { runCli } from '../src/cli.js';
+import { MAX_ROUNDS } from '../src/types.js';
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const OPERATOR_SECRET = seedFromHex(
+  '0101010101010101010101010101010101010101010101010101010101010101'
+);
+
+const PLAYERS = [
+  'Player1111111111111111111111111111111111111',
+  'Player2222222222222222222222222222222222222',
+  'Player3333333333333333333333333333333333333',
+];
+
+const OPERATOR_PUBLIC_KEY = getOperatorPublicKey(operatorKeyFromSecret(OPERATOR_SECRET));
+
+const OPERATOR_WALLET = 'Operator111111111111111111111111111111111111';
+
+async function playFullGame() {
+  const gameId = 'transcript-test';
+
+  // Commit-reveal
+  const commitReveal = new CommitRevealManager(gameId);
+  const helpers = PLAYERS.map(p => new PlayerCommitmentHelper(p));
+  PLAYERS.forEach((p, i) => commitReveal.submitCommitment(p, helpers[i].getCommitmentHash()));
+  commitReveal.startRevealPhase();
+  PLAYERS.forEach((p, i) => commitReveal.revealSecret(p, helpers[i].getSecret()));
+
+  // ORE block commitment
+  const ore = createMockOreBlockCommitmentManager({ commitmentBufferMs: 0 });
+  const { commitment } = await ore.manager.createCommitment(gameId, OPERATOR_WALLET);
+  const blockHash = 'ab'.repeat(32);
+  ore.addBlock(commitment!.targetBlockHeight, blockHash, Date.now() + 60_000);
+  ore.setBlockHeight(commitment!.targetBlockHeight + 2);
+  await ore.manager.verifyCommitment(gameId);
+
+  const { seed } = commitReveal.finalize(blockHash);
+
+  const oreRounds = generateMockOreResults(MAX_ROUNDS, seed);
+  const engine = GameEngine.recover({ gameId, seed: seed!, players: PLAYERS }, oreRounds);
+
+  return createTranscript({
+    engine,
+    oreRounds: oreRounds.slice(0, engine.getCurrentRound()),
+    commitReveal,
+    oreBlockCommitment: ore.manager,
+  });
+}
+
+// =============================================================================
+// Operator Keys
+// =============================================================================
+
+describe('Operator keys', () => {
+  it('accepts 32-byte seeds and 64-byte Solana secret keys', () => {
+    const fromSeed = operatorKeyFromSecret(OPERATOR_SECRET);
+    const solanaSecret = new Uint8Array(64);
+    solanaSecret.set(OPERATOR_SECRET);
+
+    expect(getOperatorPublicKey(fromSeed)).toHaveLength(64);
+    expect(getOperatorPublicKey(operatorKeyFromSecret(solanaSecret))).toBe(
+      getOperatorPublicKey(fromSeed)
+    );
+  });
+
+  it('rejects other key lengths', () => {
+    expect(() => operatorKeyFromSecret(new Uint8Array(16))).toThrow('32 or 64 bytes');
+  });
+});
+
+// =============================================================================
+// Canonical Encoding
+// =============================================================================
+
+describe('canonicalJson', () => {
+  it('sorts keys and omits undefined properties', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, 2], c: undefined } })).toBe('{"a":{"d":[1,2]},"b":1}');
+  });
+
+  it('is independent of key insertion order', () => {
+    expect(canonicalJson({ x: 1, y: 2 })).toBe(canonicalJson({ y: 2, x: 1 }));
+  });
+});
+
+// =============================================================================
+// Transcripts
+// =============================================================================
+
+describe('Game transcripts', () => {
+  it('bundles all game components', async () => {
+    const transcript = await playFullGame();
+
+    expect(transcript.version).toBe(TRANSCRIPT_VERSION);
+    expect(transcript.game.config.players).toEqual(PLAYERS);
+    expect(transcript.commitReveal!.commitments).toHaveLength(PLAYERS.length);
+    expect(transcript.commitReveal!.finalSeed).toBe(transcript.game.config.seed);
+    expect(transcript.oreBlockCommitment!.verification!.verified).toBe(true);
+    expect(transcript.rounds).toHaveLength(transcript.oreRounds.length);
+  });
+
+  it('round-trips through encode and decode', async () => {
+    const signed = signTranscript(await playFullGame(), operatorKeyFromSecret(OPERATOR_SECRET));
+    const decoded = decodeTranscript(encodeTranscript(signed));
+
+    expect(decoded).toEqual(JSON.parse(JSON.stringify(signed)));
+    expect(verifyTranscriptSignature(decoded, OPERATOR_PUBLIC_KEY)).toBe(true);
+  });
+
+  it('signature covers every field', async () => {
+    const signed = signTranscript(await playFullGame(), operatorKeyFromSecret(OPERATOR_SECRET));
+    const tampered = decodeTranscript(encodeTranscript(signed));
+    tampered.transcript.game.winner = PLAYERS.find(p => p !== tampered.transcript.game.winner)!;
+
+    expect(verifyTranscriptSignature(tampered, OPERATOR_PUBLIC_KEY)).toBe(false);
+  });
+
+  it('rejects signatures from an unexpected operator', async () => {
+    const signed = signTranscript(await playFullGame(), operatorKeyFromSecret(OPERATOR_SECRET));
+    const otherKey = getOperatorPublicKey(operatorKeyFromSecret(randomBytes(32)));
+
+    expect(verifyTranscriptSignature(signed, OPERATOR_PUBLIC_KEY)).toBe(true);
+    expect(verifyTranscriptSignature(signed, otherKey)).toBe(false);
+  });
+
+  it('rejects a forgery self-signed with another key', async () => {
+    const forger = operatorKeyFromSecret(randomBytes(32));
+    const forged = signTranscript(await playFullGame(), forger);
+
+    expect(verifyTranscriptSignature(forged, getOperatorPublicKey(forger))).toBe(true);
+    expect(verifyTranscriptSignature(forged, OPERATOR_PUBLIC_KEY)).toBe(false);
+    expect(verifyTranscript(forged, OPERATOR_PUBLIC_KEY).passed).toBe(false);
+  });
+
+  it('works with generated ed25519 keys', async () => {
+    const { privateKey } = generateKeyPairSync('ed25519');
+    const signed = signTranscript(await playFullGame(), privateKey);
+
+    expect(verifyTranscriptSignature(signed, getOperatorPublicKey(privateKey))).toBe(true);
+  });
+
+  it('replays offline from the transcript alone', async () => {
+    const signed = signTranscript(await playFullGame(), operatorKeyFromSecret(OPERATOR_SECRET));
+    const published = encodeTranscript(signed);
+
+    const report = verifyTranscript(decodeTranscript(published), OPERATOR_PUBLIC_KEY);
+
+    expect(report.passed).toBe(true);
+    expect(report.seed[0].label).toBe('Operator signature is valid');
+    expect(report.seed.every(c => c.passed)).toBe(true);
+  });
+
+  it('converts to a bundle the verifier accepts', async () => {
+    const bundle = transcriptToBundle(await playFullGame());
+    expect(verifyGameBundle(bundle).passed).toBe(true);
+  });
+
+  it('rejects malformed transcripts', async () => {
+    const signed = signTranscript(await playFullGame(), operatorKeyFromSecret(OPERATOR_SECRET));
+
+    expect(() => decodeTranscript('{')).toThrow('not valid JSON');
+    expect(() => decodeTranscript(JSON.stringify({ signature: signed.signature }))).toThrow('body is missing');
+    expect(() =>
+      decodeTranscript(JSON.stringify({ ...signed, transcript: { ...signed.transcript, version: 2 } }))
+    ).toThrow('Unsupported transcript version');
+    expect(() => decodeTranscript(JSON.stringify({ transcript: signed.transcript }))).toThrow('signature is missing');
+  });
+});
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+describe('battle-dinghy verify (transcripts)', () => {
+  it('verifies a signed transcript and checks the operator key', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'battle-dinghy-'));
+    const out: string[] = [];
+    const io = { out: (line: string) => out.push(line), err: () => {} };
+
+    try {
+      const key = operatorKeyFromSecret(OPERATOR_SECRET);
+      const file = join(dir, 'transcript.json');
+      writeFileSync(file, encodeTranscript(signTranscript(await playFullGame(), key)));
+
+      expect(runCli(['verify', file, '--operator', getOperatorPublicKey(key)], io)).toBe(0);
+      expect(out.join('\n')).toContain('[PASS] Operator signature is valid');
+
+      const otherKey = getOperatorPublicKey(operatorKeyFromSecret(randomBytes(32)));
+      expect(runCli(['verify', file, '--operator', otherKey], io)).toBe(1);
+
+      // Without the operator key a transcript cannot be authenticated
+      expect(runCli(['verify', file], io)).toBe(2);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,326 @@
+// Game Replay Verifier Tests
+//
+// Tests that exported bundles verify, and that tampering with any part of a
+// bundle is detected.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GameEngine, generateMockOreResults } from '../src/game-engine.js';
+import { seedFromHex } from '../src/card-generator.js';
+import { CommitRevealManager, PlayerCommitmentHelper } from '../src/commit-reveal.js';
+import {
+  GameBundle,
+  createGameBundle,
+  parseGameBundle,
+  verifyGameBundle,
+  formatVerificationReport,
+} from '../src/verifier.js';
+import { runCli } from '../src/cli.js';
+import { MAX_ROUNDS, CellIndex } from '../src/types.js';
+import { OreBlockCommitment, createCommitmentHash } from '../src/ore-block-commitment.js';
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const TEST_SEED = seedFromHex(
+  'a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4a5b6c7d8e9f0a1b2'
+);
+
+const ORE_BLOCK_HASH = 'ab'.repeat(32);
+
+const PLAYERS = [
+  'Player1111111111111111111111111111111111111',
+  'Player2222222222222222222222222222222222222',
+  'Player3333333333333333333333333333333333333',
+  'Player4444444444444444444444444444444444444',
+];
+
+/** A game seeded by commit-reveal in which every player revealed */
+function playGame(oreBlockHash: string = ORE_BLOCK_HASH): GameBundle {
+  return playCommitRevealGame(PLAYERS.length, oreBlockHash);
+}
+
+/** A commit-reveal game in which the last player never reveals by default */
+function playCommitRevealGame(
+  revealing: number = PLAYERS.length - 1,
+  oreBlockHash: string = ORE_BLOCK_HASH
+): GameBundle {
+  const manager = new CommitRevealManager('verify-test');
+  const helpers = PLAYERS.map(p => new PlayerCommitmentHelper(p));
+
+  for (let i = 0; i < PLAYERS.length; i++) {
+    manager.submitCommitment(PLAYERS[i], helpers[i].getCommitmentHash());
+  }
+  manager.startRevealPhase();
+  for (let i = 0; i < revealing; i++) {
+    manager.revealSecret(PLAYERS[i], helpers[i].getSecret());
+  }
+  // Missing reveals are only settled after the reveal deadline
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(manager.getState().revealDeadline + 1);
+  const { seed } = manager.finalize(oreBlockHash);
+  vi.useRealTimers();
+
+  const oreRounds = generateMockOreResults(MAX_ROUNDS, TEST_SEED);
+  const engine = GameEngine.recover({ gameId: 'verify-test', seed: seed!, players: PLAYERS }, oreRounds);
+  return createGameBundle(engine, oreRounds.slice(0, engine.getCurrentRound()), {
+    commitReveal: manager,
+  });
+}
+
+/** A commit-reveal game anchored to a committed ORE block */
+function playAnchoredGame(): GameBundle {
+  const bundle = playCommitRevealGame();
+  const committedAt = 1_700_000_000_000;
+  const commitment: OreBlockCommitment = {
+    gameId: 'verify-test',
+    targetBlockHeight: 120,
+    committedAt,
+    commitmentHash: createCommitmentHash('verify-test', 120, committedAt, 'operator'),
+    operatorWallet: 'operator',
+  };
+  bundle.oreBlockCommitment = {
+    commitment,
+    verification: {
+      commitment,
+      actualBlockHash: ORE_BLOCK_HASH,
+      blockMinedAt: committedAt + 60_000,
+      verified: true,
+    },
+  };
+  return bundle;
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+describe('verifyGameBundle', () => {
+  it('passes an untampered bundle', () => {
+    const report = verifyGameBundle(playGame());
+
+    expect(report.passed).toBe(true);
+    expect(report.rounds.length).toBeGreaterThan(0);
+    expect(report.rounds.every(r => r.passed)).toBe(true);
+    expect(report.cards).toHaveLength(PLAYERS.length);
+    expect(report.winner.passed).toBe(true);
+  });
+
+  it('passes after a JSON round trip', () => {
+    const bundle = parseGameBundle(JSON.stringify(playGame()));
+    expect(verifyGameBundle(bundle).passed).toBe(true);
+  });
+
+  it('detects a tampered shot', () => {
+    const bundle = playGame();
+    const round = bundle.rounds[0];
+    round.primaryShot = ((round.primaryShot + 1) % 25) as CellIndex;
+
+    const report = verifyGameBundle(bundle);
+
+    expect(report.passed).toBe(false);
+    expect(report.rounds[0].passed).toBe(false);
+    expect(report.rounds[0].detail).toContain('Declared shots');
+  });
+
+  it('detects a tampered ORE result', () => {
+    const bundle = playGame();
+    bundle.oreRounds[0] = { ...bundle.oreRounds[0], proof: 'forged' };
+
+    const report = verifyGameBundle(bundle);
+    expect(report.rounds[0].passed).toBe(false);
+  });
+
+  it('detects a forged winner', () => {
+    const bundle = playGame();
+    bundle.winner = PLAYERS.find(p => p !== bundle.winner)!;
+
+    const report = verifyGameBundle(bundle);
+
+    expect(report.passed).toBe(false);
+    expect(report.winner.passed).toBe(false);
+    expect(report.winner.computed).not.toBe(bundle.winner);
+  });
+
+  it('detects a card that does not match the seed', () => {
+    const bundle = playGame();
+    const other = playGame('ff'.repeat(32));
+    bundle.cards![1] = other.cards![1];
+
+    const report = verifyGameBundle(bundle);
+
+    expect(report.cards[1].passed).toBe(false);
+    expect(report.cards[0].passed).toBe(true);
+  });
+
+  it('detects reordered players', () => {
+    const bundle = playGame();
+    bundle.players = [bundle.players[1], bundle.players[0], ...bundle.players.slice(2)];
+
+    expect(verifyGameBundle(bundle).passed).toBe(false);
+  });
+
+  it('detects rounds missing from the ORE history', () => {
+    const bundle = playGame();
+    bundle.oreRounds = bundle.oreRounds.slice(0, 3);
+
+    const report = verifyGameBundle(bundle);
+
+    expect(report.passed).toBe(false);
+    expect(report.rounds.some(r => r.detail === 'Declared round was not produced by the replay')).toBe(true);
+  });
+
+  it('verifies seed provenance from commit-reveal state', () => {
+    const report = verifyGameBundle(playCommitRevealGame());
+
+    expect(report.seed.map(c => c.label)).toContain('Seed matches commit-reveal output');
+    expect(report.passed).toBe(true);
+  });
+
+  it('detects a seed that did not come from commit-reveal', () => {
+    const bundle = playCommitRevealGame();
+    bundle.commitReveal!.oreBlockHash = 'cd'.repeat(32);
+
+    const report = verifyGameBundle(bundle);
+
+    expect(report.passed).toBe(false);
+    expect(report.seed.find(c => c.label === 'Seed matches commit-reveal output')!.passed).toBe(false);
+  });
+
+  it('fails a bundle whose seed provenance is unverified', () => {
+    const oreRounds = generateMockOreResults(MAX_ROUNDS, TEST_SEED);
+    const engine = GameEngine.recover({ gameId: 'verify-test', seed: TEST_SEED, players: PLAYERS }, oreRounds);
+    const bundle = createGameBundle(engine, oreRounds.slice(0, engine.getCurrentRound()));
+
+    const report = verifyGameBundle(bundle);
+
+    expect(report.passed).toBe(false);
+    expect(report.seed).toEqual([
+      {
+        label: 'Seed provenance is verified',
+        passed: false,
+        detail: 'Unverified: the bundle has no commit-reveal record',
+      },
+    ]);
+    expect(report.rounds.every(r => r.passed)).toBe(true);
+  });
+
+  it('detects commitments that do not match the players', () => {
+    const bundle = playGame();
+    bundle.players = [...PLAYERS.slice(0, 3), 'Stranger'];
+
+    const check = verifyGameBundle(bundle).seed.find(c => c.label === 'Commitments match the players')!;
+
+    expect(check.passed).toBe(false);
+    expect(check.detail).toBe(`no commitment from Stranger; commitment from non-player ${PLAYERS[3]}`);
+  });
+
+  it('verifies the committed ORE block', () => {
+    const report = verifyGameBundle(playAnchoredGame());
+
+    expect(report.seed.find(c => c.label === 'ORE block was committed before it was mined')!.passed).toBe(true);
+    expect(report.passed).toBe(true);
+  });
+
+  it('recomputes the ORE block check instead of trusting the verified flag', () => {
+    const blockCheck = (bundle: GameBundle) =>
+      verifyGameBundle(bundle).seed.find(c => c.label === 'ORE block was committed before it was mined')!;
+
+    const minedEarly = playAnchoredGame();
+    minedEarly.oreBlockCommitment!.verification!.blockMinedAt = 1_600_000_000_000;
+    expect(blockCheck(minedEarly).passed).toBe(false);
+
+    const conflicting = playAnchoredGame();
+    conflicting.oreBlockCommitment!.verification!.observations = [
+      { source: 'rpc', blockHash: ORE_BLOCK_HASH, observedAt: 0 },
+      { source: 'helius', blockHash: 'cd'.repeat(32), observedAt: 0 },
+    ];
+    expect(blockCheck(conflicting).detail).toContain('Conflicting block hashes observed');
+
+    const otherCommitment = playAnchoredGame();
+    const verification = otherCommitment.oreBlockCommitment!.verification!;
+    verification.commitment = { ...verification.commitment, targetBlockHeight: 90 };
+    expect(blockCheck(otherCommitment).detail).toBe('Verification is for a different commitment');
+
+    const noHash = playAnchoredGame();
+    noHash.oreBlockCommitment!.verification!.actualBlockHash = '';
+    expect(blockCheck(noHash).passed).toBe(false);
+    expect(verifyGameBundle(noHash).passed).toBe(false);
+  });
+
+  it('formats a readable report', () => {
+    const text = formatVerificationReport(verifyGameBundle(playGame()));
+
+    expect(text).toContain('Battle Dinghy verification - game verify-test');
+    expect(text).toContain('[PASS] Round 1');
+    expect(text).toContain('Result: PASS');
+  });
+});
+
+describe('parseGameBundle', () => {
+  it('rejects malformed bundles', () => {
+    expect(() => parseGameBundle('not json')).toThrow('not valid JSON');
+    expect(() => parseGameBundle(JSON.stringify({ ...playGame(), version: 99 }))).toThrow('Unsupported bundle version');
+    expect(() => parseGameBundle(JSON.stringify({ ...playGame(), seed: 'abc' }))).toThrow('64 hex characters');
+  });
+});
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+describe('battle-dinghy verify', () => {
+  let dir: string;
+  let out: string[];
+  let err: string[];
+  const io = {
+    out: (line: string) => out.push(line),
+    err: (line: string) => err.push(line),
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'battle-dinghy-'));
+    out = [];
+    err = [];
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('exits 0 for a valid bundle', () => {
+    const file = join(dir, 'bundle.json');
+    writeFileSync(file, JSON.stringify(playGame()));
+
+    expect(runCli(['verify', file], io)).toBe(0);
+    expect(out.join('\n')).toContain('Result: PASS');
+  });
+
+  it('exits 1 for a tampered bundle', () => {
+    const bundle = playGame();
+    bundle.winner = null;
+    const file = join(dir, 'bundle.json');
+    writeFileSync(file, JSON.stringify(bundle));
+
+    expect(runCli(['verify', file], io)).toBe(1);
+    expect(out.join('\n')).toContain('Result: FAIL');
+  });
+
+  it('prints JSON with --json', () => {
+    const file = join(dir, 'bundle.json');
+    writeFileSync(file, JSON.stringify(playGame()));
+
+    expect(runCli(['verify', file, '--json'], io)).toBe(0);
+    expect(JSON.parse(out[0]).passed).toBe(true);
+  });
+
+  it('exits 2 for usage and input errors', () => {
+    expect(runCli([], io)).toBe(2);
+    expect(runCli(['unknown'], io)).toBe(2);
+    expect(runCli(['verify', join(dir, 'missing.json')], io)).toBe(2);
+    expect(err.join('\n')).toContain('Cannot read');
+  });
+});
@@ -6,6 +6,7 @@ import { Router, Request, Response } from 'express';
 import type { GameManager } from './game-manager.js';
 import type { TwitterBot, GameAnnouncement } from './twitter-bot.js';
 import type { GameOrchestrator } from './orchestrator.js';
+import { OreMonitorFailover } from './ore-failover.js';
 
 // =============================================================================
 // Types
@@ -270,7 +271,7 @@ ${joinUrl}`;
    * GET /admin/games - List all games (including completed)
    */
   router.get('/games', (_req: Request, res: Response) => {
-    const games = gameManager.getActiveGames();
+    const games = gameManager.getAllGames();
     res.json({ games });
   });
 
@@ -298,6 +299,27 @@ ${joinUrl}`;
     });
   });
 
+  /**
+   * GET /admin/payouts/audit - Automated payout attempts, oldest first
+   * Query: gameId (optional) - only attempts for this game
+   */
+  router.get('/payouts/audit', async (req: Request, res: Response) => {
+    const executor = orchestrator?.getPayoutExecutor();
+    if (!executor) {
+      res.status(503).json({ success: false, error: 'Automated payouts not configured' });
+      return;
+    }
+
+    const gameId = typeof req.query.gameId === 'string' ? req.query.gameId : undefined;
+    try {
+      const attempts = await executor.getAuditLog(gameId);
+      res.json({ success: true, method: executor.method, attempts, count: attempts.length });
+    } catch (error) {
+      console.error('Failed to read payout audit log:', error);
+      res.status(500).json({ success: false, error: 'Failed to read payout audit log' });
+    }
+  });
+
   /**
    * GET /admin/payouts/:gameId - Get payout details for a specific game
    */
@@ -351,5 +373,164 @@ ${joinUrl}`;
     });
   });
 
+  /**
+   * POST /admin/payouts/:gameId/execute - Send a game's payouts with the
+   * payout executor, e.g. after automatic attempts failed
+   */
+  router.post('/payouts/:gameId/execute', async (req: Request, res: Response) => {
+    if (!orchestrator?.getPayoutExecutor()) {
+      res.status(503).json({ success: false, error: 'Automated payouts not configured' });
+      return;
+    }
+
+    const { gameId } = req.params;
+    const result = await orchestrator.executePayout(gameId);
+    if (!result.success) {
+      res.status(400).json(result);
+      return;
+    }
+
+    res.json({ success: true, gameId, txSignature: result.signature });
+  });
+
+  /**
+   * GET /admin/refunds/pending - List buy-ins owed back, by game
+   */
+  router.get('/refunds/pending', (_req: Request, res: Response) => {
+    if (!orchestrator) {
+      res.status(503).json({
+        success: false,
+        error: 'Orchestrator not configured - escrow wallet required',
+      });
+      return;
+    }
+
+    const pendingRefunds = orchestrator.getPendingRefunds();
+    res.json({
+      success: true,
+      refunds: pendingRefunds,
+      count: pendingRefunds.length,
+    });
+  });
+
+  /**
+   * GET /admin/refunds/audit - List refund attempts (optional ?gameId=)
+   */
+  router.get('/refunds/audit', async (req: Request, res: Response) => {
+    const executor = orchestrator?.getRefundExecutor();
+    if (!executor) {
+      res.status(503).json({ success: false, error: 'Automated refunds not configured' });
+      return;
+    }
+
+    const gameId = typeof req.query.gameId === 'string' ? req.query.gameId : undefined;
+    try {
+      const attempts = await executor.getAuditLog(gameId);
+      res.json({ success: true, method: executor.method, attempts, count: attempts.length });
+    } catch (error) {
+      console.error('Failed to read refund audit log:', error);
+      res.status(500).json({ success: false, error: 'Failed to read refund audit log' });
+    }
+  });
+
+  /**
+   * GET /admin/refunds/:gameId - Every refund of a game with its status
+   */
+  router.get('/refunds/:gameId', (req: Request, res: Response) => {
+    if (!orchestrator) {
+      res.status(503).json({
+        success: false,
+        error: 'Orchestrator not configured - escrow wallet required',
+      });
+      return;
+    }
+
+    const { gameId } = req.params;
+    const refunds = orchestrator.getRefunds(gameId);
+    res.json({ success: true, gameId, refunds, count: refunds.length });
+  });
+
+  /**
+   * POST /admin/refunds/:gameId/execute - Send a game's owed refunds with the
+   * refund executor, e.g. after automatic attempts failed
+   */
+  router.post('/refunds/:gameId/execute', async (req: Request, res: Response) => {
+    if (!orchestrator?.getRefundExecutor()) {
+      res.status(503).json({ success: false, error: 'Automated refunds not configured' });
+      return;
+    }
+
+    const result = await orchestrator.processRefunds(req.params.gameId);
+    res.status(result.success ? 200 : 400).json(result);
+  });
+
+  /**
+   * POST /admin/refunds/:gameId/mark-refunded - Mark a refund as sent after manual transfer
+   * Body: { wallet: string, txSignature?: string }
+   */
+  router.post('/refunds/:gameId/mark-refunded', async (req: Request, res: Response) => {
+    if (!orchestrator) {
+      res.status(503).json({
+        success: false,
+        error: 'Orchestrator not configured - escrow wallet required',
+      });
+      return;
+    }
+
+    const { gameId } = req.params;
+    const { wallet, txSignature } = req.body as { wallet?: string; txSignature?: string };
+    if (!wallet) {
+      res.status(400).json({ success: false, error: 'wallet is required' });
+      return;
+    }
+
+    const result = await orchestrator.markRefunded(gameId, wallet, txSignature);
+    if (!result.success) {
+      res.status(400).json(result);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: `Refund of ${wallet} for game ${gameId} marked as sent`,
+      txSignature: txSignature || null,
+    });
+  });
+
+  /**
+   * POST /admin/games/:gameId/resume - Resume a paused game
+   */
+  router.post('/games/:gameId/resume', (req: Request, res: Response) => {
+    const result = gameManager.resumeGame(req.params.gameId);
+    if (!result.success) {
+      res.status(400).json(result);
+      return;
+    }
+    res.json({ success: true, gameId: req.params.gameId });
+  });
+
+  // ===========================================================================
+  // ORE Sources
+  // ===========================================================================
+
+  /**
+   * GET /admin/ore/health - Health of each running game's ORE sources
+   */
+  router.get('/ore/health', (_req: Request, res: Response) => {
+    const games = gameManager.getActiveGames().flatMap(game => {
+      const monitor = gameManager.getOreMonitor(game.gameId);
+      if (!(monitor instanceof OreMonitorFailover)) {
+        return [];
+      }
+      return [{
+        gameId: game.gameId,
+        activeSource: monitor.getActiveSource(),
+        sources: monitor.getHealth(),
+      }];
+    });
+
+    res.json({ success: true, games });
+  });
+
   return router;
 }
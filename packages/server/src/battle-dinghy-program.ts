@@ -0,0 +1,506 @@
+// Battle Dinghy - Program Client
+//
+// Typed client for the battle-dinghy Anchor program (packages/contracts):
+// instruction builders, the GameEscrow PDA, the account decoder and
+// BattleDinghyError mapping. Encodings follow Anchor: instructions start
+// with sha256("global:<name>")[0..8] and accounts with
+// sha256("account:<Name>")[0..8], followed by Borsh-encoded fields.
+//
+// Builders only build instructions; callers add them to a transaction and
+// sign it (the operator for game management, the player for join_game and
+// claim_refund).
+//
+// The program payout senders (payout-executor.ts) and the claim_refund
+// escrow check (refund-executor.ts) use this client. The orchestrator and
+// the Blinks routes still take buy-ins as transfers to the escrow wallet,
+// so games are not yet created or joined through the program.
+
+import { createHash } from 'crypto';
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import type { AccountInfo, Commitment } from '@solana/web3.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Battle Dinghy program id (packages/contracts) */
+export const BATTLE_DINGHY_PROGRAM_ID = 'BDghy1111111111111111111111111111111111111';
+
+/** Longest game id the program accepts (bytes) */
+export const MAX_GAME_ID_LEN = 32;
+
+/** Most players, and payout recipients, per game */
+export const MAX_ESCROW_PLAYERS = 10;
+
+/** Seconds a game must run before winners can be declared */
+export const MINIMUM_GAME_TIME_SECONDS = 60;
+
+const BPS_DENOMINATOR = 10_000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** GameStatus, in on-chain order */
+export const GAME_ESCROW_STATUSES = ['open', 'filled', 'active', 'complete', 'cancelled', 'paused'] as const;
+
+export type GameEscrowStatus = (typeof GAME_ESCROW_STATUSES)[number];
+
+/**
+ * A decoded GameEscrow account. Timestamps are unix seconds.
+ */
+export interface GameEscrow {
+  gameId: string;
+  operator: PublicKey;
+  status: GameEscrowStatus;
+  buyInLamports: bigint;
+  maxPlayers: number;
+  currentPlayers: number;
+  players: PublicKey[];
+  seed: Uint8Array;
+  winner: PublicKey | null;
+  proofHash: Uint8Array | null;
+  createdAt: number;
+  fillDeadline: number;
+  startedAt: number | null;
+  bump: number;
+  /** Whether each player, by index, claimed a refund */
+  refunded: boolean[];
+}
+
+export interface CreateGameParams {
+  gameId: string;
+  operator: PublicKey;
+  buyInLamports: number | bigint;
+  maxPlayers: number;
+  fillDeadlineHours: number;
+  /** 32-byte game seed */
+  seed: Uint8Array;
+}
+
+export interface DeclareWinnersParams {
+  gameId: string;
+  operator: PublicKey;
+  /** Placed players, first place first; the first receives rounding dust */
+  recipients: PublicKey[];
+  /** Share of the pot per recipient, summing to 10000 */
+  sharesBps: number[];
+  /** 32-byte hash committing to the game's outcome */
+  proofHash: Uint8Array;
+}
+
+/**
+ * A BattleDinghyError raised by the program.
+ */
+export interface BattleDinghyProgramError {
+  code: number;
+  name: BattleDinghyErrorName;
+  message: string;
+}
+
+/**
+ * The part of Connection the client reads accounts with
+ */
+export interface EscrowAccountSource {
+  getAccountInfo(address: PublicKey, commitment?: Commitment): Promise<AccountInfo<Buffer> | null>;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Anchor numbers #[error_code] variants from 6000 */
+const ERROR_CODE_OFFSET = 6000;
+
+/** BattleDinghyError variants and messages, in declaration order */
+export const BATTLE_DINGHY_ERRORS = [
+  ['GameFull', 'Game is full'],
+  ['GameNotOpen', 'Game is not open for joining'],
+  ['IncorrectBuyIn', 'Incorrect buy-in amount'],
+  ['AlreadyJoined', 'Player has already joined this game'],
+  ['NotEnoughPlayers', 'Not enough players to start'],
+  ['GameAlreadyStarted', 'Game has already started'],
+  ['GameNotActive', 'Game is not active'],
+  ['UnauthorizedOperator', 'Unauthorized: not the operator'],
+  ['DeadlineNotReached', 'Fill deadline has not been reached'],
+  ['DeadlinePassed', 'Fill deadline has passed'],
+  ['TooEarlyForWinner', 'Too early to declare winner'],
+  ['WinnerNotPlayer', 'Winner is not a player in this game'],
+  ['PlayerNotInGame', 'Player is not in this game'],
+  ['RefundNotAvailable', 'Refund not available'],
+  ['GamePaused', 'Game is paused'],
+  ['OperatorCannotPlay', 'Operator cannot play in their own game'],
+  ['GameIdTooLong', 'Game ID too long'],
+  ['InvalidMaxPlayers', 'Invalid max players'],
+  ['InvalidBuyIn', 'Invalid buy-in amount'],
+  ['InvalidFillDeadline', 'Invalid fill deadline'],
+  ['AlreadyRefunded', 'Already refunded'],
+  ['GameNotCancelled', 'Game not cancelled'],
+  ['CannotCancel', 'Cannot cancel game in current state'],
+  ['GameNotPaused', 'Game not paused'],
+  ['GameNotFilled', 'Game not filled'],
+  ['InvalidPayoutShares', 'Payout shares must be non-zero and sum to 10000 bps, one per recipient'],
+  ['DuplicateRecipient', 'Recipient listed more than once'],
+  ['RecipientAccountMismatch', 'Recipient accounts do not match the declared recipients'],
+] as const;
+
+export type BattleDinghyErrorName = (typeof BATTLE_DINGHY_ERRORS)[number][0];
+
+/**
+ * The BattleDinghyError for a custom program error code, or null.
+ */
+export function battleDinghyErrorFromCode(code: number): BattleDinghyProgramError | null {
+  const entry = BATTLE_DINGHY_ERRORS[code - ERROR_CODE_OFFSET];
+  return entry ? { code, name: entry[0], message: entry[1] } : null;
+}
+
+/**
+ * Find the BattleDinghyError behind a failed transaction: a transaction
+ * error (`{ InstructionError: [index, { Custom: code }] }`), or an error
+ * whose message or logs mention `custom program error: 0x...`. Null if the
+ * failure did not come from the program.
+ */
+export function parseBattleDinghyError(error: unknown): BattleDinghyProgramError | null {
+  const instructionError = (error as { InstructionError?: [number, unknown] } | null)?.InstructionError;
+  const custom = (instructionError?.[1] as { Custom?: unknown } | undefined)?.Custom;
+  if (typeof custom === 'number') {
+    return battleDinghyErrorFromCode(custom);
+  }
+
+  const logs = (error as { logs?: unknown } | null)?.logs;
+  const texts = [
+    error instanceof Error ? error.message : typeof error === 'string' ? error : '',
+    ...(Array.isArray(logs) ? logs : []),
+  ];
+  for (const text of texts) {
+    const match = /custom program error: 0x([0-9a-f]+)/i.exec(String(text));
+    if (match) {
+      return battleDinghyErrorFromCode(parseInt(match[1], 16));
+    }
+  }
+  return null;
+}
+
+// =============================================================================
+// Client
+// =============================================================================
+
+export class BattleDinghyProgram {
+  readonly programId: PublicKey;
+
+  constructor(programId: PublicKey = new PublicKey(BATTLE_DINGHY_PROGRAM_ID)) {
+    this.programId = programId;
+  }
+
+  /**
+   * The GameEscrow PDA of a game and its bump: seeds "escrow" and the game id.
+   */
+  findEscrowAddress(gameId: string): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync([Buffer.from('escrow'), Buffer.from(gameId)], this.programId);
+  }
+
+  escrowAddress(gameId: string): PublicKey {
+    return this.findEscrowAddress(gameId)[0];
+  }
+
+  /**
+   * Fetch and decode a game's escrow, or null if it does not exist.
+   */
+  async fetchEscrow(connection: EscrowAccountSource, gameId: string): Promise<GameEscrow | null> {
+    const account = await connection.getAccountInfo(this.escrowAddress(gameId), 'confirmed');
+    if (!account) {
+      return null;
+    }
+    if (!account.owner.equals(this.programId)) {
+      throw new Error(`Escrow for ${gameId} is not owned by the program`);
+    }
+    return decodeGameEscrow(account.data);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Instructions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * create_game: open an escrow for a game, signed and paid for by the operator.
+   * @throws Error if an argument would be rejected by the program
+   */
+  createGame(params: CreateGameParams): TransactionInstruction {
+    const { gameId, operator, buyInLamports, maxPlayers, fillDeadlineHours, seed } = params;
+    if (Buffer.byteLength(gameId) > MAX_GAME_ID_LEN) {
+      throw new Error(`Game id longer than ${MAX_GAME_ID_LEN} bytes`);
+    }
+    if (!Number.isInteger(maxPlayers) || maxPlayers < 1 || maxPlayers > MAX_ESCROW_PLAYERS) {
+      throw new Error(`Max players must be between 1 and ${MAX_ESCROW_PLAYERS}`);
+    }
+    if (BigInt(buyInLamports) <= 0n) {
+      throw new Error('Buy-in must be positive');
+    }
+    if (!Number.isInteger(fillDeadlineHours) || fillDeadlineHours < 1) {
+      throw new Error('Fill deadline must be a positive number of hours');
+    }
+
+    return this.instruction(
+      'create_game',
+      [this.escrowMeta(gameId), signer(operator), systemProgramMeta()],
+      [encodeString(gameId), encodeU64(buyInLamports), encodeU8(maxPlayers), encodeU64(fillDeadlineHours), bytes32(seed, 'Seed')]
+    );
+  }
+
+  /**
+   * join_game: pay the buy-in into the escrow, signed by the player.
+   */
+  joinGame(params: { gameId: string; player: PublicKey }): TransactionInstruction {
+    return this.instruction('join_game', [this.escrowMeta(params.gameId), signer(params.player), systemProgramMeta()]);
+  }
+
+  /**
+   * start_game: start a filled game.
+   */
+  startGame(params: { gameId: string; operator: PublicKey }): TransactionInstruction {
+    return this.operatorInstruction('start_game', params);
+  }
+
+  /**
+   * declare_winner: pay the whole pot to one player.
+   */
+  declareWinner(params: {
+    gameId: string;
+    operator: PublicKey;
+    winner: PublicKey;
+    proofHash: Uint8Array;
+  }): TransactionInstruction {
+    return this.instruction(
+      'declare_winner',
+      [this.escrowMeta(params.gameId), signer(params.operator), writable(params.winner)],
+      [params.winner.toBuffer(), bytes32(params.proofHash, 'Proof hash')]
+    );
+  }
+
+  /**
+   * declare_winners: split the pot across placed players by basis points.
+   * Recipient accounts follow the operator, in the same order.
+   * @throws Error unless there is one positive share per recipient summing to 10000
+   */
+  declareWinners(params: DeclareWinnersParams): TransactionInstruction {
+    const { gameId, operator, recipients, sharesBps, proofHash } = params;
+    if (
+      recipients.length === 0 ||
+      recipients.length > MAX_ESCROW_PLAYERS ||
+      recipients.length !== sharesBps.length ||
+      sharesBps.some(bps => !Number.isInteger(bps) || bps <= 0) ||
+      sharesBps.reduce((sum, bps) => sum + bps, 0) !== BPS_DENOMINATOR
+    ) {
+      throw new Error('Payout shares must be non-zero and sum to 10000 bps, one per recipient');
+    }
+
+    return this.instruction(
+      'declare_winners',
+      [this.escrowMeta(gameId), signer(operator), ...recipients.map(writable)],
+      [
+        encodeVec(recipients.map(r => r.toBuffer())),
+        encodeVec(sharesBps.map(encodeU16)),
+        bytes32(proofHash, 'Proof hash'),
+      ]
+    );
+  }
+
+  /**
+   * cancel_game: cancel an open, expired or paused game so players can
+   * claim refunds.
+   */
+  cancelGame(params: { gameId: string; operator: PublicKey }): TransactionInstruction {
+    return this.operatorInstruction('cancel_game', params);
+  }
+
+  /**
+   * claim_refund: return a player's buy-in from a cancelled game, signed by
+   * the player.
+   */
+  claimRefund(params: { gameId: string; player: PublicKey }): TransactionInstruction {
+    return this.instruction('claim_refund', [this.escrowMeta(params.gameId), signer(params.player)]);
+  }
+
+  /**
+   * emergency_halt: pause an active game.
+   */
+  emergencyHalt(params: { gameId: string; operator: PublicKey }): TransactionInstruction {
+    return this.operatorInstruction('emergency_halt', params);
+  }
+
+  /**
+   * resume_game: resume a paused game.
+   */
+  resumeGame(params: { gameId: string; operator: PublicKey }): TransactionInstruction {
+    return this.operatorInstruction('resume_game', params);
+  }
+
+  private operatorInstruction(name: string, params: { gameId: string; operator: PublicKey }): TransactionInstruction {
+    return this.instruction(name, [this.escrowMeta(params.gameId), signer(params.operator)]);
+  }
+
+  private instruction(
+    name: string,
+    keys: TransactionInstruction['keys'],
+    args: Buffer[] = []
+  ): TransactionInstruction {
+    return new TransactionInstruction({
+      programId: this.programId,
+      keys,
+      data: Buffer.concat([anchorDiscriminator('global', name), ...args]),
+    });
+  }
+
+  private escrowMeta(gameId: string) {
+    return writable(this.escrowAddress(gameId));
+  }
+}
+
+// =============================================================================
+// Account Decoding
+// =============================================================================
+
+/**
+ * Decode GameEscrow account data.
+ * @throws Error if the data is not a GameEscrow account
+ */
+export function decodeGameEscrow(data: Uint8Array): GameEscrow {
+  const buffer = Buffer.from(data);
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(anchorDiscriminator('account', 'GameEscrow'))) {
+    throw new Error('Not a GameEscrow account');
+  }
+
+  const reader = new BorshReader(buffer, 8);
+  const gameId = reader.string();
+  const operator = reader.publicKey();
+  const statusIndex = reader.u8();
+  const status = GAME_ESCROW_STATUSES[statusIndex];
+  if (!status) {
+    throw new Error(`Unknown game status ${statusIndex}`);
+  }
+
+  return {
+    gameId,
+    operator,
+    status,
+    buyInLamports: reader.u64(),
+    maxPlayers: reader.u8(),
+    currentPlayers: reader.u8(),
+    players: reader.vec(() => reader.publicKey()),
+    seed: reader.bytes(32),
+    winner: reader.option(() => reader.publicKey()),
+    proofHash: reader.option(() => reader.bytes(32)),
+    createdAt: Number(reader.i64()),
+    fillDeadline: Number(reader.i64()),
+    startedAt: reader.option(() => Number(reader.i64())),
+    bump: reader.u8(),
+    refunded: reader.vec(() => reader.u8() !== 0),
+  };
+}
+
+class BorshReader {
+  constructor(
+    private readonly buffer: Buffer,
+    private offset: number
+  ) {}
+
+  u8(): number {
+    return this.take(1).readUInt8(0);
+  }
+
+  u64(): bigint {
+    return this.take(8).readBigUInt64LE(0);
+  }
+
+  i64(): bigint {
+    return this.take(8).readBigInt64LE(0);
+  }
+
+  bytes(length: number): Uint8Array {
+    return new Uint8Array(this.take(length));
+  }
+
+  publicKey(): PublicKey {
+    return new PublicKey(this.take(32));
+  }
+
+  string(): string {
+    return this.take(this.take(4).readUInt32LE(0)).toString('utf8');
+  }
+
+  vec<T>(item: () => T): T[] {
+    return Array.from({ length: this.take(4).readUInt32LE(0) }, item);
+  }
+
+  option<T>(item: () => T): T | null {
+    return this.u8() === 0 ? null : item();
+  }
+
+  private take(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('GameEscrow account data is truncated');
+    }
+    const slice = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function anchorDiscriminator(namespace: 'global' | 'account', name: string): Buffer {
+  return createHash('sha256').update(`${namespace}:${name}`).digest().subarray(0, 8);
+}
+
+function writable(pubkey: PublicKey) {
+  return { pubkey, isSigner: false, isWritable: true };
+}
+
+function signer(pubkey: PublicKey) {
+  return { pubkey, isSigner: true, isWritable: true };
+}
+
+function systemProgramMeta() {
+  return { pubkey: SystemProgram.programId, isSigner: false, isWritable: false };
+}
+
+function bytes32(value: Uint8Array, label: string): Buffer {
+  if (value.length !== 32) {
+    throw new Error(`${label} must be 32 bytes`);
+  }
+  return Buffer.from(value);
+}
+
+function encodeU8(value: number): Buffer {
+  return Buffer.from([value]);
+}
+
+function encodeU16(value: number): Buffer {
+  const b = Buffer.alloc(2);
+  b.writeUInt16LE(value);
+  return b;
+}
+
+function encodeU64(value: number | bigint): Buffer {
+  const b = Buffer.alloc(8);
+  b.writeBigUInt64LE(BigInt(value));
+  return b;
+}
+
+function encodeString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  return Buffer.concat([encodeU32(bytes.length), bytes]);
+}
+
+function encodeU32(value: number): Buffer {
+  const b = Buffer.alloc(4);
+  b.writeUInt32LE(value);
+  return b;
+}
+
+/** Borsh Vec: u32 length, then the items */
+function encodeVec(items: Buffer[]): Buffer {
+  return Buffer.concat([encodeU32(items.length), ...items]);
+}
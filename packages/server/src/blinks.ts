@@ -11,7 +11,9 @@ import {
   SystemProgram,
   LAMPORTS_PER_SOL,
 } from '@solana/web3.js';
+import type { BuyInRejectionReason, BuyInVerifier } from './buy-in-verifier.js';
 import type { GameManager } from './game-manager.js';
+import type { BuyInRecord } from './orchestrator-storage.js';
 
 // =============================================================================
 // Constants
@@ -265,39 +267,58 @@ function getIconUrl(req: Request): string {
 
 /**
  * Confirms a player's buy-in transaction and adds them to the game.
- * Call this after the transaction is confirmed on-chain.
+ * Call this after the transaction is confirmed on-chain; the verifier
+ * proves it paid the buy-in to the escrow since the game was created.
+ * Credited signatures are recorded in `buyIns`, so a transaction is
+ * credited at most once: confirming the same buy-in again succeeds without
+ * effect, any other reuse is rejected.
  */
 export async function confirmBuyIn(
   gameManager: GameManager,
-  connection: Connection,
+  verifier: BuyInVerifier,
+  buyIns: Map<string, BuyInRecord>,
   gameId: string,
   playerWallet: string,
   signature: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    // Verify transaction
-    const tx = await connection.getTransaction(signature, {
-      commitment: 'confirmed',
-      maxSupportedTransactionVersion: 0,
-    });
+): Promise<{ success: boolean; error?: string; reason?: BuyInRejectionReason }> {
+  const createdAt = gameManager.getGameCreatedAt(gameId);
+  if (createdAt === null) {
+    return { success: false, error: 'Game not found' };
+  }
 
-    if (!tx) {
-      return { success: false, error: 'Transaction not found' };
-    }
+  const credited = buyIns.get(signature);
+  if (credited) {
+    return creditedResult(credited, gameId, playerWallet);
+  }
 
-    if (tx.meta?.err) {
-      return { success: false, error: 'Transaction failed on-chain' };
-    }
+  const verified = await verifier.verify({ txSignature: signature, gameId, playerWallet, notBefore: createdAt });
+  if (!verified.success) {
+    return { success: false, error: verified.error, reason: verified.reason };
+  }
 
-    // Add player to game
-    const result = gameManager.joinGame(gameId, playerWallet);
-    if (!result.success) {
-      return { success: false, error: result.error };
-    }
+  // Another confirmation may have credited the signature meanwhile
+  const creditedMeanwhile = buyIns.get(signature);
+  if (creditedMeanwhile) {
+    return creditedResult(creditedMeanwhile, gameId, playerWallet);
+  }
+  buyIns.set(signature, { txSignature: signature, gameId, wallet: playerWallet, teamId: null });
 
-    return { success: true };
-  } catch (error) {
-    console.error('Error confirming buy-in:', error);
-    return { success: false, error: 'Failed to confirm transaction' };
+  // Add player to game
+  const result = gameManager.joinGame(gameId, playerWallet);
+  if (!result.success) {
+    buyIns.delete(signature);
+    return { success: false, error: result.error };
   }
+
+  return { success: true };
+}
+
+function creditedResult(
+  credited: BuyInRecord,
+  gameId: string,
+  playerWallet: string
+): { success: boolean; error?: string; reason?: BuyInRejectionReason } {
+  return credited.gameId === gameId && credited.wallet === playerWallet
+    ? { success: true }
+    : { success: false, error: 'Transaction already used for a buy-in', reason: 'already_used' };
 }
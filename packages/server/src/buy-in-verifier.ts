@@ -0,0 +1,216 @@
+// Battle Dinghy - Buy-In Verification
+//
+// Proves a buy-in before a player is credited. The transaction a webhook
+// reports is fetched and parsed: it must have succeeded, be signed by the
+// player, transfer at least the buy-in from the player to the escrow wallet
+// with a System Program transfer, be recent, and not already be credited
+// for another buy-in.
+
+import { PublicKey, SystemProgram } from '@solana/web3.js';
+import type {
+  GetVersionedTransactionConfig,
+  MessageAccountKeys,
+  MessageCompiledInstruction,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Why a buy-in was rejected
+ * - `already_used`: the signature was credited for another buy-in
+ * - `not_found`: the transaction is not (yet) confirmed
+ * - `failed`: the transaction failed on-chain
+ * - `not_signed_by_player`: the player did not sign it
+ * - `wrong_destination`: nothing was transferred to the escrow wallet
+ * - `wrong_source`: the transfer to the escrow did not come from the player
+ * - `insufficient_amount`: less than the buy-in reached the escrow
+ * - `too_old`: the transaction predates the game or the accepted age
+ * - `rpc_error`: the transaction could not be fetched; retry later
+ */
+export type BuyInRejectionReason =
+  | 'already_used'
+  | 'not_found'
+  | 'failed'
+  | 'not_signed_by_player'
+  | 'wrong_destination'
+  | 'wrong_source'
+  | 'insufficient_amount'
+  | 'too_old'
+  | 'rpc_error';
+
+export interface BuyInVerificationResult {
+  success: boolean;
+  /** Lamports the player transferred to the escrow */
+  lamports?: number;
+  /** When the transaction was processed (unix ms) */
+  blockTime?: number;
+  reason?: BuyInRejectionReason;
+  error?: string;
+}
+
+export interface BuyInRequest {
+  txSignature: string;
+  gameId: string;
+  playerWallet: string;
+  /** Earliest accepted block time (unix ms), e.g. when the game was created */
+  notBefore?: number;
+  /** Overrides the verifier's maximum age, e.g. Infinity to re-check old buy-ins */
+  maxAgeSeconds?: number;
+}
+
+/**
+ * The part of Connection the verifier needs
+ */
+export interface BuyInTransactionSource {
+  getTransaction(
+    signature: string,
+    config: GetVersionedTransactionConfig
+  ): Promise<VersionedTransactionResponse | null>;
+}
+
+export interface BuyInVerifierConfig {
+  connection: BuyInTransactionSource;
+  escrowWallet: PublicKey;
+  buyInLamports: number;
+  /** Oldest accepted transaction in seconds (default 1 hour) */
+  maxAgeSeconds?: number;
+  /** Whether a signature is already credited for a different buy-in */
+  isSignatureUsed?: (txSignature: string, gameId: string, playerWallet: string) => boolean;
+}
+
+/** Default maximum age of a buy-in transaction */
+export const DEFAULT_BUY_IN_MAX_AGE_SECONDS = 3600;
+
+/** Block times can trail the server clock; accept this much earlier */
+const BLOCK_TIME_TOLERANCE_MS = 60_000;
+
+/** System Program instruction index of Transfer */
+const SYSTEM_TRANSFER_INSTRUCTION = 2;
+
+// =============================================================================
+// Verifier
+// =============================================================================
+
+export class BuyInVerifier {
+  private config: Required<Omit<BuyInVerifierConfig, 'isSignatureUsed'>> &
+    Pick<BuyInVerifierConfig, 'isSignatureUsed'>;
+
+  constructor(config: BuyInVerifierConfig) {
+    this.config = { maxAgeSeconds: DEFAULT_BUY_IN_MAX_AGE_SECONDS, ...config };
+  }
+
+  /**
+   * Verify a buy-in transaction. Never throws; RPC failures are reported as
+   * `rpc_error`.
+   */
+  async verify(request: BuyInRequest): Promise<BuyInVerificationResult> {
+    const { txSignature, gameId, playerWallet } = request;
+
+    let player: PublicKey;
+    try {
+      player = new PublicKey(playerWallet);
+    } catch {
+      return reject('not_signed_by_player', 'Invalid player wallet');
+    }
+
+    if (this.config.isSignatureUsed?.(txSignature, gameId, playerWallet)) {
+      return reject('already_used', 'Transaction already used for a buy-in');
+    }
+
+    let tx: VersionedTransactionResponse | null;
+    try {
+      tx = await this.config.connection.getTransaction(txSignature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+    } catch (error) {
+      console.error(`Failed to fetch buy-in transaction ${txSignature}:`, error);
+      return reject('rpc_error', 'Failed to fetch transaction');
+    }
+
+    if (!tx) {
+      return reject('not_found', 'Transaction not found');
+    }
+
+    if (tx.meta?.err) {
+      return reject('failed', 'Transaction failed');
+    }
+
+    const message = tx.transaction.message;
+    const keys = message.getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses });
+
+    const signers = Array.from({ length: message.header.numRequiredSignatures }, (_, i) => keys.get(i));
+    if (!signers.some(signer => signer?.equals(player))) {
+      return reject('not_signed_by_player', 'Transaction is not signed by the player');
+    }
+
+    const transfers = message.compiledInstructions
+      .map(ix => decodeSystemTransfer(keys, ix))
+      .filter((t): t is SystemTransfer => t !== null && t.to.equals(this.config.escrowWallet));
+    if (transfers.length === 0) {
+      return reject('wrong_destination', 'No transfer to the escrow wallet');
+    }
+
+    const lamports = transfers.filter(t => t.from.equals(player)).reduce((sum, t) => sum + t.lamports, 0);
+    if (lamports === 0) {
+      return reject('wrong_source', 'Transfer to the escrow is not from the player');
+    }
+    if (lamports < this.config.buyInLamports) {
+      return reject('insufficient_amount', `Transferred ${lamports} lamports, buy-in is ${this.config.buyInLamports}`);
+    }
+
+    if (tx.blockTime === null || tx.blockTime === undefined) {
+      return reject('too_old', 'Transaction has no block time');
+    }
+    const blockTime = tx.blockTime * 1000;
+    const maxAgeSeconds = request.maxAgeSeconds ?? this.config.maxAgeSeconds;
+    if (Date.now() - blockTime > maxAgeSeconds * 1000) {
+      return reject('too_old', `Transaction is older than ${maxAgeSeconds} seconds`);
+    }
+    if (request.notBefore !== undefined && blockTime < request.notBefore - BLOCK_TIME_TOLERANCE_MS) {
+      return reject('too_old', 'Transaction predates the game');
+    }
+
+    return { success: true, lamports, blockTime };
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface SystemTransfer {
+  from: PublicKey;
+  to: PublicKey;
+  lamports: number;
+}
+
+function reject(reason: BuyInRejectionReason, error: string): BuyInVerificationResult {
+  return { success: false, reason, error };
+}
+
+/**
+ * Decode a System Program Transfer: u32 instruction index 2, then u64
+ * lamports (little-endian); accounts are [from, to].
+ */
+function decodeSystemTransfer(keys: MessageAccountKeys, ix: MessageCompiledInstruction): SystemTransfer | null {
+  if (!keys.get(ix.programIdIndex)?.equals(SystemProgram.programId)) {
+    return null;
+  }
+
+  const data = Buffer.from(ix.data);
+  if (data.length < 12 || data.readUInt32LE(0) !== SYSTEM_TRANSFER_INSTRUCTION || ix.accountKeyIndexes.length < 2) {
+    return null;
+  }
+
+  const from = keys.get(ix.accountKeyIndexes[0]);
+  const to = keys.get(ix.accountKeyIndexes[1]);
+  if (!from || !to) {
+    return null;
+  }
+
+  return { from, to, lamports: Number(data.readBigUInt64LE(4)) };
+}
@@ -215,6 +215,7 @@ export interface RoundResultOptions {
   shotCell: CellIndex;
   hits: string[]; // player IDs that were hit
   eliminations: string[]; // player IDs eliminated this round
+  sunkShips?: string[]; // names of ships sunk this round
   remainingPlayers: number;
 }
 
@@ -260,6 +261,14 @@ export function renderRoundResult(options: RoundResultOptions): Buffer {
     yPos += 25;
   }
 
+  // Sunk ships
+  if (options.sunkShips && options.sunkShips.length > 0) {
+    ctx.fillStyle = COLORS.shipHit;
+    ctx.font = 'bold 16px sans-serif';
+    ctx.fillText(`🚢 SUNK: ${options.sunkShips.join(', ')}`, width / 2, yPos);
+    yPos += 25;
+  }
+
   // Eliminations
   if (options.eliminations.length > 0) {
     ctx.fillStyle = COLORS.eliminated;
@@ -1,17 +1,25 @@
 // Battle Dinghy - Game Manager
 //
 // Manages multiple concurrent games, connecting the GameEngine to WebSocket clients.
+// With a GameStore every change is written through, and restoreGames()
+// brings in-flight games back after a restart.
 
 import { EventEmitter } from 'events';
-import { randomBytes } from 'crypto';
+import { createHash, randomBytes } from 'crypto';
 import type { WebSocket } from 'ws';
 import {
   GameEngine,
+  OreMonitor,
   OreMonitorMock,
+  OreMonitorReplay,
   OreRoundResult,
   RoundSummary,
+  Standing,
+  TeamConfig,
+  WriteThroughQueue,
   MAX_PLAYERS,
 } from '@battle-dinghy/core';
+import type { GameStore, StoredGame } from './game-storage.js';
 import type {
   ManagedGame,
   GameStatusResponse,
@@ -19,6 +27,7 @@ import type {
   WSMessage,
   WSGameStateMessage,
   WSRoundCompleteMessage,
+  WSShipSunkMessage,
   WSPlayerEliminatedMessage,
   WSGameCompleteMessage,
 } from './types.js';
@@ -30,6 +39,25 @@ import type {
 const DEFAULT_MAX_PLAYERS = 10;
 const ORE_POLL_INTERVAL_MS = 60_000; // 1 minute for real ORE
 
+/**
+ * Prefix for house bot wallets. '-' is not a base58 character, so a bot
+ * identity can never be a real Solana address.
+ */
+export const BOT_WALLET_PREFIX = 'bot-';
+
+/** Team that house bots join in team mode */
+export const HOUSE_TEAM_ID = 'house';
+
+export interface GameManagerOptions {
+  /**
+   * Create the ORE monitor that drives a game's rounds (default: a mock
+   * ticking every minute). Use an OreMonitorReplay to reproduce a recording.
+   */
+  createOreMonitor?: (gameId: string) => OreMonitor;
+  /** Store every change is written through to; see restoreGames() */
+  storage?: GameStore;
+}
+
 // =============================================================================
 // GameManager
 // =============================================================================
@@ -37,15 +65,26 @@ const ORE_POLL_INTERVAL_MS = 60_000; // 1 minute for real ORE
 export class GameManager extends EventEmitter {
   private games: Map<string, ManagedGame> = new Map();
   private engines: Map<string, GameEngine> = new Map();
-  private monitors: Map<string, OreMonitorMock> = new Map();
+  private monitors: Map<string, OreMonitor> = new Map();
   private subscriptions: Map<string, Set<WebSocket>> = new Map();
+  /** ORE rounds each engine processed, as passed to processRound */
+  private oreRounds: Map<string, OreRoundResult[]> = new Map();
+  private createOreMonitor: (gameId: string) => OreMonitor;
+  private storage?: GameStore;
+  private readonly writes = new WriteThroughQueue();
+
+  constructor(options: GameManagerOptions = {}) {
+    super();
+    this.createOreMonitor = options.createOreMonitor ?? (() => new OreMonitorMock(ORE_POLL_INTERVAL_MS));
+    this.storage = options.storage;
+  }
 
   /**
    * Create a new game.
    */
   createGame(
     gameId: string,
-    options: { maxPlayers?: number; buyInSol?: number } = {}
+    options: { maxPlayers?: number; buyInSol?: number; teamMode?: boolean } = {}
   ): { success: boolean; seed?: Uint8Array; error?: string } {
     if (this.games.has(gameId)) {
       return { success: false, error: 'Game already exists' };
@@ -73,10 +112,14 @@ export class GameManager extends EventEmitter {
       completedAt: null,
       maxPlayers,
       buyInSol,
+      teams: options.teamMode ? new Map() : null,
+      bots: new Set(),
+      pausedReason: null,
     };
 
     this.games.set(gameId, game);
     this.subscriptions.set(gameId, new Set());
+    this.persist(gameId);
 
     this.emit('game_created', { gameId, maxPlayers, buyInSol });
 
@@ -84,11 +127,58 @@ export class GameManager extends EventEmitter {
   }
 
   /**
-   * Add a player to a waiting game.
+   * Add a player to a waiting game. Team games require a team id; the team
+   * is created by its first member.
    */
   joinGame(
     gameId: string,
-    playerWallet: string
+    playerWallet: string,
+    teamId?: string
+  ): { success: boolean; playerIndex?: number; error?: string } {
+    if (isBotWallet(playerWallet)) {
+      return { success: false, error: 'Wallet uses the reserved bot prefix' };
+    }
+    return this.addPlayer(gameId, playerWallet, teamId, false);
+  }
+
+  /**
+   * Add a house bot to a waiting game. Bot identities are derived from the
+   * game id and the first bot index not already in the game, so replays
+   * produce the same wallets and a bot added after a removal never reuses a
+   * wallet still playing. In team mode bots join the house team unless a
+   * team id is given.
+   */
+  addBot(
+    gameId: string,
+    teamId?: string
+  ): { success: boolean; wallet?: string; playerIndex?: number; error?: string } {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { success: false, error: 'Game not found' };
+    }
+
+    let botIndex = 0;
+    while (game.players.has(deriveBotWallet(gameId, botIndex))) {
+      botIndex++;
+    }
+
+    const wallet = deriveBotWallet(gameId, botIndex);
+    const result = this.addPlayer(gameId, wallet, game.teams ? teamId ?? HOUSE_TEAM_ID : teamId, true);
+    return result.success ? { ...result, wallet } : result;
+  }
+
+  /**
+   * Whether a wallet is a house bot in the given game.
+   */
+  isBot(gameId: string, wallet: string): boolean {
+    return this.games.get(gameId)?.bots.has(wallet) ?? false;
+  }
+
+  private addPlayer(
+    gameId: string,
+    playerWallet: string,
+    teamId: string | undefined,
+    isBot: boolean
   ): { success: boolean; playerIndex?: number; error?: string } {
     const game = this.games.get(gameId);
     if (!game) {
@@ -107,18 +197,105 @@ export class GameManager extends EventEmitter {
       return { success: false, error: 'Game is full' };
     }
 
+    if (game.teams) {
+      if (!teamId) {
+        return { success: false, error: 'Team id is required in team mode' };
+      }
+      if (game.players.has(teamId)) {
+        return { success: false, error: 'Team id must not be a player wallet' };
+      }
+      if (game.teams.has(playerWallet)) {
+        return { success: false, error: 'Wallet is already used as a team id' };
+      }
+      const members = game.teams.get(teamId) ?? [];
+      members.push(playerWallet);
+      game.teams.set(teamId, members);
+    } else if (teamId) {
+      return { success: false, error: 'Game is not in team mode' };
+    }
+
     game.players.add(playerWallet);
+    if (isBot) {
+      game.bots.add(playerWallet);
+    }
     // Cast to mutable to update players array
     (game.config as unknown as { players: string[] }).players = Array.from(game.players);
 
     const playerIndex = game.config.players.indexOf(playerWallet);
+    this.persist(gameId);
 
-    this.emit('player_joined', { gameId, playerWallet, playerIndex });
+    this.emit('player_joined', { gameId, playerWallet, playerIndex, ...(isBot ? { isBot } : {}) });
     this.broadcastGameState(gameId);
 
     return { success: true, playerIndex };
   }
 
+  /**
+   * Remove a player from a game that has not started (waiting, or paused
+   * before starting), e.g. when they are excluded for not revealing their
+   * commit-reveal secret. Later players move up one join position. An
+   * emptied team is dropped.
+   */
+  removePlayer(gameId: string, playerWallet: string): { success: boolean; error?: string } {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { success: false, error: 'Game not found' };
+    }
+
+    if (game.status !== 'waiting' && !(game.status === 'paused' && game.startedAt === null)) {
+      return { success: false, error: 'Players can only be removed before the game starts' };
+    }
+
+    if (!game.players.has(playerWallet)) {
+      return { success: false, error: 'Player not in game' };
+    }
+
+    game.players.delete(playerWallet);
+    game.bots.delete(playerWallet);
+    if (game.teams) {
+      for (const [teamId, members] of game.teams) {
+        const remaining = members.filter((m) => m !== playerWallet);
+        if (remaining.length === 0) {
+          game.teams.delete(teamId);
+        } else {
+          game.teams.set(teamId, remaining);
+        }
+      }
+    }
+    // Cast to mutable to update players array
+    (game.config as unknown as { players: string[] }).players = Array.from(game.players);
+    this.persist(gameId);
+
+    this.emit('player_removed', { gameId, playerWallet });
+    this.broadcastGameState(gameId);
+
+    return { success: true };
+  }
+
+  /**
+   * Replace the seed of a waiting game, e.g. with the commit-reveal output.
+   */
+  setGameSeed(gameId: string, seed: Uint8Array): { success: boolean; error?: string } {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { success: false, error: 'Game not found' };
+    }
+
+    if (game.status !== 'waiting') {
+      return { success: false, error: 'Seed can only be set before the game starts' };
+    }
+
+    if (seed.length !== 32) {
+      return { success: false, error: 'Seed must be 32 bytes' };
+    }
+
+    // Cast to mutable to update the engine seed
+    (game.config as unknown as { seed: Uint8Array }).seed = seed;
+    this.persist(gameId);
+
+    return { success: true };
+  }
+
   /**
    * Start a game (requires at least 2 players).
    */
@@ -136,41 +313,28 @@ export class GameManager extends EventEmitter {
       return { success: false, error: 'Need at least 2 players to start' };
     }
 
+    if (game.teams) {
+      if (game.teams.size < 2) {
+        return { success: false, error: 'Need at least 2 teams to start' };
+      }
+      // Cast to mutable to freeze the squads into the engine config
+      (game.config as unknown as { teams: TeamConfig[] }).teams = Array.from(
+        game.teams,
+        ([teamId, members]) => ({ teamId, members: [...members] })
+      );
+    }
+
     // Create game engine
     const engine = new GameEngine(game.config);
-    this.engines.set(gameId, engine);
-
-    // Set up engine event handlers
-    engine.on('round_complete', (summary: RoundSummary) => {
-      this.onRoundComplete(gameId, summary);
-    });
-
-    engine.on('player_eliminated', (event: { player: string; round: number }) => {
-      this.onPlayerEliminated(gameId, event);
-    });
-
-    engine.on('game_complete', (event: { winner: string; totalRounds: number }) => {
-      this.onGameComplete(gameId, event);
-    });
-
-    // Create ORE monitor (mock for now)
-    const monitor = new OreMonitorMock(ORE_POLL_INTERVAL_MS);
-    this.monitors.set(gameId, monitor);
-
-    monitor.on('round', (result: OreRoundResult) => {
-      if (!engine.isGameComplete()) {
-        engine.processRound(result);
-      } else {
-        monitor.stop();
-      }
-    });
+    this.oreRounds.set(gameId, []);
+    this.attachEngine(gameId, engine);
 
     // Update game state
     game.status = 'active';
     game.startedAt = Date.now();
+    this.persist(gameId);
 
-    // Start the monitor
-    monitor.start();
+    this.attachMonitor(gameId, engine);
 
     this.emit('game_started', { gameId, players: game.config.players });
     this.broadcastGameState(gameId);
@@ -194,7 +358,7 @@ export class GameManager extends EventEmitter {
       return { success: false, error: 'Game is already finished' };
     }
 
-    if (game.status === 'active' && !force) {
+    if ((game.status === 'active' || this.engines.has(gameId)) && !force) {
       return { success: false, error: 'Cannot cancel active game without force' };
     }
 
@@ -207,6 +371,7 @@ export class GameManager extends EventEmitter {
 
     game.status = 'cancelled';
     game.completedAt = Date.now();
+    this.persist(gameId);
 
     this.emit('game_cancelled', { gameId });
     this.broadcastGameState(gameId);
@@ -214,6 +379,60 @@ export class GameManager extends EventEmitter {
     return { success: true };
   }
 
+  /**
+   * Pause a waiting or active game, e.g. on an ORE block verification
+   * conflict. A paused game cannot start and skips ORE rounds until resumed.
+   */
+  pauseGame(gameId: string, reason: string): { success: boolean; error?: string } {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { success: false, error: 'Game not found' };
+    }
+
+    if (game.status === 'paused') {
+      return { success: true };
+    }
+
+    if (game.status !== 'waiting' && game.status !== 'active') {
+      return { success: false, error: 'Game is already finished' };
+    }
+
+    this.engines.get(gameId)?.pause(reason);
+    game.status = 'paused';
+    game.pausedReason = reason;
+    this.persist(gameId);
+
+    this.emit('game_paused', { gameId, reason });
+    this.broadcastGameState(gameId);
+
+    return { success: true };
+  }
+
+  /**
+   * Resume a paused game in the state it was paused from.
+   */
+  resumeGame(gameId: string): { success: boolean; error?: string } {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { success: false, error: 'Game not found' };
+    }
+
+    if (game.status !== 'paused') {
+      return { success: false, error: 'Game is not paused' };
+    }
+
+    const engine = this.engines.get(gameId);
+    engine?.resume();
+    game.status = engine ? 'active' : 'waiting';
+    game.pausedReason = null;
+    this.persist(gameId);
+
+    this.emit('game_resumed', { gameId });
+    this.broadcastGameState(gameId);
+
+    return { success: true };
+  }
+
   /**
    * Get game status.
    */
@@ -233,11 +452,30 @@ export class GameManager extends EventEmitter {
       maxPlayers: game.maxPlayers,
       buyInSol: game.buyInSol,
       winner: engine?.getWinner() ?? null,
+      winningMembers: engine?.getWinningMembers() ?? [],
+      ...(game.teams
+        ? {
+            teams: Array.from(game.teams, ([teamId, members]) => ({
+              teamId,
+              members: [...members],
+            })),
+          }
+        : {}),
+      bots: Array.from(game.bots),
+      ...(game.pausedReason ? { pausedReason: game.pausedReason } : {}),
       startedAt: game.startedAt,
       completedAt: game.completedAt,
     };
   }
 
+  /**
+   * Get the standings table (only for active/complete games).
+   */
+  getStandings(gameId: string): Standing[] | null {
+    const engine = this.engines.get(gameId);
+    return engine ? engine.getStandings() : null;
+  }
+
   /**
    * Get player card info (only for active/complete games).
    */
@@ -262,9 +500,11 @@ export class GameManager extends EventEmitter {
 
     return {
       playerId: card.playerId,
-      ships: generatedCard.ships.map((s) => ({
+      ships: generatedCard.ships.map((s, i) => ({
         size: s.size,
         cells: [...s.cells],
+        hits: card.shipDamage[i].hits,
+        isSunk: card.shipDamage[i].isSunk,
       })),
       allCells: [...generatedCard.allCells],
       hitCells: [...card.hitCells],
@@ -280,13 +520,20 @@ export class GameManager extends EventEmitter {
     const activeGames: GameStatusResponse[] = [];
     for (const gameId of this.games.keys()) {
       const status = this.getGameStatus(gameId);
-      if (status && (status.status === 'waiting' || status.status === 'active')) {
+      if (status && (status.status === 'waiting' || status.status === 'active' || status.status === 'paused')) {
         activeGames.push(status);
       }
     }
     return activeGames;
   }
 
+  /**
+   * Get every game, including completed and cancelled ones.
+   */
+  getAllGames(): GameStatusResponse[] {
+    return Array.from(this.games.keys(), gameId => this.getGameStatus(gameId)!);
+  }
+
   /**
    * Subscribe a WebSocket to game updates.
    */
@@ -345,15 +592,33 @@ export class GameManager extends EventEmitter {
   }
 
   /**
-   * Manually trigger a round (for testing).
+   * Manually trigger a round (for testing). A replay plays its next recorded
+   * round and ignores `winningBlock`.
    */
   triggerRound(gameId: string, winningBlock?: number): boolean {
     const monitor = this.monitors.get(gameId);
-    if (!monitor) {
-      return false;
+    if (monitor instanceof OreMonitorMock) {
+      monitor.triggerRound(winningBlock);
+      return true;
     }
-    monitor.triggerRound(winningBlock);
-    return true;
+    if (monitor instanceof OreMonitorReplay) {
+      return monitor.step() !== null;
+    }
+    return false;
+  }
+
+  /**
+   * Get the ORE monitor driving a running game.
+   */
+  getOreMonitor(gameId: string): OreMonitor | null {
+    return this.monitors.get(gameId) ?? null;
+  }
+
+  /**
+   * When a game was created (unix ms); buy-ins must not predate it.
+   */
+  getGameCreatedAt(gameId: string): number | null {
+    return this.games.get(gameId)?.createdAt ?? null;
   }
 
   /**
@@ -364,10 +629,180 @@ export class GameManager extends EventEmitter {
     return game?.config.seed ?? null;
   }
 
+  // ===========================================================================
+  // Persistence
+  // ===========================================================================
+
+  /**
+   * Bring back every stored game after a restart. Started games get their
+   * engine rebuilt with GameEngine.recover from the stored ORE rounds, and
+   * running ones a new ORE monitor whose next round continues the game.
+   * Spectators get the current state when they subscribe again.
+   * @throws Error if no storage was configured
+   */
+  async restoreGames(): Promise<{ restored: string[]; failed: { gameId: string; error: string }[] }> {
+    if (!this.storage) {
+      throw new Error('No storage configured');
+    }
+
+    const restored: string[] = [];
+    const failed: { gameId: string; error: string }[] = [];
+
+    for (const stored of await this.storage.loadGames()) {
+      if (this.games.has(stored.gameId)) {
+        failed.push({ gameId: stored.gameId, error: 'Game already exists' });
+        continue;
+      }
+      try {
+        this.restoreGame(stored);
+        restored.push(stored.gameId);
+      } catch (error) {
+        failed.push({ gameId: stored.gameId, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return { restored, failed };
+  }
+
+  /**
+   * Wait until every change so far has been written to storage.
+   * @throws the first storage error since the last flush
+   */
+  flush(): Promise<void> {
+    return this.writes.flush();
+  }
+
+  private restoreGame(stored: StoredGame): void {
+    const { gameId } = stored;
+    const game: ManagedGame = {
+      gameId,
+      config: {
+        gameId,
+        seed: new Uint8Array(Buffer.from(stored.seed, 'hex')),
+        players: [...stored.players],
+        ...(stored.teams && stored.startedAt !== null ? { teams: stored.teams } : {}),
+      },
+      status: stored.status,
+      players: new Set(stored.players),
+      spectators: new Set(),
+      createdAt: stored.createdAt,
+      startedAt: stored.startedAt,
+      completedAt: stored.completedAt,
+      maxPlayers: stored.maxPlayers,
+      buyInSol: stored.buyInSol,
+      teams: stored.teams ? new Map(stored.teams.map(t => [t.teamId, [...t.members]])) : null,
+      bots: new Set(stored.bots),
+      pausedReason: stored.pausedReason,
+    };
+
+    let engine: GameEngine | null = null;
+    if (stored.startedAt !== null) {
+      // Replays every processed round; no events reach spectators yet
+      engine = GameEngine.recover(game.config, stored.oreRounds);
+      if (engine.getCurrentRound() !== stored.oreRounds.length) {
+        throw new Error(`Stored ORE rounds do not replay (${engine.getCurrentRound()}/${stored.oreRounds.length})`);
+      }
+      if (stored.pausedReason !== null) {
+        engine.pause(stored.pausedReason);
+      }
+    }
+
+    this.games.set(gameId, game);
+    this.subscriptions.set(gameId, new Set());
+
+    if (engine) {
+      this.oreRounds.set(gameId, [...stored.oreRounds]);
+      this.attachEngine(gameId, engine);
+      if (game.status === 'active' || game.status === 'paused') {
+        this.attachMonitor(gameId, engine);
+      }
+    }
+
+    this.emit('game_restored', { gameId, status: game.status, currentRound: engine?.getCurrentRound() ?? 0 });
+    this.broadcastGameState(gameId);
+  }
+
+  private persist(gameId: string): void {
+    const storage = this.storage;
+    const game = this.games.get(gameId);
+    if (!storage || !game) {
+      return;
+    }
+
+    const snapshot: StoredGame = {
+      gameId,
+      seed: Buffer.from(game.config.seed).toString('hex'),
+      status: game.status,
+      players: Array.from(game.players),
+      bots: Array.from(game.bots),
+      teams: game.teams ? Array.from(game.teams, ([teamId, members]) => ({ teamId, members: [...members] })) : null,
+      maxPlayers: game.maxPlayers,
+      buyInSol: game.buyInSol,
+      createdAt: game.createdAt,
+      startedAt: game.startedAt,
+      completedAt: game.completedAt,
+      pausedReason: game.pausedReason,
+      oreRounds: (this.oreRounds.get(gameId) ?? []).map(r => ({ ...r })),
+    };
+    this.writes.write(() => storage.saveGame(snapshot));
+  }
+
   // ===========================================================================
   // Private Methods
   // ===========================================================================
 
+  private attachEngine(gameId: string, engine: GameEngine): void {
+    this.engines.set(gameId, engine);
+
+    engine.on('round_complete', (summary: RoundSummary) => {
+      this.onRoundComplete(gameId, summary);
+    });
+
+    engine.on('ship_sunk', (event: WSShipSunkMessage['payload']) => {
+      this.onShipSunk(gameId, event);
+    });
+
+    engine.on('player_eliminated', (event: { player: string; round: number; members?: string[] }) => {
+      this.onPlayerEliminated(gameId, event);
+    });
+
+    engine.on('game_complete', (event: { winner: string; totalRounds: number }) => {
+      this.onGameComplete(gameId, event);
+    });
+  }
+
+  /**
+   * Drive the engine from a new ORE monitor. Each ORE round becomes the
+   * game's next round; a round already processed (same proof, e.g. the
+   * latest round re-emitted by a monitor started after a restart) is skipped.
+   */
+  private attachMonitor(gameId: string, engine: GameEngine): void {
+    const monitor = this.createOreMonitor(gameId);
+    this.monitors.set(gameId, monitor);
+
+    const processed = this.oreRounds.get(gameId)!;
+    const seenProofs = new Set(processed.map(r => r.proof));
+
+    monitor.on('round', (result: OreRoundResult) => {
+      if (engine.isGameComplete()) {
+        monitor.stop();
+      } else if (engine.isPaused()) {
+        // Rounds mined while paused are skipped; the game resumes with the next one
+        console.warn(`Game ${gameId} is paused, skipping ORE round ${result.roundNumber}`);
+      } else if (!seenProofs.has(result.proof)) {
+        const round = { ...result, roundNumber: engine.getCurrentRound() + 1 };
+        seenProofs.add(round.proof);
+        processed.push(round);
+        engine.processRound(round);
+        if (!engine.isGameComplete()) {
+          this.persist(gameId);
+        }
+      }
+    });
+
+    monitor.start();
+  }
+
   private onRoundComplete(gameId: string, summary: RoundSummary): void {
     const msg: WSRoundCompleteMessage = {
       type: 'round_complete',
@@ -378,9 +813,19 @@ export class GameManager extends EventEmitter {
     this.emit('round_complete', { gameId, summary });
   }
 
+  private onShipSunk(gameId: string, event: WSShipSunkMessage['payload']): void {
+    const msg: WSShipSunkMessage = {
+      type: 'ship_sunk',
+      gameId,
+      payload: event,
+    };
+    this.broadcast(gameId, msg);
+    this.emit('ship_sunk', { gameId, ...event });
+  }
+
   private onPlayerEliminated(
     gameId: string,
-    event: { player: string; round: number }
+    event: { player: string; round: number; members?: string[] }
   ): void {
     const msg: WSPlayerEliminatedMessage = {
       type: 'player_eliminated',
@@ -399,6 +844,7 @@ export class GameManager extends EventEmitter {
     if (game) {
       game.status = 'complete';
       game.completedAt = Date.now();
+      this.persist(gameId);
     }
 
     // Stop the monitor
@@ -461,3 +907,19 @@ export class GameManager extends EventEmitter {
     }
   }
 }
+
+// =============================================================================
+// House Bots
+// =============================================================================
+
+/**
+ * Deterministic wallet identity for the nth house bot in a game.
+ */
+export function deriveBotWallet(gameId: string, botIndex: number): string {
+  const digest = createHash('sha256').update(`${gameId}:${botIndex}`).digest('hex');
+  return `${BOT_WALLET_PREFIX}${digest.slice(0, 32)}`;
+}
+
+export function isBotWallet(wallet: string): boolean {
+  return wallet.startsWith(BOT_WALLET_PREFIX);
+}
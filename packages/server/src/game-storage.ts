@@ -0,0 +1,108 @@
+// Battle Dinghy - Game Storage
+//
+// Persistence for GameManager, so a process restart does not lose in-flight
+// games. Each game is stored as one record: config, seed, players and the
+// ORE rounds its engine has processed. On boot GameManager.restoreGames()
+// rebuilds every engine from that record with GameEngine.recover.
+//
+// Implementations:
+// - MemoryGameStore: in-process, for tests
+// - FileGameStore: one JSON file per game under a directory
+
+import { mkdir, readFile, readdir, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { OreRoundResult } from '@battle-dinghy/core';
+import type { GameStatus } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface StoredGame {
+  gameId: string;
+  /** Hex-encoded 32-byte seed */
+  seed: string;
+  status: GameStatus;
+  /** Wallets in join order */
+  players: string[];
+  bots: string[];
+  /** Squads in team mode, null otherwise */
+  teams: { teamId: string; members: string[] }[] | null;
+  maxPlayers: number;
+  buyInSol: number;
+  createdAt: number;
+  startedAt: number | null;
+  completedAt: number | null;
+  pausedReason: string | null;
+  /** ORE rounds the engine processed, numbered as the engine saw them */
+  oreRounds: OreRoundResult[];
+}
+
+/**
+ * Storage used by GameManager. Saves are upserts of the whole record.
+ */
+export interface GameStore {
+  saveGame(game: StoredGame): Promise<void>;
+  loadGames(): Promise<StoredGame[]>;
+}
+
+// =============================================================================
+// In-Memory Storage
+// =============================================================================
+
+/**
+ * Storage kept in process memory. Records are copied in and out.
+ */
+export class MemoryGameStore implements GameStore {
+  private games = new Map<string, StoredGame>();
+
+  async saveGame(game: StoredGame): Promise<void> {
+    this.games.set(game.gameId, structuredClone(game));
+  }
+
+  async loadGames(): Promise<StoredGame[]> {
+    return Array.from(this.games.values(), game => structuredClone(game));
+  }
+}
+
+// =============================================================================
+// File Storage
+// =============================================================================
+
+/**
+ * Storage as JSON files, <dir>/<gameId>.json, replaced atomically
+ * (write then rename).
+ */
+export class FileGameStore implements GameStore {
+  constructor(private readonly dir: string) {}
+
+  async saveGame(game: StoredGame): Promise<void> {
+    const path = this.gamePath(game.gameId);
+    await mkdir(dirname(path), { recursive: true });
+    const temp = `${path}.tmp`;
+    await writeFile(temp, JSON.stringify(game, null, 2));
+    await rename(temp, path);
+  }
+
+  async loadGames(): Promise<StoredGame[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const games: StoredGame[] = [];
+    for (const name of names.filter(n => n.endsWith('.json')).sort()) {
+      games.push(JSON.parse(await readFile(join(this.dir, name), 'utf8')) as StoredGame);
+    }
+    return games;
+  }
+
+  private gamePath(gameId: string): string {
+    return join(this.dir, `${encodeURIComponent(gameId)}.json`);
+  }
+}
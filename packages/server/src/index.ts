@@ -8,14 +8,20 @@ import { createServer, Server } from 'http';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { Connection, PublicKey } from '@solana/web3.js';
-import { GameManager } from './game-manager.js';
+import { OreMonitorReplay } from '@battle-dinghy/core';
+import { GameManager, GameManagerOptions } from './game-manager.js';
 import { createRoutes } from './routes.js';
 import { setupWebSocket } from './websocket.js';
 import { createBlinksRoutes } from './blinks.js';
 import { createTwitterBot } from './twitter-bot.js';
 import { createOrchestrator } from './orchestrator.js';
+import { FileOrchestratorStore } from './orchestrator-storage.js';
+import { FilePayoutAuditLog, MemoryPayoutAuditLog, createPayoutExecutor } from './payout-executor.js';
+import { createRefundExecutor } from './refund-executor.js';
 import { createWebhookRoutes } from './webhooks.js';
 import { createAdminRoutes } from './admin-routes.js';
+import { OreMonitorPush, createOreFailoverMonitor } from './ore-failover.js';
+import { FileGameStore } from './game-storage.js';
 import {
   RateLimiter,
   createApiRateLimiter,
@@ -33,6 +39,12 @@ const SOLANA_RPC = process.env.SOLANA_RPC || 'https://api.mainnet-beta.solana.co
 const ESCROW_WALLET = process.env.ESCROW_WALLET || '';
 const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET;
 const ENABLE_RATE_LIMITING = process.env.DISABLE_RATE_LIMITING !== 'true';
+// Replay a recorded ORE round sequence (JSONL) instead of mock rounds
+const ORE_REPLAY_FILE = process.env.ORE_REPLAY_FILE;
+const ORE_REPLAY_SPEED = parseFloat(process.env.ORE_REPLAY_SPEED || '1');
+const ORE_LIVE = process.env.ORE_LIVE === 'true';
+// Directory for durable server state; in-memory only when unset
+const DATA_DIR = process.env.DATA_DIR;
 
 // =============================================================================
 // Server Setup
@@ -58,7 +70,22 @@ export function createApp(options?: CreateAppOptions): {
 } {
   const app = express();
   const server = createServer(app);
-  const gameManager = new GameManager();
+
+  // Live ORE rounds come from a failover monitor per game; the Helius webhook
+  // route feeds the webhook source they share
+  const oreWebhookSource = ORE_LIVE && !ORE_REPLAY_FILE ? new OreMonitorPush() : undefined;
+  let createOreMonitor: GameManagerOptions['createOreMonitor'];
+  if (ORE_REPLAY_FILE) {
+    createOreMonitor = () => OreMonitorReplay.fromFile(ORE_REPLAY_FILE, { speed: ORE_REPLAY_SPEED });
+  } else if (oreWebhookSource) {
+    const oreConnection = new Connection(SOLANA_RPC, 'confirmed');
+    void oreWebhookSource.start();
+    createOreMonitor = () => createOreFailoverMonitor(oreConnection, oreWebhookSource);
+  }
+  const gameManager = new GameManager({
+    createOreMonitor,
+    storage: DATA_DIR ? new FileGameStore(join(DATA_DIR, 'games')) : undefined,
+  });
 
   // Rate limiters (Security Mitigation E1)
   const rateLimiters: RateLimiter[] = [];
@@ -120,11 +147,29 @@ export function createApp(options?: CreateAppOptions): {
   // Game orchestrator
   let orchestrator = null;
   if (options?.enableOrchestrator !== false) {
+    const payoutExecutor = createPayoutExecutor(
+      DATA_DIR ? new FilePayoutAuditLog(join(DATA_DIR, 'payouts.jsonl')) : new MemoryPayoutAuditLog()
+    );
+    const refundExecutor = createRefundExecutor(
+      DATA_DIR ? new FilePayoutAuditLog(join(DATA_DIR, 'refunds.jsonl')) : new MemoryPayoutAuditLog()
+    );
     orchestrator = createOrchestrator(gameManager, twitterBot, {
       autoCreateGames: options?.autoCreateGames ?? false,
+      storage: DATA_DIR ? new FileOrchestratorStore(join(DATA_DIR, 'orchestrator.json')) : undefined,
+      payoutExecutor: payoutExecutor ?? undefined,
+      refundExecutor: refundExecutor ?? undefined,
     });
+    if (payoutExecutor) {
+      console.log(`Automated payouts enabled (${payoutExecutor.method})`);
+    }
+    if (refundExecutor) {
+      console.log(`Automated refunds enabled (${refundExecutor.method})`);
+    }
     if (orchestrator) {
-      orchestrator.start();
+      // With durable state it starts once restored (see Start Server)
+      if (!DATA_DIR) {
+        orchestrator.start();
+      }
       console.log('Game orchestrator enabled');
     }
   }
@@ -134,7 +179,7 @@ export function createApp(options?: CreateAppOptions): {
     app.use('/webhooks', webhookRateLimiter.middleware());
     console.log('Rate limiting enabled for /webhooks');
   }
-  app.use('/webhooks', createWebhookRoutes(orchestrator, WEBHOOK_SECRET));
+  app.use('/webhooks', createWebhookRoutes(orchestrator, WEBHOOK_SECRET, oreWebhookSource));
 
   // Admin routes (pass orchestrator for payout management)
   const baseUrl = process.env.BASE_URL || `http://localhost:${PORT}`;
@@ -176,6 +221,7 @@ export function createApp(options?: CreateAppOptions): {
   // Cleanup function for rate limiters
   const cleanup = () => {
     rateLimiters.forEach(rl => rl.stop());
+    oreWebhookSource?.stop();
   };
 
   return { app, server, gameManager, wss, twitterBot, orchestrator, cleanup, rateLimiters };
@@ -186,11 +232,36 @@ export function createApp(options?: CreateAppOptions): {
 // =============================================================================
 
 if (process.env.NODE_ENV !== 'test') {
-  const { server, gameManager, cleanup } = createApp();
+  const { server, gameManager, orchestrator, cleanup } = createApp();
+
+  // Bring back in-flight games and the orchestrator's buy-ins and payouts
+  // before accepting connections
+  const restoring = DATA_DIR
+    ? gameManager.restoreGames().then(async ({ restored, failed }) => {
+        console.log(`Restored ${restored.length} game(s) from ${DATA_DIR}`);
+        for (const { gameId, error } of failed) {
+          console.error(`Failed to restore game ${gameId}: ${error}`);
+        }
 
-  server.listen(PORT, HOST, () => {
-    console.log(`Battle Dinghy server running at http://${HOST}:${PORT}`);
-    console.log(`WebSocket available at ws://${HOST}:${PORT}/ws`);
+        if (orchestrator) {
+          const { pendingGames, rejoined, dropped, unverified } = await orchestrator.restore();
+          console.log(
+            `Restored orchestrator: ${pendingGames.length} pending game(s), ` +
+              `${rejoined.length} buy-in(s) re-added, ${dropped.length} dropped, ${unverified.length} unverified`
+          );
+          orchestrator.start();
+        }
+      })
+    : Promise.resolve();
+
+  restoring.then(() => {
+    server.listen(PORT, HOST, () => {
+      console.log(`Battle Dinghy server running at http://${HOST}:${PORT}`);
+      console.log(`WebSocket available at ws://${HOST}:${PORT}/ws`);
+    });
+  }).catch((error) => {
+    console.error('Failed to restore games:', error);
+    process.exit(1);
   });
 
   // Graceful shutdown
@@ -221,12 +292,104 @@ if (process.env.NODE_ENV !== 'test') {
 
 // Export for testing
 export { GameManager } from './game-manager.js';
+export type { GameManagerOptions } from './game-manager.js';
+export { MemoryGameStore, FileGameStore } from './game-storage.js';
+export type { GameStore, StoredGame } from './game-storage.js';
 export * from './types.js';
 export * from './card-renderer.js';
 export { TwitterBot, createTwitterBot } from './twitter-bot.js';
+export type { RefundAnnouncement } from './twitter-bot.js';
 export { createBlinksRoutes, confirmBuyIn } from './blinks.js';
+export { BuyInVerifier, DEFAULT_BUY_IN_MAX_AGE_SECONDS } from './buy-in-verifier.js';
+export type {
+  BuyInRejectionReason,
+  BuyInRequest,
+  BuyInTransactionSource,
+  BuyInVerificationResult,
+  BuyInVerifierConfig,
+} from './buy-in-verifier.js';
 export { GameOrchestrator, createOrchestrator } from './orchestrator.js';
+export type {
+  OrchestratorRestoreResult,
+  RefundReason,
+  RefundRequest,
+  RefundRunResult,
+  RefundStatus,
+  VerificationConflictEvent,
+} from './orchestrator.js';
+export { MemoryOrchestratorStore, FileOrchestratorStore } from './orchestrator-storage.js';
+export {
+  PayoutExecutor,
+  TransferPayoutSender,
+  DeclareWinnersPayoutSender,
+  CancelGamePayoutSender,
+  PayoutSubmitError,
+  MemoryPayoutAuditLog,
+  FilePayoutAuditLog,
+  createPayoutExecutor,
+  payoutEnvironment,
+  payoutSharesToBps,
+  payoutProofHash,
+} from './payout-executor.js';
+export type {
+  PayoutMethod,
+  PayoutRequest,
+  PayoutSender,
+  SentPayout,
+  PayoutConfirmation,
+  PayoutAttempt,
+  PayoutAttemptStatus,
+  PayoutAuditLog,
+  PayoutExecutorOptions,
+  PayoutExecutionResult,
+} from './payout-executor.js';
+export { RefundExecutor, createRefundExecutor, programEscrowCheck } from './refund-executor.js';
+export {
+  BattleDinghyProgram,
+  BATTLE_DINGHY_PROGRAM_ID,
+  BATTLE_DINGHY_ERRORS,
+  GAME_ESCROW_STATUSES,
+  MAX_GAME_ID_LEN,
+  MAX_ESCROW_PLAYERS,
+  MINIMUM_GAME_TIME_SECONDS,
+  battleDinghyErrorFromCode,
+  decodeGameEscrow,
+  parseBattleDinghyError,
+} from './battle-dinghy-program.js';
+export type {
+  BattleDinghyErrorName,
+  BattleDinghyProgramError,
+  CreateGameParams,
+  DeclareWinnersParams,
+  EscrowAccountSource,
+  GameEscrow,
+  GameEscrowStatus,
+} from './battle-dinghy-program.js';
+export type { RefundMethod, RefundExecutionResult, ClaimRefunds } from './refund-executor.js';
+export type { OrchestratorStore, OrchestratorState, BuyInRecord, StoredPendingGame } from './orchestrator-storage.js';
 export { createWebhookRoutes, generateWebhookSignature } from './webhooks.js';
-export { OreMonitorLive, createOreMonitor, parseOreWebhook } from './ore-integration.js';
+export {
+  OreMonitorLive,
+  OreMonitorLogs,
+  createOreMonitor,
+  parseOreWebhook,
+  getBoardPda,
+  getRoundPda,
+  decodeBoardAccount,
+  decodeRoundAccount,
+  getRoundRng,
+  getWinningSquare,
+  toOreRoundResult,
+} from './ore-integration.js';
+export type { OreAccountSource, OreLogSource, OreBoardAccount, OreRoundAccount } from './ore-integration.js';
+export { OreMonitorFailover, OreMonitorPush, createOreFailoverMonitor } from './ore-failover.js';
+export type {
+  OreSource,
+  OreSourceStatus,
+  OreSourceHealth,
+  OreDisagreement,
+  OreFailoverEvent,
+  OreFailoverOptions,
+} from './ore-failover.js';
 export { RateLimiter, createApiRateLimiter, createBlinksRateLimiter, createWebhookRateLimiter } from './rate-limiter.js';
 export { createAdminRoutes } from './admin-routes.js';
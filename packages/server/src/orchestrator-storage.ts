@@ -0,0 +1,106 @@
+// Battle Dinghy - Orchestrator Storage
+//
+// Persistence for GameOrchestrator, so a restart does not forget who paid a
+// buy-in or which games were paid out. The orchestrator keeps its state as
+// one document: pending games with their confirmed buy-ins, every buy-in
+// transaction ever credited, paid games, forfeits and queued refunds.
+//
+// Implementations:
+// - MemoryOrchestratorStore: in-process, for tests
+// - FileOrchestratorStore: one JSON file
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { PaidGame, RefundRequest } from './orchestrator.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A buy-in transaction credited to a player. A signature is only ever
+ * credited once, across all games.
+ */
+export interface BuyInRecord {
+  txSignature: string;
+  gameId: string;
+  wallet: string;
+  /** Squad joined in team mode */
+  teamId: string | null;
+}
+
+export interface StoredPendingGame {
+  gameId: string;
+  tweetId: string | null;
+  createdAt: number;
+  fillDeadline: number;
+  houseBotFillTo: number;
+  /** Players in the game by their buy-in */
+  confirmedPlayers: Array<{ wallet: string; txSignature: string }>;
+}
+
+export interface OrchestratorState {
+  pendingGames: StoredPendingGame[];
+  /** Every buy-in credited so far, including games no longer pending */
+  buyIns: BuyInRecord[];
+  paidGames: Array<PaidGame & { gameId: string }>;
+  forfeitedBuyIns: Array<{ gameId: string; wallets: string[] }>;
+  pendingRefunds: Array<{ gameId: string; refunds: RefundRequest[] }>;
+}
+
+/**
+ * Storage used by GameOrchestrator. Saves replace the whole document.
+ */
+export interface OrchestratorStore {
+  saveState(state: OrchestratorState): Promise<void>;
+  /** The last saved state, or null if nothing was saved yet */
+  loadState(): Promise<OrchestratorState | null>;
+}
+
+// =============================================================================
+// In-Memory Storage
+// =============================================================================
+
+/**
+ * Storage kept in process memory. The state is copied in and out.
+ */
+export class MemoryOrchestratorStore implements OrchestratorStore {
+  private state: OrchestratorState | null = null;
+
+  async saveState(state: OrchestratorState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+
+  async loadState(): Promise<OrchestratorState | null> {
+    return this.state ? structuredClone(this.state) : null;
+  }
+}
+
+// =============================================================================
+// File Storage
+// =============================================================================
+
+/**
+ * Storage as a JSON file, replaced atomically (write then rename).
+ */
+export class FileOrchestratorStore implements OrchestratorStore {
+  constructor(private readonly path: string) {}
+
+  async saveState(state: OrchestratorState): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.tmp`;
+    await writeFile(temp, JSON.stringify(state, null, 2));
+    await rename(temp, this.path);
+  }
+
+  async loadState(): Promise<OrchestratorState | null> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as OrchestratorState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
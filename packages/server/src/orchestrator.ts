@@ -7,11 +7,27 @@
 // 4. Starts games when full or after deadline
 // 5. Processes ORE rounds and posts results
 // 6. Announces winners and triggers payouts
+// 7. Refunds buy-ins of cancelled games
+//
+// With storage configured, its state survives restarts; see restore().
 
 import { EventEmitter } from 'events';
 import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { WriteThroughQueue } from '@battle-dinghy/core';
+import type {
+  FinalizeResult,
+  MissingRevealOutcome,
+  OreBlockObservation,
+  Standing,
+  VerifyCommitmentResult,
+} from '@battle-dinghy/core';
+import { BuyInVerifier, DEFAULT_BUY_IN_MAX_AGE_SECONDS, type BuyInRejectionReason } from './buy-in-verifier.js';
 import { GameManager } from './game-manager.js';
+import type { PayoutExecutor } from './payout-executor.js';
+import type { RefundExecutionResult, RefundExecutor } from './refund-executor.js';
+import type { BuyInRecord, OrchestratorState, OrchestratorStore } from './orchestrator-storage.js';
 import { TwitterBot } from './twitter-bot.js';
+import type { GameStatusResponse } from './types.js';
 
 // =============================================================================
 // Types
@@ -28,10 +44,23 @@ export interface OrchestratorConfig {
   defaultMaxPlayers: number;
   autoStartOnFull: boolean;
   fillDeadlineMinutes: number;
+  /** Oldest accepted buy-in transaction in seconds (default 1 hour) */
+  buyInMaxAgeSeconds?: number;
+  /** Prize share per placement in basis points, e.g. [7000, 2000, 1000] */
+  payoutTiersBps: number[];
+  /** Fill lobbies with house bots up to this many players at the deadline (0 = off) */
+  houseBotFillTo: number;
 
   // Scheduling
   autoCreateGames: boolean;
   gameIntervalMinutes: number;
+
+  /** Durable state; in-memory only when unset */
+  storage?: OrchestratorStore;
+  /** Pays winners automatically; payouts are manual when unset */
+  payoutExecutor?: PayoutExecutor;
+  /** Refunds cancelled games automatically; refunds are manual when unset */
+  refundExecutor?: RefundExecutor;
 }
 
 export interface PendingGame {
@@ -40,6 +69,13 @@ export interface PendingGame {
   createdAt: number;
   fillDeadline: number;
   confirmedPlayers: Map<string, string>; // wallet -> txSignature
+  houseBotFillTo: number;
+}
+
+export interface PayoutShare {
+  wallet: string;
+  lamports: number;
+  placement: number;
 }
 
 export interface PaidGame {
@@ -47,12 +83,77 @@ export interface PaidGame {
   txSignature: string | null;
 }
 
+/**
+ * Why a buy-in is owed back
+ * - `missing_reveal`: excluded for not revealing under the refund policy
+ * - `game_aborted`: missing reveals aborted the game
+ * - `under_filled`: too few players by the fill deadline
+ * - `game_cancelled`: cancelled by an operator
+ */
+export type RefundReason = 'missing_reveal' | 'game_aborted' | 'under_filled' | 'game_cancelled';
+
+/**
+ * Where a refund stands
+ * - `pending`: owed, not sent yet
+ * - `refunded`: sent back to the player
+ * - `claimable`: the escrow is cancelled; the player reclaims it with `claim_refund`
+ * - `failed`: sending failed; retried on the next run
+ */
+export type RefundStatus = 'pending' | 'refunded' | 'claimable' | 'failed';
+
+export interface RefundRequest {
+  wallet: string;
+  lamports: number;
+  reason: RefundReason;
+  /** Buy-in transaction being refunded, when known */
+  buyInTx: string | null;
+  status: RefundStatus;
+  /** Refund (or escrow cancellation) transaction, once confirmed */
+  txSignature: string | null;
+}
+
+export interface RefundRunResult {
+  success: boolean;
+  /** Wallets settled in this run */
+  refunded: string[];
+  claimable: string[];
+  failed: string[];
+  error?: string;
+}
+
+export interface OrchestratorRestoreResult {
+  /** Games still waiting for players */
+  pendingGames: string[];
+  /** Verified buy-ins whose player was added back to the game */
+  rejoined: BuyInRecord[];
+  /** Buy-ins whose transaction no longer verifies; the player was removed */
+  dropped: Array<BuyInRecord & { error: string }>;
+  /** Buy-ins that could not be checked, kept as they were */
+  unverified: BuyInRecord[];
+}
+
+/** Payload of `verification_conflict`: the game was paused */
+export interface VerificationConflictEvent {
+  gameId: string;
+  /** Every hash observed for the committed ORE block */
+  observations: OreBlockObservation[];
+}
+
 export type OrchestratorEvent =
   | 'game_announced'
   | 'player_confirmed'
+  | 'buy_in_dropped'
   | 'game_auto_started'
+  | 'bots_added'
+  | 'reveal_outcome_applied'
+  | 'refund_pending'
+  | 'refund_completed'
+  | 'refund_failed'
+  | 'refunds_completed'
   | 'payout_pending'
   | 'payout_completed'
+  | 'payout_failed'
+  | 'verification_conflict'
   | 'error';
 
 // =============================================================================
@@ -63,13 +164,36 @@ export class GameOrchestrator extends EventEmitter {
   private config: OrchestratorConfig;
   private pendingGames: Map<string, PendingGame> = new Map();
   private paidGames: Map<string, PaidGame> = new Map();
+  /** Every credited buy-in by transaction signature, so none counts twice */
+  private buyIns: Map<string, BuyInRecord> = new Map();
+  private verifyingTxs: Set<string> = new Set();
+  private buyInVerifier: BuyInVerifier;
+  /** Buy-ins kept in the pot from players excluded under the forfeit policy */
+  private forfeitedBuyIns: Map<string, string[]> = new Map();
+  /** Every refund owed so far with its status, by game */
+  private pendingRefunds: Map<string, RefundRequest[]> = new Map();
+  private refundingGames: Set<string> = new Set();
+  /** Refund reason of a cancellation in progress, by game */
+  private cancelReasons: Map<string, RefundReason> = new Map();
   private gameCheckInterval: NodeJS.Timeout | null = null;
   private gameCreateInterval: NodeJS.Timeout | null = null;
   private isRunning = false;
+  private readonly writes = new WriteThroughQueue();
 
   constructor(config: OrchestratorConfig) {
     super();
+    validatePayoutTiers(config.payoutTiersBps);
     this.config = config;
+    this.buyInVerifier = new BuyInVerifier({
+      connection: config.connection,
+      escrowWallet: config.escrowWallet,
+      buyInLamports: config.defaultBuyIn,
+      maxAgeSeconds: config.buyInMaxAgeSeconds,
+      isSignatureUsed: (txSignature, gameId, wallet) => {
+        const credited = this.buyIns.get(txSignature);
+        return credited !== undefined && (credited.gameId !== gameId || credited.wallet !== wallet);
+      },
+    });
     this.setupEventListeners();
   }
 
@@ -97,6 +221,13 @@ export class GameOrchestrator extends EventEmitter {
       // Create first game immediately
       this.createScheduledGame();
     }
+
+    // Resume refunds left unsettled, e.g. by a restart
+    if (this.config.refundExecutor) {
+      for (const { gameId } of this.getPendingRefunds()) {
+        void this.processRefunds(gameId);
+      }
+    }
   }
 
   stop(): void {
@@ -120,12 +251,16 @@ export class GameOrchestrator extends EventEmitter {
   // Game Creation
   // ===========================================================================
 
-  async createGame(gameId?: string): Promise<string | null> {
+  async createGame(
+    gameId?: string,
+    options: { teamMode?: boolean; houseBotFillTo?: number } = {}
+  ): Promise<string | null> {
     const id = gameId || this.generateGameId();
 
     const result = this.config.gameManager.createGame(id, {
       maxPlayers: this.config.defaultMaxPlayers,
-      buyIn: this.config.defaultBuyIn,
+      buyInSol: this.config.defaultBuyIn / LAMPORTS_PER_SOL,
+      teamMode: options.teamMode,
     });
 
     if (!result.success) {
@@ -141,9 +276,11 @@ export class GameOrchestrator extends EventEmitter {
       createdAt: Date.now(),
       fillDeadline,
       confirmedPlayers: new Map(),
+      houseBotFillTo: options.houseBotFillTo ?? this.config.houseBotFillTo,
     };
 
     this.pendingGames.set(id, pending);
+    this.persist();
 
     // Announce on Twitter
     if (this.config.twitterBot) {
@@ -154,6 +291,7 @@ export class GameOrchestrator extends EventEmitter {
       });
 
       pending.tweetId = tweetId;
+      this.persist();
       this.emit('game_announced', { gameId: id, tweetId });
     }
 
@@ -184,58 +322,69 @@ export class GameOrchestrator extends EventEmitter {
   // Transaction Confirmation
   // ===========================================================================
 
+  /**
+   * Verify a player's buy-in on-chain, credit it and add them to the game.
+   * Rejected transactions come back with the verifier's reason. A
+   * transaction is credited at most once: a repeated confirmation of the
+   * same buy-in succeeds without effect, any other reuse is rejected.
+   */
   async confirmPlayerBuyIn(
     gameId: string,
     playerWallet: string,
-    txSignature: string
-  ): Promise<{ success: boolean; error?: string }> {
+    txSignature: string,
+    teamId?: string
+  ): Promise<{ success: boolean; error?: string; reason?: BuyInRejectionReason }> {
     const pending = this.pendingGames.get(gameId);
     if (!pending) {
       return { success: false, error: 'Game not found or already started' };
     }
 
-    // Verify transaction on-chain
+    const credited = this.buyIns.get(txSignature);
+    if (credited && credited.gameId === gameId && credited.wallet === playerWallet) {
+      return { success: true };
+    }
+
+    if (pending.confirmedPlayers.has(playerWallet)) {
+      return { success: false, error: 'Player already confirmed' };
+    }
+
+    if (this.verifyingTxs.has(txSignature)) {
+      return { success: false, error: 'Transaction is already being verified' };
+    }
+    this.verifyingTxs.add(txSignature);
+
     try {
-      const tx = await this.config.connection.getTransaction(txSignature, {
-        commitment: 'confirmed',
-        maxSupportedTransactionVersion: 0,
+      const verified = await this.buyInVerifier.verify({
+        txSignature,
+        gameId,
+        playerWallet,
+        notBefore: pending.createdAt,
       });
-
-      if (!tx) {
-        return { success: false, error: 'Transaction not found' };
+      if (!verified.success) {
+        return { success: false, error: verified.error, reason: verified.reason };
       }
 
-      if (tx.meta?.err) {
-        return { success: false, error: 'Transaction failed' };
+      // The game may have started or been cancelled meanwhile
+      if (this.pendingGames.get(gameId) !== pending) {
+        return { success: false, error: 'Game not found or already started' };
       }
 
-      // Verify transfer to escrow
-      const preBalances = tx.meta?.preBalances || [];
-      const postBalances = tx.meta?.postBalances || [];
-      const accountKeys = tx.transaction.message.getAccountKeys();
-
-      let transferVerified = false;
-      for (let i = 0; i < accountKeys.length; i++) {
-        if (accountKeys.get(i)?.equals(this.config.escrowWallet)) {
-          const received = postBalances[i] - preBalances[i];
-          if (received >= this.config.defaultBuyIn) {
-            transferVerified = true;
-            break;
-          }
-        }
+      // Another transaction from the same wallet may have been credited meanwhile
+      if (pending.confirmedPlayers.has(playerWallet)) {
+        return { success: false, error: 'Player already confirmed' };
       }
 
-      if (!transferVerified) {
-        return { success: false, error: 'Buy-in transfer not verified' };
-      }
+      // Credit before joining: restore() re-adds a player whose credited
+      // buy-in never made it into the game
+      this.creditBuyIn(pending, { txSignature, gameId, wallet: playerWallet, teamId: teamId ?? null });
 
       // Add player to game
-      const joinResult = this.config.gameManager.joinGame(gameId, playerWallet);
+      const joinResult = this.config.gameManager.joinGame(gameId, playerWallet, teamId);
       if (!joinResult.success) {
+        this.uncreditBuyIn(pending, txSignature);
         return { success: false, error: joinResult.error };
       }
 
-      pending.confirmedPlayers.set(playerWallet, txSignature);
       this.emit('player_confirmed', { gameId, playerWallet, txSignature });
 
       // Send player their card via Twitter
@@ -255,9 +404,26 @@ export class GameOrchestrator extends EventEmitter {
     } catch (error) {
       console.error('Error confirming buy-in:', error);
       return { success: false, error: 'Failed to verify transaction' };
+    } finally {
+      this.verifyingTxs.delete(txSignature);
     }
   }
 
+  private creditBuyIn(pending: PendingGame, record: BuyInRecord): void {
+    this.buyIns.set(record.txSignature, record);
+    pending.confirmedPlayers.set(record.wallet, record.txSignature);
+    this.persist();
+  }
+
+  private uncreditBuyIn(pending: PendingGame, txSignature: string): void {
+    const record = this.buyIns.get(txSignature);
+    this.buyIns.delete(txSignature);
+    if (record && pending.confirmedPlayers.get(record.wallet) === txSignature) {
+      pending.confirmedPlayers.delete(record.wallet);
+    }
+    this.persist();
+  }
+
   // ===========================================================================
   // Game Management
   // ===========================================================================
@@ -269,30 +435,72 @@ export class GameOrchestrator extends EventEmitter {
       const status = this.config.gameManager.getGameStatus(gameId);
       if (!status) {
         this.pendingGames.delete(gameId);
+        this.persist();
+        continue;
+      }
+
+      // Keep a paused lobby; its deadline is checked again once resumed
+      if (isPausedLobby(status)) {
         continue;
       }
 
       // Skip if already started
       if (status.status !== 'waiting') {
         this.pendingGames.delete(gameId);
+        this.persist();
         continue;
       }
 
       // Check deadline
       if (now >= pending.fillDeadline) {
-        if (status.players.length >= 2) {
+        if (pending.houseBotFillTo > 0) {
+          this.fillWithBots(gameId);
+        }
+        const players = this.config.gameManager.getGameStatus(gameId)!.players;
+
+        if (players.length >= 2) {
           // Start with available players
-          console.log(`Starting game ${gameId} at deadline with ${status.players.length} players`);
+          console.log(`Starting game ${gameId} at deadline with ${players.length} players`);
           this.startGame(gameId);
         } else {
           // Cancel - not enough players
           console.log(`Cancelling game ${gameId} - not enough players at deadline`);
-          this.cancelGame(gameId);
+          this.cancelGame(gameId, 'under_filled');
         }
       }
     }
   }
 
+  /**
+   * Add house bots to a waiting game until it has `fillTo` players (the
+   * game's configured target by default), capped at max players. Returns
+   * the bot wallets added.
+   */
+  fillWithBots(gameId: string, fillTo?: number): string[] {
+    const pending = this.pendingGames.get(gameId);
+    const status = this.config.gameManager.getGameStatus(gameId);
+    if (!pending || !status || status.status !== 'waiting') {
+      return [];
+    }
+
+    const target = Math.min(fillTo ?? pending.houseBotFillTo, status.maxPlayers);
+    const added: string[] = [];
+    for (let count = status.players.length; count < target; count++) {
+      const result = this.config.gameManager.addBot(gameId);
+      if (!result.success) {
+        console.error(`Failed to add house bot to ${gameId}:`, result.error);
+        break;
+      }
+      added.push(result.wallet!);
+    }
+
+    if (added.length > 0) {
+      console.log(`Added ${added.length} house bots to game ${gameId}`);
+      this.emit('bots_added', { gameId, bots: added });
+    }
+    return added;
+  }
+
   async startGame(gameId: string): Promise<boolean> {
     const result = this.config.gameManager.startGame(gameId);
     if (!result.success) {
@@ -301,33 +509,333 @@ export class GameOrchestrator extends EventEmitter {
     }
 
     this.pendingGames.delete(gameId);
+    this.persist();
     this.emit('game_auto_started', { gameId });
 
     console.log(`Game ${gameId} started`);
     return true;
   }
 
-  async cancelGame(gameId: string): Promise<boolean> {
+  /**
+   * Cancel a waiting game. Its buy-ins are refunded through the
+   * 'game_cancelled' listener, with `reason` recorded on each refund.
+   */
+  async cancelGame(gameId: string, reason: RefundReason = 'game_cancelled'): Promise<boolean> {
     const pending = this.pendingGames.get(gameId);
     if (!pending) {
       return false;
     }
 
+    this.cancelReasons.set(gameId, reason);
     const result = this.config.gameManager.cancelGame(gameId);
+    this.cancelReasons.delete(gameId);
     if (!result.success) {
       console.error(`Failed to cancel game ${gameId}:`, result.error);
       return false;
     }
 
     this.pendingGames.delete(gameId);
+    this.persist();
+
+    return true;
+  }
 
-    // TODO: Process refunds for confirmed players
-    if (pending.confirmedPlayers.size > 0) {
-      console.log(`Game ${gameId} cancelled - ${pending.confirmedPlayers.size} refunds needed`);
-      // Refund logic would go here
+  // ===========================================================================
+  // Commit-Reveal Outcome
+  // ===========================================================================
+
+  /**
+   * Apply a finalized commit-reveal to a waiting game, following the
+   * missing-reveal policy's outcome: aborted games are cancelled and
+   * everyone owed is refunded; otherwise excluded players are removed,
+   * refunds are queued, forfeited buy-ins stay in the prize pool, and the
+   * game seed is replaced with the commit-reveal seed.
+   */
+  async applyRevealOutcome(
+    gameId: string,
+    result: FinalizeResult
+  ): Promise<{ success: boolean; error?: string }> {
+    const pending = this.pendingGames.get(gameId);
+    if (!pending) {
+      return { success: false, error: 'Game not found or already started' };
     }
 
-    return true;
+    const outcome = result.missingReveals;
+
+    if (outcome?.aborted) {
+      this.recordForfeits(gameId, outcome);
+      this.queueRefunds(gameId, outcome.refunded, 'game_aborted', pending.confirmedPlayers);
+      this.persist();
+      this.emit('reveal_outcome_applied', { gameId, outcome });
+      await this.cancelGame(gameId, 'game_aborted');
+      return { success: true };
+    }
+
+    if (!result.success || !result.seed) {
+      return { success: false, error: result.error ?? 'Commit-reveal produced no seed' };
+    }
+
+    for (const wallet of outcome?.excluded ?? []) {
+      const removed = this.config.gameManager.removePlayer(gameId, wallet);
+      if (!removed.success) {
+        return { success: false, error: `Failed to remove ${wallet}: ${removed.error}` };
+      }
+    }
+
+    const seeded = this.config.gameManager.setGameSeed(gameId, result.seed);
+    if (!seeded.success) {
+      return { success: false, error: seeded.error };
+    }
+
+    if (outcome) {
+      this.recordForfeits(gameId, outcome);
+      this.queueRefunds(gameId, outcome.refunded, 'missing_reveal', pending.confirmedPlayers);
+      // Their buy-ins stay credited, settled as a forfeit or refund
+      for (const wallet of outcome.excluded) {
+        pending.confirmedPlayers.delete(wallet);
+      }
+      this.persist();
+      this.emit('reveal_outcome_applied', { gameId, outcome });
+      this.startRefunds(gameId);
+    }
+
+    return { success: true };
+  }
+
+  // ===========================================================================
+  // ORE Block Verification
+  // ===========================================================================
+
+  /**
+   * Apply the result of verifying a game's ORE block commitment. On a
+   * verification_conflict the game is paused instead of settling on a block
+   * that may have been orphaned; an operator resumes or cancels it.
+   */
+  applyOreVerification(
+    gameId: string,
+    result: VerifyCommitmentResult
+  ): { success: boolean; paused?: boolean; error?: string } {
+    if (result.outcome !== 'verification_conflict') {
+      return { success: true, paused: false };
+    }
+
+    const paused = this.config.gameManager.pauseGame(gameId, 'ORE block verification conflict');
+    if (!paused.success) {
+      return { success: false, error: paused.error };
+    }
+
+    const observations = result.verification?.observations ?? [];
+    console.warn(`Game ${gameId} paused: conflicting ORE block hashes from ${observations.map(o => o.source).join(', ')}`);
+    const event: VerificationConflictEvent = { gameId, observations };
+    this.emit('verification_conflict', event);
+
+    return { success: true, paused: true };
+  }
+
+  private recordForfeits(gameId: string, outcome: MissingRevealOutcome): void {
+    if (outcome.forfeited.length > 0) {
+      this.forfeitedBuyIns.set(gameId, [...outcome.forfeited]);
+    }
+  }
+
+  private queueRefunds(
+    gameId: string,
+    wallets: readonly string[],
+    reason: RefundReason,
+    buyInTxs: ReadonlyMap<string, string>
+  ): void {
+    const refunds = wallets
+      .filter(wallet => !this.config.gameManager.isBot(gameId, wallet))
+      .map((wallet): RefundRequest => ({
+        wallet,
+        lamports: this.config.defaultBuyIn,
+        reason,
+        buyInTx: buyInTxs.get(wallet) ?? null,
+        status: 'pending',
+        txSignature: null,
+      }));
+
+    if (refunds.length === 0) {
+      return;
+    }
+
+    this.pendingRefunds.set(gameId, [...(this.pendingRefunds.get(gameId) ?? []), ...refunds]);
+    this.emit('refund_pending', { gameId, refunds });
+    console.log(`Game ${gameId}: ${refunds.length} refund(s) pending (${reason})`);
+  }
+
+  /**
+   * Queue a refund of every buy-in credited to a cancelled game, except
+   * players already owed a refund or whose buy-in was forfeited, and start
+   * sending them when a refund executor is configured.
+   */
+  private refundCancelledGame(gameId: string, reason: RefundReason): void {
+    const queued = new Set((this.pendingRefunds.get(gameId) ?? []).map(refund => refund.wallet));
+    const forfeited = new Set(this.forfeitedBuyIns.get(gameId) ?? []);
+    const buyInTxs = new Map<string, string>();
+    for (const record of this.buyIns.values()) {
+      if (record.gameId === gameId && !queued.has(record.wallet) && !forfeited.has(record.wallet)) {
+        buyInTxs.set(record.wallet, record.txSignature);
+      }
+    }
+
+    this.queueRefunds(gameId, Array.from(buyInTxs.keys()), reason, buyInTxs);
+    this.persist();
+    this.startRefunds(gameId);
+  }
+
+  /**
+   * Send a game's owed refunds in the background with the refund executor,
+   * or point the operator at them when refunds are manual.
+   */
+  private startRefunds(gameId: string): void {
+    if (!this.pendingRefunds.get(gameId)?.some(isUnsettled)) {
+      return;
+    }
+    if (this.config.refundExecutor) {
+      void this.processRefunds(gameId);
+    } else {
+      console.log(`Use GET /api/admin/refunds/pending to see refunds owed for game ${gameId}`);
+    }
+  }
+
+  /**
+   * Refunds still owed (pending or failed), by game.
+   */
+  getPendingRefunds(): Array<{ gameId: string; refunds: RefundRequest[] }> {
+    return Array.from(this.pendingRefunds, ([gameId, refunds]) => ({
+      gameId,
+      refunds: refunds.filter(isUnsettled).map(refund => ({ ...refund })),
+    })).filter(({ refunds }) => refunds.length > 0);
+  }
+
+  /**
+   * Every refund of a game with its status.
+   */
+  getRefunds(gameId: string): RefundRequest[] {
+    return (this.pendingRefunds.get(gameId) ?? []).map(refund => ({ ...refund }));
+  }
+
+  /**
+   * The executor sending refunds automatically, if configured.
+   */
+  getRefundExecutor(): RefundExecutor | null {
+    return this.config.refundExecutor ?? null;
+  }
+
+  /**
+   * Send a game's pending and failed refunds with the refund executor, one
+   * player at a time. Safe to call again after a failure: the executor
+   * never refunds a player twice. Announces the refunds once every one of
+   * the game's refunds is settled.
+   */
+  async processRefunds(gameId: string): Promise<RefundRunResult> {
+    const result: RefundRunResult = { success: false, refunded: [], claimable: [], failed: [] };
+    const executor = this.config.refundExecutor;
+    if (!executor) {
+      return { ...result, error: 'Refund executor not configured' };
+    }
+
+    const refunds = this.pendingRefunds.get(gameId)?.filter(isUnsettled) ?? [];
+    if (refunds.length === 0) {
+      return { ...result, error: 'No refunds owed' };
+    }
+    if (this.refundingGames.has(gameId)) {
+      return { ...result, error: 'Refunds already in progress' };
+    }
+    this.refundingGames.add(gameId);
+
+    try {
+      for (const refund of refunds) {
+        // Nothing awaits background runs, so an executor or audit log error
+        // fails this refund instead of escaping as an unhandled rejection
+        let sent: RefundExecutionResult;
+        try {
+          sent = await executor.refund(gameId, refund);
+        } catch (error) {
+          sent = { success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+        if (sent.success) {
+          refund.status = sent.status!;
+          refund.txSignature = sent.txSignature ?? null;
+          result[sent.status!].push(refund.wallet);
+          this.emit('refund_completed', { gameId, refund: { ...refund } });
+        } else {
+          refund.status = 'failed';
+          result.failed.push(refund.wallet);
+          console.error(`Refund of ${refund.wallet} for game ${gameId} failed: ${sent.error}`);
+          this.emit('refund_failed', { gameId, refund: { ...refund }, error: sent.error });
+        }
+        this.persist();
+      }
+    } finally {
+      this.refundingGames.delete(gameId);
+    }
+
+    await this.settleRefunds(gameId);
+    return result.failed.length > 0
+      ? { ...result, error: `${result.failed.length} refund(s) failed` }
+      : { ...result, success: true };
+  }
+
+  /**
+   * Mark a refund as sent after a manual transfer.
+   */
+  async markRefunded(
+    gameId: string,
+    wallet: string,
+    txSignature?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const refund = this.pendingRefunds.get(gameId)?.find(r => r.wallet === wallet);
+    if (!refund) {
+      return { success: false, error: 'Refund not found' };
+    }
+    if (!isUnsettled(refund)) {
+      return { success: false, error: 'Refund already settled' };
+    }
+    if (this.refundingGames.has(gameId)) {
+      return { success: false, error: 'Refunds already in progress' };
+    }
+
+    refund.status = 'refunded';
+    refund.txSignature = txSignature ?? null;
+    this.persist();
+    this.emit('refund_completed', { gameId, refund: { ...refund } });
+    console.log(`Refund of ${wallet} for game ${gameId} marked as sent`);
+
+    await this.settleRefunds(gameId);
+    return { success: true };
+  }
+
+  /**
+   * Once none of a game's refunds are owed, announce them.
+   */
+  private async settleRefunds(gameId: string): Promise<void> {
+    const refunds = this.pendingRefunds.get(gameId) ?? [];
+    if (refunds.length === 0 || refunds.some(isUnsettled)) {
+      return;
+    }
+
+    this.emit('refunds_completed', { gameId, refunds: refunds.map(refund => ({ ...refund })) });
+    console.log(`Game ${gameId}: all ${refunds.length} refund(s) settled`);
+
+    if (this.config.twitterBot) {
+      await this.config.twitterBot.announceRefunds({
+        gameId,
+        reason: refunds[refunds.length - 1].reason,
+        refunded: refunds.filter(r => r.status === 'refunded').length,
+        claimable: refunds.filter(r => r.status === 'claimable').length,
+        buyInSol: this.config.defaultBuyIn / LAMPORTS_PER_SOL,
+      });
+    }
+  }
+
+  /**
+   * Buy-ins in the prize pool: paid players plus forfeited buy-ins.
+   */
+  private prizePoolLamports(gameId: string, status: { players: string[]; bots: string[] }): number {
+    const forfeited = this.forfeitedBuyIns.get(gameId)?.length ?? 0;
+    return (paidPlayerCount(status) + forfeited) * this.config.defaultBuyIn;
   }
 
   // ===========================================================================
@@ -337,11 +845,15 @@ export class GameOrchestrator extends EventEmitter {
   /**
    * Calculate payout details for a completed game.
    * Returns the winner wallet and amount - operator executes payout manually.
+   * The pot is divided by placement using the configured payout tiers; in
+   * team mode each tier is split evenly among the squad's members.
    */
   getPayoutDetails(gameId: string): {
     success: boolean;
     gameId?: string;
     winnerWallet?: string;
+    winningTeam?: string;
+    payouts?: PayoutShare[];
     prizePoolLamports?: number;
     prizePoolSol?: number;
     playerCount?: number;
@@ -362,16 +874,19 @@ export class GameOrchestrator extends EventEmitter {
       return { success: false, error: 'No winner recorded' };
     }
 
-    const prizePoolLamports = status.players.length * this.config.defaultBuyIn;
+    const prizePoolLamports = this.prizePoolLamports(gameId, status);
     const payoutStatus = this.paidGames.has(gameId) ? 'paid' : 'pending';
+    const isTeamGame = status.teams !== undefined;
 
     return {
       success: true,
       gameId,
-      winnerWallet: status.winner,
+      winnerWallet: isTeamGame ? undefined : status.winner,
+      winningTeam: isTeamGame ? status.winner : undefined,
+      payouts: this.calculatePayouts(gameId, prizePoolLamports),
       prizePoolLamports,
       prizePoolSol: prizePoolLamports / LAMPORTS_PER_SOL,
-      playerCount: status.players.length,
+      playerCount: paidPlayerCount(status),
       buyInLamports: this.config.defaultBuyIn,
       payoutStatus,
     };
@@ -394,6 +909,7 @@ export class GameOrchestrator extends EventEmitter {
       paidAt: Date.now(),
       txSignature: txSignature || null,
     });
+    this.persist();
 
     this.emit('payout_completed', {
       gameId,
@@ -412,21 +928,23 @@ export class GameOrchestrator extends EventEmitter {
     gameId: string;
     winnerWallet: string;
     prizePoolSol: number;
+    payouts: PayoutShare[];
   }> {
     const results: Array<{
       gameId: string;
       winnerWallet: string;
       prizePoolSol: number;
+      payouts: PayoutShare[];
     }> = [];
 
-    const activeGames = this.config.gameManager.getActiveGames();
-    for (const game of activeGames) {
+    for (const game of this.config.gameManager.getAllGames()) {
       if (game.status === 'complete' && game.winner && !this.paidGames.has(game.gameId)) {
-        const prizePoolLamports = game.players.length * this.config.defaultBuyIn;
+        const prizePoolLamports = this.prizePoolLamports(game.gameId, game);
         results.push({
           gameId: game.gameId,
           winnerWallet: game.winner,
           prizePoolSol: prizePoolLamports / LAMPORTS_PER_SOL,
+          payouts: this.calculatePayouts(game.gameId, prizePoolLamports),
         });
       }
     }
@@ -447,18 +965,233 @@ export class GameOrchestrator extends EventEmitter {
       return { success: false, error: 'Wallet is not the winner' };
     }
 
+    if (this.paidGames.has(gameId)) {
+      return { success: false, error: 'Game already marked as paid' };
+    }
+
+    if (this.config.payoutExecutor) {
+      return this.executePayout(gameId);
+    }
+
     // Calculate prize pool
-    const prizePool = status.players.length * this.config.defaultBuyIn;
-    console.log(`Payout pending: ${prizePool / LAMPORTS_PER_SOL} SOL to ${winnerWallet}`);
+    const prizePool = this.prizePoolLamports(gameId, status);
+    const payouts = this.calculatePayouts(gameId, prizePool);
+    for (const share of payouts) {
+      console.log(`Payout pending: ${share.lamports / LAMPORTS_PER_SOL} SOL to ${share.wallet}`);
+    }
     console.log(`Use GET /api/admin/payouts/pending to see pending payouts`);
     console.log(`Use POST /api/admin/payouts/:gameId/mark-paid to mark as paid after manual transfer`);
 
     // Emit event for tracking - operator handles actual transfer
-    this.emit('payout_pending', { gameId, winnerWallet, amount: prizePool });
+    this.emit('payout_pending', { gameId, winnerWallet, amount: prizePool, payouts });
 
     return { success: true };
   }
 
+  /**
+   * The executor sending payouts automatically, if configured.
+   */
+  getPayoutExecutor(): PayoutExecutor | null {
+    return this.config.payoutExecutor ?? null;
+  }
+
+  /**
+   * Send a completed game's payouts with the payout executor and mark the
+   * game paid once they are confirmed. Safe to call again after a failure:
+   * the executor never pays a game twice.
+   */
+  async executePayout(gameId: string): Promise<{ success: boolean; signature?: string; error?: string }> {
+    const executor = this.config.payoutExecutor;
+    if (!executor) {
+      return { success: false, error: 'Payout executor not configured' };
+    }
+
+    const status = this.config.gameManager.getGameStatus(gameId);
+    if (!status || status.status !== 'complete') {
+      return { success: false, error: 'Game not complete' };
+    }
+
+    if (this.paidGames.has(gameId)) {
+      return { success: false, error: 'Game already marked as paid' };
+    }
+
+    const prizePool = this.prizePoolLamports(gameId, status);
+    const payouts = this.calculatePayouts(gameId, prizePool);
+    if (payouts.length === 0) {
+      return { success: false, error: 'No payouts to send' };
+    }
+
+    this.emit('payout_pending', { gameId, winnerWallet: status.winner, amount: prizePool, payouts });
+    const result = await executor.execute({
+      gameId,
+      payouts,
+      seed: this.config.gameManager.getGameSeed(gameId)!,
+    });
+
+    if (!result.success) {
+      console.error(`Payout for game ${gameId} failed after ${result.attempts} attempt(s): ${result.error}`);
+      this.emit('payout_failed', { gameId, attempts: result.attempts, error: result.error });
+      return { success: false, error: result.error };
+    }
+
+    const marked = this.markGamePaid(gameId, result.txSignature);
+    if (!marked.success) {
+      return { success: false, error: marked.error };
+    }
+    return { success: true, signature: result.txSignature };
+  }
+
+  private calculatePayouts(gameId: string, prizePoolLamports: number): PayoutShare[] {
+    const standings = this.config.gameManager.getStandings(gameId) ?? [];
+    const bots = this.config.gameManager.getGameStatus(gameId)?.bots ?? [];
+    return allocatePayouts(prizePoolLamports, excludeBots(standings, bots), this.config.payoutTiersBps);
+  }
+
+  // ===========================================================================
+  // Persistence
+  // ===========================================================================
+
+  /**
+   * Load the stored state after a restart and reconcile waiting games with
+   * the chain. Run after GameManager.restoreGames() and before start().
+   *
+   * Every credited buy-in of a waiting game is verified on-chain again: a player whose buy-in verifies but is missing from the game is
+   * added back, and a buy-in that no longer verifies is dropped along with
+   * its player. Buy-ins that cannot be checked are kept. Games no longer
+   * waiting stop being pending; a lobby paused before it started is kept. Paid games, forfeits and refunds come back
+   * as stored, so nothing is credited or paid twice.
+   * @throws Error if no storage was configured
+   */
+  async restore(): Promise<OrchestratorRestoreResult> {
+    const storage = this.config.storage;
+    if (!storage) {
+      throw new Error('No storage configured');
+    }
+
+    const result: OrchestratorRestoreResult = { pendingGames: [], rejoined: [], dropped: [], unverified: [] };
+    const state = await storage.loadState();
+    if (!state) {
+      return result;
+    }
+
+    for (const record of state.buyIns) {
+      this.buyIns.set(record.txSignature, record);
+    }
+    for (const { gameId, ...paid } of state.paidGames) {
+      this.paidGames.set(gameId, paid);
+    }
+    for (const { gameId, wallets } of state.forfeitedBuyIns) {
+      this.forfeitedBuyIns.set(gameId, wallets);
+    }
+    for (const { gameId, refunds } of state.pendingRefunds) {
+      // Refunds stored before statuses were tracked are still owed
+      this.pendingRefunds.set(
+        gameId,
+        refunds.map(refund => ({ ...refund, status: refund.status ?? 'pending', txSignature: refund.txSignature ?? null }))
+      );
+    }
+    for (const { confirmedPlayers, ...stored } of state.pendingGames) {
+      this.pendingGames.set(stored.gameId, {
+        ...stored,
+        confirmedPlayers: new Map(confirmedPlayers.map(c => [c.wallet, c.txSignature])),
+      });
+    }
+
+    for (const [gameId, pending] of this.pendingGames) {
+      const status = this.config.gameManager.getGameStatus(gameId);
+      if (!status || (status.status !== 'waiting' && !isPausedLobby(status))) {
+        this.pendingGames.delete(gameId);
+        continue;
+      }
+      result.pendingGames.push(gameId);
+      await this.reconcileBuyIns(pending, status.players, result);
+    }
+
+    this.persist();
+    return result;
+  }
+
+  /**
+   * Wait until every change so far has been written to storage.
+   * @throws the first storage error since the last flush
+   */
+  flush(): Promise<void> {
+    return this.writes.flush();
+  }
+
+  private async reconcileBuyIns(
+    pending: PendingGame,
+    players: readonly string[],
+    result: OrchestratorRestoreResult
+  ): Promise<void> {
+    const { gameId } = pending;
+
+    for (const [wallet, txSignature] of Array.from(pending.confirmedPlayers)) {
+      const record = this.buyIns.get(txSignature) ?? { txSignature, gameId, wallet, teamId: null };
+
+      // Age is not checked again: the buy-in was recent when credited
+      const verified = await this.buyInVerifier.verify({
+        txSignature,
+        gameId,
+        playerWallet: wallet,
+        notBefore: pending.createdAt,
+        maxAgeSeconds: Infinity,
+      });
+
+      if (verified.reason === 'rpc_error') {
+        result.unverified.push(record);
+        continue;
+      }
+
+      if (!verified.success) {
+        this.buyIns.delete(txSignature);
+        pending.confirmedPlayers.delete(wallet);
+        if (players.includes(wallet)) {
+          this.config.gameManager.removePlayer(gameId, wallet);
+        }
+        result.dropped.push({ ...record, error: verified.error! });
+        this.emit('buy_in_dropped', { gameId, playerWallet: wallet, txSignature, error: verified.error });
+        console.warn(`Game ${gameId}: dropped buy-in ${txSignature} from ${wallet} (${verified.error})`);
+        continue;
+      }
+
+      if (!players.includes(wallet)) {
+        const joined = this.config.gameManager.joinGame(gameId, wallet, record.teamId ?? undefined);
+        if (joined.success) {
+          result.rejoined.push(record);
+        } else {
+          console.error(`Game ${gameId}: failed to re-add ${wallet} after restart:`, joined.error);
+        }
+      }
+    }
+  }
+
+  private persist(): void {
+    const storage = this.config.storage;
+    if (!storage) {
+      return;
+    }
+
+    const state: OrchestratorState = {
+      pendingGames: Array.from(this.pendingGames.values(), pending => ({
+        gameId: pending.gameId,
+        tweetId: pending.tweetId,
+        createdAt: pending.createdAt,
+        fillDeadline: pending.fillDeadline,
+        houseBotFillTo: pending.houseBotFillTo,
+        confirmedPlayers: Array.from(pending.confirmedPlayers, ([wallet, txSignature]) => ({ wallet, txSignature })),
+      })),
+      buyIns: Array.from(this.buyIns.values(), record => ({ ...record })),
+      paidGames: Array.from(this.paidGames, ([gameId, paid]) => ({ gameId, ...paid })),
+      forfeitedBuyIns: Array.from(this.forfeitedBuyIns, ([gameId, wallets]) => ({ gameId, wallets: [...wallets] })),
+      pendingRefunds: Array.from(this.pendingRefunds, ([gameId, refunds]) => ({
+        gameId,
+        refunds: refunds.map(refund => ({ ...refund })),
+      })),
+    };
+    this.writes.write(() => storage.saveState(state));
+  }
+
   // ===========================================================================
   // Event Listeners
   // ===========================================================================
@@ -469,8 +1202,20 @@ export class GameOrchestrator extends EventEmitter {
       const { gameId, winner } = event;
       console.log(`Game ${gameId} complete, winner: ${winner}`);
 
-      // Process payout
-      await this.processWinnerPayout(gameId, winner);
+      // Process payout; nothing awaits this listener, so errors (e.g. from
+      // the audit log) must not escape as unhandled rejections
+      try {
+        await this.processWinnerPayout(gameId, winner);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Payout for game ${gameId} failed: ${message}`);
+        this.emit('payout_failed', { gameId, attempts: 0, error: message });
+      }
+    });
+
+    // When a game is cancelled, refund its buy-ins
+    this.config.gameManager.on('game_cancelled', (event) => {
+      this.refundCancelledGame(event.gameId, this.cancelReasons.get(event.gameId) ?? 'game_cancelled');
     });
   }
 
@@ -496,6 +1241,123 @@ export class GameOrchestrator extends EventEmitter {
   }
 }
 
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const BPS_DENOMINATOR = 10_000;
+
+/** Maximum number of paid placements (matches the on-chain recipient limit) */
+export const MAX_PAYOUT_TIERS = 10;
+
+/** Winner takes all */
+export const DEFAULT_PAYOUT_TIERS_BPS: readonly number[] = [BPS_DENOMINATOR];
+
+/**
+ * Validate payout tiers.
+ * @throws Error unless tiers are positive integers summing to 10000 bps
+ */
+export function validatePayoutTiers(tiersBps: readonly number[]): void {
+  if (tiersBps.length === 0 || tiersBps.length > MAX_PAYOUT_TIERS) {
+    throw new Error(`Payout tiers must have between 1 and ${MAX_PAYOUT_TIERS} entries`);
+  }
+  if (tiersBps.some(bps => !Number.isInteger(bps) || bps <= 0)) {
+    throw new Error('Payout tiers must be positive integer basis points');
+  }
+  const total = tiersBps.reduce((sum, bps) => sum + bps, 0);
+  if (total !== BPS_DENOMINATOR) {
+    throw new Error(`Payout tiers must sum to ${BPS_DENOMINATOR} bps, got ${total}`);
+  }
+}
+
+/**
+ * Split a prize pool evenly. Leftover lamports go one each to the first
+ * recipients so the shares always sum to the pool.
+ */
+export function splitPrizePool(
+  poolLamports: number,
+  wallets: readonly string[],
+  placement = 1
+): PayoutShare[] {
+  if (wallets.length === 0) {
+    return [];
+  }
+
+  const share = Math.floor(poolLamports / wallets.length);
+  const remainder = poolLamports - share * wallets.length;
+
+  return wallets.map((wallet, i) => ({
+    wallet,
+    lamports: share + (i < remainder ? 1 : 0),
+    placement,
+  }));
+}
+
+/**
+ * Divide a prize pool across the standings by tier. Tiers beyond the number
+ * of placements, and rounding dust, go to first place so the shares always
+ * sum to the pool.
+ */
+export function allocatePayouts(
+  poolLamports: number,
+  standings: readonly Standing[],
+  tiersBps: readonly number[]
+): PayoutShare[] {
+  const paid = standings.slice(0, tiersBps.length);
+  if (paid.length === 0) {
+    return [];
+  }
+
+  const amounts = paid.map((_, i) => Math.floor((poolLamports * tiersBps[i]) / BPS_DENOMINATOR));
+  amounts[0] = poolLamports - amounts.slice(1).reduce((sum, a) => sum + a, 0);
+
+  return paid.flatMap((standing, i) =>
+    splitPrizePool(amounts[i], standing.members ?? [standing.playerId], standing.placement)
+  );
+}
+
+/**
+ * Players who paid a buy-in (everyone but house bots).
+ */
+export function paidPlayerCount(status: { players: string[]; bots: string[] }): number {
+  return status.players.length - status.bots.length;
+}
+
+/**
+ * Drop house bots from the standings so they never receive a payout. Bots
+ * are removed from team member lists, and all-bot entries are dropped;
+ * placements are kept so payouts still report where each human finished.
+ */
+export function excludeBots(standings: readonly Standing[], bots: readonly string[]): Standing[] {
+  if (bots.length === 0) {
+    return [...standings];
+  }
+
+  const botSet = new Set(bots);
+  return standings.flatMap(standing => {
+    if (!standing.members) {
+      return botSet.has(standing.playerId) ? [] : [standing];
+    }
+    const members = standing.members.filter(m => !botSet.has(m));
+    return members.length > 0 ? [{ ...standing, members }] : [];
+  });
+}
+
+/**
+ * Whether a refund is still owed.
+ */
+function isUnsettled(refund: RefundRequest): boolean {
+  return refund.status === 'pending' || refund.status === 'failed';
+}
+
+/**
+ * Whether a game was paused while still waiting for players. It resumes as
+ * a waiting game, so it stays pending.
+ */
+function isPausedLobby(status: GameStatusResponse): boolean {
+  return status.status === 'paused' && status.startedAt === null;
+}
+
 // =============================================================================
 // Factory
 // =============================================================================
@@ -525,7 +1387,15 @@ export function createOrchestrator(
     defaultMaxPlayers: options?.defaultMaxPlayers ?? 10,
     autoStartOnFull: options?.autoStartOnFull ?? true,
     fillDeadlineMinutes: options?.fillDeadlineMinutes ?? 60,
+    buyInMaxAgeSeconds:
+      options?.buyInMaxAgeSeconds ??
+      parseInt(process.env.BUY_IN_MAX_AGE_SECONDS || String(DEFAULT_BUY_IN_MAX_AGE_SECONDS), 10),
+    payoutTiersBps: options?.payoutTiersBps ?? [...DEFAULT_PAYOUT_TIERS_BPS],
+    houseBotFillTo: options?.houseBotFillTo ?? parseInt(process.env.HOUSE_BOT_FILL_TO || '0', 10),
     autoCreateGames: options?.autoCreateGames ?? false,
     gameIntervalMinutes: options?.gameIntervalMinutes ?? 120,
+    storage: options?.storage,
+    payoutExecutor: options?.payoutExecutor,
+    refundExecutor: options?.refundExecutor,
   });
 }
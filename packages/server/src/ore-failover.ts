@@ -0,0 +1,462 @@
+// Battle Dinghy - ORE Source Failover
+//
+// Combines several ORE round sources (OreMonitorLive polling, OreMonitorLogs,
+// Helius webhooks via OreMonitorPush) into one OreMonitor.
+//
+// - Rounds are taken from the active source, the first healthy one in the
+//   configured order; the others are backups.
+// - Every source's rounds are de-duplicated by round number and proof. A
+//   source reporting a different result for a round already seen raises a
+//   'disagreement' event; the first result stands.
+// - A source that has not produced a round within the stall timeout is
+//   marked stalled. If the active source stalls or fails to start, the
+//   monitor fails over to the next healthy source and catches up on any
+//   rounds the backups saw in the meantime.
+// - Every status change emits 'health' with a snapshot for the admin panel.
+
+import { OreMonitor, OreRoundResult } from '@battle-dinghy/core';
+import { OreLogSource, OreMonitorLive, OreMonitorLogs } from './ore-integration.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface OreSource {
+  /** Name shown in health events, e.g. 'poll', 'logs', 'webhook' */
+  readonly name: string;
+  readonly monitor: OreMonitor;
+  /** Left running when the failover stops, for sources shared between games */
+  readonly shared?: boolean;
+}
+
+export type OreSourceStatus = 'starting' | 'healthy' | 'stalled' | 'down';
+
+export interface OreSourceHealth {
+  name: string;
+  status: OreSourceStatus;
+  /** True for the source rounds are currently taken from */
+  active: boolean;
+  lastRound: number | null;
+  lastRoundAt: number | null;
+  roundsSeen: number;
+  disagreements: number;
+  error?: string;
+}
+
+export interface OreRoundReport {
+  source: string;
+  winningBlock: number;
+  proof: string;
+}
+
+export interface OreDisagreement {
+  roundNumber: number;
+  /** The result that was seen first and stands */
+  accepted: OreRoundReport;
+  conflicting: OreRoundReport;
+}
+
+export interface OreFailoverEvent {
+  from: string;
+  to: string;
+  reason: 'stalled' | 'down';
+  at: number;
+}
+
+export interface OreFailoverOptions {
+  /** Time without a round after which a source counts as stalled (default 3 minutes) */
+  stallTimeoutMs?: number;
+  /** How often sources are checked for stalls (default 10 seconds) */
+  checkIntervalMs?: number;
+}
+
+interface SourceState {
+  source: OreSource;
+  status: OreSourceStatus;
+  lastRound: number | null;
+  lastRoundAt: number | null;
+  roundsSeen: number;
+  disagreements: number;
+  error?: string;
+  onRound: (result: OreRoundResult) => void;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_STALL_TIMEOUT_MS = 180_000; // ORE rounds settle about once a minute
+const DEFAULT_CHECK_INTERVAL_MS = 10_000;
+
+// Rounds remembered for de-duplication and catch-up
+const MAX_TRACKED_ROUNDS = 256;
+
+// =============================================================================
+// OreMonitorFailover
+// =============================================================================
+
+export class OreMonitorFailover extends OreMonitor {
+  private sources: SourceState[];
+  private activeIndex = 0;
+  private stallTimeoutMs: number;
+  private checkIntervalMs: number;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private startedAt = 0;
+  private seen: Map<number, { result: OreRoundResult; source: string }> = new Map();
+  private lastEmitted: number | null = null;
+  private roundHistory: OreRoundResult[] = [];
+
+  /**
+   * @param sources - In order of preference; the first is the initial active source
+   */
+  constructor(sources: readonly OreSource[], options: OreFailoverOptions = {}) {
+    super();
+    if (sources.length === 0) {
+      throw new Error('At least one ORE source is required');
+    }
+    if (new Set(sources.map(s => s.name)).size !== sources.length) {
+      throw new Error('ORE source names must be unique');
+    }
+
+    this.stallTimeoutMs = options.stallTimeoutMs ?? DEFAULT_STALL_TIMEOUT_MS;
+    this.checkIntervalMs = options.checkIntervalMs ?? DEFAULT_CHECK_INTERVAL_MS;
+    this.sources = sources.map(source => {
+      const state: SourceState = {
+        source,
+        status: 'starting',
+        lastRound: null,
+        lastRoundAt: null,
+        roundsSeen: 0,
+        disagreements: 0,
+        onRound: (result: OreRoundResult) => this.onSourceRound(state, result),
+      };
+      return state;
+    });
+  }
+
+  async start(): Promise<void> {
+    if (this._isRunning) return;
+    this._isRunning = true;
+    this.startedAt = Date.now();
+
+    for (const state of this.sources) {
+      state.source.monitor.on('round', state.onRound);
+    }
+
+    await Promise.all(
+      this.sources.map(async state => {
+        try {
+          await state.source.monitor.start();
+        } catch (error) {
+          state.status = 'down';
+          state.error = error instanceof Error ? error.message : String(error);
+        }
+      })
+    );
+
+    this.checkInterval = setInterval(() => this.checkSources(), this.checkIntervalMs);
+    this.failoverIfNeeded();
+    this.emitHealth();
+  }
+
+  stop(): void {
+    this._isRunning = false;
+
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+
+    for (const state of this.sources) {
+      state.source.monitor.off('round', state.onRound);
+      if (!state.source.shared) {
+        state.source.monitor.stop();
+      }
+    }
+
+    this.emit('stopped');
+  }
+
+  async getCurrentRound(): Promise<number> {
+    return this._currentRound;
+  }
+
+  waitForRound(target: number, timeoutMs = 300_000): Promise<OreRoundResult> {
+    return waitForRoundEvent(this, this.roundHistory, target, timeoutMs);
+  }
+
+  /**
+   * Get the history of all emitted rounds.
+   */
+  getHistory(): readonly OreRoundResult[] {
+    return [...this.roundHistory];
+  }
+
+  /**
+   * Name of the source rounds are currently taken from.
+   */
+  getActiveSource(): string {
+    return this.sources[this.activeIndex].source.name;
+  }
+
+  /**
+   * Health snapshot of every source.
+   */
+  getHealth(): OreSourceHealth[] {
+    return this.sources.map((state, index) => ({
+      name: state.source.name,
+      status: state.status,
+      active: index === this.activeIndex,
+      lastRound: state.lastRound,
+      lastRoundAt: state.lastRoundAt,
+      roundsSeen: state.roundsSeen,
+      disagreements: state.disagreements,
+      ...(state.error ? { error: state.error } : {}),
+    }));
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private onSourceRound(state: SourceState, result: OreRoundResult): void {
+    if (!this._isRunning) return;
+
+    if (!Number.isInteger(result.roundNumber) || result.roundNumber < 1) {
+      console.warn(`ORE source ${state.source.name} sent a round without a round number, ignoring`);
+      return;
+    }
+
+    const wasHealthy = state.status === 'healthy';
+    state.status = 'healthy';
+    delete state.error;
+    state.lastRound = Math.max(state.lastRound ?? 0, result.roundNumber);
+    state.lastRoundAt = Date.now();
+    state.roundsSeen++;
+
+    const existing = this.seen.get(result.roundNumber);
+    let healthChanged = !wasHealthy;
+    if (!existing) {
+      this.seen.set(result.roundNumber, { result, source: state.source.name });
+      this.pruneSeen();
+    } else if (existing.result.proof !== result.proof || existing.result.winningBlock !== result.winningBlock) {
+      state.disagreements++;
+      healthChanged = true;
+      const disagreement: OreDisagreement = {
+        roundNumber: result.roundNumber,
+        accepted: { source: existing.source, winningBlock: existing.result.winningBlock, proof: existing.result.proof },
+        conflicting: { source: state.source.name, winningBlock: result.winningBlock, proof: result.proof },
+      };
+      console.warn(`ORE sources disagree on round ${result.roundNumber}: ${existing.source} and ${state.source.name}`);
+      this.emit('disagreement', disagreement);
+    }
+
+    // Rounds a backup saw first are emitted once the active source reaches them
+    if (this.sources[this.activeIndex] === state) {
+      this.emitThrough(result.roundNumber);
+    } else if (this.failoverIfNeeded()) {
+      return;
+    }
+
+    if (healthChanged) {
+      this.emitHealth();
+    }
+  }
+
+  /**
+   * Emit every seen round after the last emitted one, up to `roundNumber`.
+   */
+  private emitThrough(roundNumber: number): void {
+    const from = this.lastEmitted === null ? roundNumber : this.lastEmitted + 1;
+
+    for (let n = from; n <= roundNumber; n++) {
+      const entry = this.seen.get(n);
+      if (!entry) continue;
+
+      this.lastEmitted = n;
+      this._currentRound = n;
+      this.roundHistory.push(entry.result);
+      this.emit('round', entry.result);
+    }
+  }
+
+  private checkSources(): void {
+    const now = Date.now();
+    let changed = false;
+
+    for (const state of this.sources) {
+      const since = state.lastRoundAt ?? this.startedAt;
+      if ((state.status === 'healthy' || state.status === 'starting') && now - since > this.stallTimeoutMs) {
+        state.status = 'stalled';
+        changed = true;
+      }
+    }
+
+    if (!this.failoverIfNeeded() && changed) {
+      this.emitHealth();
+    }
+  }
+
+  /**
+   * Switch to the first healthy source if the active one is stalled or down.
+   * @returns True if the active source changed (health was emitted)
+   */
+  private failoverIfNeeded(): boolean {
+    const active = this.sources[this.activeIndex];
+    if (active.status !== 'stalled' && active.status !== 'down') {
+      return false;
+    }
+
+    const nextIndex = this.sources.findIndex(s => s.status === 'healthy');
+    if (nextIndex === -1) {
+      return false;
+    }
+
+    const next = this.sources[nextIndex];
+    const event: OreFailoverEvent = {
+      from: active.source.name,
+      to: next.source.name,
+      reason: active.status,
+      at: Date.now(),
+    };
+    this.activeIndex = nextIndex;
+
+    console.warn(`ORE source failover: ${event.from} -> ${event.to} (${event.reason})`);
+    this.emit('failover', event);
+
+    // Catch up on rounds the new source saw while the old one was stalled
+    if (next.lastRound !== null) {
+      this.emitThrough(next.lastRound);
+    }
+    this.emitHealth();
+    return true;
+  }
+
+  private pruneSeen(): void {
+    if (this.seen.size <= MAX_TRACKED_ROUNDS) return;
+
+    const oldest = Array.from(this.seen.keys()).sort((a, b) => a - b);
+    for (const roundNumber of oldest.slice(0, this.seen.size - MAX_TRACKED_ROUNDS)) {
+      this.seen.delete(roundNumber);
+    }
+  }
+
+  private emitHealth(): void {
+    this.emit('health', this.getHealth());
+  }
+}
+
+// =============================================================================
+// OreMonitorPush
+// =============================================================================
+
+/**
+ * An ORE source fed by hand, e.g. from Helius webhooks:
+ *   const result = parseOreWebhook(payload);
+ *   if (result) webhookSource.push(result);
+ */
+export class OreMonitorPush extends OreMonitor {
+  private roundHistory: OreRoundResult[] = [];
+
+  async start(): Promise<void> {
+    this._isRunning = true;
+  }
+
+  stop(): void {
+    this._isRunning = false;
+    this.emit('stopped');
+  }
+
+  async getCurrentRound(): Promise<number> {
+    return this._currentRound;
+  }
+
+  waitForRound(target: number, timeoutMs = 300_000): Promise<OreRoundResult> {
+    return waitForRoundEvent(this, this.roundHistory, target, timeoutMs);
+  }
+
+  /**
+   * Emit a round. Ignored unless running, and for rounds without a round
+   * number or not after the last pushed round.
+   * @returns True if the round was emitted
+   */
+  push(result: OreRoundResult): boolean {
+    if (!this._isRunning || result.roundNumber < 1 || result.roundNumber <= this._currentRound) {
+      return false;
+    }
+
+    this._currentRound = result.roundNumber;
+    this.roundHistory.push(result);
+    this.emit('round', result);
+    return true;
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/**
+ * Create a failover monitor over the standard sources, in order of
+ * preference: log subscription, account polling, then Helius webhooks
+ * (when a shared push source fed by the webhook route is given).
+ */
+export function createOreFailoverMonitor(
+  connection: OreLogSource,
+  webhookSource?: OreMonitorPush,
+  options?: OreFailoverOptions & { pollIntervalMs?: number }
+): OreMonitorFailover {
+  const sources: OreSource[] = [
+    { name: 'logs', monitor: new OreMonitorLogs(connection) },
+    { name: 'poll', monitor: new OreMonitorLive(connection, options?.pollIntervalMs) },
+  ];
+  if (webhookSource) {
+    sources.push({ name: 'webhook', monitor: webhookSource, shared: true });
+  }
+  return new OreMonitorFailover(sources, options);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Resolve with a round from `history` or the monitor's next matching 'round'
+ * event. Rejects on timeout or when the monitor emits 'stopped'.
+ */
+function waitForRoundEvent(
+  monitor: OreMonitor,
+  history: readonly OreRoundResult[],
+  target: number,
+  timeoutMs: number
+): Promise<OreRoundResult> {
+  const existing = history.find(r => r.roundNumber === target);
+  if (existing) {
+    return Promise.resolve(existing);
+  }
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      monitor.off('round', onRound);
+      monitor.off('stopped', onStopped);
+      clearTimeout(timeout);
+    };
+    const onRound = (result: OreRoundResult) => {
+      if (result.roundNumber === target) {
+        cleanup();
+        resolve(result);
+      }
+    };
+    const onStopped = () => {
+      cleanup();
+      reject(new Error('Monitor stopped'));
+    };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timeout waiting for round ${target}`));
+    }, timeoutMs);
+
+    monitor.on('round', onRound);
+    monitor.on('stopped', onStopped);
+  });
+}
@@ -11,31 +11,207 @@ import { createHash } from 'crypto';
 // Constants
 // =============================================================================
 
-// ORE Program ID (mainnet)
-const ORE_PROGRAM_ID = new PublicKey('oreV2ZymfyeXgNgBdqMkumTqqAprVqgBWQfoYkrtKWQ');
+// ORE v3 program ID (mainnet)
+export const ORE_PROGRAM_ID = new PublicKey('oreV3EG1i9BEgiAJ8b177Z2S2rMarzak4NMv1kULvWv');
+
+// PDA seeds
+const BOARD_SEED = Buffer.from('board');
+const ROUND_SEED = Buffer.from('round');
+
+// Account sizes, including the 8-byte discriminator
+const BOARD_ACCOUNT_SIZE = 32;
+const ROUND_ACCOUNT_SIZE = 560;
+
+const ORE_SQUARES = 25;
 
 // Poll interval for checking ORE state
 const DEFAULT_POLL_INTERVAL_MS = 60_000; // 1 minute
 
+// =============================================================================
+// ORE Accounts
+// =============================================================================
+
+/**
+ * ORE Board account (singleton): the round currently being mined
+ */
+export interface OreBoardAccount {
+  roundId: number;
+  startSlot: number;
+  endSlot: number;
+}
+
+/**
+ * ORE Round account, one per round. `slotHash` is all zeros until the round
+ * is reset, and all 0xff if no slot hash was available (no winner).
+ */
+export interface OreRoundAccount {
+  id: number;
+  deployed: bigint[]; // lamports per square
+  slotHash: Buffer;
+  count: bigint[]; // miners per square
+  expiresAt: number; // slot
+  motherlode: bigint;
+  totalDeployed: bigint;
+  totalVaulted: bigint;
+  totalWinnings: bigint;
+}
+
+/**
+ * The ORE accounts the monitor reads; a Connection or a fixture-backed fake.
+ */
+export type OreAccountSource = Pick<Connection, 'getAccountInfo'>;
+
+/**
+ * Get the board PDA (singleton account)
+ */
+export function getBoardPda(programId: PublicKey = ORE_PROGRAM_ID): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync([BOARD_SEED], programId);
+}
+
+/**
+ * Get the round PDA for a given round ID
+ */
+export function getRoundPda(roundId: number, programId: PublicKey = ORE_PROGRAM_ID): [PublicKey, number] {
+  const roundIdBuffer = Buffer.alloc(8);
+  roundIdBuffer.writeBigUInt64LE(BigInt(roundId));
+  return PublicKey.findProgramAddressSync([ROUND_SEED, roundIdBuffer], programId);
+}
+
+/**
+ * Decode Board account data.
+ * Layout: discriminator (8) | round_id u64 | start_slot u64 | end_slot u64
+ */
+export function decodeBoardAccount(data: Buffer): OreBoardAccount {
+  if (data.length < BOARD_ACCOUNT_SIZE) {
+    throw new Error(`Board account data too short (${data.length} bytes)`);
+  }
+  return {
+    roundId: Number(data.readBigUInt64LE(8)),
+    startSlot: Number(data.readBigUInt64LE(16)),
+    endSlot: Number(data.readBigUInt64LE(24)),
+  };
+}
+
+/**
+ * Decode Round account data.
+ * Layout: discriminator (8) | id u64 | deployed [u64; 25] | slot_hash [u8; 32]
+ *   | count [u64; 25] | expires_at u64 | motherlode u64 | rent_payer Pubkey
+ *   | top_miner Pubkey | top_miner_reward u64 | total_deployed u64
+ *   | total_vaulted u64 | total_winnings u64
+ */
+export function decodeRoundAccount(data: Buffer): OreRoundAccount {
+  if (data.length < ROUND_ACCOUNT_SIZE) {
+    throw new Error(`Round account data too short (${data.length} bytes)`);
+  }
+
+  let offset = 8;
+  const u64 = (): bigint => {
+    const value = data.readBigUInt64LE(offset);
+    offset += 8;
+    return value;
+  };
+  const squares = (): bigint[] => Array.from({ length: ORE_SQUARES }, u64);
+
+  const id = Number(u64());
+  const deployed = squares();
+  const slotHash = Buffer.from(data.subarray(offset, offset + 32));
+  offset += 32;
+  const count = squares();
+  const expiresAt = Number(u64());
+  const motherlode = u64();
+  offset += 64; // rent_payer, top_miner
+  u64(); // top_miner_reward
+
+  return {
+    id,
+    deployed,
+    slotHash,
+    count,
+    expiresAt,
+    motherlode,
+    totalDeployed: u64(),
+    totalVaulted: u64(),
+    totalWinnings: u64(),
+  };
+}
+
+function isSlotHashPending(slotHash: Buffer): boolean {
+  return slotHash.every(b => b === 0);
+}
+
+/**
+ * The round's random value, as computed by the ORE program: the slot hash
+ * folded into a u64 by XOR of its four little-endian words. Null until the
+ * slot hash is set, or if the round had none.
+ */
+export function getRoundRng(round: OreRoundAccount): bigint | null {
+  if (isSlotHashPending(round.slotHash) || round.slotHash.every(b => b === 0xff)) {
+    return null;
+  }
+  let rng = 0n;
+  for (let offset = 0; offset < 32; offset += 8) {
+    rng ^= round.slotHash.readBigUInt64LE(offset);
+  }
+  return rng;
+}
+
+/**
+ * Winning square (0-24) of a settled round, or null if not settled.
+ * ORE squares are numbered row-major like grid cells.
+ */
+export function getWinningSquare(round: OreRoundAccount): number | null {
+  const rng = getRoundRng(round);
+  return rng === null ? null : Number(rng % BigInt(ORE_SQUARES));
+}
+
+/**
+ * Round result for a settled round, with the slot hash as proof.
+ */
+export function toOreRoundResult(round: OreRoundAccount, timestamp = Date.now()): OreRoundResult | null {
+  const winningBlock = getWinningSquare(round);
+  if (winningBlock === null) {
+    return null;
+  }
+  return {
+    roundNumber: round.id,
+    winningBlock: winningBlock % TOTAL_CELLS,
+    timestamp,
+    proof: round.slotHash.toString('hex'),
+  };
+}
+
 // =============================================================================
 // OreMonitorLive
 // =============================================================================
 
 /**
- * Live implementation of OreMonitor that connects to actual ORE mining.
- * Polls the ORE program state and emits rounds based on mining progress.
+ * Live implementation of OreMonitor that reads the ORE board and round
+ * accounts. Round results carry the ORE round id, the winning square and
+ * the round's slot hash.
+ *
+ * Rounds before the board's current round have finished. The monitor starts
+ * at the most recent finished round and emits each later one in order once
+ * its slot hash is set.
  */
 export class OreMonitorLive extends OreMonitor {
-  private connection: Connection;
+  protected connection: OreAccountSource;
+  protected programId: PublicKey;
   private pollIntervalMs: number;
   private pollInterval: NodeJS.Timeout | null = null;
-  private lastProcessedHash: string | null = null;
+  private nextRoundId: number | null = null;
   private roundHistory: OreRoundResult[] = [];
-
-  constructor(connection: Connection, pollIntervalMs = DEFAULT_POLL_INTERVAL_MS) {
+  private polling = false;
+  private pollAgain = false;
+
+  constructor(
+    connection: OreAccountSource,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    programId: PublicKey = ORE_PROGRAM_ID
+  ) {
     super();
     this.connection = connection;
     this.pollIntervalMs = pollIntervalMs;
+    this.programId = programId;
   }
 
   async start(): Promise<void> {
@@ -72,6 +248,13 @@ export class OreMonitorLive extends OreMonitor {
     return this._currentRound;
   }
 
+  /**
+   * Get the history of all emitted rounds.
+   */
+  getHistory(): readonly OreRoundResult[] {
+    return [...this.roundHistory];
+  }
+
   async waitForRound(target: number, timeoutMs = 300_000): Promise<OreRoundResult> {
     // Check if we already have this round
     const existing = this.roundHistory.find(r => r.roundNumber === target);
@@ -102,54 +285,143 @@ export class OreMonitorLive extends OreMonitor {
   // Private Methods
   // ===========================================================================
 
-  private async pollOreState(): Promise<void> {
-    try {
-      // Get ORE treasury/proof accounts to find latest mining result
-      // This is a simplified version - real implementation would parse ORE account data
+  /**
+   * Read the board and emit newly settled rounds. Calls made while a poll is
+   * running are folded into one more poll afterwards.
+   */
+  protected async pollOreState(): Promise<void> {
+    if (this.polling) {
+      this.pollAgain = true;
+      return;
+    }
 
-      const accounts = await this.connection.getProgramAccounts(ORE_PROGRAM_ID, {
-        commitment: 'confirmed',
-        dataSlice: { offset: 0, length: 64 }, // Get first 64 bytes for hash
-      });
+    this.polling = true;
+    try {
+      do {
+        this.pollAgain = false;
+        await this.readSettledRounds();
+      } while (this.pollAgain && this._isRunning);
+    } finally {
+      this.polling = false;
+    }
+  }
 
-      if (accounts.length === 0) {
+  private async readSettledRounds(): Promise<void> {
+    try {
+      const board = await this.fetchBoard();
+      if (!board) {
         return;
       }
 
-      // Find the most recent proof (in practice, you'd parse the actual ORE data structure)
-      // For now, we use account data to derive randomness
-      const latestAccount = accounts[0];
-      const dataHash = createHash('sha256')
-        .update(latestAccount.account.data)
-        .digest('hex');
+      const latestFinished = board.roundId - 1;
+      this.nextRoundId ??= latestFinished;
 
-      // Skip if we've already processed this
-      if (dataHash === this.lastProcessedHash) {
-        return;
+      for (let roundId = this.nextRoundId; roundId <= latestFinished; roundId++) {
+        const round = await this.fetchRound(roundId);
+
+        if (!round) {
+          // Old round accounts are closed by the program
+          console.warn(`ORE round ${roundId} account not found, skipping`);
+        } else if (isSlotHashPending(round.slotHash)) {
+          // Not reset yet; try again next poll
+          return;
+        } else {
+          const result = toOreRoundResult(round);
+          if (result) {
+            this.recordRound(result);
+          } else {
+            console.warn(`ORE round ${roundId} has no slot hash, skipping`);
+          }
+        }
+
+        this.nextRoundId = roundId + 1;
       }
+    } catch (error) {
+      console.error('Error polling ORE state:', error);
+    }
+  }
 
-      this.lastProcessedHash = dataHash;
-      this._currentRound++;
+  private async fetchBoard(): Promise<OreBoardAccount | null> {
+    const [boardPda] = getBoardPda(this.programId);
+    const account = await this.connection.getAccountInfo(boardPda, 'confirmed');
+    return account ? decodeBoardAccount(account.data) : null;
+  }
 
-      // Derive winning block from hash (use first 4 bytes as uint32, mod TOTAL_CELLS)
-      const hashBuffer = Buffer.from(dataHash, 'hex');
-      const randomValue = hashBuffer.readUInt32BE(0);
-      const winningBlock = randomValue % TOTAL_CELLS;
+  private async fetchRound(roundId: number): Promise<OreRoundAccount | null> {
+    const [roundPda] = getRoundPda(roundId, this.programId);
+    const account = await this.connection.getAccountInfo(roundPda, 'confirmed');
+    if (!account) {
+      return null;
+    }
 
-      const result: OreRoundResult = {
-        roundNumber: this._currentRound,
-        winningBlock,
-        timestamp: Date.now(),
-        proof: dataHash,
-      };
+    const round = decodeRoundAccount(account.data);
+    if (round.id !== roundId) {
+      throw new Error(`Round account ${roundPda.toBase58()} holds round ${round.id}, expected ${roundId}`);
+    }
+    return round;
+  }
 
-      this.roundHistory.push(result);
-      this.emit('round', result);
+  private recordRound(result: OreRoundResult): void {
+    this._currentRound = result.roundNumber;
+    this.roundHistory.push(result);
+    this.emit('round', result);
 
-      console.log(`ORE Round ${this._currentRound}: Block ${winningBlock}, Proof: ${dataHash.slice(0, 16)}...`);
-    } catch (error) {
-      console.error('Error polling ORE state:', error);
+    console.log(
+      `ORE Round ${result.roundNumber}: Block ${result.winningBlock}, Slot hash: ${result.proof.slice(0, 16)}...`
+    );
+  }
+}
+
+// =============================================================================
+// OreMonitorLogs
+// =============================================================================
+
+/**
+ * Connection methods used by OreMonitorLogs
+ */
+export type OreLogSource = OreAccountSource & Pick<Connection, 'onLogs' | 'removeOnLogsListener'>;
+
+/**
+ * OreMonitorLive driven by the ORE program's log subscription instead of a
+ * timer: every program log notification triggers a read of the board and
+ * round accounts, so rounds arrive as soon as they settle.
+ */
+export class OreMonitorLogs extends OreMonitorLive {
+  private logSource: OreLogSource;
+  private subscriptionId: number | null = null;
+
+  constructor(connection: OreLogSource, programId: PublicKey = ORE_PROGRAM_ID) {
+    super(connection, DEFAULT_POLL_INTERVAL_MS, programId);
+    this.logSource = connection;
+  }
+
+  async start(): Promise<void> {
+    if (this._isRunning) return;
+    this._isRunning = true;
+
+    await this.pollOreState();
+    this.subscriptionId = this.logSource.onLogs(
+      this.programId,
+      () => {
+        void this.pollOreState();
+      },
+      'confirmed'
+    );
+
+    console.log(`ORE log monitor started with subscription ID: ${this.subscriptionId}`);
+  }
+
+  stop(): void {
+    this._isRunning = false;
+
+    if (this.subscriptionId !== null) {
+      this.logSource.removeOnLogsListener(this.subscriptionId).catch(error => {
+        console.error('Error removing ORE log subscription:', error);
+      });
+      this.subscriptionId = null;
     }
+
+    console.log('ORE log monitor stopped');
   }
 }
 
@@ -204,6 +476,18 @@ export function parseOreWebhook(payload: HeliusWebhookPayload): OreRoundResult |
     return null;
   }
 
+  // Prefer a settled Round account carried in the payload: real round id and slot hash
+  for (const { account, data } of payload.accountData ?? []) {
+    const bytes = data ? Buffer.from(data, 'base64') : null;
+    if (!bytes || bytes.length < ROUND_ACCOUNT_SIZE) continue;
+
+    const round = decodeRoundAccount(bytes);
+    if (getRoundPda(round.id)[0].toBase58() !== account) continue;
+
+    const result = toOreRoundResult(round, payload.timestamp * 1000);
+    if (result) return result;
+  }
+
   // Derive randomness from transaction signature
   const hash = createHash('sha256')
     .update(payload.signature)
@@ -214,7 +498,7 @@ export function parseOreWebhook(payload: HeliusWebhookPayload): OreRoundResult |
   const winningBlock = randomValue % TOTAL_CELLS;
 
   return {
-    roundNumber: 0, // Will be set by the game engine
+    roundNumber: 0, // Unknown; will be set by the game engine
     winningBlock,
     timestamp: payload.timestamp * 1000,
     proof: payload.signature,
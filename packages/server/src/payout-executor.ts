@@ -0,0 +1,532 @@
+// Battle Dinghy - Payout Executor
+//
+// Opt-in automation of winner payouts. The executor sends a game's payout
+// shares with a PayoutSender, either plain transfers from the escrow wallet
+// or `declare_winners` on the Battle Dinghy program, retrying with
+// exponential backoff. Every attempt and its signature is appended to an
+// audit log, which is also consulted before sending so a game is never paid
+// twice: a confirmed attempt ends the payout, and an attempt whose outcome
+// is unknown is checked again before anything new is sent.
+//
+// Only transfers can be configured (PAYOUT_MODE=transfer): buy-ins are paid
+// to the escrow wallet, so games have no program escrow for the program
+// senders to settle yet.
+
+import { EventEmitter } from 'events';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import { createHash } from 'crypto';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { BATTLE_DINGHY_PROGRAM_ID, BattleDinghyProgram, parseBattleDinghyError } from './battle-dinghy-program.js';
+import type { PayoutShare } from './orchestrator.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How payouts are sent
+ * - `transfer`: System Program transfers signed by the escrow wallet
+ * - `declare_winners`: the program splits the game's escrow PDA
+ * - `cancel_game`: the program cancels the game's escrow PDA, so players
+ *   reclaim their buy-ins with `claim_refund`
+ */
+export type PayoutMethod = 'transfer' | 'declare_winners' | 'cancel_game';
+
+export interface PayoutRequest {
+  gameId: string;
+  payouts: PayoutShare[];
+  /** Game seed, committed to in the on-chain proof hash */
+  seed: Uint8Array;
+}
+
+/**
+ * Outcome of confirming a sent payout. `confirmed: false` means the
+ * transaction can no longer land (failed or expired), so resending is safe.
+ */
+export interface PayoutConfirmation {
+  confirmed: boolean;
+  error?: string;
+}
+
+/**
+ * A submitted payout transaction and the blockhash it can land with
+ */
+export interface SentPayout {
+  signature: string;
+  blockhash: string;
+  lastValidBlockHeight: number;
+}
+
+/**
+ * Thrown by PayoutSender.send when submitting a signed transaction failed.
+ * The node may have accepted it before the error, so it is confirmed (or
+ * left to expire) before anything is sent again.
+ */
+export class PayoutSubmitError extends Error {
+  constructor(
+    message: string,
+    readonly sent: SentPayout
+  ) {
+    super(message);
+    this.name = 'PayoutSubmitError';
+  }
+}
+
+/**
+ * Sends payout transactions. send() throws a PayoutSubmitError once the
+ * transaction is signed; confirm() throws when the outcome is unknown.
+ */
+export interface PayoutSender {
+  readonly method: PayoutMethod;
+  /** Sign and submit the payout */
+  send(request: PayoutRequest): Promise<SentPayout>;
+  confirm(sent: SentPayout): Promise<PayoutConfirmation>;
+}
+
+/**
+ * Audit log status of an attempt
+ * - `confirmed`: the payout landed
+ * - `failed`: nothing was paid; safe to send again
+ * - `unconfirmed`: sent, but whether it landed is unknown
+ */
+export type PayoutAttemptStatus = 'confirmed' | 'failed' | 'unconfirmed';
+
+export interface PayoutAttempt {
+  gameId: string;
+  /** 1-based attempt number within this execution */
+  attempt: number;
+  method: PayoutMethod;
+  payouts: PayoutShare[];
+  status: PayoutAttemptStatus;
+  txSignature: string | null;
+  /** Blockhash the transaction was signed with, to confirm it later */
+  blockhash: string | null;
+  lastValidBlockHeight: number | null;
+  error: string | null;
+  at: number;
+}
+
+/**
+ * Append-only record of payout attempts.
+ */
+export interface PayoutAuditLog {
+  append(attempt: PayoutAttempt): Promise<void>;
+  /** Attempts in the order they were appended, optionally for one game */
+  list(gameId?: string): Promise<PayoutAttempt[]>;
+}
+
+export interface PayoutExecutorOptions {
+  /** Attempts before giving up (default 5) */
+  maxAttempts?: number;
+  /** Delay after the first failed attempt, doubled after each (default 5 s) */
+  baseDelayMs?: number;
+  /** Longest delay between attempts (default 5 min) */
+  maxDelayMs?: number;
+}
+
+export interface PayoutExecutionResult {
+  success: boolean;
+  txSignature?: string;
+  attempts: number;
+  error?: string;
+}
+
+// =============================================================================
+// Audit Logs
+// =============================================================================
+
+/**
+ * Audit log kept in process memory.
+ */
+export class MemoryPayoutAuditLog implements PayoutAuditLog {
+  private attempts: PayoutAttempt[] = [];
+
+  async append(attempt: PayoutAttempt): Promise<void> {
+    this.attempts.push(structuredClone(attempt));
+  }
+
+  async list(gameId?: string): Promise<PayoutAttempt[]> {
+    return this.attempts.filter(a => gameId === undefined || a.gameId === gameId).map(a => structuredClone(a));
+  }
+}
+
+/**
+ * Audit log as a JSONL file, one attempt per line.
+ */
+export class FilePayoutAuditLog implements PayoutAuditLog {
+  constructor(private readonly path: string) {}
+
+  async append(attempt: PayoutAttempt): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, `${JSON.stringify(attempt)}\n`);
+  }
+
+  async list(gameId?: string): Promise<PayoutAttempt[]> {
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as PayoutAttempt)
+      .filter(a => gameId === undefined || a.gameId === gameId);
+  }
+}
+
+// =============================================================================
+// Executor
+// =============================================================================
+
+/**
+ * Sends payouts with retries and records each attempt. Emits 'attempt'
+ * with every PayoutAttempt logged.
+ */
+export class PayoutExecutor extends EventEmitter {
+  private readonly options: Required<PayoutExecutorOptions>;
+  private inFlight: Set<string> = new Set();
+
+  constructor(
+    private readonly sender: PayoutSender,
+    private readonly auditLog: PayoutAuditLog,
+    options: PayoutExecutorOptions = {}
+  ) {
+    super();
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 5,
+      baseDelayMs: options.baseDelayMs ?? 5_000,
+      maxDelayMs: options.maxDelayMs ?? 300_000,
+    };
+  }
+
+  get method(): PayoutMethod {
+    return this.sender.method;
+  }
+
+  /**
+   * Pay out a game. Resolves once the payout is confirmed or every attempt
+   * failed; a game whose payout is already confirmed in the audit log is
+   * not paid again.
+   */
+  async execute(request: PayoutRequest): Promise<PayoutExecutionResult> {
+    const { gameId } = request;
+    if (this.inFlight.has(gameId)) {
+      return { success: false, attempts: 0, error: 'Payout already in progress' };
+    }
+    this.inFlight.add(gameId);
+
+    try {
+      const history = await this.auditLog.list(gameId);
+      const confirmed = history.find(a => a.status === 'confirmed');
+      if (confirmed) {
+        return { success: true, txSignature: confirmed.txSignature!, attempts: 0 };
+      }
+
+      // A previous run may have sent a payout that landed after all
+      const last = history[history.length - 1];
+      let unconfirmed: SentPayout | null =
+        last?.status === 'unconfirmed'
+          ? { signature: last.txSignature!, blockhash: last.blockhash!, lastValidBlockHeight: last.lastValidBlockHeight! }
+          : null;
+      let error = 'No attempts made';
+
+      for (let attempt = 1; attempt <= this.options.maxAttempts; attempt++) {
+        if (attempt > 1) {
+          await delay(Math.min(this.options.baseDelayMs * 2 ** (attempt - 2), this.options.maxDelayMs));
+        }
+
+        let sent = unconfirmed;
+        try {
+          if (!sent) {
+            sent = await this.sender.send(request);
+          }
+          const confirmation = await this.sender.confirm(sent);
+          if (confirmation.confirmed) {
+            await this.record(request, attempt, 'confirmed', sent, null);
+            return { success: true, txSignature: sent.signature, attempts: attempt };
+          }
+          error = confirmation.error ?? 'Payout transaction failed';
+          unconfirmed = null;
+          await this.record(request, attempt, 'failed', sent, error);
+        } catch (e) {
+          error = e instanceof Error ? e.message : String(e);
+          if (!sent && e instanceof PayoutSubmitError) {
+            sent = e.sent;
+          }
+          // Once sent, the payout may still land: check it before resending
+          unconfirmed = sent;
+          await this.record(request, attempt, sent ? 'unconfirmed' : 'failed', sent, error);
+        }
+      }
+
+      return { success: false, attempts: this.options.maxAttempts, error };
+    } finally {
+      this.inFlight.delete(gameId);
+    }
+  }
+
+  isInFlight(gameId: string): boolean {
+    return this.inFlight.has(gameId);
+  }
+
+  /**
+   * Logged attempts, optionally for one game.
+   */
+  getAuditLog(gameId?: string): Promise<PayoutAttempt[]> {
+    return this.auditLog.list(gameId);
+  }
+
+  private async record(
+    request: PayoutRequest,
+    attempt: number,
+    status: PayoutAttemptStatus,
+    sent: SentPayout | null,
+    error: string | null
+  ): Promise<void> {
+    const entry: PayoutAttempt = {
+      gameId: request.gameId,
+      attempt,
+      method: this.sender.method,
+      payouts: request.payouts.map(p => ({ ...p })),
+      status,
+      txSignature: sent?.signature ?? null,
+      blockhash: sent?.blockhash ?? null,
+      lastValidBlockHeight: sent?.lastValidBlockHeight ?? null,
+      error,
+      at: Date.now(),
+    };
+    await this.auditLog.append(entry);
+    this.emit('attempt', entry);
+    if (status !== 'confirmed') {
+      console.warn(`Payout attempt ${attempt} for game ${request.gameId} ${status}: ${error}`);
+    }
+  }
+}
+
+// =============================================================================
+// Senders
+// =============================================================================
+
+/**
+ * Base for senders that submit one transaction and confirm it against the
+ * blockhash it was signed with.
+ */
+abstract class TransactionPayoutSender implements PayoutSender {
+  abstract readonly method: PayoutMethod;
+
+  constructor(
+    protected readonly connection: Connection,
+    protected readonly signer: Keypair
+  ) {}
+
+  protected abstract buildInstructions(request: PayoutRequest): TransactionInstruction[];
+
+  async send(request: PayoutRequest): Promise<SentPayout> {
+    const instructions = this.buildInstructions(request);
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    const transaction = new Transaction({ blockhash, lastValidBlockHeight, feePayer: this.signer.publicKey });
+    transaction.add(...instructions);
+    transaction.sign(this.signer);
+
+    // The signature is fixed by signing, so a send that errors after the
+    // node accepted the transaction can still be confirmed
+    const sent: SentPayout = { signature: bs58.encode(transaction.signature!), blockhash, lastValidBlockHeight };
+    try {
+      await this.connection.sendRawTransaction(transaction.serialize());
+    } catch (error) {
+      throw new PayoutSubmitError(error instanceof Error ? error.message : String(error), sent);
+    }
+    return sent;
+  }
+
+  async confirm(sent: SentPayout): Promise<PayoutConfirmation> {
+    try {
+      const { value } = await this.connection.confirmTransaction(sent, 'confirmed');
+      if (!value.err) {
+        return { confirmed: true };
+      }
+      return { confirmed: false, error: parseBattleDinghyError(value.err)?.message ?? JSON.stringify(value.err) };
+    } catch (error) {
+      if (error instanceof TransactionExpiredBlockheightExceededError) {
+        return { confirmed: false, error: 'Blockhash expired before confirmation' };
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Pays each share with a System Program transfer from the escrow wallet,
+ * all in one transaction.
+ */
+export class TransferPayoutSender extends TransactionPayoutSender {
+  readonly method = 'transfer' as const;
+
+  protected buildInstructions(request: PayoutRequest): TransactionInstruction[] {
+    return request.payouts.map(share =>
+      SystemProgram.transfer({
+        fromPubkey: this.signer.publicKey,
+        toPubkey: new PublicKey(share.wallet),
+        lamports: share.lamports,
+      })
+    );
+  }
+}
+
+/**
+ * Calls `declare_winners` on the Battle Dinghy program, signed by the game's
+ * operator. The program splits the escrow PDA by basis points, so shares are
+ * converted from lamports; rounding dust goes to the first recipient.
+ * Needs a game escrow created and funded through the program.
+ */
+export class DeclareWinnersPayoutSender extends TransactionPayoutSender {
+  readonly method = 'declare_winners' as const;
+  private readonly program: BattleDinghyProgram;
+
+  constructor(connection: Connection, operator: Keypair, programId: PublicKey = new PublicKey(BATTLE_DINGHY_PROGRAM_ID)) {
+    super(connection, operator);
+    this.program = new BattleDinghyProgram(programId);
+  }
+
+  protected buildInstructions(request: PayoutRequest): TransactionInstruction[] {
+    return [
+      this.program.declareWinners({
+        gameId: request.gameId,
+        operator: this.signer.publicKey,
+        recipients: request.payouts.map(share => new PublicKey(share.wallet)),
+        sharesBps: payoutSharesToBps(request.payouts),
+        proofHash: payoutProofHash(request),
+      }),
+    ];
+  }
+}
+
+/**
+ * Calls `cancel_game` on the Battle Dinghy program, signed by the game's
+ * operator. The payout shares are ignored: once the escrow is cancelled each
+ * player claims their own buy-in with `claim_refund`.
+ */
+export class CancelGamePayoutSender extends TransactionPayoutSender {
+  readonly method = 'cancel_game' as const;
+  private readonly program: BattleDinghyProgram;
+
+  constructor(connection: Connection, operator: Keypair, programId: PublicKey = new PublicKey(BATTLE_DINGHY_PROGRAM_ID)) {
+    super(connection, operator);
+    this.program = new BattleDinghyProgram(programId);
+  }
+
+  protected buildInstructions(request: PayoutRequest): TransactionInstruction[] {
+    return [this.program.cancelGame({ gameId: request.gameId, operator: this.signer.publicKey })];
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/**
+ * Payout settings from the environment: PAYOUT_MODE, the escrow wallet's
+ * secret key ESCROW_WALLET_SECRET (JSON array) and SOLANA_RPC. Null when
+ * payouts are manual (PAYOUT_MODE unset).
+ *
+ * Only `transfer` is offered: buy-ins are paid to the escrow wallet, so no
+ * game has a program escrow for `declare_winners` to pay out from.
+ * @throws Error if PAYOUT_MODE is invalid or the signing key is missing
+ */
+export function payoutEnvironment(): { connection: Connection; signer: Keypair } | null {
+  const mode = process.env.PAYOUT_MODE;
+  if (!mode) {
+    return null;
+  }
+  if (mode === 'declare_winners') {
+    throw new Error(
+      'PAYOUT_MODE=declare_winners is not supported: buy-ins are paid to the escrow wallet, not a program game escrow'
+    );
+  }
+  if (mode !== 'transfer') {
+    throw new Error(`Invalid PAYOUT_MODE: ${mode}`);
+  }
+
+  const secret = process.env.ESCROW_WALLET_SECRET;
+  if (!secret) {
+    throw new Error('ESCROW_WALLET_SECRET is required for automated payouts');
+  }
+
+  return {
+    connection: new Connection(process.env.SOLANA_RPC || 'https://api.mainnet-beta.solana.com', 'confirmed'),
+    signer: Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secret) as number[])),
+  };
+}
+
+/**
+ * Create the payout executor configured by the environment, or null when
+ * payouts are manual.
+ */
+export function createPayoutExecutor(
+  auditLog: PayoutAuditLog,
+  options?: PayoutExecutorOptions
+): PayoutExecutor | null {
+  const env = payoutEnvironment();
+  if (!env) {
+    return null;
+  }
+
+  return new PayoutExecutor(new TransferPayoutSender(env.connection, env.signer), auditLog, options);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const BPS_DENOMINATOR = 10_000;
+
+/**
+ * Convert lamport shares to basis points summing to 10000, dust to the
+ * first share.
+ * @throws Error if a share would round to 0 bps
+ */
+export function payoutSharesToBps(payouts: readonly PayoutShare[]): number[] {
+  const total = payouts.reduce((sum, p) => sum + p.lamports, 0);
+  if (payouts.length === 0 || total <= 0) {
+    throw new Error('No payout shares');
+  }
+
+  const bps = payouts.map(p => Math.floor((p.lamports * BPS_DENOMINATOR) / total));
+  bps[0] += BPS_DENOMINATOR - bps.reduce((sum, b) => sum + b, 0);
+  if (bps.some(b => b <= 0)) {
+    throw new Error('Payout share too small to express in basis points');
+  }
+  return bps;
+}
+
+/**
+ * Hash recorded on-chain with the winners: sha256 of the game id, seed and
+ * payout shares.
+ */
+export function payoutProofHash(request: PayoutRequest): Buffer {
+  return createHash('sha256')
+    .update(request.gameId)
+    .update(request.seed)
+    .update(JSON.stringify(request.payouts))
+    .digest();
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
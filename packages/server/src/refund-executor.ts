@@ -0,0 +1,149 @@
+// Battle Dinghy - Refund Executor
+//
+// Sends buy-ins back to players of cancelled games. Refunds go through a
+// PayoutExecutor, so they are retried with backoff and every attempt lands
+// in an audit log that is checked before anything is sent again.
+//
+// Methods:
+// - `transfer`: one System Program transfer per player from the escrow
+//   wallet, audited under `<gameId>/<wallet>`
+// - `claim_refund`: one `cancel_game` per game on the Battle Dinghy program;
+//   players then reclaim their buy-in from the escrow PDA with `claim_refund`.
+//   Only games whose buy-ins the program escrow holds are refunded this way;
+//   the others, and `missing_reveal` refunds of games that go on, are sent
+//   by transfer.
+
+import {
+  PayoutAttempt,
+  PayoutAuditLog,
+  PayoutExecutor,
+  PayoutExecutorOptions,
+  TransferPayoutSender,
+  payoutEnvironment,
+} from './payout-executor.js';
+import { BattleDinghyProgram } from './battle-dinghy-program.js';
+import type { EscrowAccountSource } from './battle-dinghy-program.js';
+import type { RefundRequest } from './orchestrator.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type RefundMethod = 'transfer' | 'claim_refund';
+
+export interface RefundExecutionResult {
+  success: boolean;
+  /** `refunded` once transferred, `claimable` once the escrow is cancelled */
+  status?: 'refunded' | 'claimable';
+  txSignature?: string;
+  error?: string;
+}
+
+/** `claim_refund` refunds of games escrowed by the Battle Dinghy program */
+export interface ClaimRefunds {
+  /** Executor sending `cancel_game`, with its own audit log */
+  executor: PayoutExecutor;
+  /** Whether the program holds an escrow for the game */
+  hasEscrow(gameId: string): Promise<boolean>;
+}
+
+// =============================================================================
+// Executor
+// =============================================================================
+
+export class RefundExecutor {
+  readonly method: RefundMethod;
+
+  constructor(
+    private readonly transfers: PayoutExecutor,
+    private readonly claims?: ClaimRefunds
+  ) {
+    this.method = claims ? 'claim_refund' : 'transfer';
+  }
+
+  /**
+   * Refund one player of a cancelled game. Never refunds a player twice:
+   * a refund already confirmed in the audit log is returned as it was.
+   */
+  async refund(gameId: string, refund: RefundRequest): Promise<RefundExecutionResult> {
+    // A missing_reveal refund comes from a game that goes on, so its escrow
+    // is never cancelled
+    if (this.claims && refund.reason !== 'missing_reveal') {
+      let escrowed: boolean;
+      try {
+        escrowed = await this.claims.hasEscrow(gameId);
+      } catch (error) {
+        return { success: false, error: `Escrow lookup failed: ${(error as Error).message}` };
+      }
+
+      if (escrowed) {
+        const result = await this.claims.executor.execute({ gameId, payouts: [], seed: new Uint8Array(0) });
+        return result.success
+          ? { success: true, status: 'claimable', txSignature: result.txSignature }
+          : { success: false, error: result.error };
+      }
+    }
+
+    const result = await this.transfers.execute({
+      gameId: refundAuditKey(gameId, refund.wallet),
+      payouts: [{ wallet: refund.wallet, lamports: refund.lamports, placement: 0 }],
+      seed: new Uint8Array(0),
+    });
+    return result.success
+      ? { success: true, status: 'refunded', txSignature: result.txSignature }
+      : { success: false, error: result.error };
+  }
+
+  /**
+   * Logged refund attempts, optionally for one game.
+   */
+  async getAuditLog(gameId?: string): Promise<PayoutAttempt[]> {
+    const attempts = [
+      ...(await this.transfers.getAuditLog()),
+      ...(this.claims ? await this.claims.executor.getAuditLog() : []),
+    ];
+    return gameId === undefined
+      ? attempts
+      : attempts.filter(a => a.gameId === gameId || a.gameId.startsWith(`${gameId}/`));
+  }
+}
+
+/**
+ * Escrow check for ClaimRefunds: whether the program holds an escrow
+ * account for the game.
+ */
+export function programEscrowCheck(
+  connection: EscrowAccountSource,
+  program: BattleDinghyProgram = new BattleDinghyProgram()
+): (gameId: string) => Promise<boolean> {
+  return async gameId => (await program.fetchEscrow(connection, gameId)) !== null;
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/**
+ * Create the refund executor configured by the environment, or null when
+ * refunds are manual (PAYOUT_MODE unset). Refunds are sent by transfer
+ * from the escrow wallet.
+ */
+export function createRefundExecutor(
+  auditLog: PayoutAuditLog,
+  options?: PayoutExecutorOptions
+): RefundExecutor | null {
+  const env = payoutEnvironment();
+  if (!env) {
+    return null;
+  }
+
+  return new RefundExecutor(new PayoutExecutor(new TransferPayoutSender(env.connection, env.signer), auditLog, options));
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function refundAuditKey(gameId: string, wallet: string): string {
+  return `${gameId}/${wallet}`;
+}
@@ -62,7 +62,8 @@ export function createRoutes(gameManager: GameManager): Router {
 
     const result = gameManager.createGame(body.gameId, {
       maxPlayers: body.maxPlayers,
-      buyIn: body.buyIn,
+      buyInSol: body.buyInSol,
+      teamMode: body.teamMode,
     });
 
     if (!result.success) {
@@ -120,7 +121,16 @@ export function createRoutes(gameManager: GameManager): Router {
       return;
     }
 
-    const result = gameManager.joinGame(gameId, body.playerWallet);
+    if (body.teamId !== undefined && typeof body.teamId !== 'string') {
+      res.status(400).json({
+        success: false,
+        playerIndex: -1,
+        message: 'teamId must be a string',
+      } as JoinGameResponse);
+      return;
+    }
+
+    const result = gameManager.joinGame(gameId, body.playerWallet, body.teamId);
 
     if (!result.success) {
       const statusCode = result.error === 'Game not found' ? 404 : 400;
@@ -3,13 +3,14 @@
 // Posts game announcements, round results, and winner announcements to Twitter.
 
 import { TwitterApi, TwitterApiReadWrite, SendTweetV2Params } from 'twitter-api-v2';
-import { CellIndex, cellToPosition } from '@battle-dinghy/core';
+import { CellIndex, RoundSummary, cellToPosition, getShipName } from '@battle-dinghy/core';
 import {
   renderCard,
   renderRoundResult,
   renderWinner,
 } from './card-renderer.js';
 import type { GameManager } from './game-manager.js';
+import type { RefundReason } from './orchestrator.js';
 
 // =============================================================================
 // Types
@@ -32,6 +33,14 @@ export interface GameAnnouncement {
   customMessage?: string; // Optional custom message to prepend
 }
 
+export interface RefundAnnouncement {
+  gameId: string;
+  reason: RefundReason;
+  refunded: number; // Buy-ins sent back
+  claimable: number; // Buy-ins players reclaim with claim_refund
+  buyInSol: number;
+}
+
 // =============================================================================
 // Twitter Bot
 // =============================================================================
@@ -183,12 +192,7 @@ Let the battle begin! ⚓💥
 
   async postRoundResult(
     gameId: string,
-    summary: {
-      roundNumber: number;
-      primaryShot: CellIndex;
-      hits: string[];
-      eliminations: string[];
-    }
+    summary: RoundSummary
   ): Promise<string | null> {
     const status = this.gameManager.getGameStatus(gameId);
     if (!status) return null;
@@ -198,25 +202,36 @@ Let the battle begin! ⚓💥
       return card && !card.isEliminated;
     }).length;
 
+    const primaryShot = summary.shots[0];
+    const hits = [...summary.hits.keys()];
+    const sunkShips = summary.shipHits
+      .filter((hit) => hit.sunk)
+      .map((hit) => getShipName(hit.shipSize));
+
     // Generate round result image
     const imageBuffer = renderRoundResult({
       gameId,
       roundNumber: summary.roundNumber,
-      shotCell: summary.primaryShot,
-      hits: summary.hits,
-      eliminations: summary.eliminations,
+      shotCell: primaryShot,
+      hits,
+      eliminations: [...summary.eliminations],
+      sunkShips,
       remainingPlayers,
     });
 
-    const pos = cellToPosition(summary.primaryShot);
+    const pos = cellToPosition(primaryShot);
     const cellLabel = `${String.fromCharCode(65 + pos.col)}${pos.row + 1}`;
 
     let text = `⚓ Round ${summary.roundNumber} - ${gameId}
 
 🎯 Shot: ${cellLabel}`;
 
-    if (summary.hits.length > 0) {
-      text += `\n💥 ${summary.hits.length} HIT${summary.hits.length > 1 ? 'S' : ''}!`;
+    if (hits.length > 0) {
+      text += `\n💥 ${hits.length} HIT${hits.length > 1 ? 'S' : ''}!`;
+    }
+
+    for (const name of sunkShips) {
+      text += `\n🚢 ${name} sunk!`;
     }
 
     if (summary.eliminations.length > 0) {
@@ -314,7 +329,9 @@ Game: ${gameId}`;
     const status = this.gameManager.getGameStatus(gameId);
     if (!status) return null;
 
-    const winnerIndex = status.players.indexOf(winner);
+    const winnerIndex = status.teams
+      ? status.teams.findIndex(t => t.teamId === winner)
+      : status.players.indexOf(winner);
     const prizePool = `${(status.players.length * 0.001).toFixed(3)} SOL`;
 
     // Generate winner image
@@ -327,10 +344,13 @@ Game: ${gameId}`;
     });
 
     const shortWallet = `${winner.slice(0, 6)}...${winner.slice(-4)}`;
+    const winnerLabel = status.teams
+      ? `Team ${winner} (${status.winningMembers.length} sailors)`
+      : `Player ${winnerIndex + 1} (${shortWallet})`;
 
     const text = `🏆 BATTLE DINGHY WINNER! 🏆
 
-🎉 Player ${winnerIndex + 1} (${shortWallet}) wins ${prizePool}!
+🎉 ${winnerLabel} wins ${prizePool}!
 
 The battle lasted ${totalRounds} rounds.
 
@@ -358,6 +378,45 @@ Game: ${gameId}
     }
   }
 
+  // ===========================================================================
+  // Refunds
+  // ===========================================================================
+
+  async announceRefunds(announcement: RefundAnnouncement): Promise<string | null> {
+    const { gameId, reason, refunded, claimable, buyInSol } = announcement;
+    const why = {
+      under_filled: 'did not fill in time',
+      game_aborted: 'was aborted',
+      game_cancelled: 'was cancelled',
+      missing_reveal: 'excluded players who did not reveal',
+    }[reason];
+
+    let text = `↩️ BATTLE DINGHY REFUNDS
+
+Game ${gameId} ${why}.
+`;
+    if (refunded > 0) {
+      text += `\n💸 ${refunded} buy-in${refunded === 1 ? '' : 's'} of ${buyInSol} SOL refunded.`;
+    }
+    if (claimable > 0) {
+      text += `\n🔓 ${claimable} buy-in${claimable === 1 ? '' : 's'} of ${buyInSol} SOL ready to claim from the game escrow.`;
+    }
+    text += `
+
+See you in the next battle! ⚓
+
+#BattleDinghy #Solana`;
+
+    try {
+      const tweet = await this.client.v2.tweet(text);
+      console.log(`Posted refunds: ${tweet.data.id}`);
+      return tweet.data.id;
+    } catch (error) {
+      console.error('Failed to post refunds:', error);
+      return null;
+    }
+  }
+
   // ===========================================================================
   // Send Player Card (DM or Reply)
   // ===========================================================================
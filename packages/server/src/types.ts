@@ -7,7 +7,7 @@ import type { WebSocket } from 'ws';
 // Game Types
 // =============================================================================
 
-export type GameStatus = 'waiting' | 'active' | 'complete' | 'cancelled';
+export type GameStatus = 'waiting' | 'active' | 'paused' | 'complete' | 'cancelled';
 
 export interface ManagedGame {
   gameId: string;
@@ -20,6 +20,12 @@ export interface ManagedGame {
   completedAt: number | null;
   maxPlayers: number;
   buyInSol: number;
+  /** Team id -> member wallets in join order; null outside team mode */
+  teams: Map<string, string[]> | null;
+  /** House bot wallets among the players */
+  bots: Set<string>;
+  /** Why the game is paused; null unless status is 'paused' */
+  pausedReason: string | null;
 }
 
 // =============================================================================
@@ -29,7 +35,8 @@ export interface ManagedGame {
 export interface CreateGameRequest {
   gameId: string;
   maxPlayers?: number;
-  buyIn?: number;
+  buyInSol?: number;
+  teamMode?: boolean;
 }
 
 export interface CreateGameResponse {
@@ -42,6 +49,8 @@ export interface CreateGameResponse {
 export interface JoinGameRequest {
   gameId: string;
   playerWallet: string;
+  /** Squad to join (required in team mode) */
+  teamId?: string;
 }
 
 export interface JoinGameResponse {
@@ -57,14 +66,23 @@ export interface GameStatusResponse {
   currentRound: number;
   maxPlayers: number;
   buyInSol: number;
+  /** Winning player wallet, or winning team id in team mode */
   winner: string | null;
+  /** Wallets sharing the win (the winning team's members in team mode) */
+  winningMembers: string[];
+  /** Squads and their members, present only in team mode */
+  teams?: { teamId: string; members: string[] }[];
+  /** House bot wallets among the players; bots pay no buy-in and are never paid */
+  bots: string[];
+  /** Set while the game is paused */
+  pausedReason?: string;
   startedAt: number | null;
   completedAt: number | null;
 }
 
 export interface PlayerCardResponse {
   playerId: string;
-  ships: { size: number; cells: number[] }[];
+  ships: { size: number; cells: number[]; hits: number; isSunk: boolean }[];
   allCells: number[];
   hitCells: number[];
   isEliminated: boolean;
@@ -80,6 +98,7 @@ export type WSMessageType =
   | 'unsubscribe'
   | 'game_state'
   | 'round_complete'
+  | 'ship_sunk'
   | 'player_eliminated'
   | 'game_complete'
   | 'error';
@@ -118,12 +137,28 @@ export interface WSRoundCompleteMessage extends WSMessage {
   payload: RoundSummary;
 }
 
+export interface WSShipSunkMessage extends WSMessage {
+  type: 'ship_sunk';
+  gameId: string;
+  payload: {
+    /** Player wallet, or team id in team mode */
+    player: string;
+    round: number;
+    shipIndex: number;
+    shipSize: number;
+    /** Members of the team that lost the ship, in team mode */
+    members?: string[];
+  };
+}
+
 export interface WSPlayerEliminatedMessage extends WSMessage {
   type: 'player_eliminated';
   gameId: string;
   payload: {
     player: string;
     round: number;
+    /** Members eliminated with the team, in team mode */
+    members?: string[];
   };
 }
 
@@ -7,6 +7,7 @@
 import { Router, Request, Response } from 'express';
 import { createHash } from 'crypto';
 import type { GameOrchestrator } from './orchestrator.js';
+import type { OreMonitorPush } from './ore-failover.js';
 import { parseOreWebhook, HeliusWebhookPayload } from './ore-integration.js';
 
 // =============================================================================
@@ -32,7 +33,8 @@ interface HeliusEnhancedPayload extends HeliusWebhookPayload {
 
 export function createWebhookRoutes(
   orchestrator: GameOrchestrator | null,
-  webhookSecret?: string
+  webhookSecret?: string,
+  oreWebhookSource?: OreMonitorPush
 ): Router {
   const router = Router();
 
@@ -44,6 +46,7 @@ export function createWebhookRoutes(
    * POST /webhooks/tx-confirm
    * Called when a player's buy-in transaction is confirmed.
    * Can be triggered by a frontend, mobile app, or external service.
+   * Rejected buy-ins answer with the error and a BuyInRejectionReason.
    */
   router.post('/tx-confirm', async (req: Request, res: Response) => {
     if (!orchestrator) {
@@ -75,7 +78,8 @@ export function createWebhookRoutes(
       );
 
       if (!result.success) {
-        res.status(400).json({ error: result.error });
+        // rpc_error is worth retrying; other rejections are final
+        res.status(result.reason === 'rpc_error' ? 502 : 400).json({ error: result.error, reason: result.reason });
         return;
       }
 
@@ -101,7 +105,7 @@ export function createWebhookRoutes(
 
     for (const tx of transactions as HeliusEnhancedPayload[]) {
       try {
-        await processHeliusTransaction(tx, orchestrator);
+        await processHeliusTransaction(tx, orchestrator, oreWebhookSource);
       } catch (error) {
         console.error('Error processing Helius webhook:', error);
       }
@@ -145,7 +149,8 @@ function verifyWebhookSignature(
 
 async function processHeliusTransaction(
   tx: HeliusEnhancedPayload,
-  orchestrator: GameOrchestrator | null
+  orchestrator: GameOrchestrator | null,
+  oreWebhookSource?: OreMonitorPush
 ): Promise<void> {
   console.log(`Helius webhook: ${tx.type} - ${tx.signature}`);
 
@@ -153,7 +158,11 @@ async function processHeliusTransaction(
   const oreResult = parseOreWebhook(tx);
   if (oreResult) {
     console.log(`ORE event detected: Block ${oreResult.winningBlock}`);
-    // ORE events are handled by OreMonitorLive, not here
+    // Feed the webhook source of the ORE failover monitors. Results without
+    // a round account carry no round number and only log the event.
+    if (oreWebhookSource && oreResult.roundNumber > 0) {
+      oreWebhookSource.push(oreResult);
+    }
     return;
   }
 
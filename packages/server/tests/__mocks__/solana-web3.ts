@@ -1,13 +1,34 @@
 // Mock @solana/web3.js for testing
 // Provides minimal implementations for routes tests that don't need actual Solana functionality
 
+import { createHash } from 'crypto';
+
 export const LAMPORTS_PER_SOL = 1_000_000_000;
 
+/** Names of keys by the hex of their bytes, so bytes decode to the same key */
+const keyNames = new Map<string, string>();
+
 export class PublicKey {
   private _key: string;
 
   constructor(value: string | Uint8Array) {
-    this._key = typeof value === 'string' ? value : Buffer.from(value).toString('base64');
+    if (typeof value === 'string') {
+      this._key = value;
+    } else {
+      const bytes = Buffer.from(value);
+      this._key = keyNames.get(bytes.toString('hex')) ?? bytes.toString('base64');
+    }
+  }
+
+  /** Stand-in bytes: sha256 of the key's name */
+  toBuffer(): Buffer {
+    const bytes = createHash('sha256').update(this._key).digest();
+    keyNames.set(bytes.toString('hex'), this._key);
+    return bytes;
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.toBuffer());
   }
 
   toString(): string {
@@ -21,6 +42,12 @@ export class PublicKey {
   equals(other: PublicKey): boolean {
     return this._key === other._key;
   }
+
+  /** Deterministic stand-in for PDA derivation: seeds and program id, not a curve point */
+  static findProgramAddressSync(seeds: Array<Buffer | Uint8Array>, programId: PublicKey): [PublicKey, number] {
+    const seedKey = seeds.map(seed => Buffer.from(seed).toString('hex')).join(':');
+    return [new PublicKey(`pda:${programId.toString()}:${seedKey}`), 255];
+  }
 }
 
 export class Connection {
@@ -46,11 +73,28 @@ export class Connection {
   }
 }
 
+export class TransactionInstruction {
+  public keys: Array<{ pubkey: PublicKey; isSigner: boolean; isWritable: boolean }>;
+  public programId: PublicKey;
+  public data: Buffer;
+
+  constructor(options: {
+    keys: Array<{ pubkey: PublicKey; isSigner: boolean; isWritable: boolean }>;
+    programId: PublicKey;
+    data?: Buffer;
+  }) {
+    this.keys = options.keys;
+    this.programId = options.programId;
+    this.data = options.data ?? Buffer.alloc(0);
+  }
+}
+
 export class Transaction {
   private instructions: unknown[] = [];
   public blockhash?: string;
   public lastValidBlockHeight?: number;
   public feePayer?: PublicKey;
+  public signature: Buffer | null = null;
 
   constructor(options?: { blockhash?: string; lastValidBlockHeight?: number; feePayer?: PublicKey }) {
     if (options) {
@@ -65,12 +109,18 @@ export class Transaction {
     return this;
   }
 
+  sign(..._signers: unknown[]): void {
+    this.signature = Buffer.alloc(64, 1);
+  }
+
   serialize(_options?: unknown): Buffer {
     return Buffer.from(JSON.stringify({ instructions: this.instructions.length }));
   }
 }
 
 export const SystemProgram = {
+  programId: new PublicKey('11111111111111111111111111111111'),
+
   transfer(params: { fromPubkey: PublicKey; toPubkey: PublicKey; lamports: number }) {
     return {
       programId: new PublicKey('11111111111111111111111111111111'),
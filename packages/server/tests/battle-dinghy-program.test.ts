@@ -0,0 +1,300 @@
+// Battle Dinghy Program Client Tests
+//
+// Tests instruction encoding and accounts, GameEscrow decoding and
+// BattleDinghyError mapping against the layouts in
+// packages/contracts/programs/battle-dinghy/src/lib.rs.
+
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { PublicKey, SystemProgram } from '@solana/web3.js';
+import {
+  BATTLE_DINGHY_PROGRAM_ID,
+  BattleDinghyProgram,
+  GAME_ESCROW_STATUSES,
+  GameEscrow,
+  battleDinghyErrorFromCode,
+  decodeGameEscrow,
+  parseBattleDinghyError,
+} from '../src/battle-dinghy-program.js';
+
+// =============================================================================
+// Test Setup
+// =============================================================================
+
+const program = new BattleDinghyProgram();
+const OPERATOR = new PublicKey('operator');
+const PLAYER = new PublicKey('player');
+
+function discriminator(name: string): Buffer {
+  return createHash('sha256').update(name).digest().subarray(0, 8);
+}
+
+function u32(value: number): Buffer {
+  const b = Buffer.alloc(4);
+  b.writeUInt32LE(value);
+  return b;
+}
+
+function i64(value: number): Buffer {
+  const b = Buffer.alloc(8);
+  b.writeBigInt64LE(BigInt(value));
+  return b;
+}
+
+function keys(ix: { keys: Array<{ pubkey: PublicKey; isSigner: boolean; isWritable: boolean }> }) {
+  return ix.keys.map(k => [k.pubkey.toString(), k.isSigner, k.isWritable]);
+}
+
+/** GameEscrow account data as the program lays it out */
+function escrowAccountData(escrow: GameEscrow): Buffer {
+  const option = (value: Buffer | null) => (value ? Buffer.concat([Buffer.from([1]), value]) : Buffer.from([0]));
+  const buyIn = Buffer.alloc(8);
+  buyIn.writeBigUInt64LE(escrow.buyInLamports);
+  return Buffer.concat([
+    discriminator('account:GameEscrow'),
+    u32(escrow.gameId.length),
+    Buffer.from(escrow.gameId),
+    escrow.operator.toBuffer(),
+    Buffer.from([GAME_ESCROW_STATUSES.indexOf(escrow.status)]),
+    buyIn,
+    Buffer.from([escrow.maxPlayers, escrow.currentPlayers]),
+    u32(escrow.players.length),
+    ...escrow.players.map(p => p.toBuffer()),
+    Buffer.from(escrow.seed),
+    option(escrow.winner?.toBuffer() ?? null),
+    option(escrow.proofHash ? Buffer.from(escrow.proofHash) : null),
+    i64(escrow.createdAt),
+    i64(escrow.fillDeadline),
+    option(escrow.startedAt === null ? null : i64(escrow.startedAt)),
+    Buffer.from([escrow.bump]),
+    u32(escrow.refunded.length),
+    Buffer.from(escrow.refunded.map(Number)),
+  ]);
+}
+
+const ESCROW: GameEscrow = {
+  gameId: 'game',
+  operator: OPERATOR,
+  status: 'cancelled',
+  buyInLamports: 1_000_000n,
+  maxPlayers: 10,
+  currentPlayers: 2,
+  players: [PLAYER, new PublicKey('player-2')],
+  seed: new Uint8Array(32).fill(7),
+  winner: null,
+  proofHash: null,
+  createdAt: 1_700_000_000,
+  fillDeadline: 1_700_086_400,
+  startedAt: null,
+  bump: 254,
+  refunded: [true, false],
+};
+
+// =============================================================================
+// Instructions
+// =============================================================================
+
+describe('BattleDinghyProgram instructions', () => {
+  const escrow = program.escrowAddress('game').toString();
+
+  it('derives the escrow PDA from "escrow" and the game id', () => {
+    expect(escrow).toBe(
+      `pda:${BATTLE_DINGHY_PROGRAM_ID}:${Buffer.from('escrow').toString('hex')}:${Buffer.from('game').toString('hex')}`
+    );
+    expect(new BattleDinghyProgram(new PublicKey('other')).escrowAddress('game').toString()).not.toBe(escrow);
+  });
+
+  it('encodes create_game', () => {
+    const seed = new Uint8Array(32).fill(9);
+    const ix = program.createGame({
+      gameId: 'game',
+      operator: OPERATOR,
+      buyInLamports: 1_000_000,
+      maxPlayers: 10,
+      fillDeadlineHours: 24,
+      seed,
+    });
+
+    const buyIn = Buffer.alloc(8);
+    buyIn.writeBigUInt64LE(1_000_000n);
+    const hours = Buffer.alloc(8);
+    hours.writeBigUInt64LE(24n);
+    expect(ix.programId.toString()).toBe(BATTLE_DINGHY_PROGRAM_ID);
+    expect(ix.data).toEqual(
+      Buffer.concat([discriminator('global:create_game'), u32(4), Buffer.from('game'), buyIn, Buffer.from([10]), hours, Buffer.from(seed)])
+    );
+    expect(keys(ix)).toEqual([
+      [escrow, false, true],
+      ['operator', true, true],
+      [SystemProgram.programId.toString(), false, false],
+    ]);
+  });
+
+  it('rejects create_game arguments the program would refuse', () => {
+    const params = {
+      gameId: 'game',
+      operator: OPERATOR,
+      buyInLamports: 1,
+      maxPlayers: 10,
+      fillDeadlineHours: 1,
+      seed: new Uint8Array(32),
+    };
+    expect(() => program.createGame({ ...params, gameId: 'g'.repeat(33) })).toThrow('Game id longer than 32 bytes');
+    expect(() => program.createGame({ ...params, maxPlayers: 11 })).toThrow('Max players must be between 1 and 10');
+    expect(() => program.createGame({ ...params, buyInLamports: 0 })).toThrow('Buy-in must be positive');
+    expect(() => program.createGame({ ...params, seed: new Uint8Array(31) })).toThrow('Seed must be 32 bytes');
+  });
+
+  it('has players sign join_game and claim_refund', () => {
+    const join = program.joinGame({ gameId: 'game', player: PLAYER });
+    expect(join.data).toEqual(discriminator('global:join_game'));
+    expect(keys(join)).toEqual([
+      [escrow, false, true],
+      ['player', true, true],
+      [SystemProgram.programId.toString(), false, false],
+    ]);
+
+    const claim = program.claimRefund({ gameId: 'game', player: PLAYER });
+    expect(claim.data).toEqual(discriminator('global:claim_refund'));
+    expect(keys(claim)).toEqual([
+      [escrow, false, true],
+      ['player', true, true],
+    ]);
+  });
+
+  it('has the operator sign game management instructions', () => {
+    const params = { gameId: 'game', operator: OPERATOR };
+    for (const [name, ix] of [
+      ['start_game', program.startGame(params)],
+      ['cancel_game', program.cancelGame(params)],
+      ['emergency_halt', program.emergencyHalt(params)],
+      ['resume_game', program.resumeGame(params)],
+    ] as const) {
+      expect(ix.data).toEqual(discriminator(`global:${name}`));
+      expect(keys(ix)).toEqual([
+        [escrow, false, true],
+        ['operator', true, true],
+      ]);
+    }
+  });
+
+  it('encodes declare_winner with the winner account', () => {
+    const proofHash = new Uint8Array(32).fill(3);
+    const ix = program.declareWinner({ gameId: 'game', operator: OPERATOR, winner: PLAYER, proofHash });
+    expect(ix.data).toEqual(Buffer.concat([discriminator('global:declare_winner'), PLAYER.toBuffer(), Buffer.from(proofHash)]));
+    expect(keys(ix)[2]).toEqual(['player', false, true]);
+  });
+
+  it('encodes declare_winners with recipients as remaining accounts', () => {
+    const second = new PublicKey('player-2');
+    const proofHash = new Uint8Array(32).fill(5);
+    const ix = program.declareWinners({
+      gameId: 'game',
+      operator: OPERATOR,
+      recipients: [PLAYER, second],
+      sharesBps: [7000, 3000],
+      proofHash,
+    });
+
+    expect(ix.data).toEqual(
+      Buffer.concat([
+        discriminator('global:declare_winners'),
+        u32(2),
+        PLAYER.toBuffer(),
+        second.toBuffer(),
+        u32(2),
+        Buffer.from([0x58, 0x1b, 0xb8, 0x0b]),
+        Buffer.from(proofHash),
+      ])
+    );
+    expect(keys(ix)).toEqual([
+      [escrow, false, true],
+      ['operator', true, true],
+      ['player', false, true],
+      ['player-2', false, true],
+    ]);
+  });
+
+  it('rejects declare_winners shares the program would refuse', () => {
+    const params = { gameId: 'game', operator: OPERATOR, recipients: [PLAYER], proofHash: new Uint8Array(32) };
+    expect(() => program.declareWinners({ ...params, sharesBps: [9999] })).toThrow('sum to 10000 bps');
+    expect(() => program.declareWinners({ ...params, sharesBps: [5000, 5000] })).toThrow('one per recipient');
+    expect(() => program.declareWinners({ ...params, sharesBps: [10_000], proofHash: new Uint8Array(0) })).toThrow(
+      'Proof hash must be 32 bytes'
+    );
+  });
+});
+
+// =============================================================================
+// Accounts
+// =============================================================================
+
+describe('GameEscrow accounts', () => {
+  it('decodes every field', () => {
+    expect(decodeGameEscrow(escrowAccountData(ESCROW))).toEqual(ESCROW);
+
+    const complete: GameEscrow = {
+      ...ESCROW,
+      status: 'complete',
+      winner: PLAYER,
+      proofHash: new Uint8Array(32).fill(1),
+      startedAt: 1_700_000_600,
+      refunded: [false, false],
+    };
+    expect(decodeGameEscrow(escrowAccountData(complete))).toEqual(complete);
+  });
+
+  it('rejects other accounts and truncated data', () => {
+    const data = escrowAccountData(ESCROW);
+    expect(() => decodeGameEscrow(Buffer.concat([Buffer.alloc(8), data.subarray(8)]))).toThrow('Not a GameEscrow account');
+    expect(() => decodeGameEscrow(data.subarray(0, 60))).toThrow('GameEscrow account data is truncated');
+  });
+
+  it('fetches a game escrow owned by the program', async () => {
+    const accounts = new Map([[program.escrowAddress('game').toString(), escrowAccountData(ESCROW)]]);
+    const connection = {
+      owner: program.programId,
+      async getAccountInfo(address: PublicKey) {
+        const data = accounts.get(address.toString());
+        return data ? { data, owner: this.owner, executable: false, lamports: 1, rentEpoch: 0 } : null;
+      },
+    };
+
+    expect(await program.fetchEscrow(connection, 'game')).toEqual(ESCROW);
+    expect(await program.fetchEscrow(connection, 'missing')).toBeNull();
+
+    connection.owner = new PublicKey('someone-else');
+    await expect(program.fetchEscrow(connection, 'game')).rejects.toThrow('Escrow for game is not owned by the program');
+  });
+});
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+describe('BattleDinghyError mapping', () => {
+  it('maps custom error codes in declaration order', () => {
+    expect(battleDinghyErrorFromCode(6000)).toEqual({ code: 6000, name: 'GameFull', message: 'Game is full' });
+    expect(battleDinghyErrorFromCode(6027)).toMatchObject({ name: 'RecipientAccountMismatch' });
+    expect(battleDinghyErrorFromCode(6028)).toBeNull();
+    expect(battleDinghyErrorFromCode(1)).toBeNull();
+  });
+
+  it('finds the error in transaction errors, messages and logs', () => {
+    expect(parseBattleDinghyError({ InstructionError: [0, { Custom: 6020 }] })).toMatchObject({ name: 'AlreadyRefunded' });
+    expect(
+      parseBattleDinghyError(new Error('Transaction simulation failed: custom program error: 0x1771'))
+    ).toMatchObject({ name: 'GameNotOpen' });
+    expect(
+      parseBattleDinghyError({
+        logs: ['Program BDghy invoke [1]', 'Program BDghy failed: custom program error: 0x1775'],
+      })
+    ).toMatchObject({ name: 'GameAlreadyStarted' });
+  });
+
+  it('ignores failures that are not program errors', () => {
+    expect(parseBattleDinghyError({ InstructionError: [0, 'InvalidAccountData'] })).toBeNull();
+    expect(parseBattleDinghyError(new Error('Blockhash not found'))).toBeNull();
+    expect(parseBattleDinghyError(null)).toBeNull();
+  });
+});
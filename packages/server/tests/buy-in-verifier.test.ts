@@ -0,0 +1,275 @@
+// Buy-In Verifier Tests
+//
+// Tests BuyInVerifier against parsed transaction fixtures, and the
+// rejection reasons POST /webhooks/tx-confirm returns.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { BuyInVerifier, DEFAULT_BUY_IN_MAX_AGE_SECONDS } from '../src/buy-in-verifier.js';
+import { confirmBuyIn } from '../src/blinks.js';
+import { GameManager } from '../src/game-manager.js';
+import { GameOrchestrator } from '../src/orchestrator.js';
+import type { BuyInRecord } from '../src/orchestrator-storage.js';
+import { createWebhookRoutes } from '../src/webhooks.js';
+import { TransactionConnection, buyInTransaction } from './fixtures/buy-in.js';
+
+const BUY_IN = 1_000_000;
+const ESCROW = 'escrow';
+const PLAYER = 'wallet-1';
+
+describe('BuyInVerifier', () => {
+  let connection: TransactionConnection;
+  let used: Set<string>;
+  let verifier: BuyInVerifier;
+
+  function verify(txSignature: string, options: { playerWallet?: string; notBefore?: number; maxAgeSeconds?: number } = {}) {
+    return verifier.verify({ txSignature, gameId: 'game', playerWallet: PLAYER, ...options });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    connection = new TransactionConnection();
+    used = new Set();
+    verifier = new BuyInVerifier({
+      connection: connection as unknown as Connection,
+      escrowWallet: new PublicKey(ESCROW),
+      buyInLamports: BUY_IN,
+      isSignatureUsed: txSignature => used.has(txSignature),
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('accepts a recent buy-in from the player to the escrow', async () => {
+    connection.addTransfer('tx', PLAYER, ESCROW, BUY_IN);
+    expect(await verify('tx')).toEqual({
+      success: true,
+      lamports: BUY_IN,
+      blockTime: Math.floor(Date.now() / 1000) * 1000,
+    });
+  });
+
+  it('adds up several transfers from the player', async () => {
+    connection.add('tx', buyInTransaction({
+      transfers: [
+        { from: PLAYER, to: ESCROW, lamports: BUY_IN / 2 },
+        { from: PLAYER, to: 'elsewhere', lamports: BUY_IN },
+        { from: PLAYER, to: ESCROW, lamports: BUY_IN / 2 },
+      ],
+    }));
+    expect(await verify('tx')).toMatchObject({ success: true, lamports: BUY_IN });
+  });
+
+  it('rejects signatures credited for another buy-in without fetching them', async () => {
+    const getTransaction = vi.spyOn(connection, 'getTransaction');
+    used.add('tx');
+    expect(await verify('tx')).toEqual({
+      success: false,
+      reason: 'already_used',
+      error: 'Transaction already used for a buy-in',
+    });
+    expect(getTransaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects missing, failed and unreachable transactions', async () => {
+    connection.add('failed', buyInTransaction({
+      transfers: [{ from: PLAYER, to: ESCROW, lamports: BUY_IN }],
+      err: { InstructionError: [0, 'Custom'] },
+    }));
+    connection.failOn('flaky');
+
+    expect(await verify('missing')).toMatchObject({ success: false, reason: 'not_found' });
+    expect(await verify('failed')).toMatchObject({ success: false, reason: 'failed' });
+    expect(await verify('flaky')).toMatchObject({ success: false, reason: 'rpc_error' });
+  });
+
+  it('rejects transactions the player did not sign', async () => {
+    connection.add('tx', buyInTransaction({
+      signers: ['someone-else'],
+      transfers: [{ from: PLAYER, to: ESCROW, lamports: BUY_IN }],
+    }));
+    expect(await verify('tx')).toMatchObject({ success: false, reason: 'not_signed_by_player' });
+  });
+
+  it('rejects transfers that do not go from the player to the escrow', async () => {
+    connection.addTransfer('elsewhere', PLAYER, 'not-escrow', BUY_IN);
+    connection.add('sponsored', buyInTransaction({
+      signers: [PLAYER, 'sponsor'],
+      transfers: [{ from: 'sponsor', to: ESCROW, lamports: BUY_IN }],
+    }));
+
+    expect(await verify('elsewhere')).toMatchObject({ success: false, reason: 'wrong_destination' });
+    expect(await verify('sponsored')).toMatchObject({ success: false, reason: 'wrong_source' });
+  });
+
+  it('rejects less than the buy-in', async () => {
+    connection.addTransfer('tx', PLAYER, ESCROW, BUY_IN - 1);
+    expect(await verify('tx')).toEqual({
+      success: false,
+      reason: 'insufficient_amount',
+      error: `Transferred ${BUY_IN - 1} lamports, buy-in is ${BUY_IN}`,
+    });
+  });
+
+  it('rejects old transactions and ones predating the game', async () => {
+    connection.addTransfer('tx', PLAYER, ESCROW, BUY_IN);
+    connection.add('undated', buyInTransaction({
+      transfers: [{ from: PLAYER, to: ESCROW, lamports: BUY_IN }],
+      blockTime: null,
+    }));
+
+    expect(await verify('tx', { notBefore: Date.now() + 5 * 60_000 })).toMatchObject({
+      success: false,
+      reason: 'too_old',
+      error: 'Transaction predates the game',
+    });
+    expect(await verify('undated')).toMatchObject({ success: false, reason: 'too_old' });
+
+    vi.advanceTimersByTime((DEFAULT_BUY_IN_MAX_AGE_SECONDS + 1) * 1000);
+    expect(await verify('tx')).toMatchObject({ success: false, reason: 'too_old' });
+    expect(await verify('tx', { maxAgeSeconds: Infinity })).toMatchObject({ success: true });
+  });
+});
+
+describe('confirmBuyIn', () => {
+  let connection: TransactionConnection;
+  let verifier: BuyInVerifier;
+  let manager: GameManager;
+  let buyIns: Map<string, BuyInRecord>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    connection = new TransactionConnection();
+    verifier = new BuyInVerifier({
+      connection: connection as unknown as Connection,
+      escrowWallet: new PublicKey(ESCROW),
+      buyInLamports: BUY_IN,
+    });
+    manager = new GameManager();
+    buyIns = new Map();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('joins the player only after the buy-in verifies', async () => {
+    connection.addTransfer('short', PLAYER, ESCROW, BUY_IN / 2);
+    connection.addTransfer('tx', PLAYER, ESCROW, BUY_IN);
+    manager.createGame('game');
+
+    expect(await confirmBuyIn(manager, verifier, buyIns, 'game', PLAYER, 'short')).toMatchObject({
+      success: false,
+      reason: 'insufficient_amount',
+    });
+    expect(manager.getGameStatus('game')!.players).toEqual([]);
+
+    expect(await confirmBuyIn(manager, verifier, buyIns, 'game', PLAYER, 'tx')).toEqual({ success: true });
+    expect(manager.getGameStatus('game')!.players).toEqual([PLAYER]);
+    expect(buyIns.get('tx')).toEqual({ txSignature: 'tx', gameId: 'game', wallet: PLAYER, teamId: null });
+  });
+
+  it('rejects transactions that predate the game', async () => {
+    connection.addTransfer('early', PLAYER, ESCROW, BUY_IN);
+    vi.advanceTimersByTime(10 * 60_000);
+    manager.createGame('game');
+
+    expect(await confirmBuyIn(manager, verifier, buyIns, 'game', PLAYER, 'early')).toMatchObject({
+      success: false,
+      reason: 'too_old',
+    });
+    expect(await confirmBuyIn(manager, verifier, buyIns, 'missing', PLAYER, 'early')).toEqual({
+      success: false,
+      error: 'Game not found',
+    });
+  });
+
+  it('credits a transaction only once', async () => {
+    connection.addTransfer('tx', PLAYER, ESCROW, BUY_IN);
+    manager.createGame('game');
+    manager.createGame('other');
+
+    expect(await confirmBuyIn(manager, verifier, buyIns, 'game', PLAYER, 'tx')).toEqual({ success: true });
+    expect(await confirmBuyIn(manager, verifier, buyIns, 'game', PLAYER, 'tx')).toEqual({ success: true });
+    expect(await confirmBuyIn(manager, verifier, buyIns, 'other', PLAYER, 'tx')).toEqual({
+      success: false,
+      error: 'Transaction already used for a buy-in',
+      reason: 'already_used',
+    });
+    expect(manager.getGameStatus('other')!.players).toEqual([]);
+  });
+});
+
+describe('POST /webhooks/tx-confirm', () => {
+  let connection: TransactionConnection;
+  let app: express.Express;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    connection = new TransactionConnection();
+
+    const orchestrator = new GameOrchestrator({
+      connection: connection as unknown as Connection,
+      escrowWallet: new PublicKey(ESCROW),
+      gameManager: new GameManager(),
+      twitterBot: null,
+      defaultBuyIn: BUY_IN,
+      defaultMaxPlayers: 10,
+      autoStartOnFull: false,
+      fillDeadlineMinutes: 60,
+      payoutTiersBps: [10_000],
+      houseBotFillTo: 0,
+      autoCreateGames: false,
+      gameIntervalMinutes: 120,
+    });
+    await orchestrator.createGame('game');
+
+    app = express();
+    app.use(express.json());
+    app.use('/webhooks', createWebhookRoutes(orchestrator));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function confirm(txSignature: string, playerWallet = PLAYER) {
+    return request(app).post('/webhooks/tx-confirm').send({ gameId: 'game', playerWallet, txSignature });
+  }
+
+  it('confirms a verified buy-in', async () => {
+    connection.addTransfer('tx', PLAYER, ESCROW, BUY_IN);
+    const res = await confirm('tx');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true });
+  });
+
+  it('returns the rejection reason', async () => {
+    connection.addTransfer('tx', PLAYER, 'not-escrow', BUY_IN);
+    const res = await confirm('tx');
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({ error: 'No transfer to the escrow wallet', reason: 'wrong_destination' });
+  });
+
+  it('rejects a signature already credited to another player', async () => {
+    connection.addTransfer('tx', PLAYER, ESCROW, BUY_IN);
+    await confirm('tx');
+    const res = await confirm('tx', 'wallet-2');
+    expect(res.status).toBe(400);
+    expect(res.body.reason).toBe('already_used');
+  });
+
+  it('answers 502 when the transaction cannot be fetched', async () => {
+    connection.failOn('tx');
+    const res = await confirm('tx');
+    expect(res.status).toBe(502);
+    expect(res.body.reason).toBe('rpc_error');
+  });
+});
@@ -0,0 +1,90 @@
+// Buy-in transaction fixtures
+//
+// Builds getTransaction() responses shaped like @solana/web3.js
+// VersionedTransactionResponse for System Program transfers, and a
+// connection stand-in serving them by signature.
+
+import { PublicKey, SystemProgram } from '@solana/web3.js';
+
+export interface BuyInTransfer {
+  from: string;
+  to: string;
+  lamports: number;
+}
+
+export interface BuyInTransactionOptions {
+  /** Signing accounts, fee payer first (default: the first transfer's source) */
+  signers?: string[];
+  transfers: BuyInTransfer[];
+  /** Unix seconds (default: now) */
+  blockTime?: number | null;
+  err?: unknown;
+}
+
+/**
+ * A confirmed transaction made of System Program transfers.
+ */
+export function buyInTransaction(options: BuyInTransactionOptions) {
+  const signers = options.signers ?? [options.transfers[0].from];
+  const keys = [...signers];
+  const indexOf = (key: string) => {
+    if (!keys.includes(key)) keys.push(key);
+    return keys.indexOf(key);
+  };
+
+  const instructions = options.transfers.map(transfer => {
+    const data = Buffer.alloc(12);
+    data.writeUInt32LE(2, 0);
+    data.writeBigUInt64LE(BigInt(transfer.lamports), 4);
+    return { accountKeyIndexes: [indexOf(transfer.from), indexOf(transfer.to)], data };
+  });
+  const programIdIndex = indexOf(SystemProgram.programId.toString());
+  const accountKeys = keys.map(key => new PublicKey(key));
+
+  return {
+    slot: 1,
+    blockTime: options.blockTime === undefined ? Math.floor(Date.now() / 1000) : options.blockTime,
+    meta: { err: options.err ?? null, fee: 5000, preBalances: [], postBalances: [] },
+    transaction: {
+      signatures: ['sig'],
+      message: {
+        header: { numRequiredSignatures: signers.length, numReadonlySignedAccounts: 0, numReadonlyUnsignedAccounts: 1 },
+        compiledInstructions: instructions.map(ix => ({ programIdIndex, ...ix })),
+        getAccountKeys: () => ({ length: accountKeys.length, get: (i: number) => accountKeys[i] }),
+      },
+    },
+  };
+}
+
+/**
+ * Connection stand-in serving transactions by signature. Unknown signatures
+ * are not found; failing ones throw like an RPC error.
+ */
+export class TransactionConnection {
+  private transactions = new Map<string, ReturnType<typeof buyInTransaction>>();
+  private failing = new Set<string>();
+
+  add(signature: string, tx: ReturnType<typeof buyInTransaction>): void {
+    this.transactions.set(signature, tx);
+  }
+
+  /** A plain buy-in of `lamports` from `from` to `to` */
+  addTransfer(signature: string, from: string, to: string, lamports: number): void {
+    this.add(signature, buyInTransaction({ transfers: [{ from, to, lamports }] }));
+  }
+
+  drop(signature: string): void {
+    this.transactions.delete(signature);
+  }
+
+  failOn(signature: string): void {
+    this.failing.add(signature);
+  }
+
+  async getTransaction(signature: string) {
+    if (this.failing.has(signature)) {
+      throw new Error('RPC unavailable');
+    }
+    return this.transactions.get(signature) ?? null;
+  }
+}
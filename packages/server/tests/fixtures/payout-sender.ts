@@ -0,0 +1,56 @@
+// Payout sender fixtures
+//
+// A PayoutSender whose confirmations follow a script, standing in for the
+// chain in payout and refund tests.
+
+import { PayoutSubmitError } from '../../src/payout-executor.js';
+import type {
+  PayoutConfirmation,
+  PayoutMethod,
+  PayoutRequest,
+  PayoutSender,
+  SentPayout,
+} from '../../src/payout-executor.js';
+
+/** `send_error` fails before signing; `submit_error` fails once signed */
+export type Outcome = 'confirmed' | 'failed' | 'unknown' | 'send_error' | 'submit_error';
+
+/**
+ * Sender whose confirmations follow a script; sends without a scripted
+ * outcome confirm.
+ */
+export class ScriptedSender implements PayoutSender {
+  method: PayoutMethod = 'transfer';
+  requests: PayoutRequest[] = [];
+  sent: SentPayout[] = [];
+  confirmed: string[] = [];
+  private outcomes: Outcome[];
+
+  constructor(...outcomes: Outcome[]) {
+    this.outcomes = outcomes;
+  }
+
+  async send(request: PayoutRequest): Promise<SentPayout> {
+    if (this.outcomes[0] === 'send_error') {
+      this.outcomes.shift();
+      throw new Error('RPC unavailable');
+    }
+    const sent = { signature: `sig-${this.sent.length + 1}`, blockhash: 'hash', lastValidBlockHeight: 100 };
+    this.requests.push(request);
+    this.sent.push(sent);
+    if (this.outcomes[0] === 'submit_error') {
+      this.outcomes.shift();
+      throw new PayoutSubmitError('Request timed out', sent);
+    }
+    return sent;
+  }
+
+  async confirm(sent: SentPayout): Promise<PayoutConfirmation> {
+    this.confirmed.push(sent.signature);
+    const outcome = this.outcomes.shift() ?? 'confirmed';
+    if (outcome === 'unknown') {
+      throw new Error('Confirmation timed out');
+    }
+    return outcome === 'confirmed' ? { confirmed: true } : { confirmed: false, error: 'Transaction failed' };
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { GameManager } from '../src/game-manager.js';
+import { OreMonitorReplay, type OreRoundResult } from '@battle-dinghy/core';
+import { GameManager, HOUSE_TEAM_ID, deriveBotWallet } from '../src/game-manager.js';
 
 // =============================================================================
 // Test Setup
@@ -406,6 +407,58 @@ describe('GameManager', () => {
     });
   });
 
+  // ===========================================================================
+  // Pausing
+  // ===========================================================================
+
+  describe('pauseGame', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      manager.createGame('test-game');
+      manager.joinGame('test-game', 'wallet-1');
+      manager.joinGame('test-game', 'wallet-2');
+    });
+
+    it('skips ORE rounds while an active game is paused', () => {
+      const paused = vi.fn();
+      manager.on('game_paused', paused);
+      manager.startGame('test-game');
+      manager.triggerRound('test-game', 0);
+
+      expect(manager.pauseGame('test-game', 'ORE block verification conflict')).toEqual({ success: true });
+      expect(paused).toHaveBeenCalledWith({ gameId: 'test-game', reason: 'ORE block verification conflict' });
+      expect(manager.getGameStatus('test-game')).toMatchObject({
+        status: 'paused',
+        pausedReason: 'ORE block verification conflict',
+      });
+
+      manager.triggerRound('test-game', 1);
+      expect(manager.getGameStatus('test-game')!.currentRound).toBe(1);
+
+      expect(manager.resumeGame('test-game')).toEqual({ success: true });
+      manager.triggerRound('test-game', 2);
+      expect(manager.getGameStatus('test-game')).toMatchObject({ status: 'active', currentRound: 2 });
+    });
+
+    it('keeps a paused waiting game from starting', () => {
+      manager.pauseGame('test-game', 'investigating');
+
+      expect(manager.startGame('test-game').success).toBe(false);
+      expect(manager.getActiveGames().map(g => g.status)).toEqual(['paused']);
+
+      manager.resumeGame('test-game');
+      expect(manager.getGameStatus('test-game')!.status).toBe('waiting');
+      expect(manager.startGame('test-game').success).toBe(true);
+    });
+
+    it('rejects finished games and resuming unpaused games', () => {
+      expect(manager.resumeGame('test-game')).toEqual({ success: false, error: 'Game is not paused' });
+
+      manager.cancelGame('test-game');
+      expect(manager.pauseGame('test-game', 'too late').success).toBe(false);
+    });
+  });
+
   // ===========================================================================
   // Full Game Simulation
   // ===========================================================================
@@ -454,5 +507,243 @@ describe('GameManager', () => {
       // At least one player should be eliminated (the loser)
       expect(eliminatedHandler.mock.calls.length).toBeGreaterThanOrEqual(1);
     });
+
+    it('forwards sunk ships and reports ship damage', () => {
+      manager.createGame('test-game');
+      manager.joinGame('test-game', 'wallet-1');
+      manager.joinGame('test-game', 'wallet-2');
+      manager.startGame('test-game');
+
+      const sunkHandler = vi.fn();
+      manager.on('ship_sunk', sunkHandler);
+
+      for (let i = 0; i < 50; i++) {
+        const status = manager.getGameStatus('test-game');
+        if (status!.status === 'complete') break;
+        manager.triggerRound('test-game');
+      }
+
+      for (const wallet of ['wallet-1', 'wallet-2']) {
+        const card = manager.getPlayerCard('test-game', wallet)!;
+        const sunkEvents = sunkHandler.mock.calls.filter(([e]) => e.player === wallet);
+
+        expect(card.ships.filter((s) => s.isSunk)).toHaveLength(sunkEvents.length);
+        for (const [event] of sunkEvents) {
+          expect(card.ships[event.shipIndex]).toMatchObject({ isSunk: true, hits: event.shipSize });
+        }
+      }
+    });
+  });
+
+  // ===========================================================================
+  // House Bots
+  // ===========================================================================
+
+  describe('House Bots', () => {
+    it('joins bots with deterministic wallets and flags them', () => {
+      manager.createGame('bot-game');
+      manager.joinGame('bot-game', 'wallet-1');
+
+      const first = manager.addBot('bot-game');
+      const second = manager.addBot('bot-game');
+
+      expect(first.wallet).toBe(deriveBotWallet('bot-game', 0));
+      expect(second.wallet).toBe(deriveBotWallet('bot-game', 1));
+      expect(manager.isBot('bot-game', first.wallet!)).toBe(true);
+      expect(manager.isBot('bot-game', 'wallet-1')).toBe(false);
+
+      const status = manager.getGameStatus('bot-game')!;
+      expect(status.players).toEqual(['wallet-1', first.wallet, second.wallet]);
+      expect(status.bots).toEqual([first.wallet, second.wallet]);
+    });
+
+    it('never reuses the wallet of a bot still in the game', () => {
+      manager.createGame('bot-game');
+      const first = manager.addBot('bot-game');
+      const second = manager.addBot('bot-game');
+
+      manager.removePlayer('bot-game', first.wallet!);
+      const third = manager.addBot('bot-game');
+      const fourth = manager.addBot('bot-game');
+
+      expect(third.success).toBe(true);
+      expect(third.wallet).toBe(first.wallet);
+      expect(fourth.wallet).toBe(deriveBotWallet('bot-game', 2));
+      expect(manager.getGameStatus('bot-game')!.bots).toEqual([second.wallet, third.wallet, fourth.wallet]);
+    });
+
+    it('rejects human joins with the bot prefix', () => {
+      manager.createGame('bot-game');
+
+      const result = manager.joinGame('bot-game', deriveBotWallet('bot-game', 0));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('reserved bot prefix');
+    });
+
+    it('puts bots on the house team in team mode', () => {
+      manager.createGame('bot-teams', { teamMode: true });
+      manager.joinGame('bot-teams', 'wallet-1', 'red');
+      const bot = manager.addBot('bot-teams');
+
+      const status = manager.getGameStatus('bot-teams')!;
+      expect(status.teams).toContainEqual({ teamId: HOUSE_TEAM_ID, members: [bot.wallet] });
+      expect(manager.startGame('bot-teams').success).toBe(true);
+    });
+
+    it('plays an all-bot game to completion', () => {
+      manager.createGame('bot-sim');
+      for (let i = 0; i < 10; i++) {
+        manager.addBot('bot-sim');
+      }
+      manager.startGame('bot-sim');
+
+      for (let i = 0; i < 60; i++) {
+        if (manager.getGameStatus('bot-sim')!.status === 'complete') break;
+        manager.triggerRound('bot-sim');
+      }
+
+      const status = manager.getGameStatus('bot-sim')!;
+      expect(status.status).toBe('complete');
+      expect(status.bots).toContain(status.winner);
+    });
+  });
+
+  // ===========================================================================
+  // Team Mode
+  // ===========================================================================
+
+  describe('Team Mode', () => {
+    function createTeamGame(): void {
+      manager.createGame('team-game', { teamMode: true });
+      manager.joinGame('team-game', 'wallet-1', 'red');
+      manager.joinGame('team-game', 'wallet-2', 'red');
+      manager.joinGame('team-game', 'wallet-3', 'blue');
+      manager.joinGame('team-game', 'wallet-4', 'blue');
+    }
+
+    it('requires a team id to join', () => {
+      manager.createGame('team-game', { teamMode: true });
+
+      const result = manager.joinGame('team-game', 'wallet-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Team id is required in team mode');
+    });
+
+    it('rejects team ids outside team mode', () => {
+      manager.createGame('test-game');
+
+      const result = manager.joinGame('test-game', 'wallet-1', 'red');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Game is not in team mode');
+    });
+
+    it('needs at least two teams to start', () => {
+      manager.createGame('team-game', { teamMode: true });
+      manager.joinGame('team-game', 'wallet-1', 'red');
+      manager.joinGame('team-game', 'wallet-2', 'red');
+
+      const result = manager.startGame('team-game');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Need at least 2 teams to start');
+    });
+
+    it('reports squads in game status', () => {
+      createTeamGame();
+
+      const status = manager.getGameStatus('team-game');
+
+      expect(status!.teams).toEqual([
+        { teamId: 'red', members: ['wallet-1', 'wallet-2'] },
+        { teamId: 'blue', members: ['wallet-3', 'wallet-4'] },
+      ]);
+    });
+
+    it('gives squad members a shared card', () => {
+      createTeamGame();
+      manager.startGame('team-game');
+
+      const card1 = manager.getPlayerCard('team-game', 'wallet-1');
+      const card2 = manager.getPlayerCard('team-game', 'wallet-2');
+
+      expect(card1!.playerId).toBe('red');
+      expect(card2!.allCells).toEqual(card1!.allCells);
+    });
+
+    it('plays through to a winning squad', () => {
+      createTeamGame();
+      manager.startGame('team-game');
+
+      const eliminatedHandler = vi.fn();
+      manager.on('player_eliminated', eliminatedHandler);
+
+      for (let i = 0; i < 50; i++) {
+        const status = manager.getGameStatus('team-game');
+        if (status!.status === 'complete') break;
+        manager.triggerRound('team-game');
+      }
+
+      const status = manager.getGameStatus('team-game');
+      expect(status!.status).toBe('complete');
+      expect(['red', 'blue']).toContain(status!.winner);
+      expect(status!.winningMembers).toEqual(
+        status!.winner === 'red' ? ['wallet-1', 'wallet-2'] : ['wallet-3', 'wallet-4']
+      );
+
+      for (const [event] of eliminatedHandler.mock.calls) {
+        expect(event.members).toHaveLength(2);
+      }
+    });
+  });
+
+  // ===========================================================================
+  // ORE Replay
+  // ===========================================================================
+
+  describe('ORE replay', () => {
+    // Rounds captured from a live monitor, numbered by ORE round id
+    const RECORDED: OreRoundResult[] = [3, 17, 9].map((winningBlock, i) => ({
+      roundNumber: 5000 + i,
+      winningBlock,
+      timestamp: 1_700_000_000_000 + i * 60_000,
+      proof: String(i).repeat(64),
+    }));
+
+    function startReplayGame(speed: number): GameManager {
+      const replayManager = new GameManager({
+        createOreMonitor: () => new OreMonitorReplay(RECORDED, { speed }),
+      });
+      replayManager.createGame('replay');
+      replayManager.joinGame('replay', 'wallet-1');
+      replayManager.joinGame('replay', 'wallet-2');
+      replayManager.startGame('replay');
+      return replayManager;
+    }
+
+    it('plays recorded rounds as the game rounds', async () => {
+      const replayManager = startReplayGame(60);
+      const handler = vi.fn();
+      replayManager.on('round_complete', handler);
+
+      await vi.advanceTimersByTimeAsync(2_000);
+
+      const summaries = handler.mock.calls.map(([event]) => event.summary);
+      expect(summaries.map(s => s.roundNumber)).toEqual([1, 2, 3]);
+      expect(summaries.map(s => s.shots[0])).toEqual([3, 17, 9]);
+    });
+
+    it('steps the replay on triggerRound', () => {
+      const replayManager = startReplayGame(0);
+
+      expect(replayManager.triggerRound('replay')).toBe(true);
+      expect(replayManager.getGameStatus('replay')!.currentRound).toBe(1);
+
+      replayManager.triggerRound('replay');
+      replayManager.triggerRound('replay');
+      expect(replayManager.triggerRound('replay')).toBe(false);
+    });
   });
 });
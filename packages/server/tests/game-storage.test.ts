@@ -0,0 +1,192 @@
+// Game Storage Tests
+//
+// Tests that GameManager writes games through to storage and restores
+// in-flight games after a restart, for the in-memory and file stores.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { WebSocket } from 'ws';
+import { OreMonitorMock, OreMonitorReplay, generateMockOreResults, type OreRoundResult } from '@battle-dinghy/core';
+import { GameManager } from '../src/game-manager.js';
+import { FileGameStore, GameStore, MemoryGameStore } from '../src/game-storage.js';
+
+const STORES: Array<[string, () => { storage: GameStore; cleanup: () => void }]> = [
+  ['MemoryGameStore', () => ({ storage: new MemoryGameStore(), cleanup: () => {} })],
+  [
+    'FileGameStore',
+    () => {
+      const dir = mkdtempSync(join(tmpdir(), 'battle-dinghy-games-'));
+      return { storage: new FileGameStore(dir), cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+    },
+  ],
+];
+
+/** Manually driven mock monitors, so rounds only happen when triggered */
+function createManager(storage: GameStore, createOreMonitor = () => new OreMonitorMock(0)): GameManager {
+  return new GameManager({ storage, createOreMonitor });
+}
+
+function fakeSocket(): WebSocket & { sent: unknown[] } {
+  const sent: unknown[] = [];
+  return {
+    OPEN: 1,
+    readyState: 1,
+    sent,
+    send: (data: string) => sent.push(JSON.parse(data)),
+  } as unknown as WebSocket & { sent: unknown[] };
+}
+
+describe.each(STORES)('%s', (_, createStore) => {
+  let storage: GameStore;
+  let cleanup: () => void;
+  let manager: GameManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    ({ storage, cleanup } = createStore());
+    manager = createManager(storage);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    cleanup();
+  });
+
+  /** Trigger rounds a second apart so mock proofs differ across monitors */
+  function playRounds(target: GameManager, gameId: string, count: number): void {
+    for (let i = 0; i < count; i++) {
+      vi.advanceTimersByTime(1000);
+      target.triggerRound(gameId, i * 5);
+    }
+  }
+
+  it('restores waiting games with their players and seed', async () => {
+    manager.createGame('waiting', { maxPlayers: 8, buyInSol: 0.05 });
+    manager.joinGame('waiting', 'wallet-1');
+    manager.joinGame('waiting', 'wallet-2');
+    manager.addBot('waiting');
+    await manager.flush();
+
+    const restarted = createManager(storage);
+    expect(await restarted.restoreGames()).toEqual({ restored: ['waiting'], failed: [] });
+
+    expect(restarted.getGameStatus('waiting')).toEqual(manager.getGameStatus('waiting'));
+    expect(Buffer.from(restarted.getGameSeed('waiting')!).toString('hex')).toBe(
+      Buffer.from(manager.getGameSeed('waiting')!).toString('hex')
+    );
+    expect(restarted.isBot('waiting', manager.getGameStatus('waiting')!.bots[0])).toBe(true);
+
+    // Still accepting players and startable
+    expect(restarted.joinGame('waiting', 'wallet-3').success).toBe(true);
+    expect(restarted.startGame('waiting').success).toBe(true);
+  });
+
+  it('rebuilds running games and continues with the next round', async () => {
+    manager.createGame('running');
+    ['wallet-1', 'wallet-2', 'wallet-3'].forEach(w => manager.joinGame('running', w));
+    manager.startGame('running');
+    playRounds(manager, 'running', 3);
+    await manager.flush();
+
+    const restarted = createManager(storage);
+    await restarted.restoreGames();
+
+    expect(restarted.getGameStatus('running')).toMatchObject({ status: 'active', currentRound: 3 });
+    expect(restarted.getStandings('running')).toEqual(manager.getStandings('running'));
+    for (const wallet of ['wallet-1', 'wallet-2', 'wallet-3']) {
+      expect(restarted.getPlayerCard('running', wallet)).toEqual(manager.getPlayerCard('running', wallet));
+    }
+
+    playRounds(restarted, 'running', 1);
+    expect(restarted.getGameStatus('running')!.currentRound).toBe(4);
+  });
+
+  it('skips rounds a restarted monitor reports again', async () => {
+    const recording: OreRoundResult[] = generateMockOreResults(10, new Uint8Array(32).fill(7));
+    manager = createManager(storage, () => new OreMonitorReplay(recording, { speed: 0 }));
+    manager.createGame('replay');
+    ['wallet-1', 'wallet-2'].forEach(w => manager.joinGame('replay', w));
+    manager.startGame('replay');
+    playRounds(manager, 'replay', 2);
+    await manager.flush();
+
+    const restarted = createManager(storage, () => new OreMonitorReplay(recording, { speed: 0 }));
+    await restarted.restoreGames();
+
+    // The new replay starts from the beginning; played rounds do not count twice
+    playRounds(restarted, 'replay', 2);
+    expect(restarted.getGameStatus('replay')!.currentRound).toBe(2);
+    playRounds(restarted, 'replay', 1);
+    expect(restarted.getGameStatus('replay')!.currentRound).toBe(3);
+  });
+
+  it('restores paused and finished games without driving them', async () => {
+    manager.createGame('paused');
+    manager.createGame('cancelled');
+    ['wallet-1', 'wallet-2'].forEach(w => manager.joinGame('paused', w));
+    manager.startGame('paused');
+    playRounds(manager, 'paused', 1);
+    manager.pauseGame('paused', 'ORE block verification conflict');
+    manager.cancelGame('cancelled');
+    await manager.flush();
+
+    const restarted = createManager(storage);
+    await restarted.restoreGames();
+
+    expect(restarted.getGameStatus('paused')).toMatchObject({
+      status: 'paused',
+      pausedReason: 'ORE block verification conflict',
+      currentRound: 1,
+    });
+    playRounds(restarted, 'paused', 1);
+    expect(restarted.getGameStatus('paused')!.currentRound).toBe(1);
+
+    restarted.resumeGame('paused');
+    playRounds(restarted, 'paused', 1);
+    expect(restarted.getGameStatus('paused')!.currentRound).toBe(2);
+
+    expect(restarted.getGameStatus('cancelled')!.status).toBe('cancelled');
+    expect(restarted.getOreMonitor('cancelled')).toBeNull();
+  });
+
+  it('sends the restored state to spectators who subscribe again', async () => {
+    manager.createGame('watched');
+    ['wallet-1', 'wallet-2'].forEach(w => manager.joinGame('watched', w));
+    manager.startGame('watched');
+    playRounds(manager, 'watched', 2);
+    await manager.flush();
+
+    const restarted = createManager(storage);
+    await restarted.restoreGames();
+
+    const ws = fakeSocket();
+    expect(restarted.subscribe('watched', ws)).toBe(true);
+    expect(ws.sent).toEqual([
+      expect.objectContaining({
+        type: 'game_state',
+        gameId: 'watched',
+        payload: expect.objectContaining({ status: 'active', currentRound: 2 }),
+      }),
+    ]);
+  });
+
+  it('does not restore over games already in memory', async () => {
+    manager.createGame('twice');
+    await manager.flush();
+
+    expect(await manager.restoreGames()).toEqual({
+      restored: [],
+      failed: [{ gameId: 'twice', error: 'Game already exists' }],
+    });
+  });
+});
+
+describe('GameManager without storage', () => {
+  it('refuses to restore', async () => {
+    await expect(new GameManager().restoreGames()).rejects.toThrow('No storage configured');
+  });
+});
@@ -0,0 +1,668 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import {
+  CommitRevealManager,
+  createCommitment,
+  createMockOreBlockCommitmentManager,
+  type MissingRevealPolicyName,
+  type Standing,
+} from '@battle-dinghy/core';
+import { GameManager } from '../src/game-manager.js';
+import { MemoryGameStore } from '../src/game-storage.js';
+import {
+  GameOrchestrator,
+  OrchestratorConfig,
+  allocatePayouts,
+  excludeBots,
+  validatePayoutTiers,
+} from '../src/orchestrator.js';
+import { FileOrchestratorStore, MemoryOrchestratorStore, OrchestratorState } from '../src/orchestrator-storage.js';
+import { TransactionConnection } from './fixtures/buy-in.js';
+
+// =============================================================================
+// Test Setup
+// =============================================================================
+
+const BUY_IN = 1_000_000;
+
+function standing(placement: number, playerId: string, members?: string[]): Standing {
+  return {
+    placement,
+    playerId,
+    ...(members ? { members } : {}),
+    eliminatedAtRound: placement === 1 ? null : 10 - placement,
+    cellsRemaining: 0,
+    decidedBy: 'elimination_round',
+  };
+}
+
+function createOrchestrator(
+  gameManager: GameManager,
+  payoutTiersBps: number[],
+  houseBotFillTo = 0,
+  overrides: Partial<OrchestratorConfig> = {}
+): GameOrchestrator {
+  return new GameOrchestrator({
+    connection: new Connection('http://localhost'),
+    escrowWallet: new PublicKey('escrow'),
+    gameManager,
+    twitterBot: null,
+    defaultBuyIn: BUY_IN,
+    defaultMaxPlayers: 10,
+    autoStartOnFull: false,
+    fillDeadlineMinutes: 60,
+    payoutTiersBps,
+    houseBotFillTo,
+    autoCreateGames: false,
+    gameIntervalMinutes: 120,
+    ...overrides,
+  });
+}
+
+function playToCompletion(manager: GameManager, gameId: string): void {
+  for (let i = 0; i < 50; i++) {
+    if (manager.getGameStatus(gameId)!.status === 'complete') break;
+    manager.triggerRound(gameId);
+  }
+}
+
+// =============================================================================
+// Payout Allocation
+// =============================================================================
+
+describe('allocatePayouts', () => {
+  const standings = [standing(1, 'a'), standing(2, 'b'), standing(3, 'c'), standing(4, 'd')];
+
+  it('pays winner-takes-all by default', () => {
+    expect(allocatePayouts(1000, standings, [10_000])).toEqual([
+      { wallet: 'a', lamports: 1000, placement: 1 },
+    ]);
+  });
+
+  it('splits by tier', () => {
+    expect(allocatePayouts(1000, standings, [7000, 2000, 1000])).toEqual([
+      { wallet: 'a', lamports: 700, placement: 1 },
+      { wallet: 'b', lamports: 200, placement: 2 },
+      { wallet: 'c', lamports: 100, placement: 3 },
+    ]);
+  });
+
+  it('gives rounding dust to first place', () => {
+    const payouts = allocatePayouts(1001, standings, [7000, 2000, 1000]);
+
+    expect(payouts.reduce((sum, p) => sum + p.lamports, 0)).toBe(1001);
+    expect(payouts[0].lamports).toBe(701);
+  });
+
+  it('gives unclaimed tiers to first place', () => {
+    expect(allocatePayouts(1000, standings.slice(0, 2), [7000, 2000, 1000])).toEqual([
+      { wallet: 'a', lamports: 800, placement: 1 },
+      { wallet: 'b', lamports: 200, placement: 2 },
+    ]);
+  });
+
+  it('splits each tier among team members', () => {
+    const teams = [standing(1, 'red', ['r1', 'r2']), standing(2, 'blue', ['b1', 'b2', 'b3'])];
+
+    expect(allocatePayouts(1000, teams, [7000, 3000])).toEqual([
+      { wallet: 'r1', lamports: 350, placement: 1 },
+      { wallet: 'r2', lamports: 350, placement: 1 },
+      { wallet: 'b1', lamports: 100, placement: 2 },
+      { wallet: 'b2', lamports: 100, placement: 2 },
+      { wallet: 'b3', lamports: 100, placement: 2 },
+    ]);
+  });
+});
+
+describe('excludeBots', () => {
+  it('drops bots and keeps human placements', () => {
+    const standings = [standing(1, 'bot-1'), standing(2, 'a'), standing(3, 'b')];
+
+    expect(excludeBots(standings, ['bot-1']).map(s => [s.playerId, s.placement])).toEqual([
+      ['a', 2],
+      ['b', 3],
+    ]);
+  });
+
+  it('removes bots from squads and drops all-bot squads', () => {
+    const standings = [standing(1, 'house', ['bot-1', 'bot-2']), standing(2, 'red', ['r1', 'bot-3'])];
+
+    expect(excludeBots(standings, ['bot-1', 'bot-2', 'bot-3'])).toEqual([
+      standing(2, 'red', ['r1']),
+    ]);
+  });
+});
+
+describe('validatePayoutTiers', () => {
+  it('accepts tiers summing to 10000 bps', () => {
+    expect(() => validatePayoutTiers([7000, 2000, 1000])).not.toThrow();
+  });
+
+  it('rejects invalid tiers', () => {
+    expect(() => validatePayoutTiers([])).toThrow('between 1 and');
+    expect(() => validatePayoutTiers([5000, 4000])).toThrow('must sum to 10000');
+    expect(() => validatePayoutTiers([10_000, 0])).toThrow('positive integer');
+    expect(() => validatePayoutTiers(new Array(11).fill(1000))).toThrow('between 1 and');
+  });
+});
+
+// =============================================================================
+// Orchestrator Payouts
+// =============================================================================
+
+describe('GameOrchestrator payouts', () => {
+  let manager: GameManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    manager = new GameManager();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('pays tiers by final placement', () => {
+    const orchestrator = createOrchestrator(manager, [7000, 2000, 1000]);
+    manager.createGame('tiered');
+    ['wallet-1', 'wallet-2', 'wallet-3', 'wallet-4'].forEach(w => manager.joinGame('tiered', w));
+    manager.startGame('tiered');
+    playToCompletion(manager, 'tiered');
+
+    const details = orchestrator.getPayoutDetails('tiered');
+    const standings = manager.getStandings('tiered')!;
+
+    expect(details.success).toBe(true);
+    expect(details.payouts!.map(p => p.wallet)).toEqual(standings.slice(0, 3).map(s => s.playerId));
+    expect(details.payouts!.map(p => p.lamports)).toEqual([2_800_000, 800_000, 400_000]);
+    expect(details.winnerWallet).toBe(standings[0].playerId);
+  });
+
+  it('splits squad tiers among members', () => {
+    const orchestrator = createOrchestrator(manager, [10_000]);
+    manager.createGame('teams', { teamMode: true });
+    manager.joinGame('teams', 'wallet-1', 'red');
+    manager.joinGame('teams', 'wallet-2', 'red');
+    manager.joinGame('teams', 'wallet-3', 'blue');
+    manager.joinGame('teams', 'wallet-4', 'blue');
+    manager.startGame('teams');
+    playToCompletion(manager, 'teams');
+
+    const details = orchestrator.getPayoutDetails('teams');
+    const status = manager.getGameStatus('teams')!;
+
+    expect(details.winningTeam).toBe(status.winner);
+    expect(details.winnerWallet).toBeUndefined();
+    expect(details.payouts).toEqual(
+      status.winningMembers.map(wallet => ({ wallet, lamports: 2_000_000, placement: 1 }))
+    );
+  });
+
+  it('never pays house bots and excludes them from the pool', () => {
+    const orchestrator = createOrchestrator(manager, [10_000]);
+    manager.createGame('bots');
+    manager.joinGame('bots', 'wallet-1');
+    manager.joinGame('bots', 'wallet-2');
+    manager.addBot('bots');
+    manager.addBot('bots');
+    manager.startGame('bots');
+    playToCompletion(manager, 'bots');
+
+    const details = orchestrator.getPayoutDetails('bots');
+    const humanStandings = manager.getStandings('bots')!.filter(s => !manager.isBot('bots', s.playerId));
+
+    expect(details.playerCount).toBe(2);
+    expect(details.prizePoolLamports).toBe(2 * BUY_IN);
+    expect(details.payouts).toEqual([
+      { wallet: humanStandings[0].playerId, lamports: 2 * BUY_IN, placement: humanStandings[0].placement },
+    ]);
+  });
+
+  it('rejects invalid tier configuration', () => {
+    expect(() => createOrchestrator(manager, [5000])).toThrow('must sum to 10000');
+  });
+});
+
+// =============================================================================
+// House Bots
+// =============================================================================
+
+describe('GameOrchestrator house bots', () => {
+  let manager: GameManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    manager = new GameManager();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('fills a lobby with bots up to the per-game target', async () => {
+    const orchestrator = createOrchestrator(manager, [10_000], 4);
+    await orchestrator.createGame('lobby', { houseBotFillTo: 10 });
+    manager.joinGame('lobby', 'wallet-1');
+
+    const bots = orchestrator.fillWithBots('lobby');
+    const status = manager.getGameStatus('lobby')!;
+
+    expect(bots).toHaveLength(9);
+    expect(status.players).toHaveLength(10);
+    expect(status.bots).toEqual(bots);
+    expect(status.buyInSol).toBe(BUY_IN / LAMPORTS_PER_SOL);
+  });
+
+  it('tops up and starts the game at the fill deadline', async () => {
+    const orchestrator = createOrchestrator(manager, [10_000], 3);
+    orchestrator.start();
+    await orchestrator.createGame('deadline');
+    manager.joinGame('deadline', 'wallet-1');
+
+    vi.advanceTimersByTime(61 * 60_000);
+    orchestrator.stop();
+
+    const status = manager.getGameStatus('deadline')!;
+    expect(status.status).toBe('active');
+    expect(status.players).toHaveLength(3);
+    expect(status.bots).toHaveLength(2);
+  });
+
+  it('cancels at the deadline when bots are disabled', async () => {
+    const orchestrator = createOrchestrator(manager, [10_000]);
+    orchestrator.start();
+    await orchestrator.createGame('empty');
+    manager.joinGame('empty', 'wallet-1');
+
+    vi.advanceTimersByTime(61 * 60_000);
+    orchestrator.stop();
+
+    expect(manager.getGameStatus('empty')!.status).toBe('cancelled');
+  });
+});
+
+// =============================================================================
+// Commit-Reveal Outcomes
+// =============================================================================
+
+describe('GameOrchestrator commit-reveal outcomes', () => {
+  const WALLETS = ['wallet-1', 'wallet-2', 'wallet-3'];
+  let manager: GameManager;
+  let orchestrator: GameOrchestrator;
+
+  /** Everyone commits; wallet-3 never reveals by the deadline */
+  function finalize(policy: MissingRevealPolicyName) {
+    const commitReveal = new CommitRevealManager('reveal', { minPlayers: 2, missingRevealPolicy: policy });
+    for (const wallet of WALLETS) {
+      commitReveal.submitCommitment(wallet, createCommitment(`secret-${wallet}`, wallet));
+    }
+    commitReveal.startRevealPhase();
+    commitReveal.revealSecret('wallet-1', 'secret-wallet-1');
+    commitReveal.revealSecret('wallet-2', 'secret-wallet-2');
+    vi.setSystemTime(commitReveal.getState().revealDeadline + 1);
+    return commitReveal.finalize('e'.repeat(64));
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    manager = new GameManager();
+    orchestrator = createOrchestrator(manager, [10_000]);
+    await orchestrator.createGame('reveal');
+    WALLETS.forEach(w => manager.joinGame('reveal', w));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('seeds the game with the commit-reveal output', async () => {
+    const result = finalize('use_commitment');
+    expect(await orchestrator.applyRevealOutcome('reveal', result)).toEqual({ success: true });
+    expect(manager.getGameSeed('reveal')).toEqual(result.seed);
+    expect(manager.getGameStatus('reveal')!.players).toEqual(WALLETS);
+    expect(orchestrator.getPendingRefunds()).toEqual([]);
+  });
+
+  it('forfeit removes the player and keeps their buy-in in the pot', async () => {
+    await orchestrator.applyRevealOutcome('reveal', finalize('forfeit'));
+    expect(manager.getGameStatus('reveal')!.players).toEqual(['wallet-1', 'wallet-2']);
+    expect(orchestrator.getPendingRefunds()).toEqual([]);
+
+    await orchestrator.startGame('reveal');
+    playToCompletion(manager, 'reveal');
+
+    const details = orchestrator.getPayoutDetails('reveal');
+    expect(details.playerCount).toBe(2);
+    expect(details.prizePoolLamports).toBe(3 * BUY_IN);
+    expect(details.payouts![0].lamports).toBe(3 * BUY_IN);
+  });
+
+  it('refund removes the player and queues their refund', async () => {
+    const refundPending = vi.fn();
+    orchestrator.on('refund_pending', refundPending);
+
+    await orchestrator.applyRevealOutcome('reveal', finalize('refund'));
+    expect(manager.getGameStatus('reveal')!.players).toEqual(['wallet-1', 'wallet-2']);
+    expect(orchestrator.getPendingRefunds()).toEqual([
+      {
+        gameId: 'reveal',
+        refunds: [
+          {
+            wallet: 'wallet-3',
+            lamports: BUY_IN,
+            reason: 'missing_reveal',
+            buyInTx: null,
+            status: 'pending',
+            txSignature: null,
+          },
+        ],
+      },
+    ]);
+    expect(refundPending).toHaveBeenCalledTimes(1);
+
+    await orchestrator.startGame('reveal');
+    playToCompletion(manager, 'reveal');
+    expect(orchestrator.getPayoutDetails('reveal').prizePoolLamports).toBe(2 * BUY_IN);
+  });
+
+  it('abort cancels the game and refunds everyone', async () => {
+    await orchestrator.applyRevealOutcome('reveal', finalize('abort'));
+    expect(manager.getGameStatus('reveal')!.status).toBe('cancelled');
+
+    const [{ refunds }] = orchestrator.getPendingRefunds();
+    expect(refunds.map(r => r.wallet)).toEqual(WALLETS);
+    expect(refunds.every(r => r.reason === 'game_aborted')).toBe(true);
+  });
+
+  it('rejects outcomes for games that already started', async () => {
+    await orchestrator.startGame('reveal');
+    const result = await orchestrator.applyRevealOutcome('reveal', finalize('refund'));
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('GameOrchestrator ORE block verification', () => {
+  let manager: GameManager;
+  let orchestrator: GameOrchestrator;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    manager = new GameManager();
+    orchestrator = createOrchestrator(manager, [10_000]);
+    await orchestrator.createGame('ore');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('pauses the game on a verification conflict', async () => {
+    const conflict = vi.fn();
+    orchestrator.on('verification_conflict', conflict);
+
+    const ore = createMockOreBlockCommitmentManager();
+    await ore.manager.createCommitment('ore', 'operator');
+    ore.manager.observeBlockHash('ore', 'webhook', 'hash-b');
+    ore.addBlock(103, 'hash-a', Date.now() + 60_000);
+    ore.setBlockHeight(105);
+    const result = await ore.manager.verifyCommitment('ore');
+
+    expect(orchestrator.applyOreVerification('ore', result)).toEqual({ success: true, paused: true });
+    expect(manager.getGameStatus('ore')!.status).toBe('paused');
+    expect(conflict.mock.calls[0][0].observations.map((o: { source: string }) => o.source)).toEqual([
+      'webhook',
+      'rpc',
+    ]);
+  });
+
+  it('leaves the game alone on other outcomes', () => {
+    expect(orchestrator.applyOreVerification('ore', { success: false, outcome: 'pending' })).toEqual({
+      success: true,
+      paused: false,
+    });
+    expect(manager.getGameStatus('ore')!.status).toBe('waiting');
+  });
+});
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+describe('GameOrchestrator persistence', () => {
+  let connection: TransactionConnection;
+  let gameStore: MemoryGameStore;
+  let storage: MemoryOrchestratorStore;
+  let manager: GameManager;
+  let orchestrator: GameOrchestrator;
+
+  function create(gameManager: GameManager): GameOrchestrator {
+    return createOrchestrator(gameManager, [10_000], 0, {
+      connection: connection as unknown as Connection,
+      storage,
+    });
+  }
+
+  /** Simulate a restart: new manager and orchestrator over the same storage */
+  async function restart() {
+    await manager.flush();
+    await orchestrator.flush();
+    manager = new GameManager({ storage: gameStore });
+    await manager.restoreGames();
+    orchestrator = create(manager);
+    return orchestrator.restore();
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    connection = new TransactionConnection();
+    [1, 2, 3].forEach(i => connection.addTransfer(`tx-${i}`, `wallet-${i}`, 'escrow', BUY_IN));
+    gameStore = new MemoryGameStore();
+    storage = new MemoryOrchestratorStore();
+    manager = new GameManager({ storage: gameStore });
+    orchestrator = create(manager);
+    await orchestrator.createGame('lobby');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('credits a buy-in transaction only once', async () => {
+    await orchestrator.createGame('other');
+    expect(await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-1', 'tx-1')).toEqual({ success: true });
+
+    // A retried confirmation is a no-op
+    expect(await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-1', 'tx-1')).toEqual({ success: true });
+    expect(manager.getGameStatus('lobby')!.players).toEqual(['wallet-1']);
+
+    for (const [gameId, wallet] of [['lobby', 'wallet-2'], ['other', 'wallet-1']]) {
+      expect(await orchestrator.confirmPlayerBuyIn(gameId, wallet, 'tx-1')).toEqual({
+        success: false,
+        error: 'Transaction already used for a buy-in',
+        reason: 'already_used',
+      });
+    }
+    expect(await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-1', 'tx-2')).toEqual({
+      success: false,
+      error: 'Player already confirmed',
+    });
+  });
+
+  it('does not credit a buy-in twice while it is being verified', async () => {
+    const [first, second] = await Promise.all([
+      orchestrator.confirmPlayerBuyIn('lobby', 'wallet-1', 'tx-1'),
+      orchestrator.confirmPlayerBuyIn('lobby', 'wallet-2', 'tx-1'),
+    ]);
+    expect(first).toEqual({ success: true });
+    expect(second).toEqual({ success: false, error: 'Transaction is already being verified' });
+  });
+
+  it('credits one of two buy-ins a wallet confirms concurrently', async () => {
+    connection.addTransfer('tx-1b', 'wallet-1', 'escrow', BUY_IN);
+
+    const results = await Promise.all([
+      orchestrator.confirmPlayerBuyIn('lobby', 'wallet-1', 'tx-1'),
+      orchestrator.confirmPlayerBuyIn('lobby', 'wallet-1', 'tx-1b'),
+    ]);
+
+    expect(results).toEqual([{ success: true }, { success: false, error: 'Player already confirmed' }]);
+    expect(orchestrator.getPendingGames()[0].confirmedPlayers).toEqual(new Map([['wallet-1', 'tx-1']]));
+    expect(manager.getGameStatus('lobby')!.players).toEqual(['wallet-1']);
+
+    // The credited buy-in survives a restart
+    expect((await restart()).dropped).toEqual([]);
+    expect(manager.getGameStatus('lobby')!.players).toEqual(['wallet-1']);
+  });
+
+  it('restores pending games with their buy-ins', async () => {
+    await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-1', 'tx-1');
+    await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-2', 'tx-2');
+    const before = orchestrator.getPendingGames();
+
+    expect(await restart()).toEqual({ pendingGames: ['lobby'], rejoined: [], dropped: [], unverified: [] });
+    expect(orchestrator.getPendingGames()).toEqual(before);
+    expect(manager.getGameStatus('lobby')!.players).toEqual(['wallet-1', 'wallet-2']);
+
+    expect((await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-3', 'tx-1')).error).toBe(
+      'Transaction already used for a buy-in'
+    );
+  });
+
+  it('reconciles buy-ins against the escrow on restart', async () => {
+    await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-1', 'tx-1');
+    await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-2', 'tx-2');
+    await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-3', 'tx-3');
+
+    // The game lost wallet-1, tx-2 was dropped by the cluster and tx-3
+    // cannot be checked right now
+    manager.removePlayer('lobby', 'wallet-1');
+    connection.drop('tx-2');
+    connection.failOn('tx-3');
+    const dropped = vi.fn();
+
+    const result = await restart();
+    orchestrator.on('buy_in_dropped', dropped);
+
+    expect(result.rejoined).toEqual([{ txSignature: 'tx-1', gameId: 'lobby', wallet: 'wallet-1', teamId: null }]);
+    expect(result.dropped).toEqual([
+      { txSignature: 'tx-2', gameId: 'lobby', wallet: 'wallet-2', teamId: null, error: 'Transaction not found' },
+    ]);
+    expect(result.unverified.map(r => r.txSignature)).toEqual(['tx-3']);
+    expect(manager.getGameStatus('lobby')!.players).toEqual(['wallet-3', 'wallet-1']);
+    expect(Array.from(orchestrator.getPendingGames()[0].confirmedPlayers.keys())).toEqual(['wallet-1', 'wallet-3']);
+
+    // A dropped transaction can be confirmed again once it lands
+    connection.addTransfer('tx-2', 'wallet-2', 'escrow', BUY_IN);
+    expect(await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-2', 'tx-2')).toEqual({ success: true });
+  });
+
+  it('keeps a lobby paused before it started and takes buy-ins once resumed', async () => {
+    orchestrator.start();
+    manager.pauseGame('lobby', 'ORE block verification conflict');
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(orchestrator.getPendingGames().map(p => p.gameId)).toEqual(['lobby']);
+
+    manager.resumeGame('lobby');
+    expect(await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-1', 'tx-1')).toEqual({ success: true });
+    expect(manager.getGameStatus('lobby')!.players).toEqual(['wallet-1']);
+    orchestrator.stop();
+  });
+
+  it('restores and reconciles paused lobbies', async () => {
+    await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-1', 'tx-1');
+    await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-2', 'tx-2');
+    manager.pauseGame('lobby', 'ORE block verification conflict');
+    connection.drop('tx-2');
+
+    const result = await restart();
+
+    expect(result.pendingGames).toEqual(['lobby']);
+    expect(result.dropped.map(r => r.txSignature)).toEqual(['tx-2']);
+    expect(manager.getGameStatus('lobby')!.players).toEqual(['wallet-1']);
+    expect(manager.getGameStatus('lobby')!.status).toBe('paused');
+  });
+
+  it('releases games that are no longer waiting', async () => {
+    await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-1', 'tx-1');
+    await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-2', 'tx-2');
+    manager.startGame('lobby');
+
+    expect((await restart()).pendingGames).toEqual([]);
+    expect(orchestrator.getPendingGames()).toEqual([]);
+    expect((await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-3', 'tx-3')).success).toBe(false);
+  });
+
+  it('never pays a game twice across restarts', async () => {
+    await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-1', 'tx-1');
+    await orchestrator.confirmPlayerBuyIn('lobby', 'wallet-2', 'tx-2');
+    await orchestrator.startGame('lobby');
+    playToCompletion(manager, 'lobby');
+    const winner = manager.getGameStatus('lobby')!.winner!;
+    expect(orchestrator.getPayoutDetails('lobby').payoutStatus).toBe('pending');
+    orchestrator.markGamePaid('lobby', 'payout-tx');
+
+    await restart();
+
+    expect(orchestrator.getPayoutDetails('lobby').payoutStatus).toBe('paid');
+    expect(orchestrator.markGamePaid('lobby').error).toBe('Game already marked as paid');
+    expect(await orchestrator.processWinnerPayout('lobby', winner)).toEqual({
+      success: false,
+      error: 'Game already marked as paid',
+    });
+  });
+
+  it('requires storage to restore', async () => {
+    await expect(createOrchestrator(manager, [10_000]).restore()).rejects.toThrow('No storage configured');
+  });
+});
+
+describe('FileOrchestratorStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'battle-dinghy-orchestrator-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips the state and starts empty', async () => {
+    const store = new FileOrchestratorStore(join(dir, 'nested', 'orchestrator.json'));
+    expect(await store.loadState()).toBeNull();
+
+    const state: OrchestratorState = {
+      pendingGames: [{
+        gameId: 'lobby',
+        tweetId: null,
+        createdAt: 1,
+        fillDeadline: 2,
+        houseBotFillTo: 0,
+        confirmedPlayers: [{ wallet: 'wallet-1', txSignature: 'tx-1' }],
+      }],
+      buyIns: [{ txSignature: 'tx-1', gameId: 'lobby', wallet: 'wallet-1', teamId: null }],
+      paidGames: [{ gameId: 'done', paidAt: 3, txSignature: null }],
+      forfeitedBuyIns: [],
+      pendingRefunds: [],
+    };
+    await store.saveState(state);
+    expect(await store.loadState()).toEqual(state);
+  });
+});
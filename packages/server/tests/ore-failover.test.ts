@@ -0,0 +1,267 @@
+// ORE Failover Tests
+//
+// Tests OreMonitorFailover over hand-fed OreMonitorPush sources, plus the
+// webhook path that feeds such a source from Helius payloads.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { OreMonitor, OreRoundResult } from '@battle-dinghy/core';
+import {
+  OreDisagreement,
+  OreFailoverEvent,
+  OreMonitorFailover,
+  OreMonitorPush,
+  OreSourceHealth,
+} from '../src/ore-failover.js';
+import { ORE_PROGRAM_ID, getRoundPda, parseOreWebhook } from '../src/ore-integration.js';
+
+const STALL_MS = 60_000;
+const CHECK_MS = 5_000;
+
+function round(roundNumber: number, winningBlock = roundNumber % 25, proof = `proof-${roundNumber}`): OreRoundResult {
+  return { roundNumber, winningBlock, timestamp: roundNumber * 1000, proof };
+}
+
+/**
+ * A source whose start() fails, like an RPC that refuses the subscription
+ */
+class FailingMonitor extends OreMonitorPush {
+  async start(): Promise<void> {
+    throw new Error('RPC unavailable');
+  }
+}
+
+describe('OreMonitorFailover', () => {
+  let primary: OreMonitorPush;
+  let backup: OreMonitorPush;
+  let monitor: OreMonitorFailover;
+  let emitted: OreRoundResult[];
+
+  function createMonitor(sources: Array<[string, OreMonitor]>): OreMonitorFailover {
+    const created = new OreMonitorFailover(
+      sources.map(([name, source]) => ({ name, monitor: source })),
+      { stallTimeoutMs: STALL_MS, checkIntervalMs: CHECK_MS }
+    );
+    created.on('round', (result: OreRoundResult) => emitted.push(result));
+    return created;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    primary = new OreMonitorPush();
+    backup = new OreMonitorPush();
+    emitted = [];
+    monitor = createMonitor([['primary', primary], ['backup', backup]]);
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('requires uniquely named sources', () => {
+    expect(() => new OreMonitorFailover([])).toThrow('At least one ORE source is required');
+    expect(
+      () => new OreMonitorFailover([{ name: 'a', monitor: primary }, { name: 'a', monitor: backup }])
+    ).toThrow('ORE source names must be unique');
+  });
+
+  it('emits each round once when sources agree', async () => {
+    await monitor.start();
+
+    primary.push(round(100));
+    backup.push(round(100));
+    backup.push(round(101));
+    primary.push(round(101));
+
+    expect(emitted.map(r => r.roundNumber)).toEqual([100, 101]);
+    expect(await monitor.getCurrentRound()).toBe(101);
+    expect(monitor.getHistory()).toEqual(emitted);
+  });
+
+  it('waits for the active source before emitting a round a backup saw first', async () => {
+    await monitor.start();
+
+    backup.push(round(100));
+    expect(emitted).toEqual([]);
+
+    primary.push(round(100));
+    expect(emitted.map(r => r.roundNumber)).toEqual([100]);
+  });
+
+  it('reports disagreements and keeps the first result', async () => {
+    const disagreements: OreDisagreement[] = [];
+    monitor.on('disagreement', (d: OreDisagreement) => disagreements.push(d));
+    await monitor.start();
+
+    primary.push(round(100, 4, 'aaaa'));
+    backup.push(round(100, 9, 'bbbb'));
+
+    expect(emitted).toEqual([round(100, 4, 'aaaa')]);
+    expect(disagreements).toEqual([{
+      roundNumber: 100,
+      accepted: { source: 'primary', winningBlock: 4, proof: 'aaaa' },
+      conflicting: { source: 'backup', winningBlock: 9, proof: 'bbbb' },
+    }]);
+    expect(monitor.getHealth().find(h => h.name === 'backup')!.disagreements).toBe(1);
+  });
+
+  it('fails over to a healthy backup when the active source stalls', async () => {
+    const failovers: OreFailoverEvent[] = [];
+    monitor.on('failover', (e: OreFailoverEvent) => failovers.push(e));
+    await monitor.start();
+
+    primary.push(round(100));
+    backup.push(round(100));
+
+    // The primary goes quiet while the backup keeps going
+    await vi.advanceTimersByTimeAsync(STALL_MS / 2);
+    backup.push(round(101));
+    await vi.advanceTimersByTimeAsync(STALL_MS / 2);
+    backup.push(round(102));
+    expect(emitted.map(r => r.roundNumber)).toEqual([100]);
+
+    await vi.advanceTimersByTimeAsync(CHECK_MS);
+    expect(failovers).toEqual([expect.objectContaining({ from: 'primary', to: 'backup', reason: 'stalled' })]);
+    expect(monitor.getActiveSource()).toBe('backup');
+
+    // Rounds seen by the backup during the stall are caught up in order
+    expect(emitted.map(r => r.roundNumber)).toEqual([100, 101, 102]);
+
+    backup.push(round(103));
+    expect(emitted.map(r => r.roundNumber)).toEqual([100, 101, 102, 103]);
+  });
+
+  it('stays on the active source while no backup is healthy', async () => {
+    await monitor.start();
+    primary.push(round(100));
+
+    await vi.advanceTimersByTimeAsync(STALL_MS + CHECK_MS);
+    expect(monitor.getActiveSource()).toBe('primary');
+    expect(monitor.getHealth().map(h => h.status)).toEqual(['stalled', 'stalled']);
+
+    // A stalled source recovers when it produces a round
+    primary.push(round(101));
+    expect(emitted.map(r => r.roundNumber)).toEqual([100, 101]);
+    expect(monitor.getHealth()[0].status).toBe('healthy');
+  });
+
+  it('marks sources that fail to start as down and fails over from them', async () => {
+    monitor = createMonitor([['broken', new FailingMonitor()], ['backup', backup]]);
+    await monitor.start();
+
+    expect(monitor.getHealth()[0]).toMatchObject({ name: 'broken', status: 'down', error: 'RPC unavailable' });
+
+    backup.push(round(100));
+    expect(monitor.getActiveSource()).toBe('backup');
+    expect(emitted.map(r => r.roundNumber)).toEqual([100]);
+  });
+
+  it('emits health snapshots when a source changes status', async () => {
+    const snapshots: OreSourceHealth[][] = [];
+    monitor.on('health', (health: OreSourceHealth[]) => snapshots.push(health));
+    await monitor.start();
+
+    primary.push(round(100));
+    primary.push(round(101));
+
+    expect(snapshots.map(s => s.map(h => h.status))).toEqual([
+      ['starting', 'starting'],
+      ['healthy', 'starting'],
+    ]);
+    expect(monitor.getHealth()[0]).toEqual({
+      name: 'primary',
+      status: 'healthy',
+      active: true,
+      lastRound: 101,
+      lastRoundAt: Date.now(),
+      roundsSeen: 2,
+      disagreements: 0,
+    });
+  });
+
+  it('ignores rounds without a round number', async () => {
+    await monitor.start();
+    primary.emit('round', round(0));
+    expect(emitted).toEqual([]);
+  });
+
+  it('leaves shared sources running when stopped', async () => {
+    monitor = new OreMonitorFailover([
+      { name: 'primary', monitor: primary },
+      { name: 'webhook', monitor: backup, shared: true },
+    ]);
+    await monitor.start();
+    monitor.stop();
+
+    expect(primary.isRunning()).toBe(false);
+    expect(backup.isRunning()).toBe(true);
+  });
+
+  it('resolves waiters with emitted rounds', async () => {
+    await monitor.start();
+    const waiting = monitor.waitForRound(101, 10_000);
+
+    primary.push(round(100));
+    primary.push(round(101));
+    await expect(waiting).resolves.toEqual(round(101));
+    await expect(monitor.waitForRound(100)).resolves.toEqual(round(100));
+  });
+});
+
+describe('OreMonitorPush', () => {
+  it('only emits rounds after the last one while running', async () => {
+    const source = new OreMonitorPush();
+    expect(source.push(round(100))).toBe(false);
+
+    await source.start();
+    expect(source.push(round(100))).toBe(true);
+    expect(source.push(round(100))).toBe(false);
+    expect(source.push(round(0))).toBe(false);
+    expect(source.push(round(102))).toBe(true);
+    expect(await source.getCurrentRound()).toBe(102);
+  });
+});
+
+describe('parseOreWebhook', () => {
+  const FIXTURES = join(fileURLToPath(new URL('.', import.meta.url)), 'fixtures', 'ore');
+
+  function roundAccountData(fixture: string): string {
+    const { account } = JSON.parse(readFileSync(join(FIXTURES, `${fixture}.json`), 'utf8'));
+    return account.data[0];
+  }
+
+  function payload(accountData: Array<{ account: string; data: string }>) {
+    return {
+      type: 'UNKNOWN',
+      signature: 'sig-1',
+      slot: 1,
+      timestamp: 1_700_000_000,
+      accountData: [{ account: ORE_PROGRAM_ID.toString(), data: '' }, ...accountData],
+    };
+  }
+
+  it('reads the round from a settled round account in the payload', () => {
+    const result = parseOreWebhook(payload([
+      { account: getRoundPda(1001)[0].toBase58(), data: roundAccountData('round-1001') },
+    ]));
+    expect(result).toMatchObject({ roundNumber: 1001, winningBlock: 23, timestamp: 1_700_000_000_000 });
+  });
+
+  it('falls back to the signature when the round is not settled or not at its PDA', () => {
+    const pending = parseOreWebhook(payload([
+      { account: getRoundPda(1002)[0].toBase58(), data: roundAccountData('round-1002-pending') },
+    ]));
+    expect(pending).toMatchObject({ roundNumber: 0, proof: 'sig-1' });
+
+    const misplaced = parseOreWebhook(payload([
+      { account: getRoundPda(999)[0].toBase58(), data: roundAccountData('round-1001') },
+    ]));
+    expect(misplaced).toMatchObject({ roundNumber: 0, proof: 'sig-1' });
+  });
+});
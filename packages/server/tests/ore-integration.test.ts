@@ -0,0 +1,193 @@
+// ORE Integration Tests
+//
+// Tests ORE board/round account decoding and OreMonitorLive against account
+// fixtures in `solana account <pubkey> --output json` format
+// (tests/fixtures/ore), served by a fake connection keyed by PDA.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { PublicKey, type AccountInfo } from '@solana/web3.js';
+import type { OreRoundResult } from '@battle-dinghy/core';
+import {
+  OreAccountSource,
+  OreMonitorLive,
+  decodeBoardAccount,
+  decodeRoundAccount,
+  getBoardPda,
+  getRoundPda,
+  getRoundRng,
+  getWinningSquare,
+  toOreRoundResult,
+} from '../src/ore-integration.js';
+
+const FIXTURES = join(fileURLToPath(new URL('.', import.meta.url)), 'fixtures', 'ore');
+
+// Slot hashes and winning squares of the settled round fixtures
+const SETTLED = {
+  1000: { slotHash: 'c84689d376e6e6b51d8b5f6bbdc60dcbf420f51f09cc65dce6377e85f14a3bc3', square: 14 },
+  1001: { slotHash: '81b7d7eb2ac0ff004b01cc2b6af13d6432e6a52fa08c0c83e730cdb60a17b3bf', square: 23 },
+  1002: { slotHash: '3490ebff0ee21a00acda6dc774ef7f404998c10d1bc1a5be506a367d0450375f', square: 8 },
+};
+
+function loadAccount(name: string): AccountInfo<Buffer> {
+  const { account } = JSON.parse(readFileSync(join(FIXTURES, `${name}.json`), 'utf8'));
+  const [data, encoding] = account.data;
+  return {
+    data: Buffer.from(data, encoding),
+    owner: new PublicKey(account.owner),
+    lamports: account.lamports,
+    executable: account.executable,
+    rentEpoch: account.rentEpoch,
+  };
+}
+
+/**
+ * Connection stand-in returning fixture accounts by address
+ */
+class FixtureConnection implements OreAccountSource {
+  private accounts = new Map<string, AccountInfo<Buffer>>();
+
+  setBoard(fixture: string): void {
+    this.accounts.set(getBoardPda()[0].toBase58(), loadAccount(fixture));
+  }
+
+  setRound(roundId: number, fixture: string): void {
+    this.accounts.set(getRoundPda(roundId)[0].toBase58(), loadAccount(fixture));
+  }
+
+  closeRound(roundId: number): void {
+    this.accounts.delete(getRoundPda(roundId)[0].toBase58());
+  }
+
+  async getAccountInfo(address: PublicKey): Promise<AccountInfo<Buffer> | null> {
+    return this.accounts.get(address.toBase58()) ?? null;
+  }
+}
+
+describe('ORE account decoding', () => {
+  it('decodes the board account', () => {
+    const board = decodeBoardAccount(loadAccount('board-1001').data);
+    expect(board.roundId).toBe(1001);
+    expect(board.endSlot - board.startSlot).toBe(150);
+  });
+
+  it('decodes a round account', () => {
+    const round = decodeRoundAccount(loadAccount('round-1000').data);
+    expect(round.id).toBe(1000);
+    expect(round.deployed).toHaveLength(25);
+    expect(round.count).toHaveLength(25);
+    expect(round.slotHash.toString('hex')).toBe(SETTLED[1000].slotHash);
+    expect(round.totalDeployed).toBe(round.deployed.reduce((sum, d) => sum + d, 0n));
+  });
+
+  it('derives the winning square from the slot hash like the ORE program', () => {
+    for (const [id, expected] of Object.entries(SETTLED)) {
+      const round = decodeRoundAccount(loadAccount(`round-${id}`).data);
+      const hash = round.slotHash;
+      const rng = [0, 8, 16, 24].reduce((acc, o) => acc ^ hash.readBigUInt64LE(o), 0n);
+      expect(getRoundRng(round)).toBe(rng);
+      expect(getWinningSquare(round)).toBe(expected.square);
+    }
+  });
+
+  it('has no result until the slot hash is set', () => {
+    const pending = decodeRoundAccount(loadAccount('round-1002-pending').data);
+    expect(getWinningSquare(pending)).toBeNull();
+    expect(toOreRoundResult(pending)).toBeNull();
+
+    const noHash = { ...pending, slotHash: Buffer.alloc(32, 0xff) };
+    expect(getRoundRng(noHash)).toBeNull();
+  });
+
+  it('builds a round result with the real round id and slot hash', () => {
+    const round = decodeRoundAccount(loadAccount('round-1001').data);
+    expect(toOreRoundResult(round, 1234)).toEqual({
+      roundNumber: 1001,
+      winningBlock: 23,
+      timestamp: 1234,
+      proof: SETTLED[1001].slotHash,
+    });
+  });
+
+  it('rejects truncated account data', () => {
+    expect(() => decodeBoardAccount(Buffer.alloc(16))).toThrow('Board account data too short');
+    expect(() => decodeRoundAccount(loadAccount('round-1000').data.subarray(0, 300))).toThrow(
+      'Round account data too short'
+    );
+  });
+});
+
+describe('OreMonitorLive', () => {
+  const POLL_MS = 1000;
+  let connection: FixtureConnection;
+  let monitor: OreMonitorLive;
+  let emitted: OreRoundResult[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    connection = new FixtureConnection();
+    connection.setBoard('board-1001');
+    connection.setRound(1000, 'round-1000');
+    connection.setRound(1001, 'round-1001');
+    connection.setRound(1002, 'round-1002-pending');
+
+    monitor = new OreMonitorLive(connection, POLL_MS);
+    emitted = [];
+    monitor.on('round', (result: OreRoundResult) => emitted.push(result));
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('starts at the most recent finished round', async () => {
+    await monitor.start();
+    expect(emitted.map(r => [r.roundNumber, r.winningBlock])).toEqual([[1000, 14]]);
+    expect(emitted[0].proof).toBe(SETTLED[1000].slotHash);
+    expect(await monitor.getCurrentRound()).toBe(1000);
+  });
+
+  it('emits later rounds in order once their slot hash is set', async () => {
+    await monitor.start();
+
+    connection.setBoard('board-1003');
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+    expect(emitted.map(r => r.roundNumber)).toEqual([1000, 1001]);
+
+    // Polling again does not re-emit settled rounds
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+    expect(emitted.map(r => r.roundNumber)).toEqual([1000, 1001]);
+
+    connection.setRound(1002, 'round-1002');
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+    expect(emitted.map(r => [r.roundNumber, r.winningBlock])).toEqual([[1000, 14], [1001, 23], [1002, 8]]);
+    expect(monitor.getHistory()).toEqual(emitted);
+  });
+
+  it('skips rounds whose account has been closed', async () => {
+    await monitor.start();
+
+    connection.setBoard('board-1003');
+    connection.closeRound(1001);
+    connection.setRound(1002, 'round-1002');
+
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+    expect(emitted.map(r => r.roundNumber)).toEqual([1000, 1002]);
+  });
+
+  it('resolves waiters with the real round', async () => {
+    await monitor.start();
+    const waiting = monitor.waitForRound(1001, 10_000);
+
+    connection.setBoard('board-1003');
+    await vi.advanceTimersByTimeAsync(2 * POLL_MS);
+    await expect(waiting).resolves.toMatchObject({ roundNumber: 1001, winningBlock: 23 });
+  });
+});
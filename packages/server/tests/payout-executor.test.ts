@@ -0,0 +1,379 @@
+// Payout Executor Tests
+//
+// Tests PayoutExecutor retries and its audit log with a scripted sender,
+// and automated payouts through GameOrchestrator.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { GameManager } from '../src/game-manager.js';
+import { GameOrchestrator } from '../src/orchestrator.js';
+import {
+  FilePayoutAuditLog,
+  MemoryPayoutAuditLog,
+  PayoutAttempt,
+  PayoutAuditLog,
+  PayoutExecutor,
+  PayoutRequest,
+  PayoutSender,
+  PayoutSubmitError,
+  TransferPayoutSender,
+  payoutEnvironment,
+  payoutSharesToBps,
+} from '../src/payout-executor.js';
+import { TransactionConnection } from './fixtures/buy-in.js';
+import { ScriptedSender } from './fixtures/payout-sender.js';
+
+// =============================================================================
+// Test Setup
+// =============================================================================
+
+const BUY_IN = 1_000_000;
+
+function payoutRequest(gameId = 'game'): PayoutRequest {
+  return {
+    gameId,
+    payouts: [{ wallet: 'wallet-1', lamports: 2 * BUY_IN, placement: 1 }],
+    seed: new Uint8Array(32),
+  };
+}
+
+// =============================================================================
+// Executor
+// =============================================================================
+
+describe('PayoutExecutor', () => {
+  let auditLog: MemoryPayoutAuditLog;
+
+  function statuses(attempts: PayoutAttempt[]) {
+    return attempts.map(a => [a.attempt, a.status, a.txSignature]);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    auditLog = new MemoryPayoutAuditLog();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('sends once and logs the confirmed attempt', async () => {
+    const sender = new ScriptedSender('confirmed');
+    const executor = new PayoutExecutor(sender, auditLog);
+
+    expect(await executor.execute(payoutRequest())).toEqual({ success: true, txSignature: 'sig-1', attempts: 1 });
+    const [attempt] = await auditLog.list('game');
+    expect(attempt).toMatchObject({
+      gameId: 'game',
+      attempt: 1,
+      method: 'transfer',
+      status: 'confirmed',
+      txSignature: 'sig-1',
+      blockhash: 'hash',
+      lastValidBlockHeight: 100,
+      error: null,
+    });
+  });
+
+  it('retries failed attempts with exponential backoff', async () => {
+    const sender = new ScriptedSender('send_error', 'failed', 'confirmed');
+    const executor = new PayoutExecutor(sender, auditLog, { baseDelayMs: 1_000 });
+
+    const result = executor.execute(payoutRequest());
+    await vi.advanceTimersByTimeAsync(999);
+    expect(sender.sent).toHaveLength(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sender.sent).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(2_000);
+
+    expect(await result).toEqual({ success: true, txSignature: 'sig-2', attempts: 3 });
+    expect(statuses(await auditLog.list())).toEqual([
+      [1, 'failed', null],
+      [2, 'failed', 'sig-1'],
+      [3, 'confirmed', 'sig-2'],
+    ]);
+  });
+
+  it('gives up after the maximum attempts', async () => {
+    const sender = new ScriptedSender('failed', 'failed');
+    const executor = new PayoutExecutor(sender, auditLog, { maxAttempts: 2, baseDelayMs: 10 });
+
+    const result = executor.execute(payoutRequest());
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual({ success: false, attempts: 2, error: 'Transaction failed' });
+    expect(sender.sent).toHaveLength(2);
+  });
+
+  it('checks an unconfirmed payout again instead of resending it', async () => {
+    const sender = new ScriptedSender('unknown', 'confirmed');
+    const executor = new PayoutExecutor(sender, auditLog, { baseDelayMs: 10 });
+
+    const result = executor.execute(payoutRequest());
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual({ success: true, txSignature: 'sig-1', attempts: 2 });
+    expect(sender.sent).toHaveLength(1);
+    expect(sender.confirmed).toEqual(['sig-1', 'sig-1']);
+    expect(statuses(await auditLog.list())).toEqual([
+      [1, 'unconfirmed', 'sig-1'],
+      [2, 'confirmed', 'sig-1'],
+    ]);
+  });
+
+  it('confirms a signed payout whose submission errored before resending', async () => {
+    const sender = new ScriptedSender('submit_error', 'confirmed');
+    const executor = new PayoutExecutor(sender, auditLog, { baseDelayMs: 10 });
+
+    const result = executor.execute(payoutRequest());
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual({ success: true, txSignature: 'sig-1', attempts: 2 });
+    expect(sender.sent).toHaveLength(1);
+    expect(statuses(await auditLog.list())).toEqual([
+      [1, 'unconfirmed', 'sig-1'],
+      [2, 'confirmed', 'sig-1'],
+    ]);
+  });
+
+  it('resumes from the audit log without paying twice', async () => {
+    const first = new PayoutExecutor(new ScriptedSender('unknown'), auditLog, { maxAttempts: 1 });
+    expect((await first.execute(payoutRequest())).success).toBe(false);
+
+    // After a restart the unconfirmed payout is checked before anything is sent
+    const sender = new ScriptedSender('confirmed');
+    const executor = new PayoutExecutor(sender, auditLog);
+    expect(await executor.execute(payoutRequest())).toEqual({ success: true, txSignature: 'sig-1', attempts: 1 });
+    expect(sender.sent).toEqual([]);
+
+    expect(await executor.execute(payoutRequest())).toEqual({ success: true, txSignature: 'sig-1', attempts: 0 });
+    expect(sender.confirmed).toEqual(['sig-1']);
+  });
+
+  it('rejects a second payout of a game in progress', async () => {
+    const executor = new PayoutExecutor(new ScriptedSender('failed'), auditLog, { baseDelayMs: 10 });
+
+    const result = executor.execute(payoutRequest());
+    expect(executor.isInFlight('game')).toBe(true);
+    expect(await executor.execute(payoutRequest())).toEqual({
+      success: false,
+      attempts: 0,
+      error: 'Payout already in progress',
+    });
+
+    await vi.runAllTimersAsync();
+    expect((await result).success).toBe(true);
+    expect(executor.isInFlight('game')).toBe(false);
+  });
+});
+
+describe('TransferPayoutSender', () => {
+  it('keeps the signature of a transaction whose submission errored', async () => {
+    const connection = {
+      getLatestBlockhash: async () => ({ blockhash: 'hash', lastValidBlockHeight: 100 }),
+      sendRawTransaction: async () => {
+        throw new Error('Request timed out');
+      },
+    };
+    const sender = new TransferPayoutSender(connection as unknown as Connection, Keypair.generate());
+
+    const error = await sender.send(payoutRequest()).catch(e => e);
+
+    expect(error).toBeInstanceOf(PayoutSubmitError);
+    expect(error.message).toBe('Request timed out');
+    expect(error.sent).toEqual({
+      signature: bs58.encode(Buffer.alloc(64, 1)),
+      blockhash: 'hash',
+      lastValidBlockHeight: 100,
+    });
+  });
+});
+
+describe('payoutSharesToBps', () => {
+  it('splits by lamports with the rounding dust to the first share', () => {
+    expect(payoutSharesToBps([
+      { wallet: 'a', lamports: 1, placement: 1 },
+      { wallet: 'b', lamports: 1, placement: 2 },
+      { wallet: 'c', lamports: 1, placement: 3 },
+    ])).toEqual([3334, 3333, 3333]);
+  });
+
+  it('rejects shares too small for basis points', () => {
+    expect(() => payoutSharesToBps([])).toThrow('No payout shares');
+    expect(() => payoutSharesToBps([
+      { wallet: 'a', lamports: 100_000, placement: 1 },
+      { wallet: 'b', lamports: 1, placement: 2 },
+    ])).toThrow('Payout share too small to express in basis points');
+  });
+});
+
+describe('payoutEnvironment', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('is null while payouts are manual', () => {
+    vi.stubEnv('PAYOUT_MODE', '');
+    expect(payoutEnvironment()).toBeNull();
+  });
+
+  it('configures transfers from the escrow wallet', () => {
+    vi.stubEnv('PAYOUT_MODE', 'transfer');
+    vi.stubEnv('ESCROW_WALLET_SECRET', '[1,2,3]');
+    expect(payoutEnvironment()).not.toBeNull();
+
+    vi.stubEnv('ESCROW_WALLET_SECRET', '');
+    expect(() => payoutEnvironment()).toThrow('ESCROW_WALLET_SECRET is required');
+  });
+
+  it('rejects declare_winners while buy-ins go to the escrow wallet', () => {
+    vi.stubEnv('PAYOUT_MODE', 'declare_winners');
+    vi.stubEnv('ESCROW_WALLET_SECRET', '[1,2,3]');
+    expect(() => payoutEnvironment()).toThrow('PAYOUT_MODE=declare_winners is not supported');
+
+    vi.stubEnv('PAYOUT_MODE', 'sometimes');
+    expect(() => payoutEnvironment()).toThrow('Invalid PAYOUT_MODE: sometimes');
+  });
+});
+
+describe('FilePayoutAuditLog', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'payouts-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends attempts and lists them per game', async () => {
+    const log = new FilePayoutAuditLog(join(dir, 'nested', 'payouts.jsonl'));
+    expect(await log.list()).toEqual([]);
+
+    const attempt = (gameId: string, status: PayoutAttempt['status']): PayoutAttempt => ({
+      gameId,
+      attempt: 1,
+      method: 'declare_winners',
+      payouts: [{ wallet: 'wallet-1', lamports: BUY_IN, placement: 1 }],
+      status,
+      txSignature: null,
+      blockhash: null,
+      lastValidBlockHeight: null,
+      error: null,
+      at: 1,
+    });
+    await log.append(attempt('a', 'failed'));
+    await log.append(attempt('b', 'confirmed'));
+
+    expect(await new FilePayoutAuditLog(join(dir, 'nested', 'payouts.jsonl')).list()).toEqual([
+      attempt('a', 'failed'),
+      attempt('b', 'confirmed'),
+    ]);
+    expect(await log.list('b')).toEqual([attempt('b', 'confirmed')]);
+  });
+});
+
+// =============================================================================
+// Orchestrator
+// =============================================================================
+
+describe('GameOrchestrator automated payouts', () => {
+  let manager: GameManager;
+
+  async function completedGame(
+    sender: PayoutSender,
+    onFailed = vi.fn(),
+    auditLog: PayoutAuditLog = new MemoryPayoutAuditLog()
+  ) {
+    const connection = new TransactionConnection();
+    [1, 2].forEach(i => connection.addTransfer(`tx-${i}`, `wallet-${i}`, 'escrow', BUY_IN));
+    const executor = new PayoutExecutor(sender, auditLog, { maxAttempts: 1 });
+    const orchestrator = new GameOrchestrator({
+      connection: connection as unknown as Connection,
+      escrowWallet: new PublicKey('escrow'),
+      gameManager: manager,
+      twitterBot: null,
+      defaultBuyIn: BUY_IN,
+      defaultMaxPlayers: 10,
+      autoStartOnFull: false,
+      fillDeadlineMinutes: 60,
+      payoutTiersBps: [10_000],
+      houseBotFillTo: 0,
+      autoCreateGames: false,
+      gameIntervalMinutes: 120,
+      payoutExecutor: executor,
+    });
+
+    orchestrator.on('payout_failed', onFailed);
+
+    await orchestrator.createGame('game');
+    await orchestrator.confirmPlayerBuyIn('game', 'wallet-1', 'tx-1');
+    await orchestrator.confirmPlayerBuyIn('game', 'wallet-2', 'tx-2');
+    await orchestrator.startGame('game');
+    for (let i = 0; i < 50 && manager.getGameStatus('game')!.status !== 'complete'; i++) {
+      manager.triggerRound('game');
+    }
+    await vi.runAllTimersAsync();
+    return orchestrator;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    manager = new GameManager();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('pays the winner when the game completes', async () => {
+    const sender = new ScriptedSender('confirmed');
+    const orchestrator = await completedGame(sender);
+
+    expect(sender.sent).toHaveLength(1);
+    expect(orchestrator.getPayoutDetails('game').payoutStatus).toBe('paid');
+    expect(orchestrator.getPendingPayouts()).toEqual([]);
+    expect(await orchestrator.executePayout('game')).toEqual({
+      success: false,
+      error: 'Game already marked as paid',
+    });
+  });
+
+  it('leaves the game pending when the payout fails, for a manual retry', async () => {
+    const failed = vi.fn();
+    const orchestrator = await completedGame(new ScriptedSender('failed', 'confirmed'), failed);
+
+    expect(failed).toHaveBeenCalledWith({ gameId: 'game', attempts: 1, error: 'Transaction failed' });
+    expect(orchestrator.getPayoutDetails('game').payoutStatus).toBe('pending');
+    expect(orchestrator.getPendingPayouts().map(p => p.gameId)).toEqual(['game']);
+
+    expect(await orchestrator.executePayout('game')).toEqual({ success: true, signature: 'sig-2' });
+    expect(orchestrator.getPayoutDetails('game').payoutStatus).toBe('paid');
+  });
+  it('reports an audit log error as a failed payout instead of an unhandled rejection', async () => {
+    const failed = vi.fn();
+    const sender = new ScriptedSender('confirmed');
+    const auditLog: PayoutAuditLog = {
+      append: async () => {},
+      list: async () => {
+        throw new SyntaxError('Unexpected end of JSON input');
+      },
+    };
+    const orchestrator = await completedGame(sender, failed, auditLog);
+
+    expect(failed).toHaveBeenCalledWith({ gameId: 'game', attempts: 0, error: 'Unexpected end of JSON input' });
+    expect(sender.sent).toEqual([]);
+    expect(orchestrator.getPayoutDetails('game').payoutStatus).toBe('pending');
+  });
+});
@@ -0,0 +1,372 @@
+// Refund Executor Tests
+//
+// Tests refunds of cancelled and under-filled games through
+// GameOrchestrator: queueing every credited buy-in, sending them by
+// transfer or claim_refund, per-player status, and the announcement; and
+// which refunds RefundExecutor sends by transfer in claim_refund mode.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { CommitRevealManager, createCommitment } from '@battle-dinghy/core';
+import { GameManager } from '../src/game-manager.js';
+import { GameOrchestrator } from '../src/orchestrator.js';
+import type { RefundReason, RefundRequest } from '../src/orchestrator.js';
+import { MemoryOrchestratorStore, OrchestratorState } from '../src/orchestrator-storage.js';
+import { MemoryPayoutAuditLog, PayoutExecutor } from '../src/payout-executor.js';
+import { ClaimRefunds, RefundExecutor } from '../src/refund-executor.js';
+import type { TwitterBot } from '../src/twitter-bot.js';
+import { TransactionConnection } from './fixtures/buy-in.js';
+import { ScriptedSender } from './fixtures/payout-sender.js';
+
+// =============================================================================
+// Test Setup
+// =============================================================================
+
+const BUY_IN = 1_000_000;
+
+describe('GameOrchestrator refunds', () => {
+  let connection: TransactionConnection;
+  let manager: GameManager;
+  let twitterBot: { announceNewGame: ReturnType<typeof vi.fn>; announceRefunds: ReturnType<typeof vi.fn> };
+
+  function create(
+    sender: ScriptedSender | null,
+    claims?: ClaimRefunds,
+    storage?: MemoryOrchestratorStore
+  ): GameOrchestrator {
+    const refundExecutor = sender
+      ? new RefundExecutor(new PayoutExecutor(sender, new MemoryPayoutAuditLog(), { maxAttempts: 1 }), claims)
+      : undefined;
+    return new GameOrchestrator({
+      connection: connection as unknown as Connection,
+      escrowWallet: new PublicKey('escrow'),
+      gameManager: manager,
+      twitterBot: twitterBot as unknown as TwitterBot,
+      defaultBuyIn: BUY_IN,
+      defaultMaxPlayers: 10,
+      autoStartOnFull: false,
+      fillDeadlineMinutes: 60,
+      payoutTiersBps: [10_000],
+      houseBotFillTo: 0,
+      autoCreateGames: false,
+      gameIntervalMinutes: 120,
+      refundExecutor,
+      storage,
+    });
+  }
+
+  /** claim_refund through a cancel_game sender, for games with or without a program escrow */
+  function claimRefunds(sender: ScriptedSender, escrowed: boolean): ClaimRefunds {
+    sender.method = 'cancel_game';
+    return {
+      executor: new PayoutExecutor(sender, new MemoryPayoutAuditLog(), { maxAttempts: 1 }),
+      hasEscrow: async () => escrowed,
+    };
+  }
+
+  /** A waiting game with wallet-1 and wallet-2 bought in */
+  async function lobby(orchestrator: GameOrchestrator, players = 2): Promise<void> {
+    await orchestrator.createGame('game');
+    for (let i = 1; i <= players; i++) {
+      await orchestrator.confirmPlayerBuyIn('game', `wallet-${i}`, `tx-${i}`);
+    }
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    connection = new TransactionConnection();
+    [1, 2].forEach(i => connection.addTransfer(`tx-${i}`, `wallet-${i}`, 'escrow', BUY_IN));
+    manager = new GameManager();
+    twitterBot = { announceNewGame: vi.fn().mockResolvedValue(null), announceRefunds: vi.fn().mockResolvedValue(null) };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('refunds an under-filled game at its deadline by transfer', async () => {
+    const sender = new ScriptedSender();
+    const orchestrator = create(sender);
+    const completed = vi.fn();
+    orchestrator.on('refunds_completed', completed);
+    await lobby(orchestrator, 1);
+
+    orchestrator.start();
+    await vi.advanceTimersByTimeAsync(61 * 60_000);
+    orchestrator.stop();
+
+    expect(manager.getGameStatus('game')!.status).toBe('cancelled');
+    expect(sender.requests.map(r => [r.gameId, r.payouts])).toEqual([
+      ['game/wallet-1', [{ wallet: 'wallet-1', lamports: BUY_IN, placement: 0 }]],
+    ]);
+    expect(orchestrator.getRefunds('game')).toEqual([
+      {
+        wallet: 'wallet-1',
+        lamports: BUY_IN,
+        reason: 'under_filled',
+        buyInTx: 'tx-1',
+        status: 'refunded',
+        txSignature: 'sig-1',
+      },
+    ]);
+    expect(orchestrator.getPendingRefunds()).toEqual([]);
+    expect(completed).toHaveBeenCalledTimes(1);
+    expect(twitterBot.announceRefunds).toHaveBeenCalledWith({
+      gameId: 'game',
+      reason: 'under_filled',
+      refunded: 1,
+      claimable: 0,
+      buyInSol: BUY_IN / 1_000_000_000,
+    });
+  });
+
+  it('marks failed refunds and retries them without refunding twice', async () => {
+    const sender = new ScriptedSender('failed');
+    const orchestrator = create(sender);
+    const failed = vi.fn();
+    orchestrator.on('refund_failed', failed);
+    await lobby(orchestrator);
+
+    await orchestrator.cancelGame('game');
+    await vi.runAllTimersAsync();
+
+    expect(orchestrator.getRefunds('game').map(r => [r.wallet, r.status])).toEqual([
+      ['wallet-1', 'failed'],
+      ['wallet-2', 'refunded'],
+    ]);
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(orchestrator.getPendingRefunds().map(p => p.refunds.map(r => r.wallet))).toEqual([['wallet-1']]);
+    expect(twitterBot.announceRefunds).not.toHaveBeenCalled();
+
+    expect(await orchestrator.processRefunds('game')).toEqual({
+      success: true,
+      refunded: ['wallet-1'],
+      claimable: [],
+      failed: [],
+    });
+    expect(await orchestrator.processRefunds('game')).toMatchObject({ success: false, error: 'No refunds owed' });
+    expect(sender.requests.map(r => r.gameId)).toEqual(['game/wallet-1', 'game/wallet-2', 'game/wallet-1']);
+    expect(twitterBot.announceRefunds).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels the escrow once so players claim their refunds', async () => {
+    const sender = new ScriptedSender();
+    const orchestrator = create(new ScriptedSender(), claimRefunds(sender, true));
+    await lobby(orchestrator);
+
+    await orchestrator.cancelGame('game');
+    await vi.runAllTimersAsync();
+
+    expect(sender.requests.map(r => r.gameId)).toEqual(['game']);
+    expect(orchestrator.getRefunds('game').map(r => [r.wallet, r.reason, r.status, r.txSignature])).toEqual([
+      ['wallet-1', 'game_cancelled', 'claimable', 'sig-1'],
+      ['wallet-2', 'game_cancelled', 'claimable', 'sig-1'],
+    ]);
+    expect(twitterBot.announceRefunds).toHaveBeenCalledWith(expect.objectContaining({ refunded: 0, claimable: 2 }));
+  });
+
+  it('refunds by transfer when the game has no program escrow', async () => {
+    const transfers = new ScriptedSender();
+    const cancels = new ScriptedSender();
+    const orchestrator = create(transfers, claimRefunds(cancels, false));
+    const completed = vi.fn();
+    orchestrator.on('refunds_completed', completed);
+    await lobby(orchestrator);
+
+    await orchestrator.cancelGame('game');
+    await vi.runAllTimersAsync();
+
+    expect(cancels.requests).toEqual([]);
+    expect(transfers.requests.map(r => r.gameId)).toEqual(['game/wallet-1', 'game/wallet-2']);
+    expect(orchestrator.getRefunds('game').map(r => r.status)).toEqual(['refunded', 'refunded']);
+    expect(completed).toHaveBeenCalledTimes(1);
+  });
+
+  it('refunds a missing reveal while the game goes on', async () => {
+    connection.addTransfer('tx-3', 'wallet-3', 'escrow', BUY_IN);
+    const sender = new ScriptedSender();
+    const orchestrator = create(sender);
+    await lobby(orchestrator, 3);
+
+    // wallet-3 never reveals
+    const commitReveal = new CommitRevealManager('game', { minPlayers: 2, missingRevealPolicy: 'refund' });
+    for (const wallet of ['wallet-1', 'wallet-2', 'wallet-3']) {
+      commitReveal.submitCommitment(wallet, createCommitment(`secret-${wallet}`, wallet));
+    }
+    commitReveal.startRevealPhase();
+    commitReveal.revealSecret('wallet-1', 'secret-wallet-1');
+    commitReveal.revealSecret('wallet-2', 'secret-wallet-2');
+    vi.setSystemTime(commitReveal.getState().revealDeadline + 1);
+
+    expect(await orchestrator.applyRevealOutcome('game', commitReveal.finalize('e'.repeat(64)))).toEqual({
+      success: true,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sender.requests.map(r => r.gameId)).toEqual(['game/wallet-3']);
+    expect(orchestrator.getRefunds('game')).toEqual([
+      {
+        wallet: 'wallet-3',
+        lamports: BUY_IN,
+        reason: 'missing_reveal',
+        buyInTx: 'tx-3',
+        status: 'refunded',
+        txSignature: 'sig-1',
+      },
+    ]);
+    expect(manager.getGameStatus('game')!.players).toEqual(['wallet-1', 'wallet-2']);
+  });
+
+  it('marks a refund failed when the executor throws', async () => {
+    const orchestrator = create(new ScriptedSender());
+    const failed = vi.fn();
+    orchestrator.on('refund_failed', failed);
+    vi.spyOn(MemoryPayoutAuditLog.prototype, 'list').mockRejectedValueOnce(new Error('Audit log unreadable'));
+    await lobby(orchestrator, 1);
+
+    await orchestrator.cancelGame('game');
+    await vi.runAllTimersAsync();
+
+    expect(orchestrator.getRefunds('game').map(r => r.status)).toEqual(['failed']);
+    expect(failed).toHaveBeenCalledWith(
+      expect.objectContaining({ gameId: 'game', error: 'Audit log unreadable' })
+    );
+    expect(twitterBot.announceRefunds).not.toHaveBeenCalled();
+  });
+
+  it('refunds players of a game force-cancelled after it started', async () => {
+    const orchestrator = create(null);
+    await lobby(orchestrator);
+    await orchestrator.startGame('game');
+
+    expect(manager.cancelGame('game', true).success).toBe(true);
+
+    expect(orchestrator.getPendingRefunds()).toEqual([
+      {
+        gameId: 'game',
+        refunds: ['wallet-1', 'wallet-2'].map((wallet, i) => ({
+          wallet,
+          lamports: BUY_IN,
+          reason: 'game_cancelled',
+          buyInTx: `tx-${i + 1}`,
+          status: 'pending',
+          txSignature: null,
+        })),
+      },
+    ]);
+  });
+
+  it('settles manual refunds by marking them refunded', async () => {
+    const orchestrator = create(null);
+    await lobby(orchestrator);
+    await orchestrator.cancelGame('game');
+
+    expect(await orchestrator.processRefunds('game')).toMatchObject({
+      success: false,
+      error: 'Refund executor not configured',
+    });
+    expect(await orchestrator.markRefunded('game', 'wallet-1', 'manual-1')).toEqual({ success: true });
+    expect(await orchestrator.markRefunded('game', 'wallet-1')).toEqual({
+      success: false,
+      error: 'Refund already settled',
+    });
+    expect(await orchestrator.markRefunded('game', 'wallet-3')).toEqual({ success: false, error: 'Refund not found' });
+    expect(twitterBot.announceRefunds).not.toHaveBeenCalled();
+
+    await orchestrator.markRefunded('game', 'wallet-2');
+    expect(orchestrator.getRefunds('game').map(r => [r.status, r.txSignature])).toEqual([
+      ['refunded', 'manual-1'],
+      ['refunded', null],
+    ]);
+    expect(twitterBot.announceRefunds).toHaveBeenCalledTimes(1);
+  });
+
+  it('restores refund statuses and resumes owed refunds on start', async () => {
+    const storage = new MemoryOrchestratorStore();
+    const state: OrchestratorState = {
+      pendingGames: [],
+      buyIns: [{ txSignature: 'tx-1', gameId: 'game', wallet: 'wallet-1', teamId: null }],
+      paidGames: [],
+      forfeitedBuyIns: [],
+      // Stored before refund statuses were tracked
+      pendingRefunds: [
+        {
+          gameId: 'game',
+          refunds: [{ wallet: 'wallet-1', lamports: BUY_IN, reason: 'game_aborted', buyInTx: 'tx-1' }],
+        },
+      ] as unknown as OrchestratorState['pendingRefunds'],
+    };
+    await storage.saveState(state);
+
+    const sender = new ScriptedSender();
+    const orchestrator = create(sender, undefined, storage);
+    await orchestrator.restore();
+    expect(orchestrator.getPendingRefunds()[0].refunds[0]).toMatchObject({ status: 'pending', txSignature: null });
+
+    orchestrator.start();
+    await vi.advanceTimersByTimeAsync(0);
+    orchestrator.stop();
+
+    expect(orchestrator.getRefunds('game')[0]).toMatchObject({ status: 'refunded', txSignature: 'sig-1' });
+    await orchestrator.flush();
+    expect((await storage.loadState())!.pendingRefunds[0].refunds[0].status).toBe('refunded');
+  });
+});
+
+describe('RefundExecutor', () => {
+  const refund = (reason: RefundReason): RefundRequest => ({
+    wallet: 'wallet-1',
+    lamports: BUY_IN,
+    reason,
+    buyInTx: 'tx-1',
+    status: 'pending',
+    txSignature: null,
+  });
+
+  function create(hasEscrow: () => Promise<boolean>): {
+    executor: RefundExecutor;
+    transfers: ScriptedSender;
+    cancels: ScriptedSender;
+  } {
+    const transfers = new ScriptedSender();
+    const cancels = new ScriptedSender();
+    cancels.method = 'cancel_game';
+    const executor = new RefundExecutor(new PayoutExecutor(transfers, new MemoryPayoutAuditLog(), { maxAttempts: 1 }), {
+      executor: new PayoutExecutor(cancels, new MemoryPayoutAuditLog(), { maxAttempts: 1 }),
+      hasEscrow,
+    });
+    return { executor, transfers, cancels };
+  }
+
+  it('transfers missing_reveal refunds of an escrowed game that goes on', async () => {
+    const { executor, transfers, cancels } = create(async () => true);
+
+    expect(executor.method).toBe('claim_refund');
+    expect(await executor.refund('game', refund('missing_reveal'))).toEqual({
+      success: true,
+      status: 'refunded',
+      txSignature: 'sig-1',
+    });
+    expect(transfers.requests.map(r => r.gameId)).toEqual(['game/wallet-1']);
+    expect(cancels.requests).toEqual([]);
+    expect((await executor.getAuditLog('game')).map(a => a.gameId)).toEqual(['game/wallet-1']);
+  });
+
+  it('sends nothing when the escrow lookup fails', async () => {
+    const { executor, transfers, cancels } = create(async () => {
+      throw new Error('RPC unavailable');
+    });
+
+    expect(await executor.refund('game', refund('game_cancelled'))).toEqual({
+      success: false,
+      error: 'Escrow lookup failed: RPC unavailable',
+    });
+    expect(transfers.requests).toEqual([]);
+    expect(cancels.requests).toEqual([]);
+  });
+});
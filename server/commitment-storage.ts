@@ -0,0 +1,166 @@
+import { db } from "./db";
+import { asc, eq } from "drizzle-orm";
+import {
+  commitRevealSessions,
+  commitRevealCommitments,
+  oreBlockCommitments,
+  oreBlockVerifications,
+  type CommitRevealSessionRow,
+  type CommitRevealCommitmentRow,
+  type OreBlockCommitmentRow,
+} from "@shared/schema";
+import type {
+  CommitmentStorage,
+  CommitRevealSession,
+  OreBlockCommitment,
+  OreBlockVerification,
+  PlayerCommitment,
+  StoredCommitReveal,
+  StoredOreCommitments,
+} from "@battle-dinghy/core";
+
+// Postgres storage for CommitRevealManager and OreBlockCommitmentManager.
+// Pass to the managers to write commitments through as they are made:
+//   new CommitRevealManager(gameId, config, dbCommitmentStorage)
+//   await CommitRevealManager.load(gameId, dbCommitmentStorage)
+export class DbCommitmentStorage implements CommitmentStorage {
+  // Commit-reveal operations
+  async saveSession(session: CommitRevealSession): Promise<void> {
+    const row = {
+      gameId: session.gameId,
+      phase: session.phase,
+      commitDeadline: session.commitDeadline,
+      revealDeadline: session.revealDeadline,
+      oreBlockHash: session.oreBlockHash ?? null,
+      finalSeed: session.finalSeed ?? null,
+      missingRevealOutcome: session.missingRevealOutcome ?? null,
+      createdAt: session.createdAt,
+    };
+    await db
+      .insert(commitRevealSessions)
+      .values(row)
+      .onConflictDoUpdate({ target: commitRevealSessions.gameId, set: row });
+  }
+
+  async savePlayerCommitment(gameId: string, commitment: PlayerCommitment): Promise<void> {
+    await db
+      .insert(commitRevealCommitments)
+      .values({
+        gameId,
+        wallet: commitment.wallet,
+        commitmentHash: commitment.commitmentHash,
+        revealedSecret: commitment.revealedSecret ?? null,
+        committedAt: commitment.committedAt,
+        revealedAt: commitment.revealedAt ?? null,
+      })
+      .onConflictDoUpdate({
+        target: [commitRevealCommitments.gameId, commitRevealCommitments.wallet],
+        set: {
+          revealedSecret: commitment.revealedSecret ?? null,
+          revealedAt: commitment.revealedAt ?? null,
+        },
+      });
+  }
+
+  async loadCommitReveal(gameId: string): Promise<StoredCommitReveal | null> {
+    const [session] = await db
+      .select()
+      .from(commitRevealSessions)
+      .where(eq(commitRevealSessions.gameId, gameId));
+    if (!session) return null;
+
+    const commitments = await db
+      .select()
+      .from(commitRevealCommitments)
+      .where(eq(commitRevealCommitments.gameId, gameId))
+      .orderBy(asc(commitRevealCommitments.committedAt));
+
+    return {
+      session: toSession(session),
+      commitments: commitments.map(toPlayerCommitment),
+    };
+  }
+
+  // ORE block commitment operations
+  async saveOreCommitment(commitment: OreBlockCommitment): Promise<void> {
+    await db
+      .insert(oreBlockCommitments)
+      .values({ ...commitment })
+      .onConflictDoUpdate({ target: oreBlockCommitments.gameId, set: { ...commitment } });
+  }
+
+  async saveOreVerification(verification: OreBlockVerification): Promise<void> {
+    const row = {
+      gameId: verification.commitment.gameId,
+      actualBlockHash: verification.actualBlockHash,
+      blockMinedAt: verification.blockMinedAt,
+      verified: verification.verified,
+      failureReason: verification.failureReason ?? null,
+      observations: verification.observations ?? null,
+    };
+    await db
+      .insert(oreBlockVerifications)
+      .values(row)
+      .onConflictDoUpdate({ target: oreBlockVerifications.gameId, set: row });
+  }
+
+  async deleteOreCommitment(gameId: string): Promise<void> {
+    // Verifications are removed by ON DELETE CASCADE
+    await db.delete(oreBlockCommitments).where(eq(oreBlockCommitments.gameId, gameId));
+  }
+
+  async loadOreCommitments(): Promise<StoredOreCommitments> {
+    const commitments = await db.select().from(oreBlockCommitments);
+    const verifications = await db.select().from(oreBlockVerifications);
+    const byGame = new Map(commitments.map((c) => [c.gameId, toOreCommitment(c)]));
+
+    return {
+      commitments: Array.from(byGame.values()),
+      verifications: verifications
+        .filter((v) => byGame.has(v.gameId))
+        .map((v) => ({
+          commitment: byGame.get(v.gameId)!,
+          actualBlockHash: v.actualBlockHash,
+          blockMinedAt: v.blockMinedAt,
+          verified: v.verified,
+          ...(v.failureReason ? { failureReason: v.failureReason } : {}),
+          ...(v.observations ? { observations: v.observations } : {}),
+        })),
+    };
+  }
+}
+
+function toSession(row: CommitRevealSessionRow): CommitRevealSession {
+  return {
+    gameId: row.gameId,
+    phase: row.phase,
+    commitDeadline: row.commitDeadline,
+    revealDeadline: row.revealDeadline,
+    createdAt: row.createdAt,
+    ...(row.oreBlockHash ? { oreBlockHash: row.oreBlockHash } : {}),
+    ...(row.finalSeed ? { finalSeed: row.finalSeed } : {}),
+    ...(row.missingRevealOutcome ? { missingRevealOutcome: row.missingRevealOutcome } : {}),
+  };
+}
+
+function toPlayerCommitment(row: CommitRevealCommitmentRow): PlayerCommitment {
+  return {
+    wallet: row.wallet,
+    commitmentHash: row.commitmentHash,
+    committedAt: row.committedAt,
+    ...(row.revealedSecret ? { revealedSecret: row.revealedSecret } : {}),
+    ...(row.revealedAt !== null ? { revealedAt: row.revealedAt } : {}),
+  };
+}
+
+function toOreCommitment(row: OreBlockCommitmentRow): OreBlockCommitment {
+  return {
+    gameId: row.gameId,
+    targetBlockHeight: row.targetBlockHeight,
+    committedAt: row.committedAt,
+    commitmentHash: row.commitmentHash,
+    operatorWallet: row.operatorWallet,
+  };
+}
+
+export const dbCommitmentStorage = new DbCommitmentStorage();
@@ -25,7 +25,15 @@ import {
   type OreMiningRound,
   type InsertOreMiningRound,
 } from "@shared/schema";
-import type { IStorage } from "./storage";
+import type { BoardBuilder, IStorage, JoinPlayer } from "./storage";
+
+// Joins racing for the same board index before one gives up
+const MAX_BOARD_INDEX_ATTEMPTS = 5;
+
+function isUniqueViolation(error: unknown, constraint: string): boolean {
+  const pgError = error as { code?: string; constraint?: string } | null;
+  return pgError?.code === "23505" && pgError.constraint === constraint;
+}
 
 export class DbStorage implements IStorage {
   // Game operations
@@ -213,10 +221,14 @@ export class DbStorage implements IStorage {
       .where(eq(shotResults.shotId, shotId));
   }
 
-  // Non-transactional player join for testing (neon-http doesn't support transactions)
+  // Non-transactional player join (neon-http doesn't support transactions).
+  // The board index is the number of players already in the game; the
+  // unique (game, board index) constraint rejects a concurrent join that
+  // claimed the same index, which then retries with the next one.
   async joinGameSimple(
     gameId: string,
-    insertPlayer: InsertPlayer
+    insertPlayer: JoinPlayer,
+    buildBoard: BoardBuilder
   ): Promise<{ success: boolean; player?: Player; error?: string; details?: any }> {
     try {
       const game = await this.getGame(gameId);
@@ -228,42 +240,62 @@ export class DbStorage implements IStorage {
         return { success: false, error: "Game is not accepting players" };
       }
 
-      if (game.currentPlayers >= game.maxPlayers) {
-        return { success: false, error: "Game is full" };
+      for (let attempt = 0; attempt < MAX_BOARD_INDEX_ATTEMPTS; attempt++) {
+        const existingPlayers = await db
+          .select()
+          .from(players)
+          .where(eq(players.gameId, gameId));
+
+        if (existingPlayers.length >= game.maxPlayers) {
+          return { success: false, error: "Game is full" };
+        }
+
+        // Check for duplicate player
+        const isDuplicate = existingPlayers.some(
+          p => p.walletAddress === insertPlayer.walletAddress || 
+               p.twitterHandle === insertPlayer.twitterHandle
+        );
+
+        if (isDuplicate) {
+          return { success: false, error: "Player already joined this game" };
+        }
+
+        // Create player with the board for the claimed index
+        const boardIndex = existingPlayers.length;
+        const playerData = {
+          ...insertPlayer,
+          boardIndex,
+          boardState: buildBoard(boardIndex),
+          hullPoints: insertPlayer.hullPoints ?? 6,
+          status: insertPlayer.status ?? "alive",
+        };
+
+        let player: Player;
+        try {
+          [player] = await db.insert(players).values([playerData as any]).returning();
+        } catch (error) {
+          if (isUniqueViolation(error, "unique_board_per_game")) {
+            continue;
+          }
+          throw error;
+        }
+
+        // Update game player count and prize pool
+        await db.execute(sql`
+          UPDATE ${games} 
+          SET current_players = current_players + 1,
+              prize_pool_sol = prize_pool_sol + ${game.entryFeeSol}
+          WHERE id = ${gameId}
+        `);
+
+        return { success: true, player };
       }
 
-      // Check for duplicate player
-      const existingPlayers = await db
-        .select()
-        .from(players)
-        .where(eq(players.gameId, gameId));
-
-      const isDuplicate = existingPlayers.some(
-        p => p.walletAddress === insertPlayer.walletAddress || 
-             p.twitterHandle === insertPlayer.twitterHandle
-      );
-
-      if (isDuplicate) {
-        return { success: false, error: "Player already joined this game" };
-      }
-
-      // Create player
-      const playerData = {
-        ...insertPlayer,
-        hullPoints: insertPlayer.hullPoints ?? 6,
-        status: insertPlayer.status ?? "alive",
+      return {
+        success: false,
+        error: "Failed to join game",
+        details: "Too many concurrent joins, please retry",
       };
-      const [player] = await db.insert(players).values([playerData as any]).returning();
-
-      // Update game player count and prize pool
-      await db.execute(sql`
-        UPDATE ${games} 
-        SET current_players = current_players + 1,
-            prize_pool_sol = prize_pool_sol + ${game.entryFeeSol}
-        WHERE id = ${gameId}
-      `);
-
-      return { success: true, player };
     } catch (error) {
       console.error("Error in joinGameSimple:", error);
       return { 
@@ -277,7 +309,8 @@ export class DbStorage implements IStorage {
   // Transactional player join - atomically creates player and updates game
   async joinGameTransaction(
     gameId: string,
-    insertPlayer: InsertPlayer
+    insertPlayer: JoinPlayer,
+    buildBoard: BoardBuilder
   ): Promise<{ player: Player; game: Game }> {
     return await db.transaction(async (tx) => {
       // Lock the game row for update to prevent race conditions
@@ -335,9 +368,12 @@ export class DbStorage implements IStorage {
         throw new Error("Player already joined this game");
       }
 
-      // Create the player
+      // Create the player; the game row lock makes the board index safe
+      const boardIndex = existingPlayers.length;
       const playerData = {
         ...insertPlayer,
+        boardIndex,
+        boardState: buildBoard(boardIndex),
         hullPoints: insertPlayer.hullPoints ?? 6,
         status: insertPlayer.status ?? "alive",
       };
@@ -1,206 +1,210 @@
-import type { BoardState, Ship, ShipType } from "@shared/schema";
-
-// Grid coordinate utilities
+import { randomBytes } from "crypto";
+import {
+  GameEngine,
+  TOTAL_CELLS,
+  createCellIndex,
+  cellToPosition,
+  generateCard,
+  positionToCell,
+  seedFromHex,
+  type CellIndex,
+  type GeneratedCard,
+  type ShipSize,
+} from "@battle-dinghy/core";
+import type { BoardState, Game, Player, Ship, ShipType } from "@shared/schema";
+
+// Legacy adapter over @battle-dinghy/core.
+//
+// Boards are generated by the core card generator from the game seed and the
+// player's join order, and shots are resolved by a core GameEngine replayed
+// from the shots table. BoardState is kept as a projection of the engine's
+// cards so existing rows, board images and tweets keep working.
+
+// Grid coordinate utilities: row letter + column number, e.g. "C3"
 const ROWS = ['A', 'B', 'C', 'D', 'E'];
 const COLS = [1, 2, 3, 4, 5];
 
+const SHIP_TYPES: Record<ShipSize, ShipType> = {
+  3: "big_dinghy",
+  2: "dinghy",
+  1: "small_dinghy",
+};
+
+export function cellToCoordinate(cell: CellIndex): string {
+  const { row, col } = cellToPosition(cell);
+  return `${ROWS[row]}${COLS[col]}`;
+}
+
+export function coordinateToCell(coordinate: string): CellIndex {
+  const row = ROWS.indexOf(coordinate[0]);
+  const col = COLS.indexOf(parseInt(coordinate.slice(1)));
+  if (coordinate.length !== 2 || row === -1 || col === -1) {
+    throw new Error(`Invalid coordinate: ${coordinate}`);
+  }
+  return positionToCell({ row, col });
+}
+
 export function oreHashToCoordinate(blockHash: string): string {
   const hashInt = BigInt(blockHash);
-  const position = Number(hashInt % BigInt(25));
-  
-  const row = Math.floor(position / 5);
-  const col = position % 5;
-  
-  const rowLetter = ROWS[row];
-  const colNumber = COLS[col];
-  
-  return `${rowLetter}${colNumber}`;
+  return cellToCoordinate(createCellIndex(Number(hashInt % BigInt(TOTAL_CELLS))));
 }
 
-export function generateRandomBoard(): BoardState {
-  const ships: Ship[] = [];
-  const occupiedCoordinates = new Set<string>();
-  const forbiddenCoordinates = new Set<string>();
-
-  const shipConfigs: Array<{ type: ShipType; size: number; hp: number }> = [
-    { type: "big_dinghy", size: 3, hp: 3 },
-    { type: "dinghy", size: 2, hp: 2 },
-    { type: "small_dinghy", size: 1, hp: 1 },
-  ];
-
-  for (const config of shipConfigs) {
-    let placed = false;
-    let attempts = 0;
-    const maxAttempts = 100;
-
-    while (!placed && attempts < maxAttempts) {
-      attempts++;
-      
-      const orientation = Math.random() < 0.5 ? "horizontal" : "vertical";
-      const startRow = Math.floor(Math.random() * 5);
-      const startCol = Math.floor(Math.random() * 5);
-
-      const coordinates: string[] = [];
-      let canPlace = true;
-
-      if (orientation === "horizontal") {
-        if (startCol + config.size > 5) {
-          continue;
-        }
-        
-        for (let i = 0; i < config.size; i++) {
-          const coord = `${ROWS[startRow]}${COLS[startCol + i]}`;
-          if (occupiedCoordinates.has(coord) || forbiddenCoordinates.has(coord)) {
-            canPlace = false;
-            break;
-          }
-          coordinates.push(coord);
-        }
-      } else {
-        if (startRow + config.size > 5) {
-          continue;
-        }
-        
-        for (let i = 0; i < config.size; i++) {
-          const coord = `${ROWS[startRow + i]}${COLS[startCol]}`;
-          if (occupiedCoordinates.has(coord) || forbiddenCoordinates.has(coord)) {
-            canPlace = false;
-            break;
-          }
-          coordinates.push(coord);
-        }
-      }
+/**
+ * Convert an ORE winning square (0-24, row-major) to a coordinate.
+ */
+export function oreSquareToCoordinate(squareIndex: number): string {
+  return cellToCoordinate(createCellIndex(squareIndex));
+}
 
-      if (canPlace) {
-        ships.push({
-          type: config.type,
-          size: config.size,
-          hp: config.hp,
-          maxHp: config.hp,
-          coordinates,
-          orientation,
-          isSunk: false,
-        });
-
-        coordinates.forEach(coord => {
-          occupiedCoordinates.add(coord);
-          
-          const [row, col] = coordToRowCol(coord);
-          const adjacents = getAdjacentCoordinates(row, col);
-          adjacents.forEach(adj => forbiddenCoordinates.add(adj));
-        });
-
-        placed = true;
-      }
-    }
+export function getAllCoordinates(): string[] {
+  return Array.from({ length: TOTAL_CELLS }, (_, i) => cellToCoordinate(i as CellIndex));
+}
 
-    if (!placed) {
-      return generateRandomBoard();
-    }
-  }
+// =============================================================================
+// Boards
+// =============================================================================
 
-  return {
-    ships,
-    hits: [],
-  };
+export function createGameSeed(): string {
+  return randomBytes(32).toString("hex");
 }
 
-function coordToRowCol(coord: string): [number, number] {
-  const row = ROWS.indexOf(coord[0]);
-  const col = COLS.indexOf(parseInt(coord[1]));
-  return [row, col];
+/**
+ * Generate the board for the player joining at `playerIndex` (join order).
+ */
+export function generatePlayerBoard(game: Game, walletAddress: string, playerIndex: number): BoardState {
+  const card = generateCard(seedFromHex(game.seed), walletAddress, playerIndex);
+  return toBoardState(card, new Set(), []);
 }
 
-function getAdjacentCoordinates(row: number, col: number): string[] {
-  const adjacents: string[] = [];
-  const directions = [
-    [-1, 0], [1, 0], [0, -1], [0, 1],
-    [-1, -1], [-1, 1], [1, -1], [1, 1]
-  ];
-
-  for (const [dr, dc] of directions) {
-    const newRow = row + dr;
-    const newCol = col + dc;
-    
-    if (newRow >= 0 && newRow < 5 && newCol >= 0 && newCol < 5) {
-      adjacents.push(`${ROWS[newRow]}${COLS[newCol]}`);
-    }
-  }
+function toBoardState(card: GeneratedCard, hitCells: ReadonlySet<CellIndex>, fired: readonly string[]): BoardState {
+  const ships: Ship[] = card.ships.map((ship) => {
+    const hits = ship.cells.filter((cell) => hitCells.has(cell)).length;
+    const horizontal = ship.cells.length === 1 || ship.cells[1] - ship.cells[0] === 1;
+    return {
+      type: SHIP_TYPES[ship.size],
+      size: ship.size,
+      hp: ship.size - hits,
+      maxHp: ship.size,
+      coordinates: ship.cells.map(cellToCoordinate),
+      orientation: horizontal ? "horizontal" : "vertical",
+      isSunk: hits === ship.size,
+    };
+  });
+
+  return { ships, hits: [...fired] };
+}
 
-  return adjacents;
+export function calculateTotalHullPoints(boardState: BoardState): number {
+  return boardState.ships.reduce((total, ship) => total + ship.hp, 0);
 }
 
-export function processShot(
-  boardState: BoardState,
-  coordinate: string
-): {
+function byBoardIndex(a: Player, b: Player): number {
+  if (a.boardIndex !== null && b.boardIndex !== null) {
+    return a.boardIndex - b.boardIndex;
+  }
+  return a.joinedAt.getTime() - b.joinedAt.getTime();
+}
+
+// =============================================================================
+// Shot Resolution
+// =============================================================================
+
+export interface LegacyShotResult {
   result: "miss" | "hit" | "sunk" | "eliminated";
   shipHit: ShipType | null;
   damageDealt: number;
   updatedBoard: BoardState;
-} {
-  if (boardState.hits.includes(coordinate)) {
-    return {
-      result: "miss",
-      shipHit: null,
-      damageDealt: 0,
-      updatedBoard: boardState,
-    };
-  }
+}
 
-  const updatedBoard: BoardState = {
-    ...boardState,
-    hits: [...boardState.hits, coordinate],
-    ships: [...boardState.ships],
-  };
-
-  let hitShipIndex = -1;
-  for (let i = 0; i < updatedBoard.ships.length; i++) {
-    if (updatedBoard.ships[i].coordinates.includes(coordinate)) {
-      hitShipIndex = i;
-      break;
+/**
+ * A core GameEngine rebuilt for one legacy game.
+ *
+ * Players are ordered by the board index stored with them (join time for
+ * rows stored before board indexes were), which must match the index their
+ * board was generated with; load() refuses to continue if any stored board
+ * differs from what the seed produces.
+ */
+export class LegacyGame {
+  private readonly engine: GameEngine;
+  private readonly players: Player[];
+  private readonly fired = new Map<string, string[]>();
+
+  private constructor(game: Game, players: Player[]) {
+    this.players = [...players].sort(byBoardIndex);
+    this.engine = new GameEngine({
+      gameId: game.id,
+      seed: seedFromHex(game.seed),
+      players: this.players.map((p) => p.walletAddress),
+    });
+
+    for (const player of this.players) {
+      const expected = this.engine.getGeneratedCard(player.walletAddress)!.ships
+        .map((ship) => ship.cells.map(cellToCoordinate).join(","));
+      const stored = player.boardState.ships.map((ship) => ship.coordinates.join(","));
+      if (expected.join("|") !== stored.join("|")) {
+        throw new Error(`Board for @${player.twitterHandle} does not match game seed`);
+      }
+      this.fired.set(player.walletAddress, []);
     }
   }
 
-  if (hitShipIndex === -1) {
-    return {
-      result: "miss",
-      shipHit: null,
-      damageDealt: 0,
-      updatedBoard,
-    };
+  /**
+   * Rebuild a game and replay the coordinates already fired, in shot order.
+   */
+  static load(game: Game, players: Player[], firedCoordinates: readonly string[]): LegacyGame {
+    const legacy = new LegacyGame(game, players);
+    for (const coordinate of firedCoordinates) {
+      legacy.fire(coordinate);
+    }
+    return legacy;
   }
 
-  const ship = { ...updatedBoard.ships[hitShipIndex] };
-  ship.hp -= 1;
-  
-  const wasSunk = ship.hp <= 0;
-  if (wasSunk) {
-    ship.isSunk = true;
-  }
+  /**
+   * Fire a shot at every surviving player, keyed by wallet address.
+   */
+  fire(coordinate: string): Map<string, LegacyShotResult> {
+    const shot = this.engine.applyShot(coordinateToCell(coordinate));
+    const results = new Map<string, LegacyShotResult>();
+
+    for (const wallet of shot.hits.keys()) {
+      const fired = this.fired.get(wallet)!;
+      if (!fired.includes(coordinate)) {
+        fired.push(coordinate);
+      }
 
-  updatedBoard.ships[hitShipIndex] = ship;
+      const shipHit = shot.shipHits.find((hit) => hit.playerId === wallet);
+      let result: LegacyShotResult["result"] = "miss";
+      if (shot.eliminations.includes(wallet)) {
+        result = "eliminated";
+      } else if (shipHit?.sunk) {
+        result = "sunk";
+      } else if (shipHit) {
+        result = "hit";
+      }
 
-  const allShipsSunk = updatedBoard.ships.every(s => s.isSunk);
+      results.set(wallet, {
+        result,
+        shipHit: shipHit ? SHIP_TYPES[shipHit.shipSize] : null,
+        damageDealt: shipHit ? 1 : 0,
+        updatedBoard: this.getBoard(wallet),
+      });
+    }
 
-  return {
-    result: allShipsSunk ? "eliminated" : (wasSunk ? "sunk" : "hit"),
-    shipHit: ship.type,
-    damageDealt: 1,
-    updatedBoard,
-  };
-}
+    return results;
+  }
 
-export function calculateTotalHullPoints(boardState: BoardState): number {
-  return boardState.ships.reduce((total, ship) => total + ship.hp, 0);
-}
+  getBoard(walletAddress: string): BoardState {
+    const card = this.engine.getPlayerCard(walletAddress)!;
+    const generated = this.engine.getGeneratedCard(walletAddress)!;
+    return toBoardState(generated, card.hitCells, this.fired.get(walletAddress)!);
+  }
 
-export function getAllCoordinates(): string[] {
-  const coords: string[] = [];
-  for (const row of ROWS) {
-    for (const col of COLS) {
-      coords.push(`${row}${col}`);
-    }
+  /**
+   * Surviving player with the most hull left, ties broken by the core
+   * engine's deterministic tiebreak.
+   */
+  getLeader(): Player {
+    const [leader] = this.engine.getStandings();
+    return this.players.find((p) => p.walletAddress === leader.playerId)!;
   }
-  return coords;
 }
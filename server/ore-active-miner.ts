@@ -4,12 +4,11 @@ import {
   calculateAllSquaresMask, 
   calculateMaxDeployPerBlock,
   fetchRoundData,
-  oreSquareIndexToCoordinate,
   getBoardPda,
   fetchBoardCurrentRound
 } from "./ore-miner";
 import { dbStorage as storage } from "./db-storage";
-import { oreHashToCoordinate, processShot, calculateTotalHullPoints } from "./game-engine";
+import { LegacyGame, oreHashToCoordinate, oreSquareToCoordinate, calculateTotalHullPoints } from "./game-engine";
 import { postShotAnnouncement, postWinnerAnnouncement } from "./twitter-bot";
 import type { Game, Player, OreMiningRound } from "@shared/schema";
 
@@ -252,7 +251,7 @@ export class OreActiveMiner {
             console.log(`  🎰 Motherlode triggered: ${roundData.motherlodeTriggered ? "YES! 🎉" : "No"}`);
             
             // Convert winning square index (0-24) to coordinate (A1-E5)
-            coordinate = oreSquareIndexToCoordinate(roundData.winningSquareIndex);
+            coordinate = oreSquareToCoordinate(roundData.winningSquareIndex);
             console.log(`  🎯 Provably fair coordinate: ${coordinate}`);
             break;
           }
@@ -381,12 +380,17 @@ export class OreActiveMiner {
     
     // Process shot against all players
     const players = await storage.getPlayersByGame(this.gameId);
+    const previousShots = (await storage.getShotsByGame(this.gameId))
+      .filter(s => s.id !== shot.id)
+      .sort((a, b) => a.shotNumber - b.shotNumber)
+      .map(s => s.coordinate);
+    const legacyGame = LegacyGame.load(game, players, previousShots);
+    const shotResults = legacyGame.fire(coordinate);
     const hitPlayers: Array<{ player: Player; result: string; shipHit: string | null }> = [];
     
     for (const player of players) {
-      if (player.status === "eliminated") continue;
-      
-      const shotResult = processShot(player.boardState, coordinate);
+      const shotResult = shotResults.get(player.walletAddress);
+      if (!shotResult) continue;
       
       await storage.updatePlayerBoard(player.id, shotResult.updatedBoard);
       
@@ -443,7 +447,8 @@ export class OreActiveMiner {
       });
     } else if (shotNumber === 25 && alivePlayers.length > 1) {
       // 25 shots complete, pick winner with most hull points
-      const topPlayer = alivePlayers.sort((a, b) => b.hullPoints - a.hullPoints)[0];
+      const leader = legacyGame.getLeader();
+      const topPlayer = alivePlayers.find(p => p.id === leader.id)!;
       await storage.setGameWinner(this.gameId, topPlayer.id);
       await storage.updateGameStatus(this.gameId, "completed");
       
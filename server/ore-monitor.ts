@@ -1,6 +1,6 @@
 import { Connection, PublicKey } from "@solana/web3.js";
 import { dbStorage as storage } from "./db-storage";
-import { oreHashToCoordinate, processShot, calculateTotalHullPoints } from "./game-engine";
+import { LegacyGame, oreHashToCoordinate, calculateTotalHullPoints } from "./game-engine";
 import { postShotAnnouncement, postWinnerAnnouncement } from "./twitter-bot";
 import type { Player } from "@shared/schema";
 
@@ -174,12 +174,17 @@ export class OreMonitor {
       console.log(`Shot ${shotNumber}: ${coordinate} (hash: ${blockHash.slice(0, 8)}...)`);
 
       const players = await storage.getPlayersByGame(gameId);
+      const previousShots = (await storage.getShotsByGame(gameId))
+        .filter(s => s.id !== shot.id)
+        .sort((a, b) => a.shotNumber - b.shotNumber)
+        .map(s => s.coordinate);
+      const legacyGame = LegacyGame.load(game, players, previousShots);
+      const shotResults = legacyGame.fire(coordinate);
       const hitPlayers: Array<{ player: Player; result: string; shipHit: string | null }> = [];
 
       for (const player of players) {
-        if (player.status === "eliminated") continue;
-
-        const shotResult = processShot(player.boardState, coordinate);
+        const shotResult = shotResults.get(player.walletAddress);
+        if (!shotResult) continue;
         
         await storage.updatePlayerBoard(player.id, shotResult.updatedBoard);
         
@@ -250,7 +255,8 @@ export class OreMonitor {
         await storage.updateGameStatus(gameId, "completed");
         console.log(`Game ${gameId} completed after 25 shots with ${alivePlayers.length} survivors`);
         
-        const topPlayer = alivePlayers.sort((a, b) => b.hullPoints - a.hullPoints)[0];
+        const leader = legacyGame.getLeader();
+        const topPlayer = alivePlayers.find(p => p.id === leader.id)!;
         await storage.setGameWinner(gameId, topPlayer.id);
         
         await postWinnerAnnouncement(game, topPlayer, {
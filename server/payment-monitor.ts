@@ -1,6 +1,6 @@
 import { Connection, PublicKey } from "@solana/web3.js";
 import type { IStorage, VerificationToken } from "./storage";
-import { generateRandomBoard } from "./game-engine";
+import { generatePlayerBoard } from "./game-engine";
 import { generateBoardImage } from "./board-image-generator";
 import { sendPlayerBoard } from "./twitter-bot";
 
@@ -174,22 +174,22 @@ export class PaymentMonitor {
       console.log(`💰 Payment Monitor - Completing join for @${token.twitterHandle} (${walletAddress.substring(0, 8)}...)`);
 
       // Generate board and join game
-      const boardState = generateRandomBoard();
       const result = await this.storage.joinGameSimple(game.id, {
         gameId: game.id,
         twitterHandle: token.twitterHandle,
         walletAddress,
-        boardState,
         hullPoints: 6,
         status: "alive",
         txSignature,
-      });
+      }, (boardIndex) => generatePlayerBoard(game, walletAddress, boardIndex));
 
       if (!result.success) {
         console.error(`💰 Payment Monitor - Failed to join game:`, result.error);
         return;
       }
 
+      const boardState = result.player!.boardState;
+
       console.log(`✅ Payment Monitor - Player @${token.twitterHandle} joined Game #${game.gameNumber}!`);
 
       // Post board card to Twitter
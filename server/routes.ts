@@ -1,7 +1,7 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { dbStorage as storage } from "./db-storage";
-import { generateRandomBoard, oreHashToCoordinate, processShot, calculateTotalHullPoints } from "./game-engine";
+import { LegacyGame, createGameSeed, generatePlayerBoard, oreHashToCoordinate, calculateTotalHullPoints } from "./game-engine";
 import { generateBoardImage } from "./board-image-generator";
 import { postGameAnnouncement, postShotAnnouncement, postWinnerAnnouncement, sendPlayerBoard, checkTwitterCredentials, initiateOAuthFlow, handleOAuthCallback } from "./twitter-bot";
 import { oreMonitor } from "./ore-monitor";
@@ -646,6 +646,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const game = await storage.createGame({
         gameNumber,
+        seed: createGameSeed(),
         status: "pending",
         entryFeeSol,
         maxPlayers,
@@ -875,18 +876,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Game is not accepting players" });
       }
 
-      const boardState = generateRandomBoard();
-      
       // Use non-transactional join for testing (neon-http doesn't support transactions)
       const result = await storage.joinGameSimple(gameId, {
         gameId,
         twitterHandle,
         walletAddress,
-        boardState,
         hullPoints: 6,
         status: "alive",
         txSignature: `test-${Date.now()}-${Math.random().toString(36).substring(7)}`, // Fake signature for testing
-      });
+      }, (boardIndex) => generatePlayerBoard(game, walletAddress, boardIndex));
 
       if (!result.success) {
         return res.status(400).json({ 
@@ -1048,18 +1046,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Payment verification failed" });
       }
 
-      const boardState = generateRandomBoard();
-      
       // Use joinGameSimple (Neon HTTP driver doesn't support transactions)
       const result = await storage.joinGameSimple(gameId, {
         gameId,
         twitterHandle,
         walletAddress,
-        boardState,
         hullPoints: 6,
         status: "alive",
         txSignature,
-      });
+      }, (boardIndex) => generatePlayerBoard(game, walletAddress, boardIndex));
 
       if (!result.success) {
         return res.status(400).json({ 
@@ -1068,6 +1063,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      const boardState = result.player!.boardState;
       const boardImage = generateBoardImage(boardState, true);
 
       // Get updated game state
@@ -1224,12 +1220,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const players = await storage.getPlayersByGame(gameId);
+      const previousShots = [...shots]
+        .sort((a, b) => a.shotNumber - b.shotNumber)
+        .map(s => s.coordinate);
+      const legacyGame = LegacyGame.load(game, players, previousShots);
+      const shotResults = legacyGame.fire(coordinate);
       const hitPlayers: Array<{ player: Player; result: string; shipHit: string | null }> = [];
 
       for (const player of players) {
-        if (player.status === "eliminated") continue;
-
-        const shotResult = processShot(player.boardState, coordinate);
+        const shotResult = shotResults.get(player.walletAddress);
+        if (!shotResult) continue;
         
         await storage.updatePlayerBoard(player.id, shotResult.updatedBoard);
         
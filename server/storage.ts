@@ -16,7 +16,13 @@ import {
   type ShipType,
   type BoardState,
 } from "@shared/schema";
-import { randomUUID } from "crypto";
+import { randomBytes, randomUUID } from "crypto";
+
+/** A player joining a game; the board and its index are assigned on join */
+export type JoinPlayer = Omit<InsertPlayer, "boardState" | "boardIndex">;
+
+/** Generates a player's board for the board index they were assigned */
+export type BoardBuilder = (boardIndex: number) => BoardState;
 
 // Re-export types for convenience
 export type { VerificationToken, InsertVerificationToken };
@@ -54,7 +60,8 @@ export interface IStorage {
   // Transactional join
   joinGameTransaction(
     gameId: string,
-    insertPlayer: InsertPlayer
+    insertPlayer: JoinPlayer,
+    buildBoard: BoardBuilder
   ): Promise<{ player: Player; game: Game }>;
   
   // OAuth token operations
@@ -68,8 +75,9 @@ export interface IStorage {
   markVerificationTokenUsed(token: string, walletAddress: string): Promise<void>;
   cleanupExpiredTokens(): Promise<void>;
   
-  // Non-transactional join (for Neon HTTP driver)
-  joinGameSimple(gameId: string, insertPlayer: InsertPlayer): Promise<{
+  // Non-transactional join (for Neon HTTP driver). The player is assigned the
+  // next board index and buildBoard generates their board for it.
+  joinGameSimple(gameId: string, insertPlayer: JoinPlayer, buildBoard: BoardBuilder): Promise<{
     success: boolean;
     player?: Player;
     error?: string;
@@ -96,6 +104,7 @@ export class MemStorage implements IStorage {
     const game: Game = {
       id,
       gameNumber: insertGame.gameNumber,
+      seed: insertGame.seed ?? randomBytes(32).toString("hex"),
       status: (insertGame.status || "pending") as GameStatus,
       entryFeeSol: insertGame.entryFeeSol,
       prizePoolSol: insertGame.prizePoolSol || 0,
@@ -177,6 +186,7 @@ export class MemStorage implements IStorage {
       twitterHandle: insertPlayer.twitterHandle,
       walletAddress: insertPlayer.walletAddress,
       boardState: insertPlayer.boardState as BoardState,
+      boardIndex: insertPlayer.boardIndex ?? null,
       hullPoints: insertPlayer.hullPoints || 6,
       status: (insertPlayer.status || "alive") as PlayerStatus,
       eliminatedAtShot: insertPlayer.eliminatedAtShot || null,
@@ -292,7 +302,8 @@ export class MemStorage implements IStorage {
 
   async joinGameTransaction(
     gameId: string,
-    insertPlayer: InsertPlayer
+    insertPlayer: JoinPlayer,
+    buildBoard: BoardBuilder
   ): Promise<{ player: Player; game: Game }> {
     throw new Error("joinGameTransaction not implemented in MemStorage - use DbStorage");
   }
@@ -325,7 +336,7 @@ export class MemStorage implements IStorage {
     throw new Error("Verification tokens not supported in MemStorage - use DbStorage");
   }
 
-  async joinGameSimple(gameId: string, insertPlayer: InsertPlayer): Promise<{
+  async joinGameSimple(gameId: string, insertPlayer: JoinPlayer, buildBoard: BoardBuilder): Promise<{
     success: boolean;
     player?: Player;
     error?: string;
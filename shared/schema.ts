@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb, boolean, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, timestamp, jsonb, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { CommitRevealPhase, MissingRevealOutcome, OreBlockObservation, OreVerificationFailure } from "@battle-dinghy/core";
 
 // Game statuses
 export const gameStatusEnum = ["pending", "active", "completed", "cancelled"] as const;
@@ -19,6 +20,8 @@ export type ShipType = typeof shipTypeEnum[number];
 export const games = pgTable("games", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   gameNumber: integer("game_number").notNull(),
+  // 32-byte hex seed boards are generated from (@battle-dinghy/core generateCard)
+  seed: text("seed").notNull().default(sql`replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')`),
   status: text("status").notNull().$type<GameStatus>().default("pending"),
   entryFeeSol: integer("entry_fee_sol").notNull(), // in lamports
   prizePoolSol: integer("prize_pool_sol").notNull().default(0), // in lamports
@@ -56,6 +59,7 @@ export const players = pgTable("players", {
   twitterHandle: text("twitter_handle").notNull(),
   walletAddress: text("wallet_address").notNull(),
   boardState: jsonb("board_state").notNull().$type<BoardState>(), // Ship positions and hit status
+  boardIndex: integer("board_index"), // Card index the board was generated with (join order)
   hullPoints: integer("hull_points").notNull().default(6), // 3+2+1
   status: text("status").notNull().$type<PlayerStatus>().default("alive"),
   eliminatedAtShot: integer("eliminated_at_shot"),
@@ -66,6 +70,8 @@ export const players = pgTable("players", {
   uniqueWalletPerGame: unique("unique_wallet_per_game").on(table.gameId, table.walletAddress),
   // Prevent same Twitter handle from joining the same game multiple times
   uniqueTwitterPerGame: unique("unique_twitter_per_game").on(table.gameId, table.twitterHandle),
+  // Two concurrent joins can never be dealt the same board
+  uniqueBoardPerGame: unique("unique_board_per_game").on(table.gameId, table.boardIndex),
 }));
 
 // Shots table - tracks each coordinate fired in the game
@@ -136,6 +142,51 @@ export const oreMiningRounds = pgTable("ore_mining_rounds", {
   uniqueRoundPerGame: unique("unique_round_per_game").on(table.gameId, table.roundNumber),
 }));
 
+// Commit-reveal sessions - CommitRevealManager state per game (DbCommitmentStorage)
+// Times are Unix milliseconds, as in @battle-dinghy/core
+export const commitRevealSessions = pgTable("commit_reveal_sessions", {
+  gameId: varchar("game_id").primaryKey(),
+  phase: text("phase").notNull().$type<CommitRevealPhase>(),
+  commitDeadline: bigint("commit_deadline", { mode: "number" }).notNull(),
+  revealDeadline: bigint("reveal_deadline", { mode: "number" }).notNull(),
+  oreBlockHash: text("ore_block_hash"), // Set at finalize
+  finalSeed: text("final_seed"), // Hex seed, set at finalize
+  missingRevealOutcome: jsonb("missing_reveal_outcome").$type<MissingRevealOutcome>(),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+});
+
+// Commit-reveal player commitments - one row per player, updated on reveal
+export const commitRevealCommitments = pgTable("commit_reveal_commitments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").notNull().references(() => commitRevealSessions.gameId),
+  wallet: text("wallet").notNull(),
+  commitmentHash: text("commitment_hash").notNull(), // SHA256(secret || wallet)
+  revealedSecret: text("revealed_secret"),
+  committedAt: bigint("committed_at", { mode: "number" }).notNull(),
+  revealedAt: bigint("revealed_at", { mode: "number" }),
+}, (table) => ({
+  uniqueWalletPerSession: unique("unique_wallet_per_commit_reveal").on(table.gameId, table.wallet),
+}));
+
+// ORE block commitments - the future block each game committed to
+export const oreBlockCommitments = pgTable("ore_block_commitments", {
+  gameId: varchar("game_id").primaryKey(),
+  targetBlockHeight: bigint("target_block_height", { mode: "number" }).notNull(),
+  committedAt: bigint("committed_at", { mode: "number" }).notNull(),
+  commitmentHash: text("commitment_hash").notNull(),
+  operatorWallet: text("operator_wallet").notNull(),
+});
+
+// ORE block verifications - result of checking a commitment against the mined block
+export const oreBlockVerifications = pgTable("ore_block_verifications", {
+  gameId: varchar("game_id").primaryKey().references(() => oreBlockCommitments.gameId, { onDelete: "cascade" }),
+  actualBlockHash: text("actual_block_hash").notNull(),
+  blockMinedAt: bigint("block_mined_at", { mode: "number" }).notNull(),
+  verified: boolean("verified").notNull(),
+  failureReason: text("failure_reason").$type<OreVerificationFailure>(),
+  observations: jsonb("observations").$type<OreBlockObservation[]>(), // Set on VERIFICATION_CONFLICT
+});
+
 // OAuth tokens table - stores authentication tokens for external services (e.g., Twitter)
 export const oauthTokens = pgTable("oauth_tokens", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -230,3 +281,8 @@ export type VerificationToken = typeof verificationTokens.$inferSelect;
 
 export type InsertOreMiningRound = z.infer<typeof insertOreMiningRoundSchema>;
 export type OreMiningRound = typeof oreMiningRounds.$inferSelect;
+
+export type CommitRevealSessionRow = typeof commitRevealSessions.$inferSelect;
+export type CommitRevealCommitmentRow = typeof commitRevealCommitments.$inferSelect;
+export type OreBlockCommitmentRow = typeof oreBlockCommitments.$inferSelect;
+export type OreBlockVerificationRow = typeof oreBlockVerifications.$inferSelect;